@@ -156,11 +156,11 @@ async function collectAnswers(rl: readline.Interface): Promise<ConfigAnswers> {
 
   // 4. Export Format
   logger.info(chalk.bold('\n3️⃣  Export Format'))
-  logger.info(chalk.gray('   Choose export format (markdown/pdf/docx)'))
+  logger.info(chalk.gray('   Choose export format (markdown/pdf/docx/json)'))
   const formatInput = await rl.question(chalk.cyan('   Format [markdown]: '))
   const format = formatInput.trim().toLowerCase() || 'markdown'
-  if (!['markdown', 'pdf', 'docx'].includes(format)) {
-    throw new Error('Invalid format. Must be markdown, pdf, or docx.')
+  if (!['markdown', 'pdf', 'docx', 'json'].includes(format)) {
+    throw new Error('Invalid format. Must be markdown, pdf, docx, or json.')
   }
 
   // 5. Output Directory
@@ -181,7 +181,7 @@ async function collectAnswers(rl: readline.Interface): Promise<ConfigAnswers> {
     baseUrl: baseUrl.trim(),
     email: email.trim(),
     token: token.trim(),
-    format: format as 'markdown' | 'pdf' | 'docx',
+    format: format as 'markdown' | 'pdf' | 'docx' | 'json',
     output: output.trim(),
     includeAttachments,
   }
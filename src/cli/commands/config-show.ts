@@ -0,0 +1,105 @@
+import { getLogger } from '../ui/logger.js'
+import { inspectConfig, flattenConfig, type ConfigSource } from '../../config/index.js'
+import type { PartialConfig } from '../../config/config-schema.js'
+import chalk from 'chalk'
+
+export interface ShowConfigOptions {
+  json: boolean
+  email?: string
+  token?: string
+  baseUrl?: string
+  format?: string
+  output?: string
+}
+
+/**
+ * Keys whose values are never printed in full
+ */
+const SECRET_KEYS = new Set(['token'])
+
+const SOURCE_COLORS: Record<ConfigSource, (text: string) => string> = {
+  default: chalk.gray,
+  file: chalk.blue,
+  env: chalk.magenta,
+  cli: chalk.green,
+}
+
+/**
+ * Show the effective configuration with the layer each value came from
+ */
+export async function showConfig(options: ShowConfigOptions): Promise<void> {
+  const logger = getLogger()
+
+  // Step 1: Load all layers without failing on invalid values
+  const cliConfig: PartialConfig = {
+    baseUrl: options.baseUrl,
+    email: options.email,
+    token: options.token,
+    format: options.format as PartialConfig['format'],
+    output: options.output,
+  }
+
+  const inspection = await inspectConfig(cliConfig)
+  const entries = flattenConfig(inspection.config).map(([key, value]) => ({
+    key,
+    value: SECRET_KEYS.has(key) ? maskSecret(value) : value,
+    source: inspection.sources[key] ?? 'default',
+  }))
+
+  // Step 2: JSON output for scripts
+  if (options.json) {
+    const output = {
+      valid: inspection.issues.length === 0,
+      file: inspection.filePath ?? null,
+      config: Object.fromEntries(entries.map(({ key, value }) => [key, value])),
+      sources: Object.fromEntries(entries.map(({ key, source }) => [key, source])),
+      errors: inspection.issues,
+    }
+    process.stdout.write(JSON.stringify(output, null, 2) + '\n')
+
+    if (inspection.issues.length > 0) {
+      process.exit(1)
+    }
+    return
+  }
+
+  // Step 3: Human readable output
+  logger.info(chalk.bold('Effective configuration'))
+  logger.info(
+    chalk.gray(`Config file: ${inspection.filePath ?? 'none found (using defaults and env)'}\n`)
+  )
+
+  const keyWidth = Math.max(...entries.map(({ key }) => key.length))
+  for (const { key, value, source } of entries) {
+    logger.info(
+      `  ${key.padEnd(keyWidth)}  ${formatValue(value)}  ${SOURCE_COLORS[source](`(${source})`)}`
+    )
+  }
+
+  // Step 4: Validation result
+  if (inspection.issues.length > 0) {
+    logger.error(chalk.red(`\n✗ Configuration is invalid (${inspection.issues.length} errors):`))
+    for (const issue of inspection.issues) {
+      logger.error(chalk.red(`  ✗ ${issue.path}: ${issue.message}`))
+    }
+    process.exit(1)
+  }
+
+  logger.info(chalk.green('\n✓ Configuration is valid'))
+}
+
+/**
+ * Mask a secret, keeping the last 4 characters of long values for identification
+ */
+export function maskSecret(value: unknown): string {
+  const secret = typeof value === 'string' ? value : JSON.stringify(value)
+  if (!secret) {
+    return ''
+  }
+
+  return secret.length > 12 ? `********${secret.slice(-4)}` : '********'
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
@@ -0,0 +1,116 @@
+import { getLogger } from '../ui/logger.js'
+import { loadConfig, getMissingCredentials } from '../../config/index.js'
+import type { PartialConfig } from '../../config/config-schema.js'
+import { createApiClient, runDiagnostics, type CheckStatus } from '../../core/index.js'
+import chalk from 'chalk'
+
+export interface TestConfigOptions {
+  email?: string
+  token?: string
+  baseUrl?: string
+  json: boolean
+  verbose: boolean
+}
+
+const STATUS_SYMBOLS: Record<CheckStatus, string> = {
+  pass: chalk.green('✓'),
+  warn: chalk.yellow('⚠'),
+  fail: chalk.red('✗'),
+  skip: chalk.gray('-'),
+}
+
+/**
+ * Diagnose the connection to Confluence
+ * Exits with code 1 when any check fails
+ */
+export async function testConfig(options: TestConfigOptions): Promise<void> {
+  const logger = getLogger()
+
+  try {
+    // Step 1: Load configuration
+    const cliConfig: PartialConfig = {
+      baseUrl: options.baseUrl,
+      email: options.email,
+      token: options.token,
+    }
+
+    const config = await loadConfig(cliConfig)
+
+    if (!config.baseUrl) {
+      logger.error(chalk.red('Missing required configuration: baseUrl'))
+      logger.info('Set it via --base-url, CONFLUENCE_BASE_URL, or config file')
+      process.exit(1)
+    }
+
+    const missingCredentials = getMissingCredentials(config)
+    if (!options.json && missingCredentials.length > 0) {
+      logger.warn(
+        chalk.yellow(`⚠ ${missingCredentials.join(', ')} not set, requests will be anonymous`)
+      )
+    }
+
+    // Step 2: Run checks
+    const apiClient = createApiClient({
+      baseUrl: config.baseUrl,
+      email: config.email,
+      token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
+      timeout: config.api?.timeout,
+      // Fail fast instead of waiting out rate-limit retries
+      retries: 0,
+    })
+
+    if (!options.json) {
+      logger.info(chalk.cyan(`Running diagnostics against ${config.baseUrl}...\n`))
+    }
+
+    const report = await runDiagnostics({ apiClient, baseUrl: config.baseUrl })
+
+    // Step 3: Report
+    if (options.json) {
+      process.stdout.write(JSON.stringify(report, null, 2) + '\n')
+    } else {
+      for (const check of report.checks) {
+        logger.info(`  ${STATUS_SYMBOLS[check.status]} ${check.name}: ${check.message}`)
+      }
+
+      logger.info(
+        `\n  Deployment: ${chalk.cyan(report.deployment.type)} (${report.deployment.reason})`
+      )
+
+      const rateLimitHeaders = Object.entries(report.rateLimit)
+      if (rateLimitHeaders.length > 0) {
+        logger.info('  Rate limit:')
+        for (const [name, value] of rateLimitHeaders) {
+          logger.info(`    ${name}: ${value}`)
+        }
+      } else {
+        logger.info(chalk.gray('  Rate limit: no rate-limit headers returned'))
+      }
+
+      if (report.success) {
+        logger.info(chalk.green.bold('\n✓ All checks passed'))
+      } else {
+        logger.error(chalk.red.bold('\n✗ Some checks failed'))
+      }
+    }
+
+    if (!report.success) {
+      process.exit(1)
+    }
+  } catch (error) {
+    logger.error(chalk.red('Diagnostics failed:'), error)
+
+    if (error instanceof Error) {
+      logger.error(chalk.red(error.message))
+
+      if (options.verbose) {
+        logger.error(chalk.gray(error.stack || ''))
+      }
+    }
+
+    process.exit(1)
+  }
+}
@@ -1,19 +1,20 @@
 import { getLogger } from '../ui/logger.js'
-import { loadConfig } from '../../config/index.js'
+import { loadConfig, getMissingCredentials } from '../../config/index.js'
 import type { PartialConfig } from '../../config/config-schema.js'
-import {
-  createApiClient,
-  createContentFetcher,
-  createAttachmentHandler,
-} from '../../core/index.js'
-import { createMarkdownConverter } from '../../converters/markdown-converter.js'
+import { createApiClient, createContentFetcher, createAttachmentHandler } from '../../core/index.js'
+import { createConverter } from '../../converters/converter-factory.js'
+import { hasDrawioDiagrams } from '../../converters/macro-handlers/diagram-handler.js'
+import { createLinkResolver } from '../../converters/link-resolver.js'
+import { createPagePropertiesReportBuilder } from '../../converters/page-properties-report.js'
 import {
   createDirectoryManager,
   createFileWriter,
   createAssetDownloader,
+  type ManifestPage,
 } from '../../storage/index.js'
 import { readFile } from 'fs/promises'
 import chalk from 'chalk'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
 
 export interface ExportBatchOptions {
   file: string
@@ -23,6 +24,7 @@ export interface ExportBatchOptions {
   token?: string
   baseUrl?: string
   includeAttachments: boolean
+  includeComments?: boolean
   dryRun: boolean
   verbose: boolean
 }
@@ -110,18 +112,19 @@ export async function exportBatch(options: ExportBatchOptions): Promise<void> {
       baseUrl: options.baseUrl,
       email: options.email,
       token: options.token,
-      format: options.format as 'markdown' | 'pdf' | 'docx',
+      format: options.format as 'markdown' | 'pdf' | 'docx' | 'json',
       output: options.output,
       includeAttachments: options.includeAttachments,
+      includeComments: options.includeComments,
     }
 
     const config = await loadConfig(cliConfig)
 
-    if (!config.baseUrl || !config.email || !config.token) {
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
       logger.error(
-        chalk.red(
-          'Missing required configuration: baseUrl, email, and token are required',
-        ),
+        chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`)
       )
       logger.info('Set them via CLI flags, environment variables, or config file')
       process.exit(1)
@@ -134,6 +137,9 @@ export async function exportBatch(options: ExportBatchOptions): Promise<void> {
       baseUrl: config.baseUrl,
       email: config.email,
       token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
       timeout: config.api?.timeout,
       retries: config.api?.retries,
     })
@@ -161,6 +167,7 @@ export async function exportBatch(options: ExportBatchOptions): Promise<void> {
       logger.info(`Format: ${config.format}`)
       logger.info(`Output: ${config.output}`)
       logger.info(`Include attachments: ${config.includeAttachments}`)
+      logger.info(`Include comments: ${config.includeComments}`)
       logger.info('\nPages to export:')
       for (const item of items.slice(0, 10)) {
         logger.info(`  - ${item.pageId}${item.title ? ` (${item.title})` : ''}`)
@@ -187,129 +194,182 @@ export async function exportBatch(options: ExportBatchOptions): Promise<void> {
     // Step 6: Export pages
     logger.info(`Exporting ${items.length} pages...`)
 
-    const converter = createMarkdownConverter(config.conversion?.markdown)
-    const fileExtension = converter.getFileExtension()
+    const converter = createConverter(config.format, config.conversion)
 
-    const manifestPages = []
-    let successCount = 0
-    let errorCount = 0
-    const errors: Array<{ pageId: string; error: string }> = []
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher)
 
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i]
-      const progress = `[${i + 1}/${items.length}]`
+    try {
+      const embedsImages = ['pdf', 'docx'].includes(converter.getFormatName())
+      const fileExtension = converter.getFileExtension()
 
-      try {
-        logger.info(`${progress} Fetching page ${item.pageId}...`)
+      const manifestPages: ManifestPage[] = []
+      let successCount = 0
+      let errorCount = 0
+      const errors: Array<{ pageId: string; error: string }> = []
 
-        // Fetch page
-        const page = await contentFetcher.fetchPage(item.pageId)
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i]
+        const progress = `[${i + 1}/${items.length}]`
 
-        logger.info(`${progress} Processing: ${chalk.cyan(page.title)}`)
+        try {
+          logger.info(`${progress} Fetching page ${item.pageId}...`)
 
-        // Convert page
-        const converted = await converter.convert(page)
+          // Fetch page
+          const page = await contentFetcher.fetchPage(item.pageId)
 
-        // Save page content
-        const pagePath = await directoryManager.getPageFilePath(
-          page.spaceKey,
-          page.title,
-          fileExtension,
-        )
+          logger.info(`${progress} Processing: ${chalk.cyan(page.title)}`)
+
+          if (config.includeComments) {
+            page.comments = await contentFetcher.fetchPageComments(page.id)
+          }
 
-        await fileWriter.writeText(pagePath, converted.content)
+          // Binary formats embed images, so they must be on disk before converting
+          if (embedsImages) {
+            await assetDownloader.downloadPageImages(page.id, page.spaceKey)
+          }
 
-        // Download attachments if requested
-        let attachmentCount = 0
-        if (config.includeAttachments) {
-          const downloadResults = await assetDownloader.downloadPageAssets(
-            page.id,
+          // draw.io sources and previews sit next to the other assets
+          if (hasDrawioDiagrams(page.content.storage)) {
+            await assetDownloader.downloadDrawioDiagrams(page.id, page.spaceKey)
+          }
+
+          // Convert page
+          const converted = await converter.convert(page, {
+            baseUrl: config.baseUrl,
+            outputDir: config.output,
+            assetsDir: await directoryManager.getAssetsDirectory(page.spaceKey),
+          })
+
+          // Save page content
+          const pagePath = await directoryManager.getPageFilePath(
             page.spaceKey,
-            true,
+            page.title,
+            fileExtension,
+          )
+
+          const sidecarPaths = await fileWriter.writeConverted(pagePath, converted)
+
+          // Download attachments if requested
+          let attachmentCount = 0
+          if (config.includeAttachments) {
+            const downloadResults = await assetDownloader.downloadPageAssets(
+              page.id,
+              page.spaceKey,
+              true,
+            )
+            attachmentCount = downloadResults.filter((r) => r.success).length
+          }
+
+          // Add to manifest
+          manifestPages.push({
+            id: page.id,
+            title: page.title,
+            spaceKey: page.spaceKey,
+            path: directoryManager.getRelativePath(pagePath),
+            metadata: converted.metadata,
+            attachments: attachmentCount,
+            sidecars:
+              sidecarPaths.length > 0
+                ? sidecarPaths.map((path) => directoryManager.getRelativePath(path))
+                : undefined,
+          })
+
+          successCount++
+          logger.info(
+            chalk.green(
+              `  ✓ Saved: ${page.title}${attachmentCount > 0 ? ` (${attachmentCount} attachments)` : ''}`,
+            ),
+          )
+        } catch (error) {
+          errorCount++
+          const errorMessage =
+            error instanceof Error ? error.message : String(error)
+          errors.push({ pageId: item.pageId, error: errorMessage })
+          logger.error(
+            chalk.red(`  ✗ Failed to export ${item.pageId}:`),
+            errorMessage,
           )
-          attachmentCount = downloadResults.filter((r) => r.success).length
         }
+      }
 
-        // Add to manifest
-        manifestPages.push({
-          id: page.id,
-          title: page.title,
-          spaceKey: page.spaceKey,
-          path: directoryManager.getRelativePath(pagePath),
-          metadata: converted.metadata,
-          attachments: attachmentCount,
-        })
-
-        successCount++
-        logger.info(
-          chalk.green(
-            `  ✓ Saved: ${page.title}${attachmentCount > 0 ? ` (${attachmentCount} attachments)` : ''}`,
-          ),
-        )
-      } catch (error) {
-        errorCount++
-        const errorMessage =
-          error instanceof Error ? error.message : String(error)
-        errors.push({ pageId: item.pageId, error: errorMessage })
-        logger.error(
-          chalk.red(`  ✗ Failed to export ${item.pageId}:`),
-          errorMessage,
+      // Step 7: Fill page properties reports and rewrite internal links between exported pages
+      if (converter.getFormatName() === 'markdown') {
+        await createPagePropertiesReportBuilder({ pages: manifestPages }).buildFiles(
+          directoryManager.getRootDirectory(),
+          fileWriter,
         )
       }
-    }
 
-    // Step 7: Save manifest
-    const manifest = {
-      exportedAt: new Date().toISOString(),
-      tool: 'conflu-exporter',
-      version: '0.1.0',
-      format: config.format,
-      batch: {
-        file: options.file,
-        totalItems: items.length,
-      },
-      options: {
-        includeAttachments: config.includeAttachments,
-      },
-      pages: manifestPages,
-      summary: {
-        total: items.length,
-        successful: successCount,
-        failed: errorCount,
-      },
-      errors: errors.length > 0 ? errors : undefined,
-    }
+      const links =
+        converter.getFormatName() === 'markdown'
+          ? await createLinkResolver({
+              pages: manifestPages,
+              baseUrl: apiClient.getWebBaseUrl(),
+            }).resolveFiles(directoryManager.getRootDirectory(), fileWriter)
+          : undefined
+
+      // Step 8: Save manifest
+      const manifest = {
+        exportedAt: new Date().toISOString(),
+        tool: 'conflu-exporter',
+        version: '0.1.0',
+        format: config.format,
+        batch: {
+          file: options.file,
+          totalItems: items.length,
+        },
+        options: {
+          includeAttachments: config.includeAttachments,
+          includeComments: config.includeComments,
+        },
+        pages: manifestPages,
+        links,
+        summary: {
+          total: items.length,
+          successful: successCount,
+          failed: errorCount,
+        },
+        errors: errors.length > 0 ? errors : undefined,
+      }
 
-    const manifestPath = directoryManager.getManifestPath()
-    await fileWriter.writeJson(manifestPath, manifest)
+      const manifestPath = directoryManager.getManifestPath()
+      await fileWriter.writeJson(manifestPath, manifest)
 
-    logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
+      await saveConverterCaches(converterSetup, config, fileWriter)
 
-    // Step 8: Success summary
-    logger.info(chalk.green.bold('\n✓ Batch export complete!'))
-    logger.info(`\nExport summary:`)
-    logger.info(`  Total pages: ${items.length}`)
-    logger.info(`  Successful: ${chalk.green(successCount)}`)
-    if (errorCount > 0) {
-      logger.info(`  Failed: ${chalk.red(errorCount)}`)
-    }
-    logger.info(`  Output: ${chalk.cyan(config.output)}`)
-    logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
-
-    if (errorCount > 0) {
-      logger.warn(
-        chalk.yellow(
-          `\n⚠ Some pages failed to export. Check logs for details.`,
-        ),
-      )
-      logger.info(`\nFailed pages:`)
-      for (const err of errors.slice(0, 5)) {
-        logger.info(`  - ${err.pageId}: ${err.error}`)
+      logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
+
+      // Step 9: Success summary
+      logger.info(chalk.green.bold('\n✓ Batch export complete!'))
+      logger.info(`\nExport summary:`)
+      logger.info(`  Total pages: ${items.length}`)
+      logger.info(`  Successful: ${chalk.green(successCount)}`)
+      if (errorCount > 0) {
+        logger.info(`  Failed: ${chalk.red(errorCount)}`)
       }
-      if (errors.length > 5) {
-        logger.info(`  ... and ${errors.length - 5} more errors`)
+      logger.info(`  Output: ${chalk.cyan(config.output)}`)
+      if (links) {
+        logger.info(`  Links: ${links.resolved} resolved, ${links.unresolved.length} unresolved`)
       }
-      process.exit(1)
+      logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
+
+      if (errorCount > 0) {
+        logger.warn(
+          chalk.yellow(
+            `\n⚠ Some pages failed to export. Check logs for details.`,
+          ),
+        )
+        logger.info(`\nFailed pages:`)
+        for (const err of errors.slice(0, 5)) {
+          logger.info(`  - ${err.pageId}: ${err.error}`)
+        }
+        if (errors.length > 5) {
+          logger.info(`  ... and ${errors.length - 5} more errors`)
+        }
+        process.exitCode = 1
+      }
+    } finally {
+      await closeConverter(converter, converterSetup)
     }
   } catch (error) {
     logger.error(chalk.red('Batch export failed:'), error)
@@ -0,0 +1,369 @@
+import { getLogger } from '../ui/logger.js'
+import { loadConfig, getMissingCredentials } from '../../config/index.js'
+import type { PartialConfig } from '../../config/config-schema.js'
+import { createApiClient, createContentFetcher, createAttachmentHandler } from '../../core/index.js'
+import { createConverter } from '../../converters/converter-factory.js'
+import { hasDrawioDiagrams } from '../../converters/macro-handlers/diagram-handler.js'
+import { createLinkResolver } from '../../converters/link-resolver.js'
+import {
+  createDirectoryManager,
+  createFileWriter,
+  createAssetDownloader,
+  readManifest,
+  type ExportManifest,
+  type ManifestPage,
+} from '../../storage/index.js'
+import chalk from 'chalk'
+import type { BlogPostDateRange } from '../../types.js'
+import { parseDate } from '../../utils.js'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
+
+export interface ExportBlogOptions {
+  spaceKey: string
+  /**
+   * First publish date to export (YYYY-MM-DD, inclusive)
+   */
+  from?: string
+  /**
+   * Last publish date to export (YYYY-MM-DD, inclusive)
+   */
+  to?: string
+  format: string
+  output: string
+  email?: string
+  token?: string
+  baseUrl?: string
+  includeAttachments: boolean
+  includeComments?: boolean
+  dryRun: boolean
+  verbose: boolean
+}
+
+/**
+ * Export the blog posts of a Confluence space
+ */
+export async function exportBlog(options: ExportBlogOptions): Promise<void> {
+  const logger = getLogger()
+
+  try {
+    logger.info(chalk.cyan(`Starting blog export of space ${options.spaceKey}...`))
+
+    // Step 1: Parse the date range
+    const range: BlogPostDateRange = {
+      from: options.from ? parseDate(options.from) : undefined,
+      to: options.to ? parseDate(options.to, true) : undefined,
+    }
+
+    if ((options.from && !range.from) || (options.to && !range.to)) {
+      logger.error(chalk.red('Invalid date: use the YYYY-MM-DD format for --from and --to'))
+      process.exit(1)
+    }
+
+    if (range.from && range.to && range.from > range.to) {
+      logger.error(chalk.red('Invalid date range: --from is after --to'))
+      process.exit(1)
+    }
+
+    // Step 2: Load configuration
+    const cliConfig: PartialConfig = {
+      baseUrl: options.baseUrl,
+      email: options.email,
+      token: options.token,
+      format: options.format as 'markdown' | 'pdf' | 'docx' | 'json',
+      output: options.output,
+      includeAttachments: options.includeAttachments,
+      includeComments: options.includeComments,
+    }
+
+    const config = await loadConfig(cliConfig)
+
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
+      logger.error(chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`))
+      logger.info('Set them via CLI flags, environment variables, or config file')
+      process.exit(1)
+    }
+
+    logger.debug(`Configuration loaded: ${config.baseUrl}`)
+
+    // Blog posts are added to the manifest of a previous export in the same output directory
+    const manifestPath = createDirectoryManager(config.output).getManifestPath()
+    const previous = await readManifest(manifestPath)
+
+    if (previous && previous.space.key !== options.spaceKey) {
+      logger.error(
+        chalk.red(
+          `Manifest at ${manifestPath} belongs to space ${previous.space.key}, not ${options.spaceKey}`
+        )
+      )
+      logger.info('Use a separate output directory per space')
+      process.exit(1)
+    }
+
+    if (previous && previous.format !== config.format) {
+      logger.error(chalk.red(`Output at ${config.output} is a ${previous.format} export`))
+      logger.info(`Re-run with --format ${previous.format} or use a separate output directory`)
+      process.exit(1)
+    }
+
+    // Step 3: Initialize components
+    const apiClient = createApiClient({
+      baseUrl: config.baseUrl,
+      email: config.email,
+      token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
+      timeout: config.api?.timeout,
+      retries: config.api?.retries,
+    })
+
+    const contentFetcher = createContentFetcher({ apiClient })
+    const attachmentHandler = createAttachmentHandler({ apiClient })
+
+    logger.debug('API client initialized')
+
+    // Step 4: Test connection
+    logger.info('Testing API connection...')
+    const connected = await apiClient.testConnection()
+
+    if (!connected) {
+      logger.error(chalk.red('Failed to connect to Confluence API'))
+      logger.info('Please check your baseUrl, email, and token')
+      process.exit(1)
+    }
+
+    logger.info(chalk.green('✓ Connected to Confluence API'))
+
+    // Step 5: Fetch blog posts in range
+    logger.info(`Fetching blog posts from space ${options.spaceKey}...`)
+    const posts = await contentFetcher.fetchSpaceBlogPosts(options.spaceKey, range)
+
+    if (posts.length === 0) {
+      logger.warn(chalk.yellow(`No blog posts found in space ${options.spaceKey}`))
+      return
+    }
+
+    logger.info(chalk.green(`✓ Found ${posts.length} blog posts`))
+
+    if (options.dryRun) {
+      logger.info(chalk.yellow('\n--- DRY RUN MODE ---'))
+      logger.info(`Would export ${posts.length} blog posts from space: ${options.spaceKey}`)
+      logger.info(`Published from: ${options.from ?? 'any'}`)
+      logger.info(`Published to: ${options.to ?? 'any'}`)
+      logger.info(`Format: ${config.format}`)
+      logger.info(`Output: ${config.output}`)
+      logger.info(`Include attachments: ${config.includeAttachments}`)
+      logger.info(`Include comments: ${config.includeComments}`)
+      logger.info('\nBlog posts to export:')
+      for (const post of posts.slice(0, 10)) {
+        const date = post.metadata?.publishedAt?.toISOString().slice(0, 10) ?? 'undated'
+        logger.info(`  - ${date} ${post.title} (${post.id})`)
+      }
+      if (posts.length > 10) {
+        logger.info(`  ... and ${posts.length - 10} more`)
+      }
+      return
+    }
+
+    // Step 6: Initialize storage
+    const directoryManager = createDirectoryManager(config.output)
+    await directoryManager.initialize()
+
+    const fileWriter = createFileWriter()
+    const assetDownloader = createAssetDownloader({
+      attachmentHandler,
+      fileWriter,
+      directoryManager,
+    })
+
+    logger.info(chalk.green(`✓ Initialized output directory: ${config.output}`))
+
+    // Step 7: Convert and save blog posts
+    logger.info(`Converting and saving ${posts.length} blog posts...`)
+
+    const converter = createConverter(config.format, config.conversion)
+
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher)
+
+    try {
+      const embedsImages = ['pdf', 'docx'].includes(converter.getFormatName())
+      const fileExtension = converter.getFileExtension()
+
+      const manifestPages: ManifestPage[] = []
+      let successCount = 0
+      let errorCount = 0
+
+      for (let i = 0; i < posts.length; i++) {
+        const post = posts[i]
+        const progress = `[${i + 1}/${posts.length}]`
+
+        try {
+          logger.info(`${progress} Processing: ${chalk.cyan(post.title)} (${post.id})`)
+
+          // Binary formats embed images, so they must be on disk before converting
+          if (embedsImages) {
+            await assetDownloader.downloadPageImages(post.id, post.spaceKey)
+          }
+
+          // draw.io sources and previews sit next to the other assets
+          if (hasDrawioDiagrams(post.content.storage)) {
+            await assetDownloader.downloadDrawioDiagrams(post.id, post.spaceKey)
+          }
+
+          if (config.includeComments) {
+            post.comments = await contentFetcher.fetchPageComments(post.id)
+          }
+
+          const location = directoryManager.getBlogPostLocation(
+            post.title,
+            post.metadata?.publishedAt
+          )
+
+          const converted = await converter.convert(post, {
+            baseUrl: config.baseUrl,
+            outputDir: config.output,
+            assetsDir: await directoryManager.getAssetsDirectory(post.spaceKey),
+            assetsPath: directoryManager.getRelativeAssetsPath(location.hierarchyPath.length),
+          })
+
+          const postPath = await directoryManager.getPageFilePath(
+            post.spaceKey,
+            location.fileName,
+            fileExtension,
+            location.hierarchyPath
+          )
+
+          // Save post content (and comments sidecar)
+          const sidecarPaths = await fileWriter.writeConverted(postPath, converted)
+
+          // Download attachments if requested
+          let attachmentCount = 0
+          if (config.includeAttachments) {
+            const downloadResults = await assetDownloader.downloadPageAssets(
+              post.id,
+              post.spaceKey,
+              true
+            )
+            attachmentCount = downloadResults.filter((r) => r.success).length
+          }
+
+          manifestPages.push({
+            id: post.id,
+            title: post.title,
+            spaceKey: post.spaceKey,
+            path: directoryManager.getRelativePath(postPath),
+            version: post.version,
+            type: 'blogpost',
+            publishedAt: post.metadata?.publishedAt?.toISOString(),
+            metadata: converted.metadata,
+            attachments: attachmentCount,
+            sidecars:
+              sidecarPaths.length > 0
+                ? sidecarPaths.map((path) => directoryManager.getRelativePath(path))
+                : undefined,
+          })
+
+          successCount++
+          logger.info(
+            chalk.green(
+              `  ✓ Saved: ${post.title}${attachmentCount > 0 ? ` (${attachmentCount} attachments)` : ''}`
+            )
+          )
+        } catch (error) {
+          errorCount++
+          logger.error(
+            chalk.red(`  ✗ Failed to export ${post.title}:`),
+            error instanceof Error ? error.message : error
+          )
+        }
+      }
+
+      // Pages and earlier posts of a previous export stay in the manifest
+      const exportedIds = new Set(manifestPages.map((page) => page.id))
+      const allPages = [
+        ...(previous?.pages.filter((page) => !exportedIds.has(page.id)) ?? []),
+        ...manifestPages,
+      ]
+
+      // Step 8: Rewrite internal links between exported posts and pages
+      const links =
+        converter.getFormatName() === 'markdown'
+          ? await createLinkResolver({
+              pages: allPages,
+              baseUrl: apiClient.getWebBaseUrl(),
+            }).resolveFiles(directoryManager.getRootDirectory(), fileWriter)
+          : undefined
+
+      // Step 9: Save manifest
+      const manifest: ExportManifest = {
+        exportedAt: new Date().toISOString(),
+        tool: 'conflu-exporter',
+        version: '0.1.0',
+        format: config.format,
+        space: {
+          key: options.spaceKey,
+          pageCount: previous?.space.pageCount ?? 0,
+          blogPostCount: allPages.filter((page) => page.type === 'blogpost').length,
+        },
+        options: previous
+          ? { ...previous.options, includeBlogs: true }
+          : {
+              includeAttachments: config.includeAttachments,
+              includeChildren: false,
+              flat: false,
+              includeComments: config.includeComments,
+              includeBlogs: true,
+            },
+        pages: allPages,
+        links,
+        summary: {
+          total: posts.length,
+          successful: successCount,
+          failed: errorCount,
+        },
+      }
+
+      await fileWriter.writeJson(manifestPath, manifest)
+
+      await saveConverterCaches(converterSetup, config, fileWriter)
+
+      logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
+
+      // Step 10: Success summary
+      logger.info(chalk.green.bold('\n✓ Blog export complete!'))
+      logger.info(`\nExport summary:`)
+      logger.info(`  Space: ${chalk.cyan(options.spaceKey)}`)
+      logger.info(`  Blog posts: ${posts.length}`)
+      logger.info(`  Successful: ${chalk.green(successCount)}`)
+      if (errorCount > 0) {
+        logger.info(`  Failed: ${chalk.red(errorCount)}`)
+      }
+      logger.info(`  Output: ${chalk.cyan(config.output)}`)
+      if (links) {
+        logger.info(`  Links: ${links.resolved} resolved, ${links.unresolved.length} unresolved`)
+      }
+      logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
+
+      if (errorCount > 0) {
+        logger.warn(chalk.yellow(`\n⚠ Some blog posts failed to export. Check logs for details.`))
+        process.exitCode = 1
+      }
+    } finally {
+      await closeConverter(converter, converterSetup)
+    }
+  } catch (error) {
+    logger.error(chalk.red('Blog export failed:'), error)
+
+    if (error instanceof Error) {
+      logger.error(chalk.red(error.message))
+
+      if (options.verbose) {
+        logger.error(chalk.gray(error.stack || ''))
+      }
+    }
+
+    process.exit(1)
+  }
+}
@@ -0,0 +1,234 @@
+import { join, relative, sep } from 'path'
+import { getLogger } from '../ui/logger.js'
+import { loadConfig, getMissingCredentials } from '../../config/index.js'
+import type { PartialConfig } from '../../config/config-schema.js'
+import { createApiClient, createContentFetcher, getVersionAuthorName } from '../../core/index.js'
+import { createConverter } from '../../converters/converter-factory.js'
+import {
+  createDirectoryManager,
+  createFileWriter,
+  buildChangelog,
+  HISTORY_LAYOUTS,
+  type ChangelogEntry,
+  type HistoryLayout,
+} from '../../storage/index.js'
+import chalk from 'chalk'
+import type { PageVersionOptions } from '../../types.js'
+import { parseDate } from '../../utils.js'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
+
+export interface ExportHistoryOptions {
+  pageId: string
+  output: string
+  email?: string
+  token?: string
+  baseUrl?: string
+  /**
+   * Skip versions saved before this date (YYYY-MM-DD)
+   */
+  since?: string
+  /**
+   * Keep only the most recent N versions
+   */
+  maxVersions?: string
+  layout: string
+  dryRun: boolean
+  verbose: boolean
+}
+
+/**
+ * Export every saved version of a page as markdown, with a CHANGELOG.md
+ */
+export async function exportHistory(options: ExportHistoryOptions): Promise<void> {
+  const logger = getLogger()
+
+  try {
+    logger.info(chalk.cyan(`Starting history export of page ${options.pageId}...`))
+
+    // Step 1: Validate options
+    const versionOptions: PageVersionOptions = {
+      since: options.since ? parseDate(options.since) : undefined,
+      maxVersions: options.maxVersions ? Number(options.maxVersions) : undefined,
+    }
+
+    if (options.since && !versionOptions.since) {
+      logger.error(chalk.red('Invalid date: use the YYYY-MM-DD format for --since'))
+      process.exit(1)
+    }
+
+    if (
+      versionOptions.maxVersions !== undefined &&
+      (!Number.isInteger(versionOptions.maxVersions) || versionOptions.maxVersions < 1)
+    ) {
+      logger.error(chalk.red('Invalid --max-versions: use a positive whole number'))
+      process.exit(1)
+    }
+
+    if (!HISTORY_LAYOUTS.includes(options.layout as HistoryLayout)) {
+      logger.error(
+        chalk.red(`Invalid layout "${options.layout}": use ${HISTORY_LAYOUTS.join(' or ')}`)
+      )
+      process.exit(1)
+    }
+
+    const layout = options.layout as HistoryLayout
+
+    // Step 2: Load configuration (history is always exported as markdown)
+    const cliConfig: PartialConfig = {
+      baseUrl: options.baseUrl,
+      email: options.email,
+      token: options.token,
+      format: 'markdown',
+      output: options.output,
+    }
+
+    const config = await loadConfig(cliConfig)
+
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
+      logger.error(chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`))
+      logger.info('Set them via CLI flags, environment variables, or config file')
+      process.exit(1)
+    }
+
+    logger.debug(`Configuration loaded: ${config.baseUrl}`)
+
+    // Step 3: Initialize components
+    const apiClient = createApiClient({
+      baseUrl: config.baseUrl,
+      email: config.email,
+      token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
+      timeout: config.api?.timeout,
+      retries: config.api?.retries,
+    })
+
+    const contentFetcher = createContentFetcher({ apiClient })
+
+    logger.debug('API client initialized')
+
+    // Step 4: Test connection
+    logger.info('Testing API connection...')
+    const connected = await apiClient.testConnection()
+
+    if (!connected) {
+      logger.error(chalk.red('Failed to connect to Confluence API'))
+      logger.info('Please check your baseUrl, email, and token')
+      process.exit(1)
+    }
+
+    logger.info(chalk.green('✓ Connected to Confluence API'))
+
+    // Step 5: Fetch versions
+    const versions = await contentFetcher.fetchPageVersions(options.pageId, versionOptions)
+
+    if (versions.length === 0) {
+      logger.warn(chalk.yellow(`No versions of page ${options.pageId} match the filters`))
+      return
+    }
+
+    // Files are named after the current title, even if the page was renamed
+    const latest = versions[versions.length - 1].page
+
+    logger.info(chalk.green(`✓ Found ${versions.length} versions of ${latest.title}`))
+
+    if (options.dryRun) {
+      logger.info(chalk.yellow('\n--- DRY RUN MODE ---'))
+      logger.info(`Would export ${versions.length} versions of page: ${latest.title}`)
+      logger.info(`Output: ${config.output}`)
+      logger.info(`Layout: ${layout}`)
+      logger.info('\nVersions to export:')
+      for (const version of versions) {
+        const date = version.createdAt?.toISOString().slice(0, 10) ?? 'undated'
+        logger.info(`  - v${version.number} ${date}${version.message ? ` ${version.message}` : ''}`)
+      }
+      return
+    }
+
+    // Step 6: Initialize storage
+    const directoryManager = createDirectoryManager(config.output)
+    await directoryManager.initialize()
+
+    const fileWriter = createFileWriter()
+    const historyDir = await directoryManager.getPageHistoryDirectory(latest.spaceKey, latest.title)
+
+    logger.info(chalk.green(`✓ Initialized output directory: ${config.output}`))
+
+    // Step 7: Convert and save versions
+    const converter = createConverter('markdown', config.conversion)
+
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher, {
+      renderMermaid: false,
+    })
+
+    try {
+      const entries: ChangelogEntry[] = []
+
+      for (const version of versions) {
+        const location = directoryManager.getPageVersionLocation(
+          latest.title,
+          version.number,
+          layout
+        )
+
+        const converted = await converter.convert(version.page, {
+          baseUrl: config.baseUrl,
+          outputDir: config.output,
+          assetsDir: await directoryManager.getAssetsDirectory(latest.spaceKey),
+          assetsPath: directoryManager.getRelativeAssetsPath(location.hierarchyPath.length),
+        })
+
+        const versionPath = await directoryManager.getPageFilePath(
+          latest.spaceKey,
+          location.fileName,
+          converter.getFileExtension(),
+          location.hierarchyPath
+        )
+
+        await fileWriter.writeConverted(versionPath, converted)
+
+        entries.push({
+          version: version.number,
+          author: await getVersionAuthorName(version, converterSetup.users),
+          date: version.createdAt,
+          message: version.message,
+          minorEdit: version.minorEdit,
+          path: relative(historyDir, versionPath).split(sep).join('/'),
+        })
+
+        logger.info(chalk.green(`  ✓ Saved: v${version.number}`))
+      }
+
+      // Step 8: Write the changelog
+      const changelogPath = join(historyDir, 'CHANGELOG.md')
+      await fileWriter.writeText(changelogPath, buildChangelog(latest.title, entries))
+
+      await saveConverterCaches(converterSetup, config, fileWriter)
+
+      // Step 9: Success summary
+      logger.info(chalk.green.bold('\n✓ History export complete!'))
+      logger.info(`\nExport summary:`)
+      logger.info(`  Page: ${chalk.cyan(latest.title)}`)
+      logger.info(`  Versions: ${versions.length}`)
+      logger.info(`  Output: ${chalk.cyan(historyDir)}`)
+      logger.info(`  Changelog: ${chalk.cyan(changelogPath)}`)
+    } finally {
+      await closeConverter(converter, converterSetup)
+    }
+  } catch (error) {
+    logger.error(chalk.red('History export failed:'), error)
+
+    if (error instanceof Error) {
+      logger.error(chalk.red(error.message))
+
+      if (options.verbose) {
+        logger.error(chalk.gray(error.stack || ''))
+      }
+    }
+
+    process.exit(1)
+  }
+}
@@ -1,27 +1,33 @@
 import { getLogger } from '../ui/logger.js'
-import { loadConfig } from '../../config/index.js'
+import { loadConfig, getMissingCredentials } from '../../config/index.js'
 import type { PartialConfig } from '../../config/config-schema.js'
-import {
-  createApiClient,
-  createContentFetcher,
-  createAttachmentHandler,
-} from '../../core/index.js'
-import { createMarkdownConverter } from '../../converters/markdown-converter.js'
+import { createApiClient, createContentFetcher, createAttachmentHandler } from '../../core/index.js'
+import { createConverter } from '../../converters/converter-factory.js'
+import { hasDrawioDiagrams } from '../../converters/macro-handlers/diagram-handler.js'
 import {
   createDirectoryManager,
   createFileWriter,
   createAssetDownloader,
 } from '../../storage/index.js'
 import chalk from 'chalk'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
 
 export interface ExportPageOptions {
-  pageId: string
+  pageId?: string
+  /**
+   * Look the page up by title when no ID is known (Data Center /display/ URLs)
+   */
+  pageTitle?: {
+    spaceKey: string
+    title: string
+  }
   format: string
   output: string
   email?: string
   token?: string
   baseUrl?: string
   includeAttachments: boolean
+  includeComments?: boolean
   dryRun: boolean
   verbose: boolean
 }
@@ -33,25 +39,27 @@ export async function exportPage(options: ExportPageOptions): Promise<void> {
   const logger = getLogger()
 
   try {
-    logger.info(chalk.cyan(`Starting export of page ${options.pageId}...`))
+    const pageLabel = options.pageId ?? `"${options.pageTitle?.title}"`
+    logger.info(chalk.cyan(`Starting export of page ${pageLabel}...`))
 
     // Step 1: Load configuration
     const cliConfig: PartialConfig = {
       baseUrl: options.baseUrl,
       email: options.email,
       token: options.token,
-      format: options.format as 'markdown' | 'pdf' | 'docx',
+      format: options.format as 'markdown' | 'pdf' | 'docx' | 'json',
       output: options.output,
       includeAttachments: options.includeAttachments,
+      includeComments: options.includeComments,
     }
 
     const config = await loadConfig(cliConfig)
 
-    if (!config.baseUrl || !config.email || !config.token) {
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
       logger.error(
-        chalk.red(
-          'Missing required configuration: baseUrl, email, and token are required',
-        ),
+        chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`)
       )
       logger.info('Set them via CLI flags, environment variables, or config file')
       process.exit(1)
@@ -64,6 +72,9 @@ export async function exportPage(options: ExportPageOptions): Promise<void> {
       baseUrl: config.baseUrl,
       email: config.email,
       token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
       timeout: config.api?.timeout,
       retries: config.api?.retries,
     })
@@ -86,10 +97,19 @@ export async function exportPage(options: ExportPageOptions): Promise<void> {
     logger.info(chalk.green('✓ Connected to Confluence API'))
 
     // Step 4: Fetch page
-    logger.info(`Fetching page ${options.pageId}...`)
-    const page = await contentFetcher.fetchPage(options.pageId)
+    const pageId =
+      options.pageId ??
+      (await contentFetcher.findPageId(options.pageTitle!.spaceKey, options.pageTitle!.title))
+
+    logger.info(`Fetching page ${pageId}...`)
+    const page = await contentFetcher.fetchPage(pageId)
 
     logger.info(chalk.green(`✓ Fetched page: "${page.title}"`))
+
+    if (config.includeComments) {
+      page.comments = await contentFetcher.fetchPageComments(page.id)
+      logger.info(chalk.green(`✓ Fetched ${page.comments.length} comment threads`))
+    }
     logger.debug(
       `Page details: space=${page.spaceKey}, version=${page.version}`,
     )
@@ -101,6 +121,7 @@ export async function exportPage(options: ExportPageOptions): Promise<void> {
       logger.info(`Output: ${config.output}`)
       logger.info(`Space: ${page.spaceKey}`)
       logger.info(`Include attachments: ${config.includeAttachments}`)
+      logger.info(`Include comments: ${config.includeComments}`)
       return
     }
 
@@ -128,34 +149,8 @@ export async function exportPage(options: ExportPageOptions): Promise<void> {
       )
     }
 
-    // Step 7: Convert page based on format
-    logger.info(`Converting page to ${config.format}...`)
-
-    let converted: { content: string; metadata: any }
-    let fileExtension: string
-
-    if (config.format === 'markdown') {
-      const converter = createMarkdownConverter(config.conversion?.markdown)
-
-      // CRITICAL: Set mermaid attachments BEFORE converting
-      // This allows the converter to extract diagram source code from .mmd files
-      if (mermaidAttachments.size > 0) {
-        converter['setMermaidAttachments'](mermaidAttachments)
-        logger.debug('Cached mermaid attachments in converter')
-      }
-
-      converted = await converter.convert(page)
-      fileExtension = converter.getFileExtension()
-    } else {
-      logger.error(chalk.red(`Format ${config.format} not yet implemented`))
-      logger.info('Currently only markdown format is supported')
-      process.exit(1)
-    }
-
-    logger.info(chalk.green(`✓ Converted to ${config.format} (${converted.content.length} chars)`))
-
-    // Step 8: Download images BEFORE saving markdown
-    // This ensures images are available when markdown is written
+    // Step 7: Download images BEFORE converting
+    // This ensures images are available when markdown is written and can be embedded in PDFs
     logger.info('Downloading page images...')
 
     const imageResults = await assetDownloader.downloadPageImages(
@@ -185,80 +180,127 @@ export async function exportPage(options: ExportPageOptions): Promise<void> {
       }
     }
 
-    // Step 9: Save page content
-    const pagePath = await directoryManager.getPageFilePath(
-      page.spaceKey,
-      page.title,
-      fileExtension,
-    )
+    // draw.io diagrams: the .drawio source next to the PNG preview, plus the SVG export if any
+    if (hasDrawioDiagrams(page.content.storage)) {
+      const diagramResults = await assetDownloader.downloadDrawioDiagrams(page.id, page.spaceKey)
+      const diagramSuccessCount = diagramResults.filter((r) => r.success).length
+      logger.info(chalk.green(`✓ Downloaded ${diagramSuccessCount} draw.io file(s)`))
+    }
 
-    await fileWriter.writeText(pagePath, converted.content)
+    // Step 8: Convert page based on format
+    logger.info(`Converting page to ${config.format}...`)
 
-    logger.info(chalk.green(`✓ Saved page: ${pagePath}`))
+    const converter = createConverter(config.format, config.conversion)
 
-    // Step 10: Download additional attachments if requested (non-image files)
-    if (config.includeAttachments) {
-      logger.info('Downloading additional attachments...')
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher)
 
-      // Download all attachments (this will include images again, but that's OK - they'll be overwritten)
-      const downloadResults = await assetDownloader.downloadPageAssets(
-        page.id,
-        page.spaceKey,
-        true, // Include all attachments
-        true, // Use flat directory structure
+    try {
+      // CRITICAL: Set mermaid attachments BEFORE converting
+      // This allows the converter to extract diagram source code from .mmd files
+      if (mermaidAttachments.size > 0) {
+        converter['setMermaidAttachments'](mermaidAttachments)
+        logger.debug('Cached mermaid attachments in converter')
+      }
+
+      const converted = await converter.convert(page, {
+        baseUrl: config.baseUrl,
+        outputDir: config.output,
+        assetsDir: await directoryManager.getAssetsDirectory(page.spaceKey),
+      })
+      const fileExtension = converter.getFileExtension()
+
+      logger.info(
+        chalk.green(`✓ Converted to ${config.format} (${converted.content.length} chars)`)
       )
 
-      // Filter to show only non-image results for logging
-      const nonImageResults = downloadResults.filter(
-        (r) => !r.filename.match(/\.(png|jpg|jpeg|gif|svg|webp|bmp|ico)$/i),
+      // Step 9: Save page content
+      const pagePath = await directoryManager.getPageFilePath(
+        page.spaceKey,
+        page.title,
+        fileExtension,
       )
-      const successCount = nonImageResults.filter((r) => r.success).length
-
-      if (successCount > 0) {
-        logger.info(chalk.green(`✓ Downloaded ${successCount} additional attachments`))
-      } else if (nonImageResults.length === 0) {
-        logger.debug('No additional attachments found')
-      } else {
-        logger.warn(
-          chalk.yellow(`⚠ Downloaded ${successCount}/${nonImageResults.length} additional attachments`),
+
+      const sidecarPaths = await fileWriter.writeConverted(pagePath, converted)
+
+      logger.info(chalk.green(`✓ Saved page: ${pagePath}`))
+      for (const sidecarPath of sidecarPaths) {
+        logger.info(chalk.green(`✓ Saved comments: ${sidecarPath}`))
+      }
+
+      // Step 10: Download additional attachments if requested (non-image files)
+      if (config.includeAttachments) {
+        logger.info('Downloading additional attachments...')
+
+        // Download all attachments (this will include images again, but that's OK - they'll be overwritten)
+        const downloadResults = await assetDownloader.downloadPageAssets(
+          page.id,
+          page.spaceKey,
+          true, // Include all attachments
+          true, // Use flat directory structure
         )
+
+        // Filter to show only non-image results for logging
+        const nonImageResults = downloadResults.filter(
+          (r) => !r.filename.match(/\.(png|jpg|jpeg|gif|svg|webp|bmp|ico)$/i),
+        )
+        const successCount = nonImageResults.filter((r) => r.success).length
+
+        if (successCount > 0) {
+          logger.info(chalk.green(`✓ Downloaded ${successCount} additional attachments`))
+        } else if (nonImageResults.length === 0) {
+          logger.debug('No additional attachments found')
+        } else {
+          logger.warn(
+            chalk.yellow(
+              `⚠ Downloaded ${successCount}/${nonImageResults.length} additional attachments`
+            ),
+          )
+        }
       }
-    }
 
-    // Step 11: Save manifest
-    const manifest = {
-      exportedAt: new Date().toISOString(),
-      tool: 'conflu-exporter',
-      version: '0.1.0',
-      format: config.format,
-      pages: [
-        {
-          id: page.id,
-          title: page.title,
-          spaceKey: page.spaceKey,
-          path: directoryManager.getRelativePath(pagePath),
-          metadata: converted.metadata,
-        },
-      ],
-    }
+      // Step 11: Save manifest
+      const manifest = {
+        exportedAt: new Date().toISOString(),
+        tool: 'conflu-exporter',
+        version: '0.1.0',
+        format: config.format,
+        pages: [
+          {
+            id: page.id,
+            title: page.title,
+            spaceKey: page.spaceKey,
+            path: directoryManager.getRelativePath(pagePath),
+            metadata: converted.metadata,
+            sidecars:
+              sidecarPaths.length > 0
+                ? sidecarPaths.map((path) => directoryManager.getRelativePath(path))
+                : undefined,
+          },
+        ],
+      }
 
-    const manifestPath = directoryManager.getManifestPath()
-    await fileWriter.writeJson(manifestPath, manifest)
+      const manifestPath = directoryManager.getManifestPath()
+      await fileWriter.writeJson(manifestPath, manifest)
 
-    logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
+      await saveConverterCaches(converterSetup, config, fileWriter)
 
-    // Step 12: Success summary
-    logger.info(chalk.green.bold('\n✓ Export complete!'))
-    logger.info(`\nExported files:`)
-    logger.info(`  Page: ${chalk.cyan(pagePath)}`)
+      logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
 
-    // Always show assets directory if images were downloaded
-    if (imageResults.length > 0 || config.includeAttachments) {
-      const assetsDir = await directoryManager.getAssetsDirectory(page.spaceKey)
-      logger.info(`  Assets: ${chalk.cyan(assetsDir)}`)
-    }
+      // Step 12: Success summary
+      logger.info(chalk.green.bold('\n✓ Export complete!'))
+      logger.info(`\nExported files:`)
+      logger.info(`  Page: ${chalk.cyan(pagePath)}`)
 
-    logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
+      // Always show assets directory if images were downloaded
+      if (imageResults.length > 0 || config.includeAttachments) {
+        const assetsDir = await directoryManager.getAssetsDirectory(page.spaceKey)
+        logger.info(`  Assets: ${chalk.cyan(assetsDir)}`)
+      }
+
+      logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
+    } finally {
+      await closeConverter(converter, converterSetup)
+    }
   } catch (error) {
     logger.error(chalk.red('Export failed:'), error)
 
@@ -0,0 +1,345 @@
+import { mkdir, rename } from 'fs/promises'
+import { dirname, join } from 'path'
+import { getLogger } from '../ui/logger.js'
+import { loadConfig, getMissingCredentials, DEFAULT_MARKDOWN_OPTIONS } from '../../config/index.js'
+import type { PartialConfig } from '../../config/config-schema.js'
+import {
+  createApiClient,
+  createContentFetcher,
+  createAttachmentHandler,
+  getVersionAuthorName,
+} from '../../core/index.js'
+import { createMarkdownConverter } from '../../converters/markdown-converter.js'
+import { createLinkResolver } from '../../converters/link-resolver.js'
+import {
+  createDirectoryManager,
+  createFileWriter,
+  createAssetDownloader,
+  createPageHierarchy,
+  createGitRepository,
+  type GitAuthor,
+  type ManifestPage,
+} from '../../storage/index.js'
+import chalk from 'chalk'
+import type { ConfluencePageSummary, ConfluencePageVersionSummary } from '../../types.js'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
+
+export interface ExportSpaceGitOptions {
+  spaceKey: string
+  /**
+   * Git repository directory, created if needed
+   */
+  gitDir: string
+  email?: string
+  token?: string
+  baseUrl?: string
+  includeAttachments: boolean
+  flat: boolean
+  dryRun: boolean
+  verbose: boolean
+}
+
+/**
+ * Author of commits made by the exporter itself (moves, attachments)
+ */
+const EXPORTER_AUTHOR: GitAuthor = {
+  name: 'conflu-exporter',
+  email: 'conflu-exporter@users.noreply.invalid',
+}
+
+/**
+ * Export a space as a git repository, one commit per page version
+ * Versions are replayed in chronological order; later runs only append new versions
+ */
+export async function exportSpaceGit(options: ExportSpaceGitOptions): Promise<void> {
+  const logger = getLogger()
+
+  try {
+    logger.info(chalk.cyan(`Starting git export of space ${options.spaceKey}...`))
+
+    // Step 1: Load configuration (git exports are always markdown)
+    const cliConfig: PartialConfig = {
+      baseUrl: options.baseUrl,
+      email: options.email,
+      token: options.token,
+      format: 'markdown',
+      output: options.gitDir,
+      includeAttachments: options.includeAttachments,
+    }
+
+    const config = await loadConfig(cliConfig)
+
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
+      logger.error(chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`))
+      logger.info('Set them via CLI flags, environment variables, or config file')
+      process.exit(1)
+    }
+
+    logger.debug(`Configuration loaded: ${config.baseUrl}`)
+
+    // Step 2: Initialize components
+    const apiClient = createApiClient({
+      baseUrl: config.baseUrl,
+      email: config.email,
+      token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
+      timeout: config.api?.timeout,
+      retries: config.api?.retries,
+    })
+
+    const contentFetcher = createContentFetcher({ apiClient })
+    const attachmentHandler = createAttachmentHandler({ apiClient })
+    const directoryManager = createDirectoryManager(options.gitDir)
+    const repository = createGitRepository({ dir: options.gitDir })
+
+    logger.debug('API client initialized')
+
+    // Step 3: Test connection
+    logger.info('Testing API connection...')
+    const connected = await apiClient.testConnection()
+
+    if (!connected) {
+      logger.error(chalk.red('Failed to connect to Confluence API'))
+      logger.info('Please check your baseUrl, email, and token')
+      process.exit(1)
+    }
+
+    logger.info(chalk.green('✓ Connected to Confluence API'))
+
+    // Step 4: List pages and compare with the versions already committed
+    const summaries = await contentFetcher.listSpacePages(options.spaceKey)
+    logger.info(chalk.green(`✓ Found ${summaries.length} pages in space`))
+
+    const committed = await repository.readCommittedVersions()
+
+    const hierarchy = options.flat
+      ? undefined
+      : createPageHierarchy({
+          pages: summaries,
+          sanitizeFilename: (name) => directoryManager.sanitizeFilename(name),
+        })
+
+    const pathsById = new Map(
+      summaries.map((page) => {
+        const location = hierarchy?.getLocation(page.id)
+        const path = directoryManager.resolvePageFilePath(
+          page.spaceKey,
+          location?.fileName ?? page.title,
+          '.md',
+          location?.hierarchyPath
+        )
+        return [page.id, directoryManager.getRelativePath(path)]
+      })
+    )
+
+    const updated = summaries.filter(
+      (page) => (page.version ?? 0) > (committed.get(page.id)?.version ?? 0)
+    )
+
+    // Pages moved in the tree without a new version only need their file moved
+    const moved = summaries.filter((page) => {
+      const entry = committed.get(page.id)
+      return entry && entry.version >= (page.version ?? 0) && entry.path !== pathsById.get(page.id)
+    })
+
+    logger.info(
+      `Plan: ${updated.length} pages with new versions, ${moved.length} moved, ` +
+        `${summaries.length - updated.length - moved.length} unchanged`
+    )
+
+    if (options.dryRun) {
+      logger.info(chalk.yellow('\n--- DRY RUN MODE ---'))
+      logger.info(`Repository: ${options.gitDir}`)
+      for (const page of updated) {
+        const from = committed.get(page.id)?.version ?? 0
+        logger.info(`  ${page.title} (${page.id}): v${from + 1}..v${page.version ?? 1}`)
+      }
+      for (const page of moved) {
+        logger.info(`  move: ${page.title} (${page.id}) -> ${pathsById.get(page.id)}`)
+      }
+      return
+    }
+
+    // Step 5: Initialize repository
+    await directoryManager.initialize()
+    await repository.initialize()
+
+    const fileWriter = createFileWriter()
+
+    logger.info(chalk.green(`✓ Initialized git repository: ${options.gitDir}`))
+
+    // Step 6: List new versions, their content is fetched right before each commit
+    const versions: Array<{ page: ConfluencePageSummary; version: ConfluencePageVersionSummary }> =
+      []
+    for (const page of updated) {
+      const pageVersions = await contentFetcher.listPageVersions(page.id, {
+        afterVersion: committed.get(page.id)?.version,
+      })
+      versions.push(...pageVersions.map((version) => ({ page, version })))
+    }
+
+    // Chronological replay, across pages
+    versions.sort(
+      (a, b) =>
+        (a.version.createdAt?.getTime() ?? 0) - (b.version.createdAt?.getTime() ?? 0) ||
+        a.page.id.localeCompare(b.page.id) ||
+        a.version.number - b.version.number
+    )
+
+    logger.info(chalk.green(`✓ Found ${versions.length} new versions`))
+
+    // Step 7: Replay versions as commits
+    // Commits are plain .md files, conversion.markdown.flavor does not apply
+    const converter = createMarkdownConverter({
+      ...DEFAULT_MARKDOWN_OPTIONS,
+      ...config.conversion?.markdown,
+      flavor: 'markdown',
+    })
+
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher, {
+      renderMermaid: false,
+    })
+
+    try {
+      // Links between pages point to their current paths
+      const linkResolver = createLinkResolver({
+        pages: summaries.map(
+          (page): ManifestPage => ({
+            id: page.id,
+            title: page.title,
+            spaceKey: page.spaceKey,
+            path: pathsById.get(page.id)!,
+            attachments: 0,
+          })
+        ),
+        baseUrl: apiClient.getWebBaseUrl(),
+      })
+
+      const lastPaths = new Map(
+        Array.from(committed.values(), (entry) => [entry.pageId, entry.path])
+      )
+
+      for (const page of moved) {
+        const from = lastPaths.get(page.id)!
+        const to = pathsById.get(page.id)!
+
+        await mkdir(dirname(join(options.gitDir, to)), { recursive: true })
+        await rename(join(options.gitDir, from), join(options.gitDir, to))
+
+        await repository.commitPageVersion({
+          pageId: page.id,
+          version: committed.get(page.id)!.version,
+          path: to,
+          previousPath: from,
+          message: `Move ${page.title}`,
+          author: EXPORTER_AUTHOR,
+        })
+        await directoryManager.removeEmptyDirectories(join(options.gitDir, from), page.spaceKey)
+
+        lastPaths.set(page.id, to)
+      }
+
+      let commitCount = moved.length
+
+      for (const { page, version } of versions) {
+        const location = hierarchy?.getLocation(page.id)
+        const path = pathsById.get(page.id)!
+        const versionPage = await contentFetcher.fetchPageVersion(page.id, version.number)
+
+        const converted = await converter.convert(versionPage, {
+          baseUrl: config.baseUrl,
+          outputDir: options.gitDir,
+          assetsDir: await directoryManager.getAssetsDirectory(page.spaceKey),
+          assetsPath: directoryManager.getRelativeAssetsPath(location?.hierarchyPath.length),
+        })
+
+        const pagePath = await directoryManager.getPageFilePath(
+          page.spaceKey,
+          location?.fileName ?? page.title,
+          '.md',
+          location?.hierarchyPath
+        )
+        await fileWriter.writeText(
+          pagePath,
+          linkResolver.resolve(converted.content as string, page.id).markdown
+        )
+
+        const previousPath = lastPaths.get(page.id)
+        await repository.commitPageVersion({
+          pageId: page.id,
+          version: version.number,
+          path,
+          previousPath,
+          message: `${previousPath ? 'Update' : 'Create'} ${versionPage.title}${version.message ? `\n\n${version.message}` : ''}`,
+          author: {
+            name: (await getVersionAuthorName(version, converterSetup.users)) ?? 'Unknown',
+            email: version.authorEmail ?? `${version.authorId ?? 'unknown'}@users.noreply.invalid`,
+            date: version.createdAt,
+          },
+        })
+
+        if (previousPath && previousPath !== path) {
+          await directoryManager.removeEmptyDirectories(
+            join(options.gitDir, previousPath),
+            page.spaceKey
+          )
+        }
+
+        lastPaths.set(page.id, path)
+        commitCount++
+        logger.info(chalk.green(`  ✓ Committed: ${versionPage.title} v${version.number}`))
+      }
+
+      // Step 8: Commit current attachments
+      if (config.includeAttachments) {
+        const assetDownloader = createAssetDownloader({
+          attachmentHandler,
+          fileWriter,
+          directoryManager,
+        })
+
+        for (const page of summaries) {
+          await assetDownloader.downloadPageAssets(page.id, page.spaceKey, true)
+        }
+
+        const assetsDir = await directoryManager.getAssetsDirectory(options.spaceKey)
+        const attachmentCommit = await repository.commitFiles(
+          [directoryManager.getRelativePath(assetsDir)],
+          'Update attachments',
+          EXPORTER_AUTHOR
+        )
+        if (attachmentCommit) {
+          commitCount++
+        }
+      }
+
+      await saveConverterCaches(converterSetup, config, fileWriter)
+
+      // Step 9: Success summary
+      logger.info(chalk.green.bold('\n✓ Git export complete!'))
+      logger.info(`\nExport summary:`)
+      logger.info(`  Space: ${chalk.cyan(options.spaceKey)}`)
+      logger.info(`  Pages: ${summaries.length}`)
+      logger.info(`  New commits: ${commitCount}`)
+      logger.info(`  Repository: ${chalk.cyan(options.gitDir)}`)
+    } finally {
+      await closeConverter(converter, converterSetup)
+    }
+  } catch (error) {
+    logger.error(chalk.red('Git export failed:'), error)
+
+    if (error instanceof Error) {
+      logger.error(chalk.red(error.message))
+
+      if (options.verbose) {
+        logger.error(chalk.gray(error.stack || ''))
+      }
+    }
+
+    process.exit(1)
+  }
+}
@@ -1,19 +1,35 @@
+import { mkdir } from 'fs/promises'
+import { dirname, join } from 'path'
 import { getLogger } from '../ui/logger.js'
-import { loadConfig } from '../../config/index.js'
+import { loadConfig, getMissingCredentials, DEFAULT_MARKDOWN_OPTIONS } from '../../config/index.js'
 import type { PartialConfig } from '../../config/config-schema.js'
 import {
   createApiClient,
   createContentFetcher,
   createAttachmentHandler,
+  createExportedPageTree,
 } from '../../core/index.js'
-import { createMarkdownConverter } from '../../converters/markdown-converter.js'
+import { createConverter } from '../../converters/converter-factory.js'
+import { hasDrawioDiagrams } from '../../converters/macro-handlers/diagram-handler.js'
+import { createLinkResolver } from '../../converters/link-resolver.js'
+import { createPagePropertiesReportBuilder } from '../../converters/page-properties-report.js'
 import {
   createDirectoryManager,
   createFileWriter,
   createAssetDownloader,
+  createPageHierarchy,
+  createStaticSite,
+  getSiteLayout,
+  SITE_GENERATORS,
+  writeObsidianSettings,
+  type ExportManifest,
+  type ManifestPage,
+  type PageLocation,
+  type SiteGenerator,
 } from '../../storage/index.js'
 import chalk from 'chalk'
 import type { ConfluencePage } from '../../types.js'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
 
 export interface ExportSpaceOptions {
   spaceKey: string
@@ -24,6 +40,19 @@ export interface ExportSpaceOptions {
   baseUrl?: string
   includeAttachments: boolean
   includeChildren: boolean
+  includeComments?: boolean
+  /**
+   * Also export blog posts, under blog/YYYY/MM/
+   */
+  includeBlogs?: boolean
+  /**
+   * Lay out the export as a static site for this generator (mkdocs, docusaurus, hugo)
+   */
+  site?: string
+  /**
+   * Write markdown for this notes app (obsidian)
+   */
+  target?: string
   flat: boolean
   dryRun: boolean
   verbose: boolean
@@ -43,23 +72,78 @@ export async function exportSpace(options: ExportSpaceOptions): Promise<void> {
       baseUrl: options.baseUrl,
       email: options.email,
       token: options.token,
-      format: options.format as 'markdown' | 'pdf' | 'docx',
+      format: options.format as 'markdown' | 'pdf' | 'docx' | 'json',
       output: options.output,
       includeAttachments: options.includeAttachments,
+      includeComments: options.includeComments,
     }
 
     const config = await loadConfig(cliConfig)
 
-    if (!config.baseUrl || !config.email || !config.token) {
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
       logger.error(
-        chalk.red(
-          'Missing required configuration: baseUrl, email, and token are required',
-        ),
+        chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`)
       )
       logger.info('Set them via CLI flags, environment variables, or config file')
       process.exit(1)
     }
 
+    if (options.site && !SITE_GENERATORS.includes(options.site as SiteGenerator)) {
+      logger.error(
+        chalk.red(`Invalid site generator "${options.site}": use ${SITE_GENERATORS.join(', ')}`),
+      )
+      process.exit(1)
+    }
+
+    if (options.site && config.format !== 'markdown') {
+      logger.error(chalk.red('Static sites are only generated from markdown exports'))
+      process.exit(1)
+    }
+
+    if (
+      options.site &&
+      options.site !== 'docusaurus' &&
+      config.conversion?.markdown?.flavor === 'mdx'
+    ) {
+      logger.error(chalk.red(`${options.site} does not read MDX, only docusaurus sites do`))
+      process.exit(1)
+    }
+
+    if (options.target && options.target !== 'obsidian') {
+      logger.error(chalk.red(`Invalid target "${options.target}": use obsidian`))
+      process.exit(1)
+    }
+
+    if (options.target && config.format !== 'markdown') {
+      logger.error(chalk.red('Obsidian vaults are only generated from markdown exports'))
+      process.exit(1)
+    }
+
+    // Obsidian vaults use their own markdown flavor: wikilinks, embeds, callouts and tags
+    if (options.target) {
+      config.conversion = {
+        ...config.conversion,
+        markdown: {
+          ...DEFAULT_MARKDOWN_OPTIONS,
+          ...config.conversion?.markdown,
+          flavor: 'obsidian',
+        },
+      }
+    }
+
+    const obsidian =
+      config.format === 'markdown' && config.conversion?.markdown?.flavor === 'obsidian'
+
+    if (obsidian && options.site) {
+      logger.error(chalk.red('Obsidian vaults cannot be laid out as static sites'))
+      process.exit(1)
+    }
+
+    const site = options.site as SiteGenerator | undefined
+    const siteLayout = site ? getSiteLayout(site) : undefined
+
     logger.debug(`Configuration loaded: ${config.baseUrl}`)
 
     // Step 2: Initialize components
@@ -67,6 +151,9 @@ export async function exportSpace(options: ExportSpaceOptions): Promise<void> {
       baseUrl: config.baseUrl,
       email: config.email,
       token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
       timeout: config.api?.timeout,
       retries: config.api?.retries,
     })
@@ -132,14 +219,28 @@ export async function exportSpace(options: ExportSpaceOptions): Promise<void> {
       )
     }
 
+    // Step 6: Fetch blog posts if requested
+    let blogPosts: ConfluencePage[] = []
+    if (options.includeBlogs) {
+      blogPosts = await contentFetcher.fetchSpaceBlogPosts(options.spaceKey)
+      logger.info(chalk.green(`✓ Found ${blogPosts.length} blog posts in space`))
+    }
+
     if (options.dryRun) {
       logger.info(chalk.yellow('\n--- DRY RUN MODE ---'))
       logger.info(`Would export ${allPages.length} pages from space: ${options.spaceKey}`)
+      if (options.includeBlogs) {
+        logger.info(`Would export ${blogPosts.length} blog posts`)
+      }
       logger.info(`Format: ${config.format}`)
       logger.info(`Output: ${config.output}`)
       logger.info(`Include attachments: ${config.includeAttachments}`)
       logger.info(`Include children: ${options.includeChildren}`)
+      logger.info(`Include comments: ${config.includeComments}`)
       logger.info(`Structure: ${options.flat ? 'flat' : 'hierarchical'}`)
+      if (site) {
+        logger.info(`Site: ${site}`)
+      }
       logger.info('\nPages to export:')
       for (const page of allPages.slice(0, 10)) {
         logger.info(`  - ${page.title} (${page.id})`)
@@ -150,8 +251,11 @@ export async function exportSpace(options: ExportSpaceOptions): Promise<void> {
       return
     }
 
-    // Step 6: Initialize storage
-    const directoryManager = createDirectoryManager(config.output)
+    // Step 7: Initialize storage
+    const directoryManager = createDirectoryManager(config.output, {
+      ...siteLayout,
+      titleFileNames: obsidian,
+    })
     await directoryManager.initialize()
 
     const fileWriter = createFileWriter()
@@ -163,128 +267,263 @@ export async function exportSpace(options: ExportSpaceOptions): Promise<void> {
 
     logger.info(chalk.green(`✓ Initialized output directory: ${config.output}`))
 
-    // Step 7: Convert and save pages
-    logger.info(`Converting and saving ${allPages.length} pages...`)
+    // Nested mode mirrors the Confluence page tree
+    const hierarchy = options.flat
+      ? undefined
+      : createPageHierarchy({
+          pages: allPages,
+          sanitizeFilename: (name) => directoryManager.sanitizeFilename(name),
+          indexFileName: siteLayout?.indexFileName,
+          folderNotes: obsidian,
+        })
 
-    const converter = createMarkdownConverter(config.conversion?.markdown)
-    const fileExtension = converter.getFileExtension()
+    // Determine file location based on structure mode, blog posts are filed by publish month
+    const getLocation = (page: ConfluencePage): PageLocation | undefined =>
+      page.type === 'blogpost'
+        ? directoryManager.getBlogPostLocation(page.title, page.metadata?.publishedAt)
+        : hierarchy?.getLocation(page.id)
 
-    const manifestPages = []
-    let successCount = 0
-    let errorCount = 0
+    // Step 8: Convert and save pages and blog posts
+    const exportPages = [...allPages, ...blogPosts]
+    logger.info(`Converting and saving ${exportPages.length} pages...`)
 
-    for (let i = 0; i < allPages.length; i++) {
-      const page = allPages[i]
-      const progress = `[${i + 1}/${allPages.length}]`
+    const converter = createConverter(config.format, config.conversion)
 
-      try {
-        logger.info(
-          `${progress} Processing: ${chalk.cyan(page.title)} (${page.id})`,
-        )
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher, {
+      pageTreeSource: createExportedPageTree({ pages: exportPages }),
+    })
 
-        // Convert page
-        const converted = await converter.convert(page)
+    try {
+      const embedsImages = ['pdf', 'docx'].includes(converter.getFormatName())
+      const fileExtension = converter.getFileExtension()
+
+      // Static sites take page order and URLs from the planned page tree
+      const staticSite = site
+        ? createStaticSite({
+            generator: site,
+            title: options.spaceKey,
+            pages: exportPages.map((page) => {
+              const location = getLocation(page)
+              const path = directoryManager.resolvePageFilePath(
+                page.spaceKey,
+                location?.fileName ?? page.title,
+                fileExtension,
+                location?.hierarchyPath,
+              )
+              return {
+                id: page.id,
+                title: page.title,
+                path: directoryManager.getRelativePath(path),
+                parentId: hierarchy?.getParentId(page.id),
+                position: page.metadata?.position,
+                type: page.type === 'blogpost' ? 'blogpost' : undefined,
+                publishedAt: page.metadata?.publishedAt?.toISOString(),
+              }
+            }),
+          })
+        : undefined
+
+      const manifestPages: ManifestPage[] = []
+      let successCount = 0
+      let errorCount = 0
+
+      for (let i = 0; i < exportPages.length; i++) {
+        const page = exportPages[i]
+        const progress = `[${i + 1}/${exportPages.length}]`
 
-        // Determine file path based on structure mode
-        let hierarchyPath: string[] | undefined
-        if (!options.flat && page.metadata?.parentId) {
-          // Build hierarchy path (simplified - just use parent)
-          hierarchyPath = []
-        }
+        try {
+          logger.info(
+            `${progress} Processing: ${chalk.cyan(page.title)} (${page.id})`,
+          )
 
-        const pagePath = await directoryManager.getPageFilePath(
-          page.spaceKey,
-          page.title,
-          fileExtension,
-          hierarchyPath,
-        )
+          // Binary formats embed images, so they must be on disk before converting
+          if (embedsImages) {
+            await assetDownloader.downloadPageImages(page.id, page.spaceKey)
+          }
 
-        // Save page content
-        await fileWriter.writeText(pagePath, converted.content)
+          // draw.io sources and previews sit next to the other assets
+          if (hasDrawioDiagrams(page.content.storage)) {
+            await assetDownloader.downloadDrawioDiagrams(page.id, page.spaceKey)
+          }
 
-        // Download attachments if requested
-        let attachmentCount = 0
-        if (config.includeAttachments) {
-          const downloadResults = await assetDownloader.downloadPageAssets(
-            page.id,
+          if (config.includeComments) {
+            page.comments = await contentFetcher.fetchPageComments(page.id)
+          }
+
+          const location = getLocation(page)
+
+          // Convert page
+          const converted = await converter.convert(page, {
+            baseUrl: config.baseUrl,
+            outputDir: config.output,
+            assetsDir: await directoryManager.getAssetsDirectory(page.spaceKey),
+            assetsPath: directoryManager.getAssetsLinkPath(
+              page.spaceKey,
+              location?.hierarchyPath.length,
+            ),
+            site: staticSite?.getPageSettings(page.id),
+          })
+
+          const pagePath = await directoryManager.getPageFilePath(
             page.spaceKey,
-            true,
+            location?.fileName ?? page.title,
+            fileExtension,
+            location?.hierarchyPath,
           )
-          attachmentCount = downloadResults.filter((r) => r.success).length
-        }
 
-        // Add to manifest
-        manifestPages.push({
-          id: page.id,
-          title: page.title,
-          spaceKey: page.spaceKey,
-          path: directoryManager.getRelativePath(pagePath),
-          metadata: converted.metadata,
-          attachments: attachmentCount,
-        })
+          // Save page content (and comments sidecar)
+          const sidecarPaths = await fileWriter.writeConverted(pagePath, converted)
+
+          // Download attachments if requested
+          let attachmentCount = 0
+          if (config.includeAttachments) {
+            const downloadResults = await assetDownloader.downloadPageAssets(
+              page.id,
+              page.spaceKey,
+              true,
+            )
+            attachmentCount = downloadResults.filter((r) => r.success).length
+          }
 
-        successCount++
-        logger.info(
-          chalk.green(
-            `  ✓ Saved: ${page.title}${attachmentCount > 0 ? ` (${attachmentCount} attachments)` : ''}`,
-          ),
+          // Add to manifest
+          manifestPages.push({
+            id: page.id,
+            title: page.title,
+            spaceKey: page.spaceKey,
+            path: directoryManager.getRelativePath(pagePath),
+            version: page.version,
+            parentId: hierarchy?.getParentId(page.id),
+            type: page.type === 'blogpost' ? 'blogpost' : undefined,
+            publishedAt: page.metadata?.publishedAt?.toISOString(),
+            metadata: converted.metadata,
+            attachments: attachmentCount,
+            sidecars:
+              sidecarPaths.length > 0
+                ? sidecarPaths.map((path) => directoryManager.getRelativePath(path))
+                : undefined,
+          })
+
+          successCount++
+          logger.info(
+            chalk.green(
+              `  ✓ Saved: ${page.title}${attachmentCount > 0 ? ` (${attachmentCount} attachments)` : ''}`,
+            ),
+          )
+        } catch (error) {
+          errorCount++
+          logger.error(
+            chalk.red(`  ✗ Failed to export ${page.title}:`),
+            error instanceof Error ? error.message : error,
+          )
+        }
+      }
+
+      // Step 9: Fill page properties reports and rewrite internal links between exported pages
+      if (converter.getFormatName() === 'markdown') {
+        await createPagePropertiesReportBuilder({ pages: manifestPages }).buildFiles(
+          directoryManager.getRootDirectory(),
+          fileWriter,
         )
-      } catch (error) {
-        errorCount++
-        logger.error(
-          chalk.red(`  ✗ Failed to export ${page.title}:`),
-          error instanceof Error ? error.message : error,
+      }
+
+      const links =
+        converter.getFormatName() === 'markdown'
+          ? await createLinkResolver({
+              pages: manifestPages,
+              baseUrl: apiClient.getWebBaseUrl(),
+              wikilinks: obsidian,
+            }).resolveFiles(directoryManager.getRootDirectory(), fileWriter)
+          : undefined
+
+      if (obsidian) {
+        const settingsPath = await writeObsidianSettings(
+          { rootDir: config.output, spaceKey: options.spaceKey },
+          fileWriter,
         )
+        logger.info(chalk.green(`✓ Saved Obsidian settings: ${settingsPath}`))
       }
-    }
 
-    // Step 8: Save manifest
-    const manifest = {
-      exportedAt: new Date().toISOString(),
-      tool: 'conflu-exporter',
-      version: '0.1.0',
-      format: config.format,
-      space: {
-        key: options.spaceKey,
-        pageCount: allPages.length,
-      },
-      options: {
-        includeAttachments: config.includeAttachments,
-        includeChildren: options.includeChildren,
-        flat: options.flat,
-      },
-      pages: manifestPages,
-      summary: {
-        total: allPages.length,
-        successful: successCount,
-        failed: errorCount,
-      },
-    }
+      // Step 10: Write the static site navigation and configuration
+      if (staticSite) {
+        const exportedIds = new Set(manifestPages.map((page) => page.id))
 
-    const manifestPath = directoryManager.getManifestPath()
-    await fileWriter.writeJson(manifestPath, manifest)
+        for (const file of staticSite.buildFiles(exportedIds)) {
+          const filePath = join(config.output, file.path)
+          if (file.keepExisting && (await directoryManager.directoryExists(filePath))) {
+            continue
+          }
 
-    logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
+          await mkdir(dirname(filePath), { recursive: true })
+          await fileWriter.writeText(filePath, file.content)
+        }
 
-    // Step 9: Success summary
-    logger.info(chalk.green.bold('\n✓ Space export complete!'))
-    logger.info(`\nExport summary:`)
-    logger.info(`  Space: ${chalk.cyan(options.spaceKey)}`)
-    logger.info(`  Total pages: ${allPages.length}`)
-    logger.info(`  Successful: ${chalk.green(successCount)}`)
-    if (errorCount > 0) {
-      logger.info(`  Failed: ${chalk.red(errorCount)}`)
-    }
-    logger.info(`  Output: ${chalk.cyan(config.output)}`)
-    logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
-
-    if (errorCount > 0) {
-      logger.warn(
-        chalk.yellow(
-          `\n⚠ Some pages failed to export. Check logs for details.`,
-        ),
-      )
-      process.exit(1)
+        logger.info(chalk.green(`✓ Generated ${site} site configuration`))
+      }
+
+      // Step 11: Save manifest
+      const manifest: ExportManifest = {
+        exportedAt: new Date().toISOString(),
+        tool: 'conflu-exporter',
+        version: '0.1.0',
+        format: config.format,
+        space: {
+          key: options.spaceKey,
+          pageCount: allPages.length,
+          blogPostCount: options.includeBlogs ? blogPosts.length : undefined,
+        },
+        options: {
+          includeAttachments: config.includeAttachments,
+          includeChildren: options.includeChildren,
+          flat: options.flat,
+          includeComments: config.includeComments,
+          includeBlogs: options.includeBlogs,
+          site,
+          flavor: config.format === 'markdown' ? config.conversion?.markdown?.flavor : undefined,
+        },
+        pages: manifestPages,
+        links,
+        summary: {
+          total: exportPages.length,
+          successful: successCount,
+          failed: errorCount,
+        },
+      }
+
+      const manifestPath = directoryManager.getManifestPath()
+      await fileWriter.writeJson(manifestPath, manifest)
+
+      await saveConverterCaches(converterSetup, config, fileWriter)
+
+      logger.info(chalk.green(`✓ Saved manifest: ${manifestPath}`))
+
+      // Step 12: Success summary
+      logger.info(chalk.green.bold('\n✓ Space export complete!'))
+      logger.info(`\nExport summary:`)
+      logger.info(`  Space: ${chalk.cyan(options.spaceKey)}`)
+      logger.info(`  Total pages: ${allPages.length}`)
+      if (options.includeBlogs) {
+        logger.info(`  Blog posts: ${blogPosts.length}`)
+      }
+      logger.info(`  Successful: ${chalk.green(successCount)}`)
+      if (errorCount > 0) {
+        logger.info(`  Failed: ${chalk.red(errorCount)}`)
+      }
+      logger.info(`  Output: ${chalk.cyan(config.output)}`)
+      if (links) {
+        logger.info(`  Links: ${links.resolved} resolved, ${links.unresolved.length} unresolved`)
+      }
+      logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
+
+      if (errorCount > 0) {
+        logger.warn(
+          chalk.yellow(
+            `\n⚠ Some pages failed to export. Check logs for details.`,
+          ),
+        )
+        process.exitCode = 1
+      }
+    } finally {
+      await closeConverter(converter, converterSetup)
     }
   } catch (error) {
     logger.error(chalk.red('Space export failed:'), error)
@@ -11,51 +11,113 @@ export interface ExportUrlOptions {
   token?: string
   includeAttachments: boolean
   includeChildren: boolean
+  includeComments?: boolean
   dryRun: boolean
   verbose: boolean
 }
 
-interface ParsedUrl {
+export interface ParsedUrl {
   type: 'page' | 'space'
+  /**
+   * Site base URL, including the context path (/wiki on Cloud, e.g. /confluence on Data Center)
+   */
   baseUrl: string
   pageId?: string
   spaceKey?: string
+  /**
+   * Page title for URLs that carry no page ID (/display/KEY/Title)
+   */
+  title?: string
 }
 
 /**
  * Parse Confluence URL to extract type, base URL, and identifiers
  *
- * Supported URL formats:
+ * Supported URL formats (Cloud, with /wiki, or Data Center, with or without a context path):
  * - https://domain.atlassian.net/wiki/spaces/SPACEKEY/pages/123456/Page+Title
  * - https://domain.atlassian.net/wiki/spaces/SPACEKEY/overview
  * - https://domain.atlassian.net/wiki/spaces/SPACEKEY
+ * - https://confluence.company.com/display/SPACEKEY/Page+Title
+ * - https://confluence.company.com/display/SPACEKEY
+ * - https://company.com/confluence/pages/viewpage.action?pageId=123456
+ * - https://company.com/confluence/pages/viewpage.action?spaceKey=SPACEKEY&title=Page+Title
+ * - https://company.com/confluence/spaces/viewspace.action?key=SPACEKEY
  */
-function parseConfluenceUrl(url: string): ParsedUrl {
+export function parseConfluenceUrl(url: string): ParsedUrl {
   const logger = getLogger()
 
   try {
     const urlObj = new URL(url)
-    const baseUrl = `${urlObj.protocol}//${urlObj.host}`
 
     // Extract path segments
     const pathSegments = urlObj.pathname.split('/').filter((s) => s)
 
-    // Check for /wiki/spaces pattern
-    if (pathSegments[0] === 'wiki' && pathSegments[1] === 'spaces') {
-      const spaceKey = pathSegments[2]
+    // Everything before the first route segment is the context path
+    const routeIndex = pathSegments.findIndex(
+      (segment) => segment === 'spaces' || segment === 'display' || segment === 'pages'
+    )
+
+    if (routeIndex === -1) {
+      throw new Error('Invalid Confluence URL format')
+    }
+
+    const contextPath = pathSegments.slice(0, routeIndex).join('/')
+    const baseUrl = `${urlObj.protocol}//${urlObj.host}${contextPath ? `/${contextPath}` : ''}`
+    const [route, ...rest] = pathSegments.slice(routeIndex).map(decodePathSegment)
+    const params = urlObj.searchParams
+
+    // /pages/viewpage.action?pageId=... or ?spaceKey=...&title=...
+    if (route === 'pages' && rest[0] === 'viewpage.action') {
+      const pageId = params.get('pageId')
+      if (pageId) {
+        return { type: 'page', baseUrl, pageId }
+      }
+
+      const spaceKey = params.get('spaceKey')
+      const title = params.get('title')
+      if (spaceKey && title) {
+        return { type: 'page', baseUrl, spaceKey, title }
+      }
 
+      throw new Error('Invalid URL: viewpage.action needs pageId or spaceKey and title')
+    }
+
+    // /spaces/viewspace.action?key=...
+    if (route === 'spaces' && rest[0] === 'viewspace.action') {
+      const spaceKey = params.get('key') || params.get('spaceKey')
       if (!spaceKey) {
         throw new Error('Invalid URL: Missing space key')
       }
+      return { type: 'space', baseUrl, spaceKey }
+    }
 
-      // Check if it's a page URL
-      if (pathSegments[3] === 'pages' && pathSegments[4]) {
-        const pageId = pathSegments[4]
+    // /display/KEY[/Title]
+    if (route === 'display') {
+      const [spaceKey, title] = rest
+
+      if (!spaceKey) {
+        throw new Error('Invalid URL: Missing space key')
+      }
+
+      return title
+        ? { type: 'page', baseUrl, spaceKey, title }
+        : { type: 'space', baseUrl, spaceKey }
+    }
+
+    // /spaces/KEY[/pages/ID[/Title]]
+    if (route === 'spaces') {
+      const spaceKey = rest[0]
+
+      if (!spaceKey) {
+        throw new Error('Invalid URL: Missing space key')
+      }
 
+      // Check if it's a page URL
+      if (rest[1] === 'pages' && rest[2]) {
         return {
           type: 'page',
           baseUrl,
-          pageId,
+          pageId: rest[2],
           spaceKey,
         }
       }
@@ -75,11 +137,24 @@ function parseConfluenceUrl(url: string): ParsedUrl {
       logger.error(chalk.red(error.message))
     }
     throw new Error(
-      'URL must be in format: https://domain.atlassian.net/wiki/spaces/SPACEKEY/pages/PAGEID',
+      'URL must be in format: https://domain.atlassian.net/wiki/spaces/SPACEKEY/pages/PAGEID ' +
+        'or https://confluence.company.com/display/SPACEKEY/Page+Title',
     )
   }
 }
 
+/**
+ * Decode a path segment ("+" stands for a space in Confluence title URLs)
+ */
+function decodePathSegment(segment: string): string {
+  const value = segment.replace(/\+/g, ' ')
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
 /**
  * Export from Confluence URL (auto-detect page or space)
  */
@@ -99,17 +174,22 @@ export async function exportUrl(options: ExportUrlOptions): Promise<void> {
     // Determine base URL priority: CLI flag > parsed from URL
     const baseUrl = options.email && options.token ? undefined : parsed.baseUrl
 
-    if (parsed.type === 'page' && parsed.pageId) {
-      logger.info(chalk.cyan(`Exporting page ${parsed.pageId}...`))
+    if (parsed.type === 'page' && (parsed.pageId || (parsed.spaceKey && parsed.title))) {
+      logger.info(chalk.cyan(`Exporting page ${parsed.pageId ?? `"${parsed.title}"`}...`))
 
       await exportPage({
         pageId: parsed.pageId,
+        pageTitle:
+          parsed.spaceKey && parsed.title
+            ? { spaceKey: parsed.spaceKey, title: parsed.title }
+            : undefined,
         format: options.format,
         output: options.output,
         email: options.email,
         token: options.token,
         baseUrl: baseUrl,
         includeAttachments: options.includeAttachments,
+        includeComments: options.includeComments,
         dryRun: options.dryRun,
         verbose: options.verbose,
       })
@@ -125,6 +205,7 @@ export async function exportUrl(options: ExportUrlOptions): Promise<void> {
         baseUrl: baseUrl,
         includeAttachments: options.includeAttachments,
         includeChildren: options.includeChildren,
+        includeComments: options.includeComments,
         flat: false,
         dryRun: options.dryRun,
         verbose: options.verbose,
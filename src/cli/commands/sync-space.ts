@@ -0,0 +1,445 @@
+import { join } from 'path'
+import { getLogger } from '../ui/logger.js'
+import { loadConfig, getMissingCredentials, DEFAULT_MARKDOWN_OPTIONS } from '../../config/index.js'
+import type { PartialConfig } from '../../config/config-schema.js'
+import {
+  createApiClient,
+  createContentFetcher,
+  createAttachmentHandler,
+  planSync,
+  type ContentFetcher,
+  type PlannedPage,
+} from '../../core/index.js'
+import { createConverter } from '../../converters/converter-factory.js'
+import { hasDrawioDiagrams } from '../../converters/macro-handlers/diagram-handler.js'
+import type { BaseConverter } from '../../converters/base-converter.js'
+import { createLinkResolver } from '../../converters/link-resolver.js'
+import { createPagePropertiesReportBuilder } from '../../converters/page-properties-report.js'
+import {
+  createDirectoryManager,
+  createFileWriter,
+  createAssetDownloader,
+  createPageHierarchy,
+  readManifest,
+  type AssetDownloader,
+  type DirectoryManager,
+  type FileWriter,
+  type PageHierarchy,
+  type ExportManifest,
+  type ManifestPage,
+} from '../../storage/index.js'
+import chalk from 'chalk'
+import { configureConverter, saveConverterCaches, closeConverter } from '../converter-setup.js'
+
+export interface SyncSpaceOptions {
+  spaceKey: string
+  output: string
+  email?: string
+  token?: string
+  baseUrl?: string
+  dryRun: boolean
+  verbose: boolean
+}
+
+/**
+ * Incrementally sync a previously exported space
+ * Only pages whose version or location changed are fetched again
+ */
+export async function syncSpace(options: SyncSpaceOptions): Promise<void> {
+  const logger = getLogger()
+
+  try {
+    logger.info(chalk.cyan(`Starting sync of space ${options.spaceKey}...`))
+
+    // Step 1: Load configuration
+    const cliConfig: PartialConfig = {
+      baseUrl: options.baseUrl,
+      email: options.email,
+      token: options.token,
+      output: options.output,
+    }
+
+    const config = await loadConfig(cliConfig)
+
+    const missingCredentials = getMissingCredentials(config)
+
+    if (!config.baseUrl || missingCredentials.length > 0) {
+      logger.error(chalk.red(`Missing required configuration: ${missingCredentials.join(', ')}`))
+      logger.info('Set them via CLI flags, environment variables, or config file')
+      process.exit(1)
+    }
+
+    // Step 2: Read previous manifest
+    const manifestPath = createDirectoryManager(config.output).getManifestPath()
+    const previous = await readManifest(manifestPath)
+
+    if (previous && previous.space.key !== options.spaceKey) {
+      logger.error(
+        chalk.red(
+          `Manifest at ${manifestPath} belongs to space ${previous.space.key}, not ${options.spaceKey}`
+        )
+      )
+      logger.info('Use a separate output directory per space')
+      process.exit(1)
+    }
+
+    // Site navigation depends on the whole page tree, so it is rebuilt by a full export
+    if (previous?.options.site) {
+      logger.error(chalk.red(`Output at ${config.output} is a ${previous.options.site} site`))
+      logger.info(`Re-run: conflu export space ${options.spaceKey} --site ${previous.options.site}`)
+      process.exit(1)
+    }
+
+    if (!previous) {
+      logger.warn(chalk.yellow('No previous manifest found, all pages will be exported'))
+    }
+
+    // Keep the layout of the previous export so paths stay comparable
+    const format = (previous?.format as typeof config.format | undefined) ?? config.format
+    const flat = previous?.options.flat ?? false
+    const includeAttachments = previous?.options.includeAttachments ?? config.includeAttachments
+    const includeComments = previous?.options.includeComments ?? config.includeComments
+    // Exports from before MDX support are plain markdown
+    const flavor = previous
+      ? (previous.options.flavor ?? 'markdown')
+      : (config.conversion?.markdown?.flavor ?? 'markdown')
+    // Obsidian vaults name files and folder notes after page titles
+    const obsidian = format === 'markdown' && flavor === 'obsidian'
+    const directoryManager = createDirectoryManager(config.output, { titleFileNames: obsidian })
+
+    // Step 3: Initialize components
+    const apiClient = createApiClient({
+      baseUrl: config.baseUrl,
+      email: config.email,
+      token: config.token,
+      deployment: config.deployment,
+      authType: config.authType,
+      apiVersion: config.api?.version,
+      timeout: config.api?.timeout,
+      retries: config.api?.retries,
+    })
+
+    const contentFetcher = createContentFetcher({ apiClient })
+    const attachmentHandler = createAttachmentHandler({ apiClient })
+
+    logger.info('Testing API connection...')
+    const connected = await apiClient.testConnection()
+
+    if (!connected) {
+      logger.error(chalk.red('Failed to connect to Confluence API'))
+      logger.info('Please check your baseUrl, email, and token')
+      process.exit(1)
+    }
+
+    logger.info(chalk.green('✓ Connected to Confluence API'))
+
+    // Step 4: List pages without bodies and plan changes
+    const summaries = await contentFetcher.listSpacePages(options.spaceKey)
+    logger.info(chalk.green(`✓ Found ${summaries.length} pages in space`))
+
+    const converter = createConverter(format, {
+      ...config.conversion,
+      markdown: { ...DEFAULT_MARKDOWN_OPTIONS, ...config.conversion?.markdown, flavor },
+    })
+
+    const converterSetup = await configureConverter(converter, config, apiClient, contentFetcher)
+
+    try {
+      const embedsImages = ['pdf', 'docx'].includes(converter.getFormatName())
+      const fileExtension = converter.getFileExtension()
+
+      const hierarchy = flat
+        ? undefined
+        : createPageHierarchy({
+            pages: summaries,
+            sanitizeFilename: (name) => directoryManager.sanitizeFilename(name),
+            folderNotes: obsidian,
+          })
+
+      // Blog posts exported with --include-blogs are not synced, their entries are kept as they are
+      const blogPosts = previous?.pages.filter((entry) => entry.type === 'blogpost') ?? []
+      const previousPages = previous?.pages.filter((entry) => entry.type !== 'blogpost') ?? []
+
+      const plan = planSync(previousPages, summaries, (page) => {
+        const location = hierarchy?.getLocation(page.id)
+        return directoryManager.getRelativePath(
+          directoryManager.resolvePageFilePath(
+            page.spaceKey,
+            location?.fileName ?? page.title,
+            fileExtension,
+            location?.hierarchyPath
+          )
+        )
+      })
+
+      const toExport = [...plan.added, ...plan.updated, ...plan.moved]
+
+      logger.info(
+        `Plan: ${plan.added.length} added, ${plan.updated.length} updated, ` +
+          `${plan.moved.length} moved, ${plan.deleted.length} deleted, ` +
+          `${plan.unchanged.length} unchanged`
+      )
+
+      if (options.dryRun) {
+        logger.info(chalk.yellow('\n--- DRY RUN MODE ---'))
+        for (const { page, path, previous: entry } of toExport) {
+          const action = !entry ? 'add' : entry.path === path ? 'update' : 'move'
+          logger.info(`  ${action}: ${page.title} (${page.id}) -> ${path}`)
+        }
+        for (const entry of plan.deleted) {
+          logger.info(`  delete: ${entry.title} (${entry.id}) ${entry.path}`)
+        }
+        return
+      }
+
+      // Step 5: Initialize storage
+      await directoryManager.initialize()
+
+      const fileWriter = createFileWriter()
+      const assetDownloader = createAssetDownloader({
+        attachmentHandler,
+        fileWriter,
+        directoryManager,
+      })
+
+      const rootDir = directoryManager.getRootDirectory()
+
+      // Step 6: Remove files of deleted pages and old locations
+      // CRITICAL: Done before writing so a page moving into a freed path is not deleted afterwards
+      const stalePaths = [
+        ...plan.deleted.map((entry) => ({ entry, path: entry.path })),
+        ...toExport
+          .filter(({ previous: entry, path }) => entry && entry.path !== path)
+          .map(({ previous: entry }) => ({ entry: entry!, path: entry!.path })),
+      ]
+
+      for (const { entry, path } of stalePaths) {
+        for (const sidecar of entry.sidecars ?? []) {
+          await fileWriter.deleteFile(join(rootDir, sidecar))
+        }
+        const absolutePath = join(rootDir, path)
+        await fileWriter.deleteFile(absolutePath)
+        await directoryManager.removeEmptyDirectories(absolutePath, entry.spaceKey)
+      }
+
+      // Step 7: Fetch, convert and save changed pages
+      const manifestPages: ManifestPage[] = [...plan.unchanged, ...blogPosts]
+      let errorCount = 0
+
+      for (let i = 0; i < toExport.length; i++) {
+        const planned = toExport[i]
+        const progress = `[${i + 1}/${toExport.length}]`
+
+        try {
+          logger.info(`${progress} Syncing: ${chalk.cyan(planned.page.title)} (${planned.page.id})`)
+
+          const entry = await exportPlannedPage(planned, {
+            contentFetcher,
+            converter,
+            directoryManager,
+            fileWriter,
+            assetDownloader,
+            hierarchy,
+            baseUrl: config.baseUrl,
+            outputDir: config.output,
+            fileExtension,
+            embedsImages,
+            includeAttachments,
+            includeComments,
+          })
+          manifestPages.push(entry)
+
+          // Sidecars the page no longer has (e.g. all comments removed), once the new ones are written
+          if (planned.previous?.path === planned.path) {
+            for (const sidecar of planned.previous.sidecars ?? []) {
+              if (!entry.sidecars?.includes(sidecar)) {
+                await fileWriter.deleteFile(join(rootDir, sidecar))
+              }
+            }
+          }
+        } catch (error) {
+          errorCount++
+          logger.error(
+            chalk.red(`  ✗ Failed to sync ${planned.page.title}:`),
+            error instanceof Error ? error.message : error
+          )
+
+          // Keep the old entry when its file is still in place so the next run retries it
+          if (planned.previous && planned.previous.path === planned.path) {
+            manifestPages.push(planned.previous)
+          }
+        }
+      }
+
+      // Step 8: Fill page properties reports and rewrite internal links in all pages
+      if (converter.getFormatName() === 'markdown') {
+        await createPagePropertiesReportBuilder({ pages: manifestPages }).buildFiles(
+          rootDir,
+          fileWriter,
+        )
+      }
+
+      // Unchanged pages are included so links to moved pages are updated too
+      const links =
+        converter.getFormatName() === 'markdown'
+          ? await createLinkResolver({
+              pages: manifestPages,
+              baseUrl: apiClient.getWebBaseUrl(),
+              wikilinks: obsidian,
+            }).resolveFiles(rootDir, fileWriter)
+          : undefined
+
+      // Step 9: Save manifest atomically
+      const manifest: ExportManifest = {
+        exportedAt: new Date().toISOString(),
+        tool: 'conflu-exporter',
+        version: '0.1.0',
+        format,
+        space: {
+          key: options.spaceKey,
+          pageCount: summaries.length,
+          blogPostCount: previous?.space.blogPostCount,
+        },
+        options: {
+          includeAttachments,
+          includeChildren: previous?.options.includeChildren ?? false,
+          includeComments,
+          flat,
+          includeBlogs: previous?.options.includeBlogs,
+          flavor: format === 'markdown' ? flavor : undefined,
+        },
+        pages: manifestPages,
+        links,
+        summary: {
+          total: summaries.length,
+          successful: summaries.length - errorCount,
+          failed: errorCount,
+        },
+        sync: {
+          added: plan.added.length,
+          updated: plan.updated.length,
+          moved: plan.moved.length,
+          deleted: plan.deleted.length,
+          unchanged: plan.unchanged.length,
+        },
+      }
+
+      await fileWriter.writeJsonAtomic(manifestPath, manifest)
+
+      await saveConverterCaches(converterSetup, config, fileWriter)
+
+      // Step 10: Summary
+      logger.info(chalk.green.bold('\n✓ Space sync complete!'))
+      logger.info(`\nSync summary:`)
+      logger.info(`  Space: ${chalk.cyan(options.spaceKey)}`)
+      logger.info(`  Added: ${chalk.green(plan.added.length)}`)
+      logger.info(`  Updated: ${chalk.green(plan.updated.length)}`)
+      logger.info(`  Moved: ${chalk.green(plan.moved.length)}`)
+      logger.info(`  Deleted: ${chalk.green(plan.deleted.length)}`)
+      logger.info(`  Unchanged: ${plan.unchanged.length}`)
+      if (errorCount > 0) {
+        logger.info(`  Failed: ${chalk.red(errorCount)}`)
+      }
+      if (links) {
+        logger.info(`  Links: ${links.resolved} resolved, ${links.unresolved.length} unresolved`)
+      }
+      logger.info(`  Manifest: ${chalk.cyan(manifestPath)}`)
+
+      if (errorCount > 0) {
+        logger.warn(chalk.yellow(`\n⚠ Some pages failed to sync. They will be retried next run.`))
+        process.exitCode = 1
+      }
+    } finally {
+      await closeConverter(converter, converterSetup)
+    }
+  } catch (error) {
+    logger.error(chalk.red('Space sync failed:'), error)
+
+    if (error instanceof Error) {
+      logger.error(chalk.red(error.message))
+
+      if (options.verbose) {
+        logger.error(chalk.gray(error.stack || ''))
+      }
+    }
+
+    process.exit(1)
+  }
+}
+
+interface ExportPlannedPageContext {
+  contentFetcher: ContentFetcher
+  converter: BaseConverter
+  directoryManager: DirectoryManager
+  fileWriter: FileWriter
+  assetDownloader: AssetDownloader
+  hierarchy?: PageHierarchy
+  baseUrl: string
+  outputDir: string
+  fileExtension: string
+  embedsImages: boolean
+  includeAttachments: boolean
+  includeComments: boolean
+}
+
+/**
+ * Fetch, convert and write one added, updated or moved page
+ */
+async function exportPlannedPage(
+  planned: PlannedPage,
+  context: ExportPlannedPageContext
+): Promise<ManifestPage> {
+  const { directoryManager, assetDownloader } = context
+  const page = await context.contentFetcher.fetchPage(planned.page.id)
+  const location = context.hierarchy?.getLocation(page.id)
+
+  if (context.includeComments) {
+    page.comments = await context.contentFetcher.fetchPageComments(page.id)
+  }
+
+  if (context.embedsImages) {
+    await assetDownloader.downloadPageImages(page.id, page.spaceKey)
+  }
+
+  // draw.io sources and previews sit next to the other assets
+  if (hasDrawioDiagrams(page.content.storage)) {
+    await assetDownloader.downloadDrawioDiagrams(page.id, page.spaceKey)
+  }
+
+  const converted = await context.converter.convert(page, {
+    baseUrl: context.baseUrl,
+    outputDir: context.outputDir,
+    assetsDir: await directoryManager.getAssetsDirectory(page.spaceKey),
+    assetsPath: directoryManager.getRelativeAssetsPath(location?.hierarchyPath.length),
+  })
+
+  const pagePath = await directoryManager.getPageFilePath(
+    page.spaceKey,
+    location?.fileName ?? page.title,
+    context.fileExtension,
+    location?.hierarchyPath
+  )
+
+  const sidecarPaths = await context.fileWriter.writeConverted(pagePath, converted)
+
+  let attachmentCount = 0
+  if (context.includeAttachments) {
+    const downloadResults = await assetDownloader.downloadPageAssets(page.id, page.spaceKey, true)
+    attachmentCount = downloadResults.filter((r) => r.success).length
+  }
+
+  return {
+    id: page.id,
+    title: page.title,
+    spaceKey: page.spaceKey,
+    path: directoryManager.getRelativePath(pagePath),
+    version: page.version,
+    parentId: context.hierarchy?.getParentId(page.id),
+    metadata: converted.metadata,
+    attachments: attachmentCount,
+    sidecars:
+      sidecarPaths.length > 0
+        ? sidecarPaths.map((path) => directoryManager.getRelativePath(path))
+        : undefined,
+  }
+}
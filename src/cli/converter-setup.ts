@@ -0,0 +1,112 @@
+import chalk from 'chalk'
+import { getLogger } from './ui/logger.js'
+import type { Config } from '../config/config-schema.js'
+import {
+  loadJiraIssueCache,
+  createIncludedPageCache,
+  createCqlPageTree,
+  loadUserDirectory,
+} from '../core/index.js'
+import type {
+  ConfluenceApiClient,
+  ContentFetcher,
+  JiraIssueCache,
+  PageTreeSource,
+  UserDirectory,
+} from '../core/index.js'
+import type { BaseConverter } from '../converters/base-converter.js'
+import { createMermaidRenderer, type MermaidRenderer } from '../converters/mermaid-renderer.js'
+import type { FileWriter } from '../storage/file-writer.js'
+
+/**
+ * Sources and renderers set on a converter for one export run
+ */
+export interface ConverterSetup {
+  jiraIssues: JiraIssueCache
+  /**
+   * Also used for version authors in history exports
+   */
+  users: UserDirectory
+  mermaidRenderer?: MermaidRenderer
+}
+
+export interface ConfigureConverterOptions {
+  /**
+   * Pages listed by children, pagetree and contentbylabel macros (looked up with CQL by default)
+   */
+  pageTreeSource?: PageTreeSource
+  /**
+   * Render Mermaid diagrams when conversion.mermaid.render is set (default: true)
+   */
+  renderMermaid?: boolean
+}
+
+/**
+ * Set the Jira, user, include, page tree and Mermaid sources of a converter from the config
+ */
+export async function configureConverter(
+  converter: BaseConverter,
+  config: Config,
+  apiClient: ConfluenceApiClient,
+  contentFetcher: ContentFetcher,
+  options: ConfigureConverterOptions = {}
+): Promise<ConverterSetup> {
+  // Jira macros use live Jira data when jira.baseUrl is set, otherwise the snapshot file
+  const jiraIssues = await loadJiraIssueCache({ apiClient, ...config.jira })
+  converter.setJiraIssueSource(jiraIssues)
+
+  // Mentions use the display name cache first, then the user API
+  const users = await loadUserDirectory({ apiClient, cache: config.userCache })
+  converter.setUserSource(users)
+
+  // include and excerpt-include macros pull in the referenced pages
+  converter.setPageIncludeSource(
+    createIncludedPageCache({ contentFetcher }),
+    config.conversion?.includes
+  )
+
+  // children, pagetree and contentbylabel macros list pages from the export or look them up with CQL
+  converter.setPageTreeSource(options.pageTreeSource ?? createCqlPageTree({ contentFetcher }))
+
+  // Mermaid diagrams are rendered to images in the assets folder when enabled
+  const mermaidRenderer =
+    (options.renderMermaid ?? true) && config.conversion?.mermaid?.render
+      ? createMermaidRenderer(config.conversion.mermaid)
+      : undefined
+  mermaidRenderer?.assertBundleAvailable()
+  converter.setMermaidRenderer(mermaidRenderer)
+
+  return { jiraIssues, users, mermaidRenderer }
+}
+
+/**
+ * Save the Jira snapshot and user cache after an export, when configured and changed
+ */
+export async function saveConverterCaches(
+  setup: ConverterSetup,
+  config: Config,
+  fileWriter: FileWriter
+): Promise<void> {
+  const logger = getLogger()
+
+  if (config.jira?.snapshot && setup.jiraIssues.isLive()) {
+    await fileWriter.writeJson(config.jira.snapshot, setup.jiraIssues.toSnapshot())
+    logger.info(chalk.green(`✓ Saved Jira snapshot: ${config.jira.snapshot}`))
+  }
+
+  if (config.userCache && setup.users.hasChanges()) {
+    await fileWriter.writeJson(config.userCache, setup.users.toCacheFile())
+    logger.info(chalk.green(`✓ Saved user cache: ${config.userCache}`))
+  }
+}
+
+/**
+ * Close the browsers started by the converter and the Mermaid renderer
+ */
+export async function closeConverter(
+  converter: BaseConverter,
+  setup: ConverterSetup
+): Promise<void> {
+  await converter.close()
+  await setup.mermaidRenderer?.close()
+}
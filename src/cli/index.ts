@@ -4,8 +4,47 @@ import { Command } from 'commander'
 import { createLogger } from './ui/logger.js'
 import { exportPage } from './commands/export-page.js'
 import { exportSpace } from './commands/export-space.js'
+import { exportBlog } from './commands/export-blog.js'
+import { exportSpaceGit } from './commands/export-space-git.js'
+import { exportHistory } from './commands/export-history.js'
 import { exportBatch } from './commands/export-batch.js'
 import { exportUrl } from './commands/export-url.js'
+import { syncSpace } from './commands/sync-space.js'
+
+/**
+ * Global options of the conflu program
+ */
+interface GlobalOptions {
+  verbose?: boolean
+  quiet?: boolean
+}
+
+/**
+ * Option values parsed by commander, flags that were not given are undefined
+ */
+interface CommandOptions {
+  format: string
+  output: string
+  email?: string
+  token?: string
+  baseUrl?: string
+  includeAttachments?: boolean
+  includeComments?: boolean
+  includeChildren?: boolean
+  includeBlogs?: boolean
+  git?: string
+  site?: string
+  target?: string
+  flat?: boolean
+  from?: string
+  to?: string
+  since?: string
+  maxVersions?: string
+  layout: string
+  dryRun?: boolean
+  force?: boolean
+  json?: boolean
+}
 
 const program = new Command()
 
@@ -16,7 +55,7 @@ program
   .option('-v, --verbose', 'Enable verbose logging')
   .option('-q, --quiet', 'Suppress all output except errors')
   .hook('preAction', (thisCommand) => {
-    const opts = thisCommand.opts()
+    const opts = thisCommand.opts<GlobalOptions>()
     createLogger({
       verbose: opts.verbose,
       quiet: opts.quiet,
@@ -31,16 +70,17 @@ const exportCommand = program
 exportCommand
   .command('page <pageId>')
   .description('Export a single page by ID')
-  .option('-f, --format <type>', 'Export format: markdown|pdf|docx', 'markdown')
+  .option('-f, --format <type>', 'Export format: markdown|pdf|docx|json', 'markdown')
   .option('-o, --output <dir>', 'Output directory', './exports')
   .option('-e, --email <email>', 'Confluence account email')
   .option('-t, --token <token>', 'API token')
   .option('-u, --base-url <url>', 'Confluence base URL')
   .option('--include-attachments', 'Download and include attachments')
+  .option('--include-comments', 'Export footer and inline comments')
   .option('--include-children', 'Export child pages recursively')
   .option('--dry-run', 'Show what would be exported without doing it')
-  .action(async (pageId: string, options: any) => {
-    const parentOpts = exportCommand.parent?.opts() || {}
+  .action(async (pageId: string, options: CommandOptions) => {
+    const parentOpts = exportCommand.parent?.opts<GlobalOptions>() ?? {}
 
     await exportPage({
       pageId,
@@ -50,6 +90,7 @@ exportCommand
       token: options.token,
       baseUrl: options.baseUrl,
       includeAttachments: options.includeAttachments || false,
+      includeComments: options.includeComments,
       dryRun: options.dryRun || false,
       verbose: parentOpts.verbose || false,
     })
@@ -58,17 +99,37 @@ exportCommand
 exportCommand
   .command('space <spaceKey>')
   .description('Export entire space')
-  .option('-f, --format <type>', 'Export format: markdown|pdf|docx', 'markdown')
+  .option('-f, --format <type>', 'Export format: markdown|pdf|docx|json', 'markdown')
   .option('-o, --output <dir>', 'Output directory', './exports')
   .option('-e, --email <email>', 'Confluence account email')
   .option('-t, --token <token>', 'API token')
   .option('-u, --base-url <url>', 'Confluence base URL')
   .option('--include-attachments', 'Download and include attachments')
+  .option('--include-comments', 'Export footer and inline comments')
   .option('--include-children', 'Export child pages recursively')
+  .option('--include-blogs', 'Also export blog posts (under blog/YYYY/MM/)')
+  .option('--git <dir>', 'Export markdown into a git repository, one commit per page version')
+  .option('--site <generator>', 'Lay out the export as a static site: mkdocs|docusaurus|hugo')
+  .option('--target <app>', 'Write markdown for a notes app: obsidian')
   .option('--flat', 'Flat structure (no hierarchy)')
   .option('--dry-run', 'Show what would be exported without doing it')
-  .action(async (spaceKey: string, options: any) => {
-    const parentOpts = exportCommand.parent?.opts() || {}
+  .action(async (spaceKey: string, options: CommandOptions) => {
+    const parentOpts = exportCommand.parent?.opts<GlobalOptions>() ?? {}
+
+    if (options.git) {
+      await exportSpaceGit({
+        spaceKey,
+        gitDir: options.git,
+        email: options.email,
+        token: options.token,
+        baseUrl: options.baseUrl,
+        includeAttachments: options.includeAttachments || false,
+        flat: options.flat || false,
+        dryRun: options.dryRun || false,
+        verbose: parentOpts.verbose || false,
+      })
+      return
+    }
 
     await exportSpace({
       spaceKey,
@@ -78,25 +139,90 @@ exportCommand
       token: options.token,
       baseUrl: options.baseUrl,
       includeAttachments: options.includeAttachments || false,
+      includeComments: options.includeComments,
       includeChildren: options.includeChildren || false,
+      includeBlogs: options.includeBlogs || false,
+      site: options.site,
+      target: options.target,
       flat: options.flat || false,
       dryRun: options.dryRun || false,
       verbose: parentOpts.verbose || false,
     })
   })
 
+exportCommand
+  .command('blog <spaceKey>')
+  .description('Export blog posts of a space (under blog/YYYY/MM/)')
+  .option('-f, --format <type>', 'Export format: markdown|pdf|docx|json', 'markdown')
+  .option('-o, --output <dir>', 'Output directory', './exports')
+  .option('-e, --email <email>', 'Confluence account email')
+  .option('-t, --token <token>', 'API token')
+  .option('-u, --base-url <url>', 'Confluence base URL')
+  .option('--from <date>', 'Only posts published on or after this date (YYYY-MM-DD)')
+  .option('--to <date>', 'Only posts published on or before this date (YYYY-MM-DD)')
+  .option('--include-attachments', 'Download and include attachments')
+  .option('--include-comments', 'Export footer and inline comments')
+  .option('--dry-run', 'Show what would be exported without doing it')
+  .action(async (spaceKey: string, options: CommandOptions) => {
+    const parentOpts = exportCommand.parent?.opts<GlobalOptions>() ?? {}
+
+    await exportBlog({
+      spaceKey,
+      from: options.from,
+      to: options.to,
+      format: options.format,
+      output: options.output,
+      email: options.email,
+      token: options.token,
+      baseUrl: options.baseUrl,
+      includeAttachments: options.includeAttachments || false,
+      includeComments: options.includeComments,
+      dryRun: options.dryRun || false,
+      verbose: parentOpts.verbose || false,
+    })
+  })
+
+exportCommand
+  .command('history <pageId>')
+  .description('Export every saved version of a page with a CHANGELOG.md')
+  .option('-o, --output <dir>', 'Output directory', './exports')
+  .option('-e, --email <email>', 'Confluence account email')
+  .option('-t, --token <token>', 'API token')
+  .option('-u, --base-url <url>', 'Confluence base URL')
+  .option('--since <date>', 'Only versions saved on or after this date (YYYY-MM-DD)')
+  .option('--max-versions <n>', 'Only the most recent N versions')
+  .option('--layout <type>', 'Version layout: files (page@v1.md) | snapshots (v1/page.md)', 'files')
+  .option('--dry-run', 'Show what would be exported without doing it')
+  .action(async (pageId: string, options: CommandOptions) => {
+    const parentOpts = exportCommand.parent?.opts<GlobalOptions>() ?? {}
+
+    await exportHistory({
+      pageId,
+      output: options.output,
+      email: options.email,
+      token: options.token,
+      baseUrl: options.baseUrl,
+      since: options.since,
+      maxVersions: options.maxVersions,
+      layout: options.layout,
+      dryRun: options.dryRun || false,
+      verbose: parentOpts.verbose || false,
+    })
+  })
+
 exportCommand
   .command('batch <file>')
   .description('Export multiple pages from JSON/CSV file')
-  .option('-f, --format <type>', 'Export format: markdown|pdf|docx', 'markdown')
+  .option('-f, --format <type>', 'Export format: markdown|pdf|docx|json', 'markdown')
   .option('-o, --output <dir>', 'Output directory', './exports')
   .option('-e, --email <email>', 'Confluence account email')
   .option('-t, --token <token>', 'API token')
   .option('-u, --base-url <url>', 'Confluence base URL')
   .option('--include-attachments', 'Download and include attachments')
+  .option('--include-comments', 'Export footer and inline comments')
   .option('--dry-run', 'Show what would be exported without doing it')
-  .action(async (file: string, options: any) => {
-    const parentOpts = exportCommand.parent?.opts() || {}
+  .action(async (file: string, options: CommandOptions) => {
+    const parentOpts = exportCommand.parent?.opts<GlobalOptions>() ?? {}
 
     await exportBatch({
       file,
@@ -106,6 +232,7 @@ exportCommand
       token: options.token,
       baseUrl: options.baseUrl,
       includeAttachments: options.includeAttachments || false,
+      includeComments: options.includeComments,
       dryRun: options.dryRun || false,
       verbose: parentOpts.verbose || false,
     })
@@ -114,15 +241,16 @@ exportCommand
 exportCommand
   .command('url <url>')
   .description('Export page from Confluence URL')
-  .option('-f, --format <type>', 'Export format: markdown|pdf|docx', 'markdown')
+  .option('-f, --format <type>', 'Export format: markdown|pdf|docx|json', 'markdown')
   .option('-o, --output <dir>', 'Output directory', './exports')
   .option('-e, --email <email>', 'Confluence account email')
   .option('-t, --token <token>', 'API token')
   .option('--include-attachments', 'Download and include attachments')
+  .option('--include-comments', 'Export footer and inline comments')
   .option('--include-children', 'Export child pages recursively')
   .option('--dry-run', 'Show what would be exported without doing it')
-  .action(async (url: string, options: any) => {
-    const parentOpts = exportCommand.parent?.opts() || {}
+  .action(async (url: string, options: CommandOptions) => {
+    const parentOpts = exportCommand.parent?.opts<GlobalOptions>() ?? {}
 
     await exportUrl({
       url,
@@ -131,42 +259,88 @@ exportCommand
       email: options.email,
       token: options.token,
       includeAttachments: options.includeAttachments || false,
+      includeComments: options.includeComments,
       includeChildren: options.includeChildren || false,
       dryRun: options.dryRun || false,
       verbose: parentOpts.verbose || false,
     })
   })
 
+const syncCommand = program
+  .command('sync')
+  .description('Incrementally update a previous export')
+
+syncCommand
+  .command('space <spaceKey>')
+  .description('Re-export only pages changed since the last export (uses manifest.json)')
+  .option('-o, --output <dir>', 'Output directory of the previous export', './exports')
+  .option('-e, --email <email>', 'Confluence account email')
+  .option('-t, --token <token>', 'API token')
+  .option('-u, --base-url <url>', 'Confluence base URL')
+  .option('--dry-run', 'Show planned changes without applying them')
+  .action(async (spaceKey: string, options: CommandOptions) => {
+    const parentOpts = syncCommand.parent?.opts<GlobalOptions>() ?? {}
+
+    await syncSpace({
+      spaceKey,
+      output: options.output,
+      email: options.email,
+      token: options.token,
+      baseUrl: options.baseUrl,
+      dryRun: options.dryRun || false,
+      verbose: parentOpts.verbose || false,
+    })
+  })
+
 const configCommand = program.command('config').description('Manage configuration')
 
 configCommand
   .command('init')
   .description('Initialize configuration file')
   .option('-f, --force', 'Overwrite existing configuration file')
-  .action(async (options: any) => {
+  .action(async (options: CommandOptions) => {
     const { initConfig } = await import('./commands/config-init.js')
     await initConfig({ force: options.force || false })
   })
 
 configCommand
   .command('show')
-  .description('Show current configuration')
-  .action(async () => {
-    const logger = getLogger()
-    logger.info('Showing current configuration...')
-    logger.warn('Config show functionality not yet implemented')
+  .description('Show effective configuration and where each value comes from')
+  .option('--json', 'Output as JSON')
+  .option('-e, --email <email>', 'Confluence account email')
+  .option('-t, --token <token>', 'API token')
+  .option('-u, --base-url <url>', 'Confluence base URL')
+  .option('-f, --format <format>', 'Export format')
+  .option('-o, --output <dir>', 'Output directory')
+  .action(async (options: CommandOptions) => {
+    const { showConfig } = await import('./commands/config-show.js')
+    await showConfig({
+      json: options.json || false,
+      email: options.email,
+      token: options.token,
+      baseUrl: options.baseUrl,
+      format: options.format,
+      output: options.output,
+    })
   })
 
 configCommand
   .command('test')
-  .description('Test API connection')
+  .description('Diagnose API connection, authentication and token scopes')
   .option('-e, --email <email>', 'Confluence account email')
   .option('-t, --token <token>', 'API token')
   .option('-u, --base-url <url>', 'Confluence base URL')
-  .action(async (_options: any) => {
-    const logger = getLogger()
-    logger.info('Testing API connection...')
-    logger.warn('Config test functionality not yet implemented')
+  .option('--json', 'Output report as JSON')
+  .action(async (options: CommandOptions) => {
+    const { testConfig } = await import('./commands/config-test.js')
+    const parentOpts = configCommand.parent?.opts<GlobalOptions>() ?? {}
+    await testConfig({
+      email: options.email,
+      token: options.token,
+      baseUrl: options.baseUrl,
+      json: options.json || false,
+      verbose: parentOpts.verbose || false,
+    })
   })
 
 export async function run(argv: string[] = process.argv): Promise<void> {
@@ -5,6 +5,37 @@ import { DEFAULT_CONFIG } from './defaults.js'
 
 const MODULE_NAME = 'conflu'
 
+/**
+ * Config layer a value came from (later layers override earlier ones)
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'cli'
+
+export interface ConfigIssue {
+  path: string
+  message: string
+}
+
+export interface ConfigInspection {
+  /**
+   * Effective config (validated when there are no issues)
+   */
+  config: PartialConfig
+  /**
+   * Source of each leaf key, keyed by dotted path (e.g. "conversion.pdf.format")
+   */
+  sources: Record<string, ConfigSource>
+  /**
+   * Config file found by cosmiconfig
+   */
+  filePath?: string
+  issues: ConfigIssue[]
+}
+
+interface ConfigLayer {
+  source: ConfigSource
+  config: PartialConfig
+}
+
 export class ConfigLoader {
   private static instance: ConfigLoader | null = null
   private cachedConfig: Config | null = null
@@ -21,6 +52,58 @@ export class ConfigLoader {
   }
 
   async load(cliOptions: PartialConfig = {}): Promise<Config> {
+    const { layers } = await this.loadLayers(cliOptions)
+
+    const mergedConfig = this.mergeConfigs(...layers.map((layer) => layer.config))
+
+    const validatedConfig = ConfigSchema.parse(mergedConfig)
+
+    this.cachedConfig = validatedConfig
+    return validatedConfig
+  }
+
+  /**
+   * Load the effective config without throwing on validation errors
+   * Reports which layer (default, file, env, cli) each key came from
+   */
+  async inspect(cliOptions: PartialConfig = {}): Promise<ConfigInspection> {
+    const { layers, filePath } = await this.loadLayers(cliOptions)
+
+    const mergedConfig = this.mergeConfigs(...layers.map((layer) => layer.config))
+    const result = ConfigSchema.safeParse(mergedConfig)
+
+    const sources: Record<string, ConfigSource> = {}
+    for (const layer of layers) {
+      for (const [key] of flattenConfig(layer.config)) {
+        sources[key] = layer.source
+      }
+    }
+
+    // Keys filled in by schema defaults
+    const config = result.success ? result.data : mergedConfig
+    for (const [key] of flattenConfig(config)) {
+      sources[key] ??= 'default'
+    }
+
+    return {
+      config,
+      sources,
+      filePath,
+      issues: result.success
+        ? []
+        : result.error.issues.map((issue) => ({
+            path: issue.path.join('.') || '(root)',
+            message: issue.message,
+          })),
+    }
+  }
+
+  /**
+   * Load all config layers in precedence order (lowest first)
+   */
+  private async loadLayers(
+    cliOptions: PartialConfig,
+  ): Promise<{ layers: ConfigLayer[]; filePath?: string }> {
     const explorer = cosmiconfig(MODULE_NAME, {
       searchPlaces: [
         `.${MODULE_NAME}rc`,
@@ -34,26 +117,29 @@ export class ConfigLoader {
       ],
     })
 
-    const fileConfig = await this.loadFromFile(explorer)
+    const { config: fileConfig, filePath } = await this.loadFromFile(explorer)
 
     const envConfig = this.loadFromEnv()
 
-    const mergedConfig = this.mergeConfigs(DEFAULT_CONFIG, fileConfig, envConfig, cliOptions)
-
-    const validatedConfig = ConfigSchema.parse(mergedConfig)
-
-    this.cachedConfig = validatedConfig
-    return validatedConfig
+    return {
+      layers: [
+        { source: 'default', config: DEFAULT_CONFIG },
+        { source: 'file', config: fileConfig },
+        { source: 'env', config: envConfig },
+        { source: 'cli', config: cliOptions },
+      ],
+      filePath,
+    }
   }
 
   private async loadFromFile(
     explorer: ReturnType<typeof cosmiconfig>,
-  ): Promise<PartialConfig> {
+  ): Promise<{ config: PartialConfig; filePath?: string }> {
     try {
       const result = await explorer.search()
-      return result?.config || {}
+      return { config: result?.config || {}, filePath: result?.filepath }
     } catch (error) {
-      return {}
+      return { config: {} }
     }
   }
 
@@ -72,9 +158,43 @@ export class ConfigLoader {
       envConfig.token = process.env.CONFLUENCE_TOKEN
     }
 
+    if (process.env.CONFLUENCE_DEPLOYMENT) {
+      const deployment = process.env.CONFLUENCE_DEPLOYMENT.toLowerCase()
+      if (deployment === 'auto' || deployment === 'cloud' || deployment === 'datacenter') {
+        envConfig.deployment = deployment
+      }
+    }
+
+    if (process.env.CONFLUENCE_AUTH_TYPE) {
+      const authType = process.env.CONFLUENCE_AUTH_TYPE.toLowerCase()
+      if (authType === 'basic' || authType === 'bearer') {
+        envConfig.authType = authType
+      }
+    }
+
+    if (process.env.CONFLUENCE_API_VERSION) {
+      const version = process.env.CONFLUENCE_API_VERSION.toLowerCase()
+      if (version === 'v1' || version === 'v2') {
+        // Merged over the other layers' api options by mergeConfigs
+        envConfig.api = { version } as PartialConfig['api']
+      }
+    }
+
+    if (process.env.CONFLUENCE_JIRA_URL) {
+      envConfig.jira = { ...envConfig.jira, baseUrl: process.env.CONFLUENCE_JIRA_URL }
+    }
+
+    if (process.env.CONFLUENCE_JIRA_SNAPSHOT) {
+      envConfig.jira = { ...envConfig.jira, snapshot: process.env.CONFLUENCE_JIRA_SNAPSHOT }
+    }
+
+    if (process.env.CONFLUENCE_USER_CACHE) {
+      envConfig.userCache = process.env.CONFLUENCE_USER_CACHE
+    }
+
     if (process.env.CONFLUENCE_FORMAT) {
       const format = process.env.CONFLUENCE_FORMAT.toLowerCase()
-      if (format === 'markdown' || format === 'pdf' || format === 'docx') {
+      if (format === 'markdown' || format === 'pdf' || format === 'docx' || format === 'json') {
         envConfig.format = format
       }
     }
@@ -93,6 +213,11 @@ export class ConfigLoader {
         process.env.CONFLUENCE_INCLUDE_CHILDREN.toLowerCase() === 'true'
     }
 
+    if (process.env.CONFLUENCE_INCLUDE_COMMENTS) {
+      envConfig.includeComments =
+        process.env.CONFLUENCE_INCLUDE_COMMENTS.toLowerCase() === 'true'
+    }
+
     if (process.env.CONFLUENCE_FLAT) {
       envConfig.flat = process.env.CONFLUENCE_FLAT.toLowerCase() === 'true'
     }
@@ -101,45 +226,31 @@ export class ConfigLoader {
   }
 
   private mergeConfigs(...configs: PartialConfig[]): PartialConfig {
-    const merged: any = {}
+    let merged: PartialConfig = {}
 
     for (const config of configs) {
-      for (const key in config) {
-        const value = (config as any)[key]
+      const { api, jira, conversion, ...rest } = config
 
-        if (value === undefined) {
-          continue
-        }
+      merged = { ...merged, ...withoutUndefined(rest) }
+      merged.api = mergeSection(merged.api, api)
+      merged.jira = mergeSection(merged.jira, jira)
 
-        if (key === 'api') {
-          merged.api = {
-            ...merged.api,
-            ...value,
-          }
-        } else if (key === 'conversion') {
-          merged.conversion = {
-            ...merged.conversion,
-            ...value,
-            markdown: {
-              ...merged.conversion?.markdown,
-              ...value.markdown,
-            },
-            pdf: {
-              ...merged.conversion?.pdf,
-              ...value.pdf,
-            },
-            docx: {
-              ...merged.conversion?.docx,
-              ...value.docx,
-            },
-          }
-        } else {
-          merged[key] = value
+      if (conversion) {
+        const base = merged.conversion
+        merged.conversion = {
+          ...base,
+          ...withoutUndefined(conversion),
+          includes: mergeSection(base?.includes, conversion.includes),
+          mermaid: mergeSection(base?.mermaid, conversion.mermaid),
+          markdown: mergeSection(base?.markdown, conversion.markdown),
+          pdf: mergeSection(base?.pdf, conversion.pdf),
+          docx: mergeSection(base?.docx, conversion.docx),
+          json: mergeSection(base?.json, conversion.json),
         }
       }
     }
 
-    return merged
+    return withoutUndefined(merged)
   }
 
   getCachedConfig(): Config | null {
@@ -151,6 +262,43 @@ export class ConfigLoader {
   }
 }
 
+/**
+ * Copy of an object without its undefined values, so they do not override lower layers
+ */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    (Object.entries(value) as Array<[string, unknown]>).filter(([, child]) => child !== undefined)
+  ) as T
+}
+
+/**
+ * Merge one config section over another, keys of the override win
+ */
+function mergeSection<T extends object>(
+  base: T | undefined,
+  override: T | undefined
+): T | undefined {
+  return base || override ? ({ ...base, ...override } as T) : undefined
+}
+
+/**
+ * Flatten a config object into [dotted key, value] pairs sorted by key
+ */
+export function flattenConfig(value: unknown, prefix = ''): Array<[string, unknown]> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return value === undefined || !prefix ? [] : [[prefix, value]]
+  }
+
+  return Object.entries(value)
+    .flatMap(([key, child]) => flattenConfig(child, prefix ? `${prefix}.${key}` : key))
+    .sort(([a], [b]) => a.localeCompare(b))
+}
+
+export async function inspectConfig(cliOptions: PartialConfig = {}): Promise<ConfigInspection> {
+  const loader = ConfigLoader.getInstance()
+  return loader.inspect(cliOptions)
+}
+
 export async function loadConfig(cliOptions: PartialConfig = {}): Promise<Config> {
   const loader = ConfigLoader.getInstance()
   return loader.load(cliOptions)
@@ -1,9 +1,19 @@
 import { z } from 'zod'
+import { resolveDeployment } from '../core/deployment.js'
 
 export const MarkdownOptionsSchema = z.object({
   frontmatter: z.boolean().default(true),
   preserveHtml: z.boolean().default(false),
   gfm: z.boolean().default(true),
+  /**
+   * Where exported comments go: a section at the end of the page or a .comments.md file next to it
+   */
+  comments: z.enum(['section', 'sidecar']).default('section'),
+  /**
+   * Output dialect: plain markdown (.md), MDX (.mdx) that compiles with Docusaurus and other MDX tools,
+   * or Obsidian markdown (wikilinks, embeds, callouts)
+   */
+  flavor: z.enum(['markdown', 'mdx', 'obsidian']).default('markdown'),
 })
 
 export const PdfOptionsSchema = z.object({
@@ -24,35 +34,129 @@ export const DocxOptionsSchema = z.object({
   includeMetadata: z.boolean().default(true),
 })
 
+export const JsonOptionsSchema = z.object({
+  /**
+   * Indent the JSON documents
+   */
+  pretty: z.boolean().default(true),
+  /**
+   * Also include the processed HTML of each page
+   */
+  includeHtml: z.boolean().default(false),
+})
+
 export const ApiOptionsSchema = z.object({
   timeout: z.number().positive().default(30000),
   retries: z.number().min(0).max(10).default(3),
   concurrency: z.number().min(1).max(20).default(5),
+  /**
+   * REST API generation: v1 (Cloud and Data Center) or v2 (Cloud only, cursor pagination)
+   */
+  version: z.enum(['v1', 'v2']).default('v1'),
+})
+
+export const JiraOptionsSchema = z.object({
+  /**
+   * Jira site for live issue lookups (Confluence credentials are reused)
+   */
+  baseUrl: z.string().url().optional(),
+  /**
+   * Issue snapshot file: read when no Jira site is configured, refreshed after live lookups
+   */
+  snapshot: z.string().optional(),
+})
+
+export const IncludeOptionsSchema = z.object({
+  /**
+   * How include and excerpt-include macros are exported: the included content or a link to the page
+   */
+  mode: z.enum(['inline', 'link']).default('inline'),
+  /**
+   * Maximum nesting of includes inside included pages
+   */
+  maxDepth: z.number().int().min(1).max(10).default(3),
+})
+
+export const MermaidOptionsSchema = z.object({
+  /**
+   * Render diagrams to images in the assets folder with headless Chromium
+   */
+  render: z.boolean().default(false),
+  format: z.enum(['svg', 'png']).default('svg'),
+  /**
+   * Mermaid browser bundle (defaults to mermaid/dist/mermaid.min.js from node_modules)
+   */
+  scriptPath: z.string().optional(),
 })
 
 export const ConversionOptionsSchema = z.object({
+  includes: IncludeOptionsSchema.optional(),
+  mermaid: MermaidOptionsSchema.optional(),
   markdown: MarkdownOptionsSchema.optional(),
   pdf: PdfOptionsSchema.optional(),
   docx: DocxOptionsSchema.optional(),
+  json: JsonOptionsSchema.optional(),
 })
 
-export const ConfigSchema = z.object({
-  baseUrl: z.string().url().optional(),
-  email: z.string().email().optional(),
-  token: z.string().min(1).optional(),
-  format: z.enum(['markdown', 'pdf', 'docx']).default('markdown'),
-  output: z.string().default('./exports'),
-  includeAttachments: z.boolean().default(false),
-  includeChildren: z.boolean().default(false),
-  flat: z.boolean().default(false),
-  api: ApiOptionsSchema.optional(),
-  conversion: ConversionOptionsSchema.optional(),
-})
+export const ConfigSchema = z
+  .object({
+    baseUrl: z.string().url().optional(),
+    /**
+     * Account email (Cloud) or username (Data Center basic auth)
+     */
+    email: z.string().min(1).optional(),
+    token: z.string().min(1).optional(),
+    deployment: z.enum(['auto', 'cloud', 'datacenter']).default('auto'),
+    authType: z.enum(['basic', 'bearer']).optional(),
+    format: z.enum(['markdown', 'pdf', 'docx', 'json']).default('markdown'),
+    output: z.string().default('./exports'),
+    includeAttachments: z.boolean().default(false),
+    includeChildren: z.boolean().default(false),
+    includeComments: z.boolean().default(false),
+    flat: z.boolean().default(false),
+    api: ApiOptionsSchema.optional(),
+    jira: JiraOptionsSchema.optional(),
+    /**
+     * Display name cache for mentions, keyed by account ID (read first, updated after live lookups)
+     */
+    userCache: z.string().optional(),
+    conversion: ConversionOptionsSchema.optional(),
+  })
+  .superRefine((config, ctx) => {
+    // Cloud basic auth needs the account email, Data Center accepts a username
+    const deployment = config.baseUrl
+      ? resolveDeployment(config.baseUrl, config.deployment)
+      : config.deployment
+    if (
+      config.email &&
+      deployment === 'cloud' &&
+      !z.string().email().safeParse(config.email).success
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['email'],
+        message: 'Invalid email (Confluence Cloud requires the account email)',
+      })
+    }
+
+    // Without a baseUrl the deployment is only known when set explicitly
+    if (config.api?.version === 'v2' && deployment === 'datacenter') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['api', 'version'],
+        message: 'REST API v2 is only available on Confluence Cloud',
+      })
+    }
+  })
 
 export type MarkdownOptions = z.infer<typeof MarkdownOptionsSchema>
 export type PdfOptions = z.infer<typeof PdfOptionsSchema>
 export type DocxOptions = z.infer<typeof DocxOptionsSchema>
+export type JsonOptions = z.infer<typeof JsonOptionsSchema>
 export type ApiOptions = z.infer<typeof ApiOptionsSchema>
+export type JiraOptions = z.infer<typeof JiraOptionsSchema>
+export type IncludeOptions = z.infer<typeof IncludeOptionsSchema>
+export type MermaidOptions = z.infer<typeof MermaidOptionsSchema>
 export type ConversionOptions = z.infer<typeof ConversionOptionsSchema>
 export type Config = z.infer<typeof ConfigSchema>
 
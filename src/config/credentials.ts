@@ -0,0 +1,24 @@
+import { resolveAuthType } from '../core/deployment.js'
+import type { Config } from './config-schema.js'
+
+/**
+ * List the settings missing to authenticate
+ * Bearer auth (Data Center Personal Access Tokens) needs no email
+ */
+export function getMissingCredentials(config: Config): string[] {
+  const missing: string[] = []
+
+  if (!config.baseUrl) {
+    missing.push('baseUrl')
+  }
+
+  if (resolveAuthType(config.authType, config.email) === 'basic' && !config.email) {
+    missing.push('email')
+  }
+
+  if (!config.token) {
+    missing.push('token')
+  }
+
+  return missing
+}
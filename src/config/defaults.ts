@@ -3,13 +3,28 @@ import type {
   MarkdownOptions,
   PdfOptions,
   DocxOptions,
+  JsonOptions,
   ApiOptions,
+  IncludeOptions,
+  MermaidOptions,
 } from './config-schema.js'
 
 export const DEFAULT_MARKDOWN_OPTIONS: MarkdownOptions = {
   frontmatter: true,
   preserveHtml: false,
   gfm: true,
+  comments: 'section',
+  flavor: 'markdown',
+}
+
+export const DEFAULT_INCLUDE_OPTIONS: IncludeOptions = {
+  mode: 'inline',
+  maxDepth: 3,
+}
+
+export const DEFAULT_MERMAID_OPTIONS: MermaidOptions = {
+  render: false,
+  format: 'svg',
 }
 
 export const DEFAULT_PDF_OPTIONS: PdfOptions = {
@@ -28,22 +43,33 @@ export const DEFAULT_DOCX_OPTIONS: DocxOptions = {
   includeMetadata: true,
 }
 
+export const DEFAULT_JSON_OPTIONS: JsonOptions = {
+  pretty: true,
+  includeHtml: false,
+}
+
 export const DEFAULT_API_OPTIONS: ApiOptions = {
   timeout: 30000,
   retries: 3,
   concurrency: 5,
+  version: 'v1',
 }
 
 export const DEFAULT_CONFIG: Partial<Config> = {
+  deployment: 'auto',
   format: 'markdown',
   output: './exports',
   includeAttachments: false,
   includeChildren: false,
+  includeComments: false,
   flat: false,
   api: DEFAULT_API_OPTIONS,
   conversion: {
+    includes: DEFAULT_INCLUDE_OPTIONS,
+    mermaid: DEFAULT_MERMAID_OPTIONS,
     markdown: DEFAULT_MARKDOWN_OPTIONS,
     pdf: DEFAULT_PDF_OPTIONS,
     docx: DEFAULT_DOCX_OPTIONS,
+    json: DEFAULT_JSON_OPTIONS,
   },
 }
@@ -1,9 +1,22 @@
-export { loadConfig, getCachedConfig, ConfigLoader } from './config-loader.js'
+export {
+  loadConfig,
+  inspectConfig,
+  flattenConfig,
+  getCachedConfig,
+  ConfigLoader,
+  type ConfigSource,
+  type ConfigIssue,
+  type ConfigInspection,
+} from './config-loader.js'
 export { ConfigSchema, type Config, type PartialConfig } from './config-schema.js'
 export {
   DEFAULT_CONFIG,
   DEFAULT_API_OPTIONS,
   DEFAULT_MARKDOWN_OPTIONS,
+  DEFAULT_INCLUDE_OPTIONS,
+  DEFAULT_MERMAID_OPTIONS,
   DEFAULT_PDF_OPTIONS,
   DEFAULT_DOCX_OPTIONS,
+  DEFAULT_JSON_OPTIONS,
 } from './defaults.js'
+export { getMissingCredentials } from './credentials.js'
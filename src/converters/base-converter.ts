@@ -1,16 +1,52 @@
+import { readFile } from 'fs/promises'
+import { extname, join } from 'path'
 import { ConfluencePage } from '../types.js'
-import { HtmlProcessor, ProcessedContent } from './html-processor.js'
+import { HtmlProcessor, ProcessedContent, type MermaidRenderStats } from './html-processor.js'
 import { getLogger } from '../cli/ui/logger.js'
+import type { JiraIssueSource } from '../core/jira-issues.js'
+import type { PageIncludeSource } from '../core/page-includes.js'
+import type { PageTreeSource } from '../core/page-tree.js'
+import type { UserSource } from '../core/users.js'
+import type { IncludeOptions } from './macro-handlers/index.js'
+import type { MermaidDiagramRenderer } from './mermaid-renderer.js'
+import type { SitePageSettings } from '../storage/static-site.js'
 
 export interface ConvertOptions {
   baseUrl?: string
   outputDir?: string
   includeAttachments?: boolean
+  /**
+   * Absolute path of the downloaded assets folder (used to embed images)
+   */
+  assetsDir?: string
+  /**
+   * Path from the page file to the assets folder (defaults to ./assets)
+   */
+  assetsPath?: string
+  /**
+   * Static site navigation settings, written to the frontmatter (markdown only)
+   */
+  site?: SitePageSettings
   [key: string]: any
 }
 
-export interface ConvertResult {
+/**
+ * Extra file written next to the page file, e.g. `Page.comments.md`
+ */
+export interface ConvertSidecar {
+  /**
+   * Replaces the page file extension
+   */
+  suffix: string
   content: string
+}
+
+export interface ConvertResult {
+  /**
+   * Text formats (markdown) return a string, binary formats (PDF, DOCX) a Buffer
+   */
+  content: string | Buffer
+  sidecars?: ConvertSidecar[]
   metadata: {
     format: string
     pageId: string
@@ -20,6 +56,16 @@ export interface ConvertResult {
   }
 }
 
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+}
+
 /**
  * Base Converter
  * Abstract base class for all format converters
@@ -48,6 +94,52 @@ export abstract class BaseConverter {
    */
   abstract getFormatName(): string
 
+  /**
+   * Release resources held across pages, e.g. a headless browser
+   * Call once after the last page of an export
+   */
+  async close(): Promise<void> {}
+
+  /**
+   * Set where Jira macros get issue data from
+   * Without a source, Jira macros are exported as plain issue keys and search links
+   */
+  setJiraIssueSource(issueSource: JiraIssueSource | undefined): void {
+    this.htmlProcessor.setJiraIssueSource(issueSource)
+  }
+
+  /**
+   * Set where mentioned users get their display names from
+   * Without a source, mentions fall back to the name stored in the page or the user ID
+   */
+  setUserSource(userSource: UserSource | undefined): void {
+    this.htmlProcessor.setUserSource(userSource)
+  }
+
+  /**
+   * Set where include and excerpt-include macros fetch pages from
+   * Without a source, includes are exported as links to the included page
+   */
+  setPageIncludeSource(pageSource: PageIncludeSource | undefined, options?: IncludeOptions): void {
+    this.htmlProcessor.setPageIncludeSource(pageSource, options)
+  }
+
+  /**
+   * Set where children, pagetree and contentbylabel macros look up the pages they list
+   * Without a source, these macros are exported empty
+   */
+  setPageTreeSource(pageSource: PageTreeSource | undefined): void {
+    this.htmlProcessor.setPageTreeSource(pageSource)
+  }
+
+  /**
+   * Set the renderer for Mermaid diagram images
+   * Without a renderer, Mermaid diagrams are exported as source only
+   */
+  setMermaidRenderer(renderer: MermaidDiagramRenderer | undefined): void {
+    this.htmlProcessor.setMermaidRenderer(renderer)
+  }
+
   /**
    * Set Mermaid attachment content before processing
    * Use this to provide .mmd file content for attachment-based Mermaid macros
@@ -69,7 +161,29 @@ export abstract class BaseConverter {
   protected async processContent(page: ConfluencePage): Promise<ProcessedContent> {
     this.logger.debug(`Processing content for page ${page.id}...`)
 
-    return await this.htmlProcessor.process(page.content.storage, page.content.view)
+    return await this.htmlProcessor.process(
+      page.content.storage,
+      page.content.view,
+      page.spaceKey,
+      page.title,
+      page.id,
+    )
+  }
+
+  /**
+   * Render Mermaid diagrams into the assets folder when a renderer is set
+   * Stats are only returned when rendering was attempted
+   */
+  protected async renderMermaidDiagrams(
+    page: ConfluencePage,
+    html: string,
+    assetsDir?: string,
+  ): Promise<{ html: string; stats?: MermaidRenderStats }> {
+    if (!assetsDir) {
+      return { html }
+    }
+
+    return this.htmlProcessor.renderMermaidDiagrams(html, page.id, assetsDir)
   }
 
   /**
@@ -85,12 +199,67 @@ export abstract class BaseConverter {
       exportedAt: new Date().toISOString(),
       labels: page.metadata?.labels || [],
       createdBy: page.metadata?.createdBy,
+      createdById: page.metadata?.createdById,
       createdAt: page.metadata?.createdAt?.toISOString(),
       updatedAt: page.metadata?.updatedAt?.toISOString(),
       parentId: page.metadata?.parentId,
     }
   }
 
+  /**
+   * Replace Confluence image URLs with data URIs from the local assets folder
+   * Images that were not downloaded are left as-is and will not render offline
+   */
+  protected async embedLocalImages(
+    doc: Document,
+    assetsDir?: string,
+    mimeTypes: string[] = Object.values(IMAGE_MIME_TYPES),
+  ): Promise<void> {
+    if (!assetsDir) {
+      return
+    }
+
+    const images = Array.from(doc.querySelectorAll('img'))
+
+    for (const img of images) {
+      const src = img.getAttribute('src') || ''
+      if (src.startsWith('data:')) {
+        continue
+      }
+
+      const filename = this.extractAttachmentFilename(src)
+      const mimeType = IMAGE_MIME_TYPES[extname(filename).toLowerCase()]
+
+      if (!filename || !mimeType || !mimeTypes.includes(mimeType)) {
+        continue
+      }
+
+      try {
+        const data = await readFile(join(assetsDir, filename))
+        img.setAttribute('src', `data:${mimeType};base64,${data.toString('base64')}`)
+        img.removeAttribute('srcset')
+      } catch {
+        this.logger.debug(`Image not found in assets, skipping embed: ${filename}`)
+      }
+    }
+  }
+
+  /**
+   * Extract decoded filename from an attachment URL
+   * URL format: /download/attachments/pageId/filename.png?...
+   */
+  protected extractAttachmentFilename(src: string): string {
+    let filename = src.split('?')[0].split('/').pop() || ''
+
+    try {
+      filename = decodeURIComponent(filename)
+    } catch {
+      // If decoding fails, use the original filename
+    }
+
+    return filename
+  }
+
   /**
    * Sanitize filename for filesystem
    */
@@ -0,0 +1,29 @@
+import { BaseConverter } from './base-converter.js'
+import { createMarkdownConverter } from './markdown-converter.js'
+import { createPdfConverter } from './pdf-converter.js'
+import { createDocxConverter } from './docx-converter.js'
+import { createJsonConverter } from './json-converter.js'
+import type { Config, ConversionOptions } from '../config/config-schema.js'
+
+export type ExportFormat = Config['format']
+
+/**
+ * Create the converter for an export format
+ */
+export function createConverter(
+  format: ExportFormat,
+  conversion?: ConversionOptions
+): BaseConverter {
+  switch (format) {
+    case 'markdown':
+      return createMarkdownConverter(conversion?.markdown)
+    case 'pdf':
+      return createPdfConverter(conversion?.pdf)
+    case 'docx':
+      return createDocxConverter(conversion?.docx)
+    case 'json':
+      return createJsonConverter(conversion?.json)
+    default:
+      throw new Error(`Format ${String(format)} is not supported`)
+  }
+}
@@ -0,0 +1,659 @@
+import { JSDOM } from 'jsdom'
+import { MacroParser } from './macro-parser.js'
+
+/**
+ * Version of the document model, bumped on breaking changes
+ * Published as schemas/confluence-document.v1.json
+ */
+export const DOCUMENT_SCHEMA_VERSION = 1
+
+export const DOCUMENT_SCHEMA_ID = `urn:conflu-exporter:confluence-document:v${DOCUMENT_SCHEMA_VERSION}`
+
+export type TextMark =
+  | 'strong'
+  | 'emphasis'
+  | 'code'
+  | 'strikethrough'
+  | 'underline'
+  | 'subscript'
+  | 'superscript'
+
+export interface TextNode {
+  type: 'text'
+  value: string
+  marks?: TextMark[]
+}
+
+/**
+ * Link to a URL, a Confluence page, an attachment or an anchor on the same page
+ */
+export interface LinkNode {
+  type: 'link'
+  href?: string
+  page?: { title: string; spaceKey?: string }
+  attachment?: string
+  anchor?: string
+  children: InlineNode[]
+}
+
+export interface MentionNode {
+  type: 'mention'
+  accountId?: string
+  userKey?: string
+  username?: string
+  /**
+   * Name shown in the page when the mention was written, if stored
+   */
+  name?: string
+}
+
+/**
+ * Attachment image (filename, path in the assets folder) or external image (src)
+ */
+export interface ImageNode {
+  type: 'image'
+  filename?: string
+  path?: string
+  src?: string
+  alt?: string
+  caption?: string
+  width?: number
+  height?: number
+}
+
+export interface BreakNode {
+  type: 'break'
+}
+
+/**
+ * Confluence macro without a dedicated node, as stored
+ * Plain text bodies are kept as `body`, rich text bodies are parsed into `children`
+ */
+export interface MacroNode {
+  type: 'macro'
+  name: string
+  parameters: Record<string, string>
+  body?: string
+  children?: BlockNode[]
+}
+
+export type InlineNode = TextNode | LinkNode | MentionNode | ImageNode | BreakNode | MacroNode
+
+export interface HeadingNode {
+  type: 'heading'
+  level: number
+  children: InlineNode[]
+}
+
+export interface ParagraphNode {
+  type: 'paragraph'
+  children: InlineNode[]
+}
+
+export interface ListItemNode {
+  type: 'listItem'
+  /**
+   * Task list items only
+   */
+  checked?: boolean
+  children: BlockNode[]
+}
+
+export interface ListNode {
+  type: 'list'
+  ordered: boolean
+  items: ListItemNode[]
+}
+
+export interface TableCellNode {
+  type: 'tableCell'
+  header: boolean
+  colspan?: number
+  rowspan?: number
+  children: BlockNode[]
+}
+
+export interface TableRowNode {
+  type: 'tableRow'
+  cells: TableCellNode[]
+}
+
+export interface TableNode {
+  type: 'table'
+  rows: TableRowNode[]
+}
+
+/**
+ * Code and noformat macros, preformatted text
+ */
+export interface CodeNode {
+  type: 'code'
+  language?: string
+  title?: string
+  value: string
+}
+
+export interface BlockquoteNode {
+  type: 'blockquote'
+  children: BlockNode[]
+}
+
+export interface ThematicBreakNode {
+  type: 'thematicBreak'
+}
+
+export type BlockNode =
+  | HeadingNode
+  | ParagraphNode
+  | ListNode
+  | TableNode
+  | CodeNode
+  | BlockquoteNode
+  | ThematicBreakNode
+  | MacroNode
+
+export interface DocumentPage {
+  id: string
+  title: string
+  spaceKey: string
+  type: 'page' | 'blogpost'
+  version?: number
+  url?: string
+  labels: string[]
+  createdBy?: string
+  createdById?: string
+  createdAt?: string
+  updatedAt?: string
+  publishedAt?: string
+  parentId?: string
+  ancestors: Array<{ id: string; title: string }>
+  position?: number
+  /**
+   * Page properties from `details` macros
+   */
+  properties: Record<string, string>
+}
+
+export interface DocumentComment {
+  id: string
+  location: 'footer' | 'inline'
+  author?: string
+  createdAt?: string
+  inlineText?: string
+  resolved?: boolean
+  body: BlockNode[]
+  replies: DocumentComment[]
+}
+
+/**
+ * JSON export of one page
+ */
+export interface ConfluenceDocument {
+  schema: typeof DOCUMENT_SCHEMA_ID
+  schemaVersion: typeof DOCUMENT_SCHEMA_VERSION
+  page: DocumentPage
+  body: BlockNode[]
+  comments?: DocumentComment[]
+  /**
+   * Processed HTML of the page (conversion.json.includeHtml)
+   */
+  html?: string
+  exportedAt: string
+  exportedBy: 'conflu-exporter'
+}
+
+export interface DocumentModelBuilderOptions {
+  /**
+   * Path attachment images are linked with (defaults to ./assets)
+   */
+  assetsPath?: string
+}
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+
+const MARKS: Record<string, TextMark> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'emphasis',
+  i: 'emphasis',
+  code: 'code',
+  s: 'strikethrough',
+  del: 'strikethrough',
+  u: 'underline',
+  sub: 'subscript',
+  sup: 'superscript',
+}
+
+/**
+ * Elements that start a new block, everything else is part of the surrounding paragraph
+ */
+const BLOCK_ELEMENTS = new Set([
+  ...HEADINGS,
+  'p',
+  'ul',
+  'ol',
+  'table',
+  'pre',
+  'blockquote',
+  'hr',
+  'div',
+  'section',
+  'ac:task-list',
+  'ac:layout',
+  'ac:layout-section',
+  'ac:layout-cell',
+  'ac:structured-macro',
+  'ac:macro',
+])
+
+const CODE_MACROS = ['code', 'noformat']
+
+/**
+ * Document Model Builder
+ * Parses storage format (XHTML) into the typed document tree of JSON exports
+ *
+ * Macros are read with MacroParser: code and noformat become code nodes, other macros
+ * keep their name and parameters. Layouts and unknown wrappers are flattened.
+ */
+export class DocumentModelBuilder {
+  private macroParser: MacroParser
+  private assetsPath: string
+
+  constructor(macroParser: MacroParser, options: DocumentModelBuilderOptions = {}) {
+    this.macroParser = macroParser
+    this.assetsPath = (options.assetsPath ?? './assets').replace(/\/$/, '')
+  }
+
+  /**
+   * Build the block tree of a storage format body
+   */
+  build(storage: string): BlockNode[] {
+    // CDATA sections are comments in HTML mode, keep their text
+    const html = storage.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) =>
+      escapeHtml(text)
+    )
+    const dom = new JSDOM(`<body>${html}</body>`, { contentType: 'text/html' })
+
+    return this.parseBlocks(Array.from(dom.window.document.body.childNodes))
+  }
+
+  private parseBlocks(nodes: ChildNode[]): BlockNode[] {
+    const blocks: BlockNode[] = []
+    let inlines: ChildNode[] = []
+
+    const flush = (): void => {
+      const children = this.parseInlines(inlines)
+      if (children.length > 0) {
+        blocks.push({ type: 'paragraph', children })
+      }
+      inlines = []
+    }
+
+    for (const node of nodes) {
+      if (isElement(node) && BLOCK_ELEMENTS.has(tagName(node))) {
+        flush()
+        blocks.push(...this.parseBlock(node))
+      } else {
+        inlines.push(node)
+      }
+    }
+
+    flush()
+    return blocks
+  }
+
+  private parseBlock(element: Element): BlockNode[] {
+    const name = tagName(element)
+
+    if (HEADINGS.includes(name)) {
+      return [
+        {
+          type: 'heading',
+          level: Number(name[1]),
+          children: this.parseInlines(element.childNodes),
+        },
+      ]
+    }
+
+    switch (name) {
+      case 'p': {
+        const children = this.parseInlines(element.childNodes)
+        return children.length > 0 ? [{ type: 'paragraph', children }] : []
+      }
+      case 'ul':
+      case 'ol':
+        return [
+          {
+            type: 'list',
+            ordered: name === 'ol',
+            items: childElements(element, 'li').map((item) => ({
+              type: 'listItem',
+              children: this.parseBlocks(Array.from(item.childNodes)),
+            })),
+          },
+        ]
+      case 'ac:task-list':
+        return [
+          {
+            type: 'list',
+            ordered: false,
+            items: childElements(element, 'ac:task').map((task) => ({
+              type: 'listItem',
+              checked: childElements(task, 'ac:task-status')[0]?.textContent?.trim() === 'complete',
+              children: this.parseBlocks(
+                Array.from(childElements(task, 'ac:task-body')[0]?.childNodes ?? [])
+              ),
+            })),
+          },
+        ]
+      case 'table':
+        return [this.parseTable(element)]
+      case 'pre':
+        return [{ type: 'code', value: element.textContent ?? '' }]
+      case 'blockquote':
+        return [{ type: 'blockquote', children: this.parseBlocks(Array.from(element.childNodes)) }]
+      case 'hr':
+        return [{ type: 'thematicBreak' }]
+      case 'ac:structured-macro':
+      case 'ac:macro': {
+        const macro = this.parseMacro(element)
+        return macro ? [macro] : []
+      }
+      default:
+        return this.parseBlocks(Array.from(element.childNodes))
+    }
+  }
+
+  private parseTable(table: Element): TableNode {
+    const rows = Array.from(table.querySelectorAll('tr')).filter(
+      (row) => row.closest('table') === table
+    )
+
+    return {
+      type: 'table',
+      rows: rows.map((row) => ({
+        type: 'tableRow',
+        cells: childElements(row, 'th', 'td').map((cell) => {
+          const colspan = Number(cell.getAttribute('colspan') ?? 1)
+          const rowspan = Number(cell.getAttribute('rowspan') ?? 1)
+
+          return {
+            type: 'tableCell',
+            header: tagName(cell) === 'th',
+            ...(colspan > 1 ? { colspan } : {}),
+            ...(rowspan > 1 ? { rowspan } : {}),
+            children: this.parseBlocks(Array.from(cell.childNodes)),
+          }
+        }),
+      })),
+    }
+  }
+
+  /**
+   * Code and noformat macros become code nodes, other macros keep name and parameters
+   */
+  private parseMacro(element: Element): CodeNode | MacroNode | undefined {
+    const macro = this.macroParser.parseMacroElement(element)
+    if (!macro) {
+      return undefined
+    }
+
+    const parameters = Object.fromEntries(
+      macro.parameters.map((parameter) => [parameter.name, parameter.value])
+    )
+
+    if (CODE_MACROS.includes(macro.name)) {
+      return {
+        type: 'code',
+        ...(parameters.language ? { language: parameters.language } : {}),
+        ...(parameters.title ? { title: parameters.title } : {}),
+        value: macro.body ?? '',
+      }
+    }
+
+    const richTextBody = childElements(element, 'ac:rich-text-body')[0]
+
+    return {
+      type: 'macro',
+      name: macro.name,
+      parameters,
+      ...(macro.bodyType === 'plain' ? { body: macro.body ?? '' } : {}),
+      ...(richTextBody ? { children: this.parseBlocks(Array.from(richTextBody.childNodes)) } : {}),
+    }
+  }
+
+  private parseInlines(nodes: Iterable<ChildNode>): InlineNode[] {
+    const inlines = this.collectInlines(Array.from(nodes), [])
+    return trimText(mergeText(inlines))
+  }
+
+  private collectInlines(nodes: ChildNode[], marks: TextMark[]): InlineNode[] {
+    const inlines: InlineNode[] = []
+
+    for (const node of nodes) {
+      if (node.nodeType === node.TEXT_NODE) {
+        const value = (node.textContent ?? '').replace(/\s+/g, ' ')
+        if (value) {
+          inlines.push(textNode(value, marks))
+        }
+        continue
+      }
+
+      if (!isElement(node)) {
+        continue
+      }
+
+      const name = tagName(node)
+      const mark = MARKS[name]
+
+      if (mark) {
+        inlines.push(
+          ...this.collectInlines(
+            Array.from(node.childNodes),
+            marks.includes(mark) ? marks : [...marks, mark]
+          )
+        )
+        continue
+      }
+
+      switch (name) {
+        case 'br':
+          inlines.push({ type: 'break' })
+          break
+        case 'a':
+          inlines.push({
+            type: 'link',
+            href: node.getAttribute('href') ?? '',
+            children: this.collectInlines(Array.from(node.childNodes), marks),
+          })
+          break
+        case 'ac:link':
+          inlines.push(...this.parseLink(node, marks))
+          break
+        case 'ac:image': {
+          const image = this.parseImage(node)
+          if (image) {
+            inlines.push(image)
+          }
+          break
+        }
+        case 'ac:structured-macro':
+        case 'ac:macro': {
+          const macro = this.parseMacro(node)
+          if (macro?.type === 'code') {
+            inlines.push(textNode(macro.value, [...marks, 'code']))
+          } else if (macro) {
+            inlines.push(macro)
+          }
+          break
+        }
+        case 'ac:emoticon':
+          inlines.push({
+            type: 'text',
+            value:
+              node.getAttribute('ac:emoji-fallback') || `:${node.getAttribute('ac:name') ?? ''}:`,
+          })
+          break
+        case 'time':
+          inlines.push({ type: 'text', value: node.getAttribute('datetime') ?? '' })
+          break
+        case 'ac:placeholder':
+        case 'ac:parameter':
+          break
+        default:
+          inlines.push(...this.collectInlines(Array.from(node.childNodes), marks))
+      }
+    }
+
+    return inlines
+  }
+
+  /**
+   * Page, attachment, anchor and URL links from MacroParser, user links become mentions
+   */
+  private parseLink(element: Element, marks: TextMark[]): InlineNode[] {
+    const user = element.querySelector('ri\\:user, user')
+    if (user) {
+      const name = this.getLinkBody(element)?.textContent?.trim()
+      return [
+        {
+          type: 'mention',
+          ...optional('accountId', user.getAttribute('ri:account-id')),
+          ...optional('userKey', user.getAttribute('ri:userkey')),
+          ...optional('username', user.getAttribute('ri:username')),
+          ...optional('name', name),
+        },
+      ]
+    }
+
+    const link = this.macroParser.parseLinkElement(element)
+    if (!link) {
+      return []
+    }
+
+    // Rich link bodies keep their formatting, otherwise the text is the target name
+    const body = this.getLinkBody(element)
+    const children = body
+      ? trimText(mergeText(this.collectInlines(Array.from(body.childNodes), marks)))
+      : []
+    const fallback = link.text || link.pageTitle || link.attachmentFilename || link.anchor || ''
+    const text: InlineNode[] =
+      children.length > 0 ? children : fallback ? [textNode(fallback, marks)] : []
+
+    return [
+      {
+        type: 'link',
+        ...optional('href', link.href),
+        ...(link.type === 'page' && link.pageTitle
+          ? { page: { title: link.pageTitle, ...optional('spaceKey', link.spaceKey) } }
+          : {}),
+        ...optional('attachment', link.attachmentFilename),
+        ...optional('anchor', link.anchor),
+        children: text,
+      },
+    ]
+  }
+
+  private parseImage(element: Element): ImageNode | undefined {
+    const image = this.macroParser.parseImageElement(element)
+    if (image) {
+      return {
+        type: 'image',
+        filename: image.filename,
+        path: `${this.assetsPath}/${image.filename}`,
+        ...optional('alt', image.alt),
+        ...optional('caption', image.caption),
+        ...optional('width', image.width),
+        ...optional('height', image.height),
+      }
+    }
+
+    const src = element.querySelector('ri\\:url, url')?.getAttribute('ri:value')
+    return src ? { type: 'image', src } : undefined
+  }
+
+  private getLinkBody(element: Element): Element | undefined {
+    return childElements(element, 'ac:link-body', 'ac:plain-text-link-body')[0]
+  }
+}
+
+function isElement(node: ChildNode): node is Element {
+  return node.nodeType === node.ELEMENT_NODE
+}
+
+function tagName(element: Element): string {
+  return element.nodeName.toLowerCase()
+}
+
+function childElements(element: Element, ...names: string[]): Element[] {
+  return Array.from(element.children).filter((child) => names.includes(tagName(child)))
+}
+
+function textNode(value: string, marks: TextMark[]): TextNode {
+  return marks.length > 0 ? { type: 'text', value, marks } : { type: 'text', value }
+}
+
+/**
+ * Property only set when there is a value, so unset fields are left out of the JSON
+ */
+function optional<K extends string, V>(key: K, value: V | null | undefined): Partial<Record<K, V>> {
+  return value === undefined || value === null || value === ''
+    ? {}
+    : ({ [key]: value } as Record<K, V>)
+}
+
+/**
+ * Join neighbouring text nodes with the same marks
+ */
+function mergeText(inlines: InlineNode[]): InlineNode[] {
+  const merged: InlineNode[] = []
+
+  for (const node of inlines) {
+    const previous = merged[merged.length - 1]
+    if (
+      node.type === 'text' &&
+      previous?.type === 'text' &&
+      (previous.marks ?? []).join() === (node.marks ?? []).join()
+    ) {
+      merged[merged.length - 1] = { ...previous, value: previous.value + node.value }
+    } else {
+      merged.push(node)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Drop whitespace at the start and end of a paragraph and around line breaks
+ */
+function trimText(inlines: InlineNode[]): InlineNode[] {
+  return inlines
+    .map((node, index) => {
+      if (node.type !== 'text') {
+        return node
+      }
+
+      let value = node.value
+      if (index === 0 || inlines[index - 1].type === 'break') {
+        value = value.trimStart()
+      }
+      if (index === inlines.length - 1 || inlines[index + 1].type === 'break') {
+        value = value.trimEnd()
+      }
+
+      return { ...node, value }
+    })
+    .filter((node) => node.type !== 'text' || node.value !== '')
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function createDocumentModelBuilder(
+  macroParser: MacroParser,
+  options?: DocumentModelBuilderOptions
+): DocumentModelBuilder {
+  return new DocumentModelBuilder(macroParser, options)
+}
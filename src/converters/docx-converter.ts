@@ -0,0 +1,370 @@
+import { JSDOM } from 'jsdom'
+import JSZip from 'jszip'
+import { asBlob } from 'html-docx-js-typescript'
+import { BaseConverter, ConvertOptions, ConvertResult } from './base-converter.js'
+import { ConfluencePage } from '../types.js'
+import { DocxConversionError } from '../errors/index.js'
+import type { DocxOptions } from '../config/config-schema.js'
+
+const DOCUMENT_STYLES = `
+  body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #c1c7d0; padding: 4px 8px; vertical-align: top; }
+  th { background: #f4f5f7; }
+  pre { font-family: Consolas, 'Courier New', monospace; font-size: 9pt; background: #f4f5f7; }
+  .panel { border: 1px solid #c1c7d0; border-left: 4px solid #0065ff; padding: 6px 10px; }
+  .panel-warning { border-left-color: #de350b; }
+  .panel-note { border-left-color: #ff991f; }
+  .panel-tip { border-left-color: #36b37e; }
+`
+
+/**
+ * Word only understands inline raster images inside the MHT chunk
+ */
+const EMBEDDABLE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp']
+
+/**
+ * DOCX Converter
+ * Maps the processed HTML from HtmlProcessor to a Word document
+ *
+ * CRITICAL Features:
+ * - Code fences and panels produced by the macro handlers become real Word blocks
+ * - Storage-format images and links (<ac:image>, <ac:link>) are resolved to HTML
+ * - Images from the assets folder are embedded when embedImages is enabled
+ * - Page metadata is written to the document core properties (docProps/core.xml)
+ */
+export class DocxConverter extends BaseConverter {
+  private options: DocxOptions
+
+  constructor(options?: DocxOptions) {
+    super()
+
+    this.options = {
+      embedImages: true,
+      includeMetadata: true,
+      ...options,
+    }
+  }
+
+  /**
+   * Convert Confluence page to DOCX
+   */
+  async convert(page: ConfluencePage, options?: ConvertOptions): Promise<ConvertResult> {
+    this.validatePage(page)
+
+    this.logger.info(`Converting page ${page.id} to DOCX...`)
+
+    const processed = await this.processContent(page)
+
+    // Rendered Mermaid diagrams keep only the image, the others become ```mermaid fences
+    const mermaid = await this.renderMermaidDiagrams(page, processed.html, options?.assetsDir)
+    const html = this.htmlProcessor
+      .replaceMermaidPlaceholders(mermaid.html)
+      .replace(/<details data-mermaid-source="true">[\s\S]*?<\/details>/g, '')
+
+    const documentHtml = await this.buildDocument(page, html, options?.assetsDir)
+
+    let docx: Buffer
+    try {
+      const result = await asBlob(documentHtml)
+      docx = Buffer.isBuffer(result) ? result : Buffer.from(await result.arrayBuffer())
+
+      if (this.options.includeMetadata) {
+        docx = await this.writeCoreProperties(docx, page)
+      }
+    } catch (error) {
+      throw new DocxConversionError(`Failed to generate DOCX for page ${page.id}`, {
+        pageId: page.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    this.logger.info(`Converted page ${page.id}: ${docx.length} bytes`)
+
+    const baseMetadata = this.generateMetadata(page)
+
+    return {
+      content: docx,
+      metadata: {
+        format: 'docx',
+        pageId: page.id,
+        pageTitle: page.title,
+        exportedAt: new Date(),
+        ...baseMetadata,
+        macros: processed.macros,
+        imageCount: processed.images.length,
+        linkCount: processed.links.length,
+        unresolvedMentions: processed.unresolvedMentions,
+        mermaidRender: mermaid.stats,
+      },
+    }
+  }
+
+  /**
+   * Build a standalone HTML document that Word can import
+   */
+  private async buildDocument(
+    page: ConfluencePage,
+    html: string,
+    assetsDir?: string
+  ): Promise<string> {
+    const body = this.convertPanels(this.convertCodeFences(this.unwrapMermaidPlaceholders(html)))
+
+    const dom = new JSDOM(
+      `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body></body></html>`
+    )
+    const doc = dom.window.document
+
+    const title = doc.createElement('title')
+    title.textContent = page.title
+    doc.head.appendChild(title)
+
+    const style = doc.createElement('style')
+    style.textContent = DOCUMENT_STYLES
+    doc.head.appendChild(style)
+
+    const heading = doc.createElement('h1')
+    heading.textContent = page.title
+    doc.body.appendChild(heading)
+
+    const content = doc.createElement('div')
+    content.innerHTML = this.htmlProcessor.sanitize(body)
+    doc.body.appendChild(content)
+
+    this.resolveStorageElements(doc)
+    this.prepareTables(doc)
+
+    if (this.options.embedImages) {
+      await this.embedLocalImages(doc, assetsDir, EMBEDDABLE_MIME_TYPES)
+    }
+
+    return dom.serialize()
+  }
+
+  /**
+   * Drop the <code> wrapper around replaced Mermaid placeholders
+   */
+  private unwrapMermaidPlaceholders(html: string): string {
+    return html.replace(/<code data-mermaid-placeholder="[^"]*">([\s\S]*?)<\/code>/g, '$1')
+  }
+
+  /**
+   * Convert markdown code fences emitted by the code/mermaid handlers to <pre> blocks
+   */
+  private convertCodeFences(html: string): string {
+    return html.replace(
+      /(<pre><code>)?```([\w+-]*)\n([\s\S]*?)\n?```(?:<\/code><\/pre>)?/g,
+      (_match, wrapped: string | undefined, language: string, code: string) => {
+        // Fences wrapped in <pre><code> by the code handler are already escaped
+        const text = wrapped ? code : this.escapeHtml(code)
+        const languageAttr = language ? ` data-language="${language}"` : ''
+        return `<pre${languageAttr}>${text}</pre>`
+      }
+    )
+  }
+
+  /**
+   * Convert blockquote-style panels emitted by ContentHandler to styled blocks
+   * Panel format: "> ℹ️ **INFO: title**\n>\n> line\n"
+   */
+  private convertPanels(html: string): string {
+    return html.replace(
+      /\n> \S+ \*\*([A-Z]+)(?:: ([^*]*))?\*\*\n>\n((?:> .*\n)*)/g,
+      (_match, prefix: string, title: string | undefined, lines: string) => {
+        const type = prefix.toLowerCase()
+        const paragraphs = lines
+          .split('\n')
+          .map((line) => line.replace(/^> /, '').trim())
+          .filter(Boolean)
+          .map((line) => `<p>${line}</p>`)
+          .join('')
+
+        return (
+          `<div class="panel panel-${type}">` +
+          `<p><b>${prefix}${title ? `: ${title}` : ''}</b></p>${paragraphs}</div>`
+        )
+      }
+    )
+  }
+
+  /**
+   * Resolve storage-format elements left in the processed HTML
+   * - <ac:image><ri:attachment/></ac:image> -> <img>
+   * - <ac:link> -> <a> (or plain text when no target can be determined)
+   * - any other ac:/ri: element is unwrapped so its text survives
+   */
+  private resolveStorageElements(doc: Document): void {
+    for (const image of this.findStorageElements(doc.body, 'ac:image')) {
+      const attachment = this.findStorageElements(image, 'ri:attachment')[0]
+      const url = this.findStorageElements(image, 'ri:url')[0]
+      const src = attachment?.getAttribute('ri:filename') || url?.getAttribute('ri:value')
+
+      if (!src) {
+        image.remove()
+        continue
+      }
+
+      const img = doc.createElement('img')
+      img.setAttribute('src', src)
+      img.setAttribute('alt', image.getAttribute('ac:alt') || '')
+
+      const width = image.getAttribute('ac:width')
+      if (width) {
+        img.setAttribute('width', width)
+      }
+
+      image.replaceWith(img)
+    }
+
+    for (const link of this.findStorageElements(doc.body, 'ac:link')) {
+      const body =
+        this.findStorageElements(link, 'ac:plain-text-link-body')[0] ||
+        this.findStorageElements(link, 'ac:link-body')[0]
+      const page = this.findStorageElements(link, 'ri:page')[0]
+      const attachment = this.findStorageElements(link, 'ri:attachment')[0]
+
+      const text =
+        body?.textContent?.trim() ||
+        page?.getAttribute('ri:content-title') ||
+        attachment?.getAttribute('ri:filename') ||
+        ''
+
+      const href = link.getAttribute('ac:href')
+      if (href) {
+        const anchor = doc.createElement('a')
+        anchor.setAttribute('href', href)
+        anchor.textContent = text
+        link.replaceWith(anchor)
+      } else {
+        link.replaceWith(doc.createTextNode(text))
+      }
+    }
+
+    // Unwrap remaining namespaced elements, innermost first
+    const remaining = Array.from(doc.body.querySelectorAll('*'))
+      .filter((el) => el.tagName.includes(':'))
+      .reverse()
+
+    for (const element of remaining) {
+      if (/^(ac:parameter|ri:)/i.test(element.tagName)) {
+        element.remove()
+      } else {
+        element.replaceWith(...Array.from(element.childNodes))
+      }
+    }
+  }
+
+  /**
+   * Find namespaced storage elements (ac:/ri:) parsed as HTML
+   * CRITICAL: a lone escaped selector (ac\\:image) matches nothing in JSDOM, tag names do
+   */
+  private findStorageElements(root: Element, tagName: string): Element[] {
+    return Array.from(root.getElementsByTagName(tagName))
+  }
+
+  /**
+   * Word ignores CSS borders on imported tables without the border attribute
+   */
+  private prepareTables(doc: Document): void {
+    for (const table of Array.from(doc.querySelectorAll('table'))) {
+      table.setAttribute('border', '1')
+      table.setAttribute('cellpadding', '4')
+      table.setAttribute('cellspacing', '0')
+    }
+  }
+
+  /**
+   * Write page metadata into docProps/core.xml
+   * Maps: title, author -> creator, labels -> keywords, version -> revision
+   */
+  private async writeCoreProperties(docx: Buffer, page: ConfluencePage): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(docx)
+
+    const labels = (page.metadata?.labels || []).join(', ')
+    const created = page.metadata?.createdAt?.toISOString()
+    const modified = page.metadata?.updatedAt?.toISOString()
+
+    const properties = [
+      `<dc:title>${this.escapeXml(page.title)}</dc:title>`,
+      `<dc:subject>${this.escapeXml(page.spaceKey)}</dc:subject>`,
+      page.metadata?.createdBy
+        ? `<dc:creator>${this.escapeXml(page.metadata.createdBy)}</dc:creator>`
+        : '',
+      labels ? `<cp:keywords>${this.escapeXml(labels)}</cp:keywords>` : '',
+      page.metadata?.url
+        ? `<dc:description>${this.escapeXml(page.metadata.url)}</dc:description>`
+        : '',
+      page.version ? `<cp:revision>${page.version}</cp:revision>` : '',
+      created ? `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` : '',
+      modified ? `<dcterms:modified xsi:type="dcterms:W3CDTF">${modified}</dcterms:modified>` : '',
+    ]
+      .filter(Boolean)
+      .join('')
+
+    zip.file(
+      'docProps/core.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        'xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        properties +
+        '</cp:coreProperties>'
+    )
+
+    const contentTypes = await zip.file('[Content_Types].xml')?.async('string')
+    if (contentTypes && !contentTypes.includes('/docProps/core.xml')) {
+      zip.file(
+        '[Content_Types].xml',
+        contentTypes.replace(
+          '</Types>',
+          '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>'
+        )
+      )
+    }
+
+    const rels = await zip.file('_rels/.rels')?.async('string')
+    if (rels && !rels.includes('docProps/core.xml')) {
+      zip.file(
+        '_rels/.rels',
+        rels.replace(
+          '</Relationships>',
+          '<Relationship Id="rIdCoreProperties" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>'
+        )
+      )
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer' })
+  }
+
+  /**
+   * Escape text for HTML content
+   */
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  }
+
+  /**
+   * Escape text for XML content
+   */
+  private escapeXml(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+  }
+
+  /**
+   * Get file extension
+   */
+  getFileExtension(): string {
+    return '.docx'
+  }
+
+  /**
+   * Get format name
+   */
+  getFormatName(): string {
+    return 'docx'
+  }
+}
+
+export function createDocxConverter(options?: DocxOptions): DocxConverter {
+  return new DocxConverter(options)
+}
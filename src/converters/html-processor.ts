@@ -1,17 +1,41 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
 import { JSDOM } from 'jsdom'
 import { getLogger } from '../cli/ui/logger.js'
 import { MacroParser, ParsedImage, ParsedLink } from './macro-parser.js'
 import { MermaidProcessor } from './macro-handlers/mermaid/mermaid-processor.js'
+import { MacroHandlerRegistry } from './macro-handlers/macro-handler-registry.js'
+import type { JiraIssueSource } from '../core/jira-issues.js'
+import type { PageIncludeSource } from '../core/page-includes.js'
+import type { PageTreeSource } from '../core/page-tree.js'
+import type { UserSource } from '../core/users.js'
+import { slugifyAnchor } from './link-resolver.js'
+import type { MermaidDiagramRenderer } from './mermaid-renderer.js'
 import {
   CodeHandler,
   DiagramHandler,
   ContentHandler,
+  JiraHandler,
+  IncludeHandler,
+  PagePropertiesReportHandler,
+  InlineElementHandler,
+  LayoutHandler,
+  NavigationHandler,
+  type IncludeOptions,
 } from './macro-handlers/index.js'
 
 export interface ProcessedContent {
   html: string
   images: ParsedImage[]
   links: ParsedLink[]
+  /**
+   * Page properties from `details` macros
+   */
+  properties: Record<string, string>
+  /**
+   * Mentions exported without a display name
+   */
+  unresolvedMentions: number
   macros: {
     mermaid: number
     code: number
@@ -20,6 +44,14 @@ export interface ProcessedContent {
   }
 }
 
+/**
+ * Outcome of rendering Mermaid diagrams to images, numbered in page order
+ */
+export interface MermaidRenderStats {
+  rendered: number
+  failed: Array<{ diagram: number; error: string }>
+}
+
 /**
  * HTML Processor
  * Processes both storage format (macros) and view format (rendered HTML)
@@ -35,6 +67,13 @@ export class HtmlProcessor {
   private codeHandler: CodeHandler
   private diagramHandler: DiagramHandler
   private contentHandler: ContentHandler
+  private jiraHandler: JiraHandler
+  private includeHandlers: IncludeHandler[]
+  private navigationHandlers: NavigationHandler[]
+  private inlineElementHandler: InlineElementHandler
+  private layoutHandler: LayoutHandler
+  private macroRegistry: MacroHandlerRegistry
+  private mermaidRenderer?: MermaidDiagramRenderer
 
   constructor() {
     this.macroParser = new MacroParser()
@@ -42,6 +81,131 @@ export class HtmlProcessor {
     this.codeHandler = new CodeHandler(this.macroParser)
     this.diagramHandler = new DiagramHandler(this.macroParser)
     this.contentHandler = new ContentHandler(this.macroParser)
+    this.jiraHandler = new JiraHandler(this.macroParser)
+    this.inlineElementHandler = new InlineElementHandler()
+    this.layoutHandler = new LayoutHandler()
+
+    // Included pages are processed like the page itself, one level deeper in the include chain
+    const processIncluded = (
+      storage: string,
+      spaceKey: string,
+      includeChain: string[],
+      pageId: string,
+    ): Promise<string> => this.processStorageFormat(storage, spaceKey, includeChain, pageId)
+    this.includeHandlers = [
+      new IncludeHandler(this.macroParser, 'include', processIncluded),
+      new IncludeHandler(this.macroParser, 'excerpt-include', processIncluded),
+    ]
+    this.navigationHandlers = [
+      new NavigationHandler(this.macroParser, 'children'),
+      new NavigationHandler(this.macroParser, 'pagetree'),
+      new NavigationHandler(this.macroParser, 'contentbylabel'),
+    ]
+
+    this.macroRegistry = new MacroHandlerRegistry()
+    this.macroRegistry.register(this.jiraHandler)
+    for (const handler of this.includeHandlers) {
+      this.macroRegistry.register(handler)
+    }
+    this.macroRegistry.register(new PagePropertiesReportHandler(this.macroParser))
+    for (const handler of this.navigationHandlers) {
+      this.macroRegistry.register(handler)
+    }
+  }
+
+  /**
+   * Set where Jira macros get issue data from (live Jira or a snapshot)
+   */
+  setJiraIssueSource(issueSource: JiraIssueSource | undefined): void {
+    this.jiraHandler.setIssueSource(issueSource)
+  }
+
+  /**
+   * Set where mentioned users get their display names from
+   */
+  setUserSource(userSource: UserSource | undefined): void {
+    this.inlineElementHandler.setUserSource(userSource)
+  }
+
+  /**
+   * Set where include and excerpt-include macros fetch pages from
+   */
+  setPageIncludeSource(pageSource: PageIncludeSource | undefined, options?: IncludeOptions): void {
+    for (const handler of this.includeHandlers) {
+      handler.setPageSource(pageSource, options)
+    }
+  }
+
+  /**
+   * Set where children, pagetree and contentbylabel macros look up the pages they list
+   */
+  setPageTreeSource(pageSource: PageTreeSource | undefined): void {
+    for (const handler of this.navigationHandlers) {
+      handler.setPageSource(pageSource)
+    }
+  }
+
+  /**
+   * Set the renderer for Mermaid diagram images
+   * Without a renderer, diagrams are only exported as source
+   */
+  setMermaidRenderer(renderer: MermaidDiagramRenderer | undefined): void {
+    this.mermaidRenderer = renderer
+  }
+
+  /**
+   * Render Mermaid placeholders to images in the assets folder
+   * Rendered diagrams become a figure with the image and the placeholder in a collapsible block,
+   * diagrams that fail to render are reported and keep the plain placeholder
+   */
+  async renderMermaidDiagrams(
+    html: string,
+    pageId: string,
+    assetsDir: string,
+  ): Promise<{ html: string; stats?: MermaidRenderStats }> {
+    const renderer = this.mermaidRenderer
+    if (!renderer) {
+      return { html }
+    }
+
+    const stats: MermaidRenderStats = { rendered: 0, failed: [] }
+    const placeholders = Array.from(
+      html.matchAll(/<code data-mermaid-placeholder="([^"]+)">[\s\S]*?<\/code>/g),
+    )
+    let result = html
+
+    for (const [index, placeholder] of placeholders.entries()) {
+      const diagram = index + 1
+      const source = this.mermaidProcessor.getDiagramSource(placeholder[1])
+      if (!source) {
+        continue
+      }
+
+      const filename = `${pageId}-mermaid-${diagram}.${renderer.format}`
+
+      try {
+        const image = await renderer.render(source)
+        await mkdir(assetsDir, { recursive: true })
+        await writeFile(join(assetsDir, filename), image)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        this.logger.warn(`Mermaid diagram ${diagram} could not be rendered: ${message}`)
+        stats.failed.push({ diagram, error: message })
+        continue
+      }
+
+      const figure =
+        `<figure data-mermaid-diagram="${diagram}">` +
+        `<p><img src="/download/attachments/${pageId}/${encodeURIComponent(filename)}" alt="Mermaid diagram ${diagram}" data-confluence-image="true" /></p>` +
+        `<details data-mermaid-source="true">${placeholder[0]}</details>` +
+        `</figure>`
+      result = result.replace(placeholder[0], () => figure)
+      stats.rendered++
+    }
+
+    this.logger.info(`Rendered ${stats.rendered}/${placeholders.length} Mermaid diagrams`)
+
+    return { html: result, stats }
   }
 
   /**
@@ -83,7 +247,13 @@ export class HtmlProcessor {
    * Process page content (storage + view formats)
    * Returns processed HTML ready for conversion
    */
-  async process(storageContent: string, viewContent: string): Promise<ProcessedContent> {
+  async process(
+    storageContent: string,
+    viewContent: string,
+    spaceKey?: string,
+    pageTitle?: string,
+    pageId?: string,
+  ): Promise<ProcessedContent> {
     this.logger.info('Processing page content with macro extraction...')
 
     // Default fallback result
@@ -91,6 +261,8 @@ export class HtmlProcessor {
       html: viewContent || storageContent || '',
       images: [],
       links: [],
+      properties: {},
+      unresolvedMentions: 0,
       macros: {
         mermaid: 0,
         code: 0,
@@ -107,7 +279,13 @@ export class HtmlProcessor {
 
     try {
       // Step 1: Process storage format to extract macros
-      const processedStorage = await this.processStorageFormat(storageContent || '')
+      const includeChain = spaceKey && pageTitle ? [`${spaceKey}:${pageTitle}`] : []
+      const processedStorage = await this.processStorageFormat(
+        storageContent || '',
+        spaceKey,
+        includeChain,
+        pageId,
+      )
 
       // Step 2: Process view format for display content
       const processedView = this.processViewFormat(viewContent || '')
@@ -118,6 +296,7 @@ export class HtmlProcessor {
       // Step 4: Extract metadata with safe fallbacks
       let images: ParsedImage[] = []
       let links: ParsedLink[] = []
+      let properties: Record<string, string> = {}
       let mermaidCount = 0
       let codeCount = 0
       let diagramCount = 0
@@ -135,6 +314,12 @@ export class HtmlProcessor {
         this.logger.debug('Link parsing failed, using empty array')
       }
 
+      try {
+        properties = this.macroParser.parsePageProperties(storageContent || '')
+      } catch (e) {
+        this.logger.debug('Page properties parsing failed, using empty object')
+      }
+
       try {
         mermaidCount = this.macroParser.findMacrosByName(storageContent || '', 'mermaid').length
         codeCount = this.macroParser.findMacrosByName(storageContent || '', 'code').length
@@ -151,6 +336,12 @@ export class HtmlProcessor {
         this.logger.debug('Macro counting failed, using zeros')
       }
 
+      // Mentions are only converted in storage content
+      const unresolvedMentions = (processedStorage.match(/data-mention="unresolved"/g) ?? []).length
+      if (unresolvedMentions > 0) {
+        this.logger.warn(`${unresolvedMentions} mentions without a display name`)
+      }
+
       this.logger.info(
         `Processed content: ${mermaidCount} Mermaid, ${codeCount} code, ${diagramCount} diagrams, ${panelCount} panels`,
       )
@@ -159,6 +350,8 @@ export class HtmlProcessor {
         html: mergedHtml,
         images,
         links,
+        properties,
+        unresolvedMentions,
         macros: {
           mermaid: mermaidCount,
           code: codeCount,
@@ -172,11 +365,28 @@ export class HtmlProcessor {
     }
   }
 
+  /**
+   * Process a storage format fragment that has no view format, e.g. a comment body
+   * Runs the same conversions as page storage content (macros, mentions, emoticons, page links)
+   */
+  async processStorage(
+    storageContent: string,
+    spaceKey?: string,
+    pageId?: string,
+  ): Promise<string> {
+    return this.processStorageFormat(storageContent, spaceKey, [], pageId)
+  }
+
   /**
    * Process storage format to extract macro source code
    * CRITICAL: This preserves diagram source code, not just rendered output
    */
-  private async processStorageFormat(storageContent: string): Promise<string> {
+  private async processStorageFormat(
+    storageContent: string,
+    spaceKey?: string,
+    includeChain: string[] = [],
+    pageId?: string,
+  ): Promise<string> {
     if (!storageContent) {
       return ''
     }
@@ -200,19 +410,33 @@ export class HtmlProcessor {
 
     // 3. Other diagrams (DrawIO, Gliffy, etc.)
     try {
-      processed = this.diagramHandler.process(processed)
+      processed = this.diagramHandler.process(processed, pageId)
     } catch (error) {
       this.logger.debug('Diagram processing failed, continuing')
     }
 
-    // 4. Content panels (info, warning, note, etc.)
+    // 4. Macros with registered handlers (Jira issues, page includes, reports, navigation)
+    try {
+      processed = await this.processRegisteredMacros(processed, spaceKey, includeChain, pageId)
+    } catch (error) {
+      this.logger.debug('Registered macro processing failed, continuing')
+    }
+
+    // 5. Task lists, mentions, dates and emoticons
+    try {
+      processed = await this.inlineElementHandler.process(processed)
+    } catch (error) {
+      this.logger.debug('Inline element processing failed, continuing')
+    }
+
+    // 6. Content panels (info, warning, note, etc.)
     try {
       processed = this.contentHandler.process(processed)
     } catch (error) {
       this.logger.debug('Content panel processing failed, continuing')
     }
 
-    // 5. Additional content macros
+    // 7. Additional content macros
     try {
       processed = this.contentHandler.processQuote(processed)
       processed = this.contentHandler.processAnchors(processed)
@@ -220,9 +444,102 @@ export class HtmlProcessor {
       this.logger.debug('Quote/Anchor processing failed, continuing')
     }
 
+    // 8. Page links (rewritten to relative paths by LinkResolver after export)
+    try {
+      processed = this.processPageLinks(processed, spaceKey)
+    } catch (error) {
+      this.logger.debug('Page link processing failed, continuing')
+    }
+
+    // 9. Page layouts (sections and columns, last so cells hold converted content)
+    try {
+      processed = this.layoutHandler.process(processed)
+    } catch (error) {
+      this.logger.debug('Layout processing failed, continuing')
+    }
+
     return processed
   }
 
+  /**
+   * Convert macros that have a handler in the macro registry
+   * Macros a handler cannot convert are left in place
+   */
+  private async processRegisteredMacros(
+    storageContent: string,
+    spaceKey?: string,
+    includeChain: string[] = [],
+    pageId?: string,
+  ): Promise<string> {
+    const macros = this.macroRegistry
+      .getSupportedMacroNames()
+      .flatMap((name) => this.macroParser.findMacrosByName(storageContent, name))
+
+    let processed = storageContent
+
+    // One failing macro must not stop the others on the page
+    for (const macro of macros) {
+      try {
+        const html = await this.macroRegistry.convert(macro, {
+          storageContent,
+          attachmentCache: new Map(),
+          pageId,
+          spaceKey,
+          includeChain,
+        })
+
+        if (html) {
+          processed = this.macroParser.replaceMacro(processed, macro, html)
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not convert ${macro.name} macro: ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+    }
+
+    return processed
+  }
+
+  /**
+   * Convert <ac:link> page and anchor links to HTML links
+   * Page links use the /display/SPACE/Title form so LinkResolver can match them by title
+   */
+  private processPageLinks(storageContent: string, spaceKey?: string): string {
+    return storageContent.replace(
+      /<ac:link\b[^>]*?(?:\/>|>[\s\S]*?<\/ac:link>)/g,
+      (rawXml) => {
+        const link = this.macroParser.parseLinks(rawXml)[0]
+        if (!link) {
+          return rawXml
+        }
+
+        const text = this.escapeHtml(link.text || link.pageTitle || link.anchor || '')
+
+        if (link.type === 'anchor' && link.anchor) {
+          return `<a href="#${slugifyAnchor(link.anchor)}">${text}</a>`
+        }
+
+        const space = link.spaceKey || spaceKey
+        if (link.type !== 'page' || !link.pageTitle || !space) {
+          return rawXml
+        }
+
+        const title = encodeURIComponent(link.pageTitle).replace(/%20/g, '+')
+        const anchor = link.anchor ? `#${encodeURIComponent(link.anchor)}` : ''
+
+        return `<a href="/wiki/display/${encodeURIComponent(space)}/${title}${anchor}" data-confluence-link="true">${text}</a>`
+      },
+    )
+  }
+
+  /**
+   * Escape text for HTML content
+   */
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  }
+
   /**
    * Process view format to clean up rendered HTML
    */
@@ -284,7 +601,12 @@ export class HtmlProcessor {
 
       if (href) {
         // Convert Confluence internal links to relative paths
-        if (href.includes('/wiki/spaces/') || href.includes('/pages/')) {
+        if (
+          href.includes('/wiki/spaces/') ||
+          href.includes('/pages/') ||
+          href.includes('/display/') ||
+          href.includes('viewpage.action')
+        ) {
           // Will be handled by link processing later
           link.setAttribute('data-confluence-link', 'true')
         }
@@ -345,6 +667,13 @@ export class HtmlProcessor {
       storageContent.includes('MERMAID_PLACEHOLDER_') ||
       storageContent.includes('data-mermaid-placeholder') ||
       storageContent.includes('```mermaid') ||
+      storageContent.includes('data-jira-') ||
+      storageContent.includes('data-confluence-include') ||
+      storageContent.includes('data-page-properties-report') ||
+      storageContent.includes('data-page-tree') ||
+      storageContent.includes('data-storage-element') ||
+      storageContent.includes('data-layout-section') ||
+      storageContent.includes('data-drawio-diagram') ||
       storageContent.includes('```')
 
     if (!hasMacros) {
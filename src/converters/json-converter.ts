@@ -0,0 +1,144 @@
+import { BaseConverter, ConvertOptions, ConvertResult } from './base-converter.js'
+import { MacroParser } from './macro-parser.js'
+import {
+  createDocumentModelBuilder,
+  DOCUMENT_SCHEMA_ID,
+  DOCUMENT_SCHEMA_VERSION,
+  type ConfluenceDocument,
+  type DocumentComment,
+  type DocumentModelBuilder,
+  type DocumentPage,
+} from './document-model.js'
+import { ConfluenceComment, ConfluencePage } from '../types.js'
+import type { JsonOptions } from '../config/config-schema.js'
+
+/**
+ * JSON Converter
+ * Exports pages as structured documents for indexing and analytics
+ *
+ * CRITICAL Features:
+ * - The body is a typed block tree parsed from storage format (see DocumentModelBuilder)
+ * - Page properties and macro counts come from HtmlProcessor, like the other formats
+ * - Documents follow the versioned schema in schemas/confluence-document.v1.json
+ */
+export class JsonConverter extends BaseConverter {
+  private options: JsonOptions
+  private macroParser = new MacroParser()
+
+  constructor(options?: JsonOptions) {
+    super()
+
+    this.options = {
+      pretty: true,
+      includeHtml: false,
+      ...options,
+    }
+  }
+
+  /**
+   * Convert Confluence page to a JSON document
+   * Pass `assetsPath` in options to link attachment images from the page file
+   */
+  async convert(page: ConfluencePage, options?: ConvertOptions): Promise<ConvertResult> {
+    this.validatePage(page)
+
+    this.logger.info(`Converting page ${page.id} to JSON...`)
+
+    const processed = await this.processContent(page)
+    const builder = createDocumentModelBuilder(this.macroParser, {
+      assetsPath: options?.assetsPath,
+    })
+
+    const document: ConfluenceDocument = {
+      schema: DOCUMENT_SCHEMA_ID,
+      schemaVersion: DOCUMENT_SCHEMA_VERSION,
+      page: this.buildPage(page, processed.properties),
+      body: builder.build(page.content.storage),
+      ...(page.comments ? { comments: this.buildComments(page.comments, builder) } : {}),
+      ...(this.options.includeHtml ? { html: processed.html } : {}),
+      exportedAt: new Date().toISOString(),
+      exportedBy: 'conflu-exporter',
+    }
+
+    const content = this.options.pretty
+      ? `${JSON.stringify(document, null, 2)}\n`
+      : JSON.stringify(document)
+
+    this.logger.info(`Converted page ${page.id}: ${content.length} characters`)
+
+    const baseMetadata = this.generateMetadata(page)
+
+    return {
+      content,
+      metadata: {
+        format: 'json',
+        pageId: page.id,
+        pageTitle: page.title,
+        exportedAt: new Date(),
+        ...baseMetadata,
+        macros: processed.macros,
+        imageCount: processed.images.length,
+        linkCount: processed.links.length,
+        properties: processed.properties,
+        schemaVersion: DOCUMENT_SCHEMA_VERSION,
+      },
+    }
+  }
+
+  private buildPage(page: ConfluencePage, properties: Record<string, string>): DocumentPage {
+    const metadata = page.metadata
+
+    return {
+      id: page.id,
+      title: page.title,
+      spaceKey: page.spaceKey,
+      type: page.type ?? 'page',
+      version: page.version,
+      url: metadata?.url,
+      labels: metadata?.labels ?? [],
+      createdBy: metadata?.createdBy,
+      createdById: metadata?.createdById,
+      createdAt: metadata?.createdAt?.toISOString(),
+      updatedAt: metadata?.updatedAt?.toISOString(),
+      publishedAt: metadata?.publishedAt?.toISOString(),
+      parentId: metadata?.parentId,
+      ancestors: metadata?.ancestors ?? [],
+      position: metadata?.position,
+      properties,
+    }
+  }
+
+  private buildComments(
+    comments: ConfluenceComment[],
+    builder: DocumentModelBuilder
+  ): DocumentComment[] {
+    return comments.map((comment) => ({
+      id: comment.id,
+      location: comment.location,
+      author: comment.author,
+      createdAt: comment.createdAt?.toISOString(),
+      inlineText: comment.inlineText,
+      resolved: comment.resolved,
+      body: builder.build(comment.body),
+      replies: this.buildComments(comment.replies, builder),
+    }))
+  }
+
+  /**
+   * Get file extension
+   */
+  getFileExtension(): string {
+    return '.json'
+  }
+
+  /**
+   * Get format name
+   */
+  getFormatName(): string {
+    return 'json'
+  }
+}
+
+export function createJsonConverter(options?: JsonOptions): JsonConverter {
+  return new JsonConverter(options)
+}
@@ -0,0 +1,459 @@
+import { join, posix } from 'path'
+import { getLogger } from '../cli/ui/logger.js'
+import type { FileWriter } from '../storage/file-writer.js'
+import type { ManifestPage } from '../storage/manifest.js'
+
+/**
+ * Markdown link or image, optionally followed by the page ID comment of the confluenceLinks rule
+ * (an HTML comment, or an expression comment in MDX files)
+ * Groups: image marker, text (with escaped brackets), href in <>, plain href, title, page ID
+ */
+const MARKDOWN_LINK_PATTERN =
+  /(!?)\[((?:\\.|[^\\\]])*)\]\((?:<([^<>\n]+)>|([^)\s<>]+))(?: "([^"]*)")?\)(?: (?:<!--|\{\/\*) Confluence Page ID: (\d+) (?:-->|\*\/\}))?/g
+
+export interface UnresolvedLink {
+  /**
+   * Page containing the link
+   */
+  pageId: string
+  /**
+   * Absolute URL the link was kept as
+   */
+  target: string
+}
+
+export interface LinkResolutionReport {
+  resolved: number
+  unresolved: UnresolvedLink[]
+}
+
+export interface LinkResolverOptions {
+  /**
+   * Pages of the export (from the manifest)
+   */
+  pages: ManifestPage[]
+  /**
+   * Confluence web base URL (with /wiki on Cloud, the context path on Data Center),
+   * used to keep unresolved links absolute
+   */
+  baseUrl: string
+  /**
+   * Write resolved page links as Obsidian wikilinks (`[[Page Title#Heading|text]]`)
+   */
+  wikilinks?: boolean
+}
+
+/**
+ * Link Resolver
+ * Post-export pass rewriting Confluence page links to relative links between exported files
+ *
+ * Recognized targets:
+ * - /wiki/spaces/KEY/pages/<id>/Title (view format links)
+ * - /wiki/display/KEY/Title (storage <ri:page> links, see HtmlProcessor)
+ * - viewpage.action?pageId=<id>
+ * - #anchor links, rewritten to markdown heading slugs
+ * Page targets are only recognized in root-relative links and links to the baseUrl origin
+ *
+ * With wikilinks, resolved page links name the target file instead: its name when unique
+ * in the export, otherwise its path (Obsidian's "shortest" link format). Heading anchors
+ * are linked by the heading text read by resolveFiles, unknown headings link the page
+ *
+ * Links to pages outside the export are kept as absolute URLs and reported
+ */
+export class LinkResolver {
+  private logger = getLogger()
+  private pathsById = new Map<string, string>()
+  private idsByTitle = new Map<string, string>()
+  private titlesById = new Map<string, string>()
+  private wikiNamesById = new Map<string, string>()
+  /**
+   * Headings of the exported files, for wikilinks to a heading
+   */
+  private headingsById = new Map<string, string[]>()
+  private baseUrl: string
+  private origin?: string
+  private wikilinks: boolean
+
+  constructor(options: LinkResolverOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, '')
+    try {
+      this.origin = new URL(this.baseUrl).origin
+    } catch {
+      this.origin = undefined
+    }
+    this.wikilinks = options.wikilinks ?? false
+    const nameCounts = new Map<string, number>()
+
+    for (const page of options.pages) {
+      const path = page.path.split('\\').join('/')
+      this.pathsById.set(page.id, path)
+      this.idsByTitle.set(this.titleKey(page.spaceKey, page.title), page.id)
+      this.titlesById.set(page.id, page.title)
+
+      const name = posix
+        .basename(path)
+        .replace(/\.mdx?$/, '')
+        .toLowerCase()
+      nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1)
+    }
+
+    for (const [id, path] of this.pathsById) {
+      const file = path.replace(/\.mdx?$/, '')
+      const name = posix.basename(file)
+      this.wikiNamesById.set(id, nameCounts.get(name.toLowerCase())! > 1 ? file : name)
+    }
+  }
+
+  /**
+   * Resolve links in one exported markdown document
+   * @param markdown - Markdown content
+   * @param pageId - ID of the page the markdown belongs to
+   */
+  resolve(markdown: string, pageId: string): { markdown: string; report: LinkResolutionReport } {
+    const fromPath = this.pathsById.get(pageId)
+    const pageTitle = this.titlesById.get(pageId)
+    const report: LinkResolutionReport = { resolved: 0, unresolved: [] }
+    const codeRanges = findCodeRanges(markdown)
+
+    const resolved = markdown.replace(
+      MARKDOWN_LINK_PATTERN,
+      (
+        match,
+        image: string,
+        text: string,
+        angledHref: string | undefined,
+        plainHref: string | undefined,
+        title: string | undefined,
+        commentId: string | undefined,
+        offset: number,
+        source: string
+      ) => {
+        const href = angledHref ?? plainHref!
+
+        // Links shown in code are kept as written
+        if (codeRanges.some(([start, end]) => offset >= start && offset < end)) {
+          return match
+        }
+
+        // Images and asset links are never page links
+        if (image || href.includes('assets/')) {
+          return match
+        }
+
+        const titleSuffix = title ? ` "${title}"` : ''
+
+        if (href.startsWith('#')) {
+          const slug = slugifyAnchor(decodeSafe(href.slice(1)), pageTitle)
+          if (slug === href.slice(1)) {
+            return match
+          }
+          report.resolved++
+          return `[${text}](#${slug}${titleSuffix})`
+        }
+
+        const target = this.parseTarget(href, commentId)
+        if (!target && !href.startsWith('/wiki/')) {
+          return match
+        }
+
+        const targetId =
+          target?.pageId ??
+          this.idsByTitle.get(this.titleKey(target?.spaceKey ?? '', target?.title ?? ''))
+        const targetPath = targetId ? this.pathsById.get(targetId) : undefined
+
+        // The page ID comment is kept so later runs (sync) can re-resolve moved targets
+        const comment = targetId
+          ? fromPath?.endsWith('.mdx')
+            ? ` {/* Confluence Page ID: ${targetId} */}`
+            : ` <!-- Confluence Page ID: ${targetId} -->`
+          : ''
+
+        if (!target || !targetPath || !fromPath) {
+          const absolute = this.toAbsoluteUrl(href)
+          report.unresolved.push({ pageId, target: absolute })
+          return `[${text}](${formatDestination(absolute)}${titleSuffix})${comment}`
+        }
+
+        const targetTitle = target.title ?? this.titlesById.get(targetId!)
+
+        if (this.wikilinks) {
+          report.resolved++
+          // In GFM table rows the alias separator is escaped like any other pipe
+          const line = source.slice(source.lastIndexOf('\n', offset) + 1, offset)
+          const inTable = line.trimStart().startsWith('|')
+          return this.toWikilink(text, targetId!, target.anchor, targetTitle, inTable)
+        }
+
+        const anchor = target.anchor ? `#${slugifyAnchor(target.anchor, targetTitle)}` : ''
+
+        report.resolved++
+
+        // Anchor on the same page: no file path needed
+        if (targetPath === fromPath && anchor) {
+          return `[${text}](${anchor}${titleSuffix})${comment}`
+        }
+
+        const relativePath = posix.relative(posix.dirname(fromPath), targetPath)
+        return `[${text}](${formatDestination(`${relativePath}${anchor}`)}${titleSuffix})${comment}`
+      }
+    )
+
+    return { markdown: resolved, report }
+  }
+
+  /**
+   * Obsidian link to a page, headings are linked by their text
+   */
+  private toWikilink(
+    text: string,
+    targetId: string,
+    anchor: string | undefined,
+    targetTitle: string | undefined,
+    inTable: boolean
+  ): string {
+    const name = this.wikiNamesById.get(targetId)!
+    const label = text.replace(/\\([\\`*_{}[\]()#+\-.!<>|])/g, '$1')
+
+    // View format anchors are prefixed with the page title without spaces
+    const prefix = `${(targetTitle ?? '').replace(/\s+/g, '')}-`
+    const headingId = anchor?.startsWith(prefix) ? anchor.slice(prefix.length) : anchor
+    const heading = headingId ? this.findHeading(targetId, headingId) : undefined
+
+    const link = heading ? `${name}#${heading}` : name
+    if (!label || label === name) {
+      return `[[${link}]]`
+    }
+    return `[[${link}${inTable ? '\\|' : '|'}${label.replace(/[|\]]/g, '\\$&')}]]`
+  }
+
+  /**
+   * Heading text of a Confluence heading anchor (the heading without spaces)
+   * Obsidian links headings by their text, without the characters wikilinks reserve
+   */
+  private findHeading(pageId: string, headingId: string): string | undefined {
+    const key = (value: string): string => value.replace(/\s+/g, '').toLowerCase()
+    const heading = this.headingsById
+      .get(pageId)
+      ?.find((candidate) => key(candidate) === key(headingId))
+
+    return heading
+      ?.replace(/[#|^:[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+
+  /**
+   * Resolve links in all exported markdown files listed in the manifest
+   */
+  async resolveFiles(rootDir: string, fileWriter: FileWriter): Promise<LinkResolutionReport> {
+    const total: LinkResolutionReport = { resolved: 0, unresolved: [] }
+    const markdownFiles = [...this.pathsById].filter(
+      ([, path]) => path.endsWith('.md') || path.endsWith('.mdx')
+    )
+
+    // Wikilinks name the heading they point to, so all headings are read first
+    if (this.wikilinks) {
+      for (const [pageId, path] of markdownFiles) {
+        const content = await fileWriter.readText(join(rootDir, path))
+        this.headingsById.set(pageId, extractHeadings(content))
+      }
+    }
+
+    for (const [pageId, path] of markdownFiles) {
+      const filePath = join(rootDir, path)
+      const content = await fileWriter.readText(filePath)
+      const { markdown, report } = this.resolve(content, pageId)
+
+      if (markdown !== content) {
+        await fileWriter.writeText(filePath, markdown)
+      }
+
+      total.resolved += report.resolved
+      total.unresolved.push(...report.unresolved)
+    }
+
+    for (const link of total.unresolved) {
+      this.logger.warn(`Unresolved link in page ${link.pageId}: ${link.target}`)
+    }
+
+    this.logger.info(
+      `Resolved ${total.resolved} internal links (${total.unresolved.length} unresolved)`
+    )
+
+    return total
+  }
+
+  /**
+   * Extract the target page of a Confluence URL
+   * Only root-relative links and links to the Confluence origin are page links
+   */
+  private parseTarget(
+    href: string,
+    commentId?: string
+  ): { pageId?: string; spaceKey?: string; title?: string; anchor?: string } | null {
+    const [link, fragment] = href.split('#', 2)
+    const anchor = fragment ? decodeSafe(fragment) : undefined
+
+    if (commentId) {
+      return { pageId: commentId, anchor }
+    }
+
+    const url = this.toConfluencePath(link)
+    if (url === null) {
+      return null
+    }
+
+    const pageId = url.match(/\/pages\/(\d+)/)?.[1] || url.match(/[?&]pageId=(\d+)/)?.[1]
+    if (pageId) {
+      return { pageId, anchor }
+    }
+
+    const display = url.match(/\/display\/([^/?]+)\/([^/?]+)/)
+    if (display) {
+      return {
+        spaceKey: decodeSafe(display[1]),
+        title: decodeSafe(display[2].replace(/\+/g, ' ')),
+        anchor,
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Path and query of a link into this Confluence, null for other hosts and relative paths
+   */
+  private toConfluencePath(url: string): string | null {
+    if (url.startsWith('/') && !url.startsWith('//')) {
+      return url
+    }
+
+    try {
+      const parsed = new URL(url)
+      return parsed.origin === this.origin ? `${parsed.pathname}${parsed.search}` : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Make a root-relative Confluence link absolute
+   * /wiki/ links (Cloud view links, storage links from HtmlProcessor) are relative to the web base,
+   * other root-relative links already carry the Data Center context path
+   */
+  private toAbsoluteUrl(href: string): string {
+    if (!href.startsWith('/')) {
+      return href
+    }
+
+    if (href.startsWith('/wiki/')) {
+      return `${this.baseUrl}${href.slice('/wiki'.length)}`
+    }
+
+    try {
+      return `${new URL(this.baseUrl).origin}${href}`
+    } catch {
+      return `${this.baseUrl}${href}`
+    }
+  }
+
+  private titleKey(spaceKey: string, title: string): string {
+    return `${spaceKey}\u0000${title.toLowerCase()}`
+  }
+}
+
+/**
+ * Convert a Confluence anchor to a markdown heading slug
+ * View format anchors are prefixed with the page title without spaces ("PageTitle-Section")
+ */
+export function slugifyAnchor(anchor: string, pageTitle?: string): string {
+  let name = anchor
+
+  const prefix = pageTitle ? `${pageTitle.replace(/\s+/g, '')}-` : undefined
+  if (prefix && name.startsWith(prefix)) {
+    name = name.slice(prefix.length)
+  }
+
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s+/g, '-')
+}
+
+/**
+ * Text of the ATX headings of a markdown document, outside fenced code
+ */
+function extractHeadings(markdown: string): string[] {
+  const headings: string[] = []
+  let fence: string | undefined
+
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1]
+    if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+      fence = fence ? undefined : marker
+      continue
+    }
+
+    const heading = fence ? undefined : line.match(/^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/)?.[1]
+    if (heading) {
+      headings.push(heading.replace(/\\([\\`*_{}[\]()#+\-.!<>])/g, '$1'))
+    }
+  }
+
+  return headings
+}
+
+/**
+ * Offset ranges of fenced code blocks and inline code spans
+ */
+function findCodeRanges(markdown: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  let fence: string | undefined
+  let fenceStart = 0
+  let offset = 0
+
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1]
+    if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+      if (fence) {
+        ranges.push([fenceStart, offset + line.length])
+      } else {
+        fenceStart = offset
+      }
+      fence = fence ? undefined : marker
+    } else if (!fence) {
+      // A code span ends at the next backtick run of the same length, escaped backticks open none
+      for (const span of line.matchAll(/(?<![`\\])(`+)(?!`).*?(?<!`)\1(?!`)/g)) {
+        ranges.push([offset + span.index, offset + span.index + span[0].length])
+      }
+    }
+    offset += line.length + 1
+  }
+
+  // An unclosed fence runs to the end of the document
+  if (fence) {
+    ranges.push([fenceStart, markdown.length])
+  }
+
+  return ranges
+}
+
+/**
+ * Markdown link destination, in <> when it holds spaces or parentheses
+ */
+function formatDestination(href: string): string {
+  return /[\s()]/.test(href) ? `<${href}>` : href
+}
+
+function decodeSafe(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+export function createLinkResolver(options: LinkResolverOptions): LinkResolver {
+  return new LinkResolver(options)
+}
@@ -42,6 +42,11 @@ export interface MacroConversionContext {
    */
   pageId?: string
   spaceKey?: string
+
+  /**
+   * Pages being included (SPACE:Title), outermost first, for include cycle detection
+   */
+  includeChain?: string[]
 }
 
 /**
@@ -31,7 +31,7 @@ export class CodeHandler {
     for (const macro of codeMacros) {
       const markdown = this.convertToMarkdown(macro)
       if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
       }
     }
 
@@ -89,12 +89,14 @@ export class CodeHandler {
     const collapse = this.macroParser.getMacroParameter(macro, 'collapse')
 
     // Build markdown code fence with language
-    let markdown = `\`\`\`${language.toLowerCase()}\n`
-    markdown += code
+    // Wrapped in <pre><code> so the fence survives the HTML to markdown conversion
+    let fence = `\`\`\`${language.toLowerCase()}\n`
+    fence += code
     if (!code.endsWith('\n')) {
-      markdown += '\n'
+      fence += '\n'
     }
-    markdown += '```'
+    fence += '```'
+    let markdown = `<pre><code>${this.escapeHtml(fence)}</code></pre>`
 
     // Add metadata as HTML comment if needed
     const metadata = []
@@ -146,6 +148,10 @@ export class CodeHandler {
 
     return blocks
   }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  }
 }
 
 export function createCodeHandler(macroParser: MacroParser): CodeHandler {
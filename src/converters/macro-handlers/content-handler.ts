@@ -1,5 +1,6 @@
 import { ParsedMacro, MacroParser } from '../macro-parser.js'
 import { getLogger } from '../../cli/ui/logger.js'
+import { slugifyAnchor } from '../link-resolver.js'
 
 /**
  * Content Macro Handler
@@ -55,9 +56,9 @@ export class ContentHandler {
         this.logger.info(`Processing ${macros.length} ${panelType.name} panels...`)
 
         for (const macro of macros) {
-          const markdown = this.convertPanelToMarkdown(macro, panelType.emoji, panelType.prefix)
-          if (markdown) {
-            processedContent = processedContent.replace(macro.rawXml, markdown)
+          const html = this.convertPanelToHtml(macro, panelType)
+          if (html) {
+            processedContent = this.macroParser.replaceMacro(processedContent, macro, html)
           }
         }
       }
@@ -67,37 +68,28 @@ export class ContentHandler {
   }
 
   /**
-   * Convert panel macro to markdown blockquote
+   * Convert panel macro to a blockquote headed by the panel type and title
+   * The body stays HTML so its formatting survives, markdown turns the panel into
+   * `> ⚠️ **WARNING: Title**` or an Obsidian callout (data-panel, data-panel-title)
    */
-  private convertPanelToMarkdown(
+  private convertPanelToHtml(
     macro: ParsedMacro,
-    emoji: string,
-    prefix: string,
+    panelType: { name: string; emoji: string; prefix: string },
   ): string | null {
     if (!this.macroParser.hasRichTextBody(macro)) {
       return null
     }
 
     const title = this.macroParser.getMacroParameter(macro, 'title')
-    const body = macro.body || ''
-
-    // Remove HTML tags from body (will be processed later by HTML processor)
-    const textContent = body.replace(/<[^>]*>/g, ' ').trim()
-
-    let markdown = `\n> ${emoji} **${prefix}${title ? `: ${title}` : ''}**\n`
-    markdown += `>\n`
-
-    // Split content into lines and add blockquote prefix
-    const lines = textContent.split('\n')
-    for (const line of lines) {
-      if (line.trim()) {
-        markdown += `> ${line.trim()}\n`
-      }
-    }
-
-    markdown += '\n'
-
-    return markdown
+    const escapedTitle = title ? this.escapeHtml(title) : undefined
+    const label = `${panelType.prefix}${escapedTitle ? `: ${escapedTitle}` : ''}`
+    const titleAttribute = escapedTitle ? ` data-panel-title="${escapedTitle}"` : ''
+
+    return (
+      `<blockquote data-panel="${panelType.name}"${titleAttribute}>` +
+      `<p data-panel-heading="true">${panelType.emoji} <strong>${label}</strong></p>` +
+      `${macro.body || ''}</blockquote>`
+    )
   }
 
   /**
@@ -115,9 +107,9 @@ export class ContentHandler {
     let processedContent = storageContent
 
     for (const macro of statusMacros) {
-      const markdown = this.convertStatusToMarkdown(macro)
-      if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+      const html = this.convertStatusToHtml(macro)
+      if (html) {
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, html)
       }
     }
 
@@ -125,9 +117,10 @@ export class ContentHandler {
   }
 
   /**
-   * Convert status macro to markdown badge
+   * Convert status macro to a badge, markdown turns it into `🟢 **[DONE]**` (data-status)
+   * HTML keeps the badge intact when the page is converted from storage content
    */
-  private convertStatusToMarkdown(macro: ParsedMacro): string | null {
+  private convertStatusToHtml(macro: ParsedMacro): string | null {
     const title = this.macroParser.getMacroParameter(macro, 'title') || 'Status'
     const color = this.macroParser.getMacroParameter(macro, 'colour') || 'grey'
     const subtle = this.macroParser.getMacroParameter(macro, 'subtle') === 'true'
@@ -143,8 +136,12 @@ export class ContentHandler {
     }
 
     const emoji = colorEmoji[color.toLowerCase()] || '⚪'
+    const label = this.escapeHtml(title.toUpperCase())
 
-    return `${emoji} **[${title.toUpperCase()}]**${subtle ? ' *(subtle)*' : ''}`
+    return (
+      `<span data-status="${label}" data-status-emoji="${emoji}"${subtle ? ' data-status-subtle="true"' : ''}>` +
+      `${emoji} <strong>[${label}]</strong>${subtle ? ' <em>(subtle)</em>' : ''}</span>`
+    )
   }
 
   /**
@@ -164,7 +161,7 @@ export class ContentHandler {
     for (const macro of expandMacros) {
       const markdown = this.convertExpandToMarkdown(macro)
       if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
       }
     }
 
@@ -208,7 +205,7 @@ export class ContentHandler {
     for (const macro of tocMacros) {
       const markdown = this.convertTOCToMarkdown(macro)
       if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
       }
     }
 
@@ -264,7 +261,7 @@ export class ContentHandler {
         }
 
         markdown += '\n'
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
       }
     }
 
@@ -287,12 +284,20 @@ export class ContentHandler {
 
     for (const macro of anchorMacros) {
       const anchorName = this.macroParser.getMacroParameter(macro, '') || 'anchor'
-      const markdown = `<a id="${anchorName}"></a>`
-      processedContent = processedContent.replace(macro.rawXml, markdown)
+      const markdown = `<a id="${slugifyAnchor(anchorName)}"></a>`
+      processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
     }
 
     return processedContent
   }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
 }
 
 export function createContentHandler(macroParser: MacroParser): ContentHandler {
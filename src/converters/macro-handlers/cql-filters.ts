@@ -0,0 +1,48 @@
+/**
+ * Label and space filters read from the CQL parameter of report and navigation macros
+ * Only the clauses these macros generate are understood, the rest of the query is ignored
+ */
+
+/**
+ * Label groups of a CQL query, every group is required and a group matches any of its labels:
+ * `label = "a"` requires a label, `label in ("a", "b")` requires one of them
+ */
+export function parseCqlLabelGroups(cql: string): string[][] {
+  const groups: string[][] = []
+
+  for (const match of cql.matchAll(/\blabel\s*=\s*("[^"]*"|'[^']*'|[\w.-]+)/gi)) {
+    groups.push([unquote(match[1])])
+  }
+  for (const match of cql.matchAll(/\blabel\s+in\s*\(([^)]*)\)/gi)) {
+    groups.push(match[1].split(',').map((label) => unquote(label.trim())))
+  }
+
+  return groups
+}
+
+/**
+ * Space keys of a CQL query, undefined for currentSpace() or when the query names no space
+ */
+export function parseCqlSpaces(cql: string): string[] | undefined {
+  const spaces = [...cql.matchAll(/\bspace\s*=\s*("[^"]*"|'[^']*'|[\w-]+\b(?!\s*\())/gi)].map(
+    (match) => unquote(match[1])
+  )
+
+  return spaces.length > 0 ? spaces : undefined
+}
+
+/**
+ * Comma-separated macro parameter, undefined when empty
+ */
+export function splitMacroList(value: string | undefined): string[] | undefined {
+  const items = (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+  return items.length > 0 ? items : undefined
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, '$2')
+}
@@ -20,12 +20,13 @@ export class DiagramHandler {
 
   /**
    * Process all diagram macros in storage content
+   * @param pageId - Page the content belongs to, holds the diagram attachments by default
    */
-  process(storageContent: string): string {
+  process(storageContent: string, pageId?: string): string {
     let processedContent = storageContent
 
     // Process DrawIO diagrams
-    processedContent = this.processDrawIO(processedContent)
+    processedContent = this.processDrawIO(processedContent, pageId)
 
     // Process Gliffy diagrams
     processedContent = this.processGliffy(processedContent)
@@ -38,9 +39,9 @@ export class DiagramHandler {
 
   /**
    * Process DrawIO diagrams
-   * DrawIO stores diagram as base64-encoded XML in parameters
+   * The diagram source and its rendered previews are page attachments named after the diagram
    */
-  private processDrawIO(storageContent: string): string {
+  private processDrawIO(storageContent: string, pageId?: string): string {
     const drawioMacros = this.macroParser.findMacrosByName(storageContent, 'drawio')
 
     if (drawioMacros.length === 0) {
@@ -52,44 +53,41 @@ export class DiagramHandler {
     let processedContent = storageContent
 
     for (const macro of drawioMacros) {
-      const markdown = this.convertDrawIOToMarkdown(macro)
-      if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
-      }
+      processedContent = this.macroParser.replaceMacro(
+        processedContent,
+        macro,
+        this.convertDrawIOToHtml(macro, pageId)
+      )
     }
 
     return processedContent
   }
 
   /**
-   * Convert DrawIO macro to markdown
-   * Includes XML source as HTML comment for sync compatibility
+   * Convert DrawIO macro to the rendered PNG preview plus a link to the .drawio source
+   * Both files are downloaded to assets by AssetDownloader.downloadDrawioDiagrams
+   * The macro names the page holding the diagram when it is not the current one
    */
-  private convertDrawIOToMarkdown(macro: ParsedMacro): string | null {
+  private convertDrawIOToHtml(macro: ParsedMacro, currentPageId?: string): string {
     const diagramName = this.macroParser.getMacroParameter(macro, 'diagramName') || 'diagram'
-    const pageId = this.macroParser.getMacroParameter(macro, 'pageId')
-    const diagramData = this.macroParser.getMacroParameter(macro, 'diagramData')
+    const pageId = this.macroParser.getMacroParameter(macro, 'pageId') || currentPageId
     const width = this.macroParser.getMacroParameter(macro, 'width')
     const height = this.macroParser.getMacroParameter(macro, 'height')
 
-    // Build markdown with metadata
-    let markdown = `\n<!-- DrawIO Diagram: ${diagramName} -->\n`
-
-    if (diagramData) {
-      // Include diagram source as HTML comment for future sync
-      markdown += `<!-- DrawIO Data (base64): ${diagramData.substring(0, 100)}... -->\n`
-    }
-
-    // Reference to image (will be exported separately)
-    markdown += `![${diagramName}](./assets/drawio-${pageId || 'diagram'}.png)`
-
-    if (width || height) {
-      markdown += ` <!-- Size: ${width || 'auto'}x${height || 'auto'} -->`
-    }
-
-    markdown += '\n'
-
-    return markdown
+    const baseUrl = pageId
+      ? `/download/attachments/${pageId}/${encodeURIComponent(diagramName)}`
+      : encodeURIComponent(diagramName)
+    const name = this.escapeHtml(diagramName)
+    const size =
+      (width ? ` width="${this.escapeHtml(width)}"` : '') +
+      (height ? ` height="${this.escapeHtml(height)}"` : '')
+
+    return (
+      `<div data-drawio-diagram="${name}">` +
+      `<p><img src="${baseUrl}.png" alt="${name}" data-confluence-image="true"${size} /></p>` +
+      `<p><a href="${baseUrl}.drawio">${name}.drawio</a></p>` +
+      `</div>`
+    )
   }
 
   /**
@@ -109,7 +107,7 @@ export class DiagramHandler {
     for (const macro of gliffyMacros) {
       const markdown = this.convertGliffyToMarkdown(macro)
       if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
       }
     }
 
@@ -147,7 +145,7 @@ export class DiagramHandler {
     for (const macro of lucidMacros) {
       const markdown = this.convertLucidchartToMarkdown(macro)
       if (markdown) {
-        processedContent = processedContent.replace(macro.rawXml, markdown)
+        processedContent = this.macroParser.replaceMacro(processedContent, macro, markdown)
       }
     }
 
@@ -217,6 +215,21 @@ export class DiagramHandler {
 
     return metadata
   }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
+
+/**
+ * Whether storage content has draw.io diagrams, whose files need downloading
+ */
+export function hasDrawioDiagrams(storageContent: string): boolean {
+  return /<ac:structured-macro\b[^>]*ac:name="drawio"/.test(storageContent)
 }
 
 export function createDiagramHandler(macroParser: MacroParser): DiagramHandler {
@@ -0,0 +1,180 @@
+import { MacroHandler, MacroConversionContext } from './base-macro-handler.js'
+import { ParsedMacro, MacroParser } from '../macro-parser.js'
+import type { PageIncludeSource } from '../../core/page-includes.js'
+import { getLogger } from '../../cli/ui/logger.js'
+
+export type IncludeMacroName = 'include' | 'excerpt-include'
+
+export interface IncludeOptions {
+  /**
+   * inline: convert the included content into the page
+   * link: link to the included page with a comment marker
+   */
+  mode?: 'inline' | 'link'
+  /**
+   * Maximum nesting of includes inside included pages
+   */
+  maxDepth?: number
+}
+
+/**
+ * Converts the storage format of an included page to HTML
+ * The include chain lists the pages being included, outermost first
+ */
+export type IncludedStorageProcessor = (
+  storageContent: string,
+  spaceKey: string,
+  includeChain: string[],
+  pageId: string
+) => Promise<string>
+
+const DEFAULT_MAX_DEPTH = 3
+
+/**
+ * Include Macro Handler
+ * Resolves `include` (whole page) and `excerpt-include` (excerpt macro body) macros
+ *
+ * Included pages go through the same storage processing as the page itself.
+ * Cycles, includes nested deeper than maxDepth and exports without a page source
+ * fall back to a link to the included page.
+ */
+export class IncludeHandler implements MacroHandler {
+  private logger = getLogger()
+  private macroParser: MacroParser
+  private macroName: IncludeMacroName
+  private processStorage: IncludedStorageProcessor
+  private pageSource?: PageIncludeSource
+  private options: Required<IncludeOptions> = { mode: 'inline', maxDepth: DEFAULT_MAX_DEPTH }
+
+  constructor(
+    macroParser: MacroParser,
+    macroName: IncludeMacroName,
+    processStorage: IncludedStorageProcessor
+  ) {
+    this.macroParser = macroParser
+    this.macroName = macroName
+    this.processStorage = processStorage
+  }
+
+  /**
+   * Set where included pages are fetched from and how they are exported
+   */
+  setPageSource(pageSource: PageIncludeSource | undefined, options: IncludeOptions = {}): void {
+    this.pageSource = pageSource
+    this.options = {
+      mode: options.mode ?? 'inline',
+      maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    }
+  }
+
+  getMacroName(): string {
+    return this.macroName
+  }
+
+  canHandle(macro: ParsedMacro): boolean {
+    return macro.name === this.macroName
+  }
+
+  async convert(macro: ParsedMacro, context: MacroConversionContext): Promise<string | null> {
+    const reference = this.macroParser.getMacroPageReference(macro)
+    const spaceKey = reference?.spaceKey ?? context.spaceKey
+
+    if (!reference || !spaceKey) {
+      this.logger.warn(`${this.macroName} macro without a page reference, skipping`)
+      return null
+    }
+
+    const includeKey = `${spaceKey}:${reference.title}`
+    const includeChain = context.includeChain ?? []
+
+    if (!this.pageSource || this.options.mode === 'link') {
+      return this.renderLink(spaceKey, reference.title)
+    }
+
+    if (includeChain.includes(includeKey)) {
+      this.logger.warn(`Include cycle: ${[...includeChain, includeKey].join(' -> ')}`)
+      return this.renderLink(spaceKey, reference.title, 'include cycle')
+    }
+
+    // The chain starts with the exported page, so its length is the nesting depth
+    if (includeChain.length > this.options.maxDepth) {
+      this.logger.warn(
+        `Include of "${reference.title}" is nested deeper than ${this.options.maxDepth} levels`
+      )
+      return this.renderLink(spaceKey, reference.title, 'maximum include depth')
+    }
+
+    try {
+      const page = await this.pageSource.getPage(spaceKey, reference.title)
+      if (!page) {
+        return this.renderLink(spaceKey, reference.title, 'page not found')
+      }
+
+      const storage =
+        this.macroName === 'excerpt-include'
+          ? this.findExcerpt(page.storage, this.macroParser.getMacroParameter(macro, 'name'))
+          : page.storage
+
+      if (storage === undefined) {
+        this.logger.warn(`Page "${page.title}" has no excerpt to include`)
+        return this.renderLink(spaceKey, reference.title, 'excerpt not found')
+      }
+
+      const html = await this.processStorage(
+        storage,
+        page.spaceKey,
+        [...includeChain, includeKey],
+        page.id
+      )
+      return `<div data-confluence-include="${this.escapeHtml(includeKey)}">${html}</div>`
+    } catch (error) {
+      // A failed fetch must not drop the macro from the page, link to it instead
+      this.logger.warn(
+        `Could not include "${reference.title}": ${error instanceof Error ? error.message : String(error)}`
+      )
+      return this.renderLink(spaceKey, reference.title, 'include failed')
+    }
+  }
+
+  /**
+   * Body of the page excerpt, or of the named excerpt when the macro asks for one
+   */
+  private findExcerpt(storage: string, name?: string): string | undefined {
+    const excerpts = this.macroParser.findMacrosByName(storage, 'excerpt')
+    const excerpt = name
+      ? excerpts.find((macro) => this.macroParser.getMacroParameter(macro, 'name') === name)
+      : excerpts[0]
+
+    return excerpt?.body
+  }
+
+  /**
+   * Link to the included page
+   * The marker names the include (and why it was not inlined), Markdown keeps it as a comment
+   */
+  private renderLink(spaceKey: string, title: string, reason?: string): string {
+    const marker = `confluence-include: ${spaceKey}/${title}${reason ? ` (${reason})` : ''}`
+    const href = `/wiki/display/${encodeURIComponent(spaceKey)}/${encodeURIComponent(title).replace(/%20/g, '+')}`
+
+    return (
+      `<p data-confluence-include="${this.escapeHtml(`${spaceKey}:${title}`)}" data-include-marker="${this.escapeHtml(marker.replace(/--/g, '- -'))}">` +
+      `<a href="${href}" data-confluence-link="true">${this.escapeHtml(title)}</a></p>`
+    )
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
+
+export function createIncludeHandler(
+  macroParser: MacroParser,
+  macroName: IncludeMacroName,
+  processStorage: IncludedStorageProcessor
+): IncludeHandler {
+  return new IncludeHandler(macroParser, macroName, processStorage)
+}
@@ -1,6 +1,25 @@
 export { CodeHandler, createCodeHandler } from './code-handler.js'
 export { DiagramHandler, createDiagramHandler } from './diagram-handler.js'
 export { ContentHandler, createContentHandler } from './content-handler.js'
+export { JiraHandler, createJiraHandler } from './jira-handler.js'
+export { InlineElementHandler, createInlineElementHandler } from './inline-element-handler.js'
+export { LayoutHandler, createLayoutHandler } from './layout-handler.js'
+export {
+  IncludeHandler,
+  createIncludeHandler,
+  type IncludeMacroName,
+  type IncludeOptions,
+  type IncludedStorageProcessor,
+} from './include-handler.js'
+export {
+  PagePropertiesReportHandler,
+  createPagePropertiesReportHandler,
+} from './page-properties-report-handler.js'
+export {
+  NavigationHandler,
+  createNavigationHandler,
+  type NavigationMacroName,
+} from './navigation-handler.js'
 
 // Mermaid is now in ./mermaid/ subdirectory with new architecture
 export { MermaidProcessor } from './mermaid/mermaid-processor.js'
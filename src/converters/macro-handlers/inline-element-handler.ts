@@ -0,0 +1,212 @@
+import type { UserReference, UserSource } from '../../core/users.js'
+import { getLogger } from '../../cli/ui/logger.js'
+
+/**
+ * Emoji of the classic Confluence emoticons (ac:name)
+ */
+const EMOTICONS: Record<string, string> = {
+  smile: '🙂',
+  sad: '🙁',
+  cheeky: '😛',
+  laugh: '😃',
+  wink: '😉',
+  'thumbs-up': '👍',
+  'thumbs-down': '👎',
+  information: 'ℹ️',
+  tick: '✅',
+  cross: '❌',
+  warning: '⚠️',
+  plus: '➕',
+  minus: '➖',
+  question: '❓',
+  'light-on': '💡',
+  'light-off': '💡',
+  'yellow-star': '⭐',
+  'red-star': '⭐',
+  'green-star': '⭐',
+  'blue-star': '⭐',
+  heart: '❤️',
+  'broken-heart': '💔',
+}
+
+/**
+ * Innermost task list (no task list nested inside)
+ */
+const TASK_LIST_PATTERN = /<ac:task-list>((?:(?!<ac:task-list>)[\s\S])*?)<\/ac:task-list>/g
+
+const MENTION_PATTERN =
+  /<ac:link\b[^>]*>\s*<ri:user\b([^>]*?)\/?>(?:<\/ri:user>)?\s*(?:<ac:(?:plain-text-)?link-body>([\s\S]*?)<\/ac:(?:plain-text-)?link-body>)?\s*<\/ac:link>/g
+
+/**
+ * Inline Element Handler
+ * Converts storage elements that are not macros: task lists, user mentions, dates and emoticons
+ *
+ * Output elements carry `data-storage-element`; mentions without a display name
+ * are marked `data-mention="unresolved"` and counted in the conversion stats.
+ */
+export class InlineElementHandler {
+  private logger = getLogger()
+  private userSource?: UserSource
+
+  /**
+   * Set where mentioned users get their display names from
+   */
+  setUserSource(userSource: UserSource | undefined): void {
+    this.userSource = userSource
+  }
+
+  /**
+   * Process all inline elements in storage content
+   */
+  async process(storageContent: string): Promise<string> {
+    let processedContent = this.processTasks(storageContent)
+    processedContent = await this.processMentions(processedContent)
+    processedContent = this.processDates(processedContent)
+    processedContent = this.processEmoticons(processedContent)
+
+    return processedContent
+  }
+
+  /**
+   * Convert task lists to lists with a status on each item
+   * Innermost lists are converted first so nested lists end up inside their parent task
+   */
+  private processTasks(storageContent: string): string {
+    let processedContent = storageContent
+    let previous: string
+
+    do {
+      previous = processedContent
+      processedContent = processedContent.replace(TASK_LIST_PATTERN, (_match, tasks: string) => {
+        const items = Array.from(tasks.matchAll(/<ac:task>([\s\S]*?)<\/ac:task>/g), (task) => {
+          const status = task[1].match(/<ac:task-status>\s*(\w+)\s*<\/ac:task-status>/)?.[1]
+          const body = task[1].match(/<ac:task-body>([\s\S]*?)<\/ac:task-body>/)?.[1] ?? ''
+          const checked = status === 'complete'
+
+          return `<li data-task-status="${checked ? 'complete' : 'incomplete'}"><input type="checkbox" disabled="disabled"${checked ? ' checked="checked"' : ''} /> ${body}</li>`
+        })
+
+        return `<ul data-storage-element="task-list">${items.join('')}</ul>`
+      })
+    } while (processedContent !== previous)
+
+    return processedContent
+  }
+
+  /**
+   * Convert user mentions to `@Display Name`
+   */
+  private async processMentions(storageContent: string): Promise<string> {
+    const mentions = Array.from(storageContent.matchAll(MENTION_PATTERN))
+    if (mentions.length === 0) {
+      return storageContent
+    }
+
+    this.logger.info(`Processing ${mentions.length} user mentions...`)
+
+    let processedContent = storageContent
+
+    for (const [rawXml, attributes, linkBody] of mentions) {
+      const user: UserReference = {
+        accountId: this.getAttribute(attributes, 'ri:account-id'),
+        userKey: this.getAttribute(attributes, 'ri:userkey'),
+        username: this.getAttribute(attributes, 'ri:username'),
+      }
+      const displayName =
+        (await this.userSource?.getDisplayName(user)) ?? this.getLinkText(linkBody)
+
+      const html = displayName
+        ? `<span data-storage-element="mention" data-mention="resolved">@${this.escapeHtml(displayName)}</span>`
+        : `<span data-storage-element="mention" data-mention="unresolved">@${this.escapeHtml(
+            user.username ?? user.accountId ?? user.userKey ?? 'unknown-user'
+          )}</span>`
+
+      processedContent = processedContent.replace(rawXml, () => html)
+    }
+
+    return processedContent
+  }
+
+  /**
+   * Convert date lozenges to ISO dates (YYYY-MM-DD)
+   */
+  private processDates(storageContent: string): string {
+    return storageContent.replace(
+      /<time\b([^>]*?)(?:\/>|>\s*<\/time>)/g,
+      (match, attributes: string) => {
+        const datetime = this.getAttribute(attributes, 'datetime')
+        if (!datetime) {
+          return match
+        }
+
+        const date = /^\d{4}-\d{2}-\d{2}/.test(datetime) ? datetime.slice(0, 10) : datetime
+        return `<time data-storage-element="time" datetime="${this.escapeHtml(datetime)}">${this.escapeHtml(date)}</time>`
+      }
+    )
+  }
+
+  /**
+   * Convert emoticons to emoji
+   * Uses the emoji code points when present, then the fallback text, then the classic emoticon name
+   */
+  private processEmoticons(storageContent: string): string {
+    return storageContent.replace(
+      /<ac:emoticon\b([^>]*?)(?:\/>|>\s*<\/ac:emoticon>)/g,
+      (_match, attributes: string) => {
+        const name = this.getAttribute(attributes, 'ac:name') ?? ''
+        const emojiId = this.getAttribute(attributes, 'ac:emoji-id') ?? ''
+        const fallback = this.getAttribute(attributes, 'ac:emoji-fallback')
+        const shortName = this.getAttribute(attributes, 'ac:emoji-shortname')
+
+        let emoji: string
+        if (/^[0-9a-f]{4,6}(-[0-9a-f]{4,6})*$/i.test(emojiId)) {
+          emoji = String.fromCodePoint(...emojiId.split('-').map((code) => parseInt(code, 16)))
+        } else if (fallback && !fallback.startsWith(':')) {
+          emoji = fallback
+        } else {
+          emoji = EMOTICONS[name] ?? shortName ?? fallback ?? `:${name}:`
+        }
+
+        return `<span data-storage-element="emoticon">${this.escapeHtml(emoji)}</span>`
+      }
+    )
+  }
+
+  private getAttribute(attributes: string, name: string): string | undefined {
+    const value = attributes.match(new RegExp(`${name}="([^"]*)"`))?.[1]
+    return value === undefined ? undefined : this.decodeEntities(value)
+  }
+
+  /**
+   * Text of a mention link body (the name shown when the link was written)
+   */
+  private getLinkText(linkBody: string | undefined): string | undefined {
+    const text = linkBody
+      ?.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .trim()
+
+    return text ? this.decodeEntities(text) : undefined
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
+
+export function createInlineElementHandler(): InlineElementHandler {
+  return new InlineElementHandler()
+}
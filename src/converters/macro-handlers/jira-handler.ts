@@ -0,0 +1,170 @@
+import { MacroHandler, MacroConversionContext } from './base-macro-handler.js'
+import { ParsedMacro, MacroParser } from '../macro-parser.js'
+import type { JiraIssue, JiraIssueSource } from '../../core/jira-issues.js'
+import { getLogger } from '../../cli/ui/logger.js'
+
+/**
+ * Columns of a JQL table when the macro does not list any
+ */
+const DEFAULT_COLUMNS = ['key', 'summary', 'status']
+
+const COLUMN_TITLES: Record<string, string> = {
+  key: 'Key',
+  summary: 'Summary',
+  status: 'Status',
+  type: 'Type',
+  priority: 'Priority',
+  assignee: 'Assignee',
+  reporter: 'Reporter',
+  resolution: 'Resolution',
+  created: 'Created',
+  updated: 'Updated',
+  due: 'Due',
+}
+
+/**
+ * Jira Macro Handler
+ * Converts `jira` macros (single issue, JQL table, issue count) to HTML
+ * that Turndown renders as links and GFM tables
+ *
+ * Issue data comes from a JiraIssueSource. Without one, single issues are still
+ * exported as plain keys and JQL macros as a link to the search.
+ */
+export class JiraHandler implements MacroHandler {
+  private logger = getLogger()
+  private macroParser: MacroParser
+  private issueSource?: JiraIssueSource
+
+  constructor(macroParser: MacroParser) {
+    this.macroParser = macroParser
+  }
+
+  /**
+   * Set where issue summaries, statuses and JQL results come from
+   */
+  setIssueSource(issueSource: JiraIssueSource | undefined): void {
+    this.issueSource = issueSource
+  }
+
+  getMacroName(): string {
+    return 'jira'
+  }
+
+  canHandle(macro: ParsedMacro): boolean {
+    return macro.name === 'jira'
+  }
+
+  async convert(macro: ParsedMacro, _context: MacroConversionContext): Promise<string | null> {
+    const key = this.macroParser.getMacroParameter(macro, 'key')
+    const jql = this.macroParser.getMacroParameter(macro, 'jqlQuery')
+
+    if (key) {
+      return this.convertIssue(key)
+    }
+
+    if (jql) {
+      return this.macroParser.getMacroParameter(macro, 'count') === 'true'
+        ? this.convertCount(jql)
+        : this.convertTable(macro, jql)
+    }
+
+    this.logger.warn('Jira macro has neither an issue key nor a JQL query')
+    return null
+  }
+
+  /**
+   * Single issue: `KEY-1` link followed by summary and status
+   */
+  private async convertIssue(key: string): Promise<string> {
+    const issue = await this.issueSource?.getIssue(key)
+    const details = [
+      issue?.fields.summary ? `: ${this.escapeHtml(issue.fields.summary)}` : '',
+      issue?.fields.status ? ` (${this.escapeHtml(issue.fields.status)})` : '',
+    ].join('')
+
+    return `<span data-jira-issue="${this.escapeHtml(key)}">${this.renderKey(key)}${details}</span>`
+  }
+
+  /**
+   * Issue count: link to the search with the number of results when known
+   */
+  private async convertCount(jql: string): Promise<string> {
+    const issues = await this.issueSource?.searchIssues(jql)
+    const text = issues ? `${issues.length} issues` : 'Jira issues'
+    return `<span data-jira-count="true">${this.renderSearchLink(jql, text)}</span>`
+  }
+
+  /**
+   * JQL table: one row per issue with the macro columns
+   */
+  private async convertTable(macro: ParsedMacro, jql: string): Promise<string> {
+    const maximumIssues = Number(this.macroParser.getMacroParameter(macro, 'maximumIssues'))
+    const issues = await this.issueSource?.searchIssues(
+      jql,
+      Number.isFinite(maximumIssues) && maximumIssues > 0 ? maximumIssues : undefined
+    )
+
+    if (!issues) {
+      this.logger.warn(`No Jira data for query "${jql}", exporting a link instead`)
+      return `<p data-jira-table="unavailable">${this.renderSearchLink(jql, `Jira issues: ${jql}`)}</p>`
+    }
+
+    const columns = this.getColumns(macro)
+
+    const header = columns
+      .map((column) => `<th>${this.escapeHtml(COLUMN_TITLES[column] ?? column)}</th>`)
+      .join('')
+    const rows = issues
+      .map(
+        (issue) =>
+          `<tr>${columns.map((column) => `<td>${this.renderCell(issue, column)}</td>`).join('')}</tr>`
+      )
+      .join('')
+
+    return `<table data-jira-table="true"><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`
+  }
+
+  /**
+   * Columns listed in the macro (comma or semicolon separated), lower-cased
+   */
+  private getColumns(macro: ParsedMacro): string[] {
+    const columns = (this.macroParser.getMacroParameter(macro, 'columns') ?? '')
+      .split(/[,;]/)
+      .map((column) => column.trim().toLowerCase())
+      .filter(Boolean)
+
+    return columns.length > 0 ? columns : DEFAULT_COLUMNS
+  }
+
+  private renderCell(issue: JiraIssue, column: string): string {
+    return column === 'key'
+      ? this.renderKey(issue.key)
+      : this.escapeHtml(issue.fields[column] ?? '')
+  }
+
+  private renderKey(key: string): string {
+    const url = this.issueSource?.getIssueUrl(key)
+    return url
+      ? `<a href="${this.escapeHtml(url)}">${this.escapeHtml(key)}</a>`
+      : this.escapeHtml(key)
+  }
+
+  private renderSearchLink(jql: string, text: string): string {
+    const url = this.issueSource?.getSearchUrl(jql)
+    return url
+      ? `<a href="${this.escapeHtml(url)}">${this.escapeHtml(text)}</a>`
+      : this.escapeHtml(text)
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
+
+export function createJiraHandler(macroParser: MacroParser): JiraHandler {
+  return new JiraHandler(macroParser)
+}
@@ -0,0 +1,80 @@
+import { getLogger } from '../../cli/ui/logger.js'
+
+const SECTION_PATTERN = /<ac:layout-section\b([^>]*)>([\s\S]*?)<\/ac:layout-section>/g
+
+const CELL_PATTERN = /<ac:layout-cell\b[^>]*>([\s\S]*?)<\/ac:layout-cell>/g
+
+/**
+ * Separator between columns, and between a multi-column section and its neighbours
+ * Markdown keeps it as a rule unless preserveHtml is set
+ */
+const SEPARATOR = '<hr data-layout-separator="true" />'
+
+/**
+ * Layout Handler
+ * Converts page layouts (ac:layout, ac:layout-section, ac:layout-cell) to column markup
+ *
+ * Sections become `<div class="columns">` with one `<div class="column">` per cell,
+ * in reading order (section by section, left to right). Empty cells are dropped.
+ */
+export class LayoutHandler {
+  private logger = getLogger()
+
+  /**
+   * Process all layouts in storage content
+   */
+  process(storageContent: string): string {
+    if (!storageContent.includes('<ac:layout')) {
+      return storageContent
+    }
+
+    return storageContent.replace(
+      /<ac:layout>([\s\S]*?)<\/ac:layout>/g,
+      (_match, layout: string) => {
+        const sections = Array.from(layout.matchAll(SECTION_PATTERN), (section) => ({
+          type: section[1].match(/ac:type="([^"]*)"/)?.[1] ?? 'single',
+          cells: Array.from(section[2].matchAll(CELL_PATTERN), (cell) => cell[1]).filter(
+            (cell) => !this.isEmptyCell(cell)
+          ),
+        })).filter((section) => section.cells.length > 0)
+
+        this.logger.debug(`Processing page layout with ${sections.length} sections`)
+
+        return sections
+          .map((section, index) => {
+            const columns = section.cells
+              .map((cell) => `<div class="column" data-layout-cell="true">${cell}</div>`)
+              .join(SEPARATOR)
+            const html = `<div class="columns" data-layout-section="${section.type}">${columns}</div>`
+
+            // Sections are separated when columns are involved on either side
+            const previous = sections[index - 1]
+            const separated = previous && (previous.cells.length > 1 || section.cells.length > 1)
+
+            return separated ? `${SEPARATOR}${html}` : html
+          })
+          .join('')
+      }
+    )
+  }
+
+  /**
+   * Whether a cell has no text, images or macros
+   */
+  private isEmptyCell(cell: string): boolean {
+    if (/<(ac:image|ac:structured-macro|img|table|ac:task-list)\b/.test(cell)) {
+      return false
+    }
+
+    return (
+      cell
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;|&#160;/g, '')
+        .trim() === ''
+    )
+  }
+}
+
+export function createLayoutHandler(): LayoutHandler {
+  return new LayoutHandler()
+}
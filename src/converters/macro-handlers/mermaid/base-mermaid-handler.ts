@@ -171,6 +171,13 @@ export abstract class BaseMermaidHandler implements MacroHandler {
     return result
   }
 
+  /**
+   * Get the diagram source behind a placeholder
+   */
+  getDiagramSource(placeholderId: string): string | undefined {
+    return this.diagramPlaceholders.get(placeholderId)
+  }
+
   /**
    * Clear diagram placeholders and metadata
    */
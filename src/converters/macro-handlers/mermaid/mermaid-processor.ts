@@ -121,7 +121,7 @@ export class MermaidProcessor {
         const html = await this.registry.convert(macro, context)
         if (html) {
           // Replace macro XML with placeholder HTML
-          processedContent = this.replaceMacroInContent(processedContent, macro, html)
+          processedContent = this.macroParser.replaceMacro(processedContent, macro, html)
         }
       } catch (error) {
         this.logger.error(`Failed to process macro '${macro.name}':`, error)
@@ -139,46 +139,6 @@ export class MermaidProcessor {
     return processedContent
   }
 
-  /**
-   * Replace macro XML in content with placeholder HTML
-   * Handles HTML entity encoding issues
-   */
-  private replaceMacroInContent(content: string, macro: any, html: string): string {
-    // Try exact match first
-    if (content.includes(macro.rawXml)) {
-      this.logger.debug(`Successfully replaced macro XML (exact match)`)
-      return content.replace(macro.rawXml, html)
-    }
-
-    // Fallback: Find and replace by unique macro-id
-    const macroIdMatch = macro.rawXml.match(/ac:macro-id="([^"]+)"/)
-    if (macroIdMatch) {
-      const macroId = macroIdMatch[1]
-      const macroStart = content.indexOf(`ac:macro-id="${macroId}"`)
-
-      if (macroStart >= 0) {
-        // Find the opening and closing tags
-        const beforeMacroId = content.substring(0, macroStart)
-        const tagStart = beforeMacroId.lastIndexOf('<ac:structured-macro')
-
-        if (tagStart >= 0) {
-          const afterTagStart = content.substring(tagStart)
-          const tagEnd =
-            afterTagStart.indexOf('</ac:structured-macro>') + '</ac:structured-macro>'.length
-
-          if (tagEnd > 0) {
-            const originalMacroXml = afterTagStart.substring(0, tagEnd)
-            this.logger.debug(`Successfully replaced macro XML (by macro ID)`)
-            return content.replace(originalMacroXml, html)
-          }
-        }
-      }
-    }
-
-    this.logger.warn(`Macro XML not found in content! Macro ID: ${macroIdMatch?.[1]}`)
-    return content
-  }
-
   /**
    * Replace placeholders in markdown with actual mermaid code blocks
    */
@@ -194,6 +154,20 @@ export class MermaidProcessor {
     return result
   }
 
+  /**
+   * Get the diagram source behind a placeholder, from whichever handler created it
+   */
+  getDiagramSource(placeholderId: string): string | undefined {
+    for (const handler of [this.builtinHandler, ...this.pluginHandlers]) {
+      const source = handler.getDiagramSource(placeholderId)
+      if (source !== undefined) {
+        return source
+      }
+    }
+
+    return undefined
+  }
+
   /**
    * Clear placeholders
    */
@@ -0,0 +1,300 @@
+import { MacroHandler, MacroConversionContext } from './base-macro-handler.js'
+import { ParsedMacro, MacroParser } from '../macro-parser.js'
+import type { PageTreeNode, PageTreeSource } from '../../core/page-tree.js'
+import { parseCqlLabelGroups, parseCqlSpaces, splitMacroList } from './cql-filters.js'
+import { getLogger } from '../../cli/ui/logger.js'
+
+export type NavigationMacroName = 'children' | 'pagetree' | 'contentbylabel'
+
+/**
+ * How listed pages are ordered, natural is the page tree order (position, then title)
+ */
+type NavigationSort = 'natural' | 'title' | 'creation' | 'modified'
+
+interface ListOptions {
+  sort: NavigationSort
+  reverse: boolean
+  /**
+   * Pages listed at the top level
+   */
+  max: number
+}
+
+/**
+ * Confluence lists 5 pages in contentbylabel macros unless `max` says otherwise
+ */
+const DEFAULT_LABEL_MAX = 5
+
+/**
+ * Navigation Macro Handler
+ * Renders `children`, `pagetree` and `contentbylabel` macros as nested link lists
+ *
+ * Confluence builds these lists when the page is viewed, so the storage body is empty.
+ * They are resolved against a PageTreeSource: the exported pages during space exports,
+ * CQL queries otherwise. Without a source the macros are left as they are.
+ */
+export class NavigationHandler implements MacroHandler {
+  private logger = getLogger()
+  private macroParser: MacroParser
+  private macroName: NavigationMacroName
+  private pageSource?: PageTreeSource
+
+  constructor(macroParser: MacroParser, macroName: NavigationMacroName) {
+    this.macroParser = macroParser
+    this.macroName = macroName
+  }
+
+  /**
+   * Set where listed pages are looked up
+   */
+  setPageSource(pageSource: PageTreeSource | undefined): void {
+    this.pageSource = pageSource
+  }
+
+  getMacroName(): string {
+    return this.macroName
+  }
+
+  canHandle(macro: ParsedMacro): boolean {
+    return macro.name === this.macroName
+  }
+
+  async convert(macro: ParsedMacro, context: MacroConversionContext): Promise<string | null> {
+    if (!this.pageSource) {
+      return null
+    }
+
+    const html =
+      this.macroName === 'contentbylabel'
+        ? await this.renderLabelMatches(this.pageSource, macro, context)
+        : await this.renderTree(this.pageSource, macro, context)
+
+    return html ?? `<p data-page-tree="${this.macroName}"></p>`
+  }
+
+  /**
+   * Descendants of the macro's root page, `depth` levels deep
+   * children: the `page` parameter or the current page, one level by default (`all` lists every level)
+   * pagetree: the `root` parameter (@self, @parent, a page) or the whole space, every level by default
+   */
+  private async renderTree(
+    pageSource: PageTreeSource,
+    macro: ParsedMacro,
+    context: MacroConversionContext
+  ): Promise<string | undefined> {
+    const parameter = (name: string): string | undefined =>
+      this.macroParser.getMacroParameter(macro, name)
+    const isChildren = this.macroName === 'children'
+
+    const depth =
+      isChildren && parameter('all') === 'true'
+        ? Infinity
+        : (this.parsePositive(parameter('depth')) ?? (isChildren ? 1 : Infinity))
+
+    const options: ListOptions = {
+      sort: this.parseSort(parameter('sort')) ?? 'natural',
+      reverse: parameter('reverse') === 'true',
+      max: this.parsePositive(parameter('max') ?? parameter('first')) ?? Infinity,
+    }
+
+    const reference = this.macroParser.getMacroPageReference(macro)
+    const root = isChildren ? undefined : parameter('root')?.trim()
+    let pages: PageTreeNode[]
+
+    if (reference) {
+      const spaceKey = reference.spaceKey ?? context.spaceKey
+      const page = spaceKey ? await pageSource.findPage(spaceKey, reference.title) : undefined
+      if (!page) {
+        this.logger.warn(`${this.macroName} macro root "${reference.title}" not found`)
+        return undefined
+      }
+      pages = await pageSource.getChildren(page.id)
+    } else if (isChildren || root === '@self' || root === '@parent') {
+      const current = await this.getCurrentPage(pageSource, context)
+      const parentId = root === '@parent' ? current?.parentId : current?.id
+      pages = parentId ? await pageSource.getChildren(parentId) : []
+    } else {
+      const spaceKey = parameter('spaceKey') ?? context.spaceKey
+      pages = spaceKey ? await pageSource.getTopLevelPages(spaceKey) : []
+    }
+
+    return this.renderList(pageSource, pages, depth, options, new Set())
+  }
+
+  /**
+   * Pages with the macro's labels (`labels` and `operator`, or the `cql` parameter),
+   * most recently modified first unless `sort` is set
+   */
+  private async renderLabelMatches(
+    pageSource: PageTreeSource,
+    macro: ParsedMacro,
+    context: MacroConversionContext
+  ): Promise<string | undefined> {
+    const parameter = (name: string): string | undefined =>
+      this.macroParser.getMacroParameter(macro, name)
+    const cql = parameter('cql') ?? ''
+
+    const labels = splitMacroList(parameter('labels'))
+    const labelGroups = labels
+      ? parameter('operator')?.toUpperCase() === 'AND'
+        ? labels.map((label) => [label])
+        : [labels]
+      : parseCqlLabelGroups(cql)
+
+    if (labelGroups.length === 0) {
+      this.logger.warn('contentbylabel macro without labels, skipping')
+      return undefined
+    }
+
+    // The current space unless the macro names other spaces, @all lifts the filter
+    const spaces = splitMacroList(parameter('spaces')) ?? parseCqlSpaces(cql)
+    const spaceKeys = spaces?.includes('@all')
+      ? undefined
+      : (spaces ?? ['@self'])
+          .map((space) => (space === '@self' ? context.spaceKey : space))
+          .filter((space): space is string => !!space)
+
+    let pages = await pageSource.findByLabels(labelGroups, spaceKeys)
+    if (parameter('excludeCurrent') === 'true' && context.pageId) {
+      pages = pages.filter((page) => page.id !== context.pageId)
+    }
+
+    const sort = this.parseSort(parameter('sort'))
+    const options: ListOptions = {
+      sort: sort ?? 'modified',
+      reverse: parameter('reverse') ? parameter('reverse') === 'true' : !sort,
+      max: this.parsePositive(parameter('max')) ?? DEFAULT_LABEL_MAX,
+    }
+
+    return this.renderList(pageSource, pages, 1, options, new Set())
+  }
+
+  /**
+   * Nested list of links to the pages and their children
+   * `max` only limits the top level, like Confluence
+   */
+  private async renderList(
+    pageSource: PageTreeSource,
+    pages: PageTreeNode[],
+    depth: number,
+    options: ListOptions,
+    listed: Set<string>,
+    nested = false
+  ): Promise<string | undefined> {
+    const items: string[] = []
+
+    for (const page of this.sortPages(pages, options).slice(0, options.max)) {
+      if (listed.has(page.id)) {
+        continue
+      }
+      listed.add(page.id)
+
+      const children =
+        depth > 1
+          ? await this.renderList(
+              pageSource,
+              await pageSource.getChildren(page.id),
+              depth - 1,
+              { ...options, max: Infinity },
+              listed,
+              true
+            )
+          : undefined
+
+      items.push(`<li>${this.renderLink(page)}${children ?? ''}</li>`)
+    }
+
+    if (items.length === 0) {
+      return undefined
+    }
+
+    const marker = nested ? '' : ` data-page-tree="${this.macroName}"`
+    return `<ul${marker}>${items.join('')}</ul>`
+  }
+
+  private sortPages(pages: PageTreeNode[], options: ListOptions): PageTreeNode[] {
+    const byTitle = (a: PageTreeNode, b: PageTreeNode): number => a.title.localeCompare(b.title)
+    const byDate =
+      (date: (page: PageTreeNode) => Date | undefined) => (a: PageTreeNode, b: PageTreeNode) =>
+        (date(a)?.getTime() ?? 0) - (date(b)?.getTime() ?? 0) || byTitle(a, b)
+
+    const compare = {
+      natural: (a: PageTreeNode, b: PageTreeNode) =>
+        (a.position ?? Infinity) - (b.position ?? Infinity) || byTitle(a, b),
+      title: byTitle,
+      creation: byDate((page) => page.createdAt),
+      modified: byDate((page) => page.updatedAt),
+    }[options.sort]
+
+    const sorted = [...pages].sort(compare)
+    return options.reverse ? sorted.reverse() : sorted
+  }
+
+  /**
+   * The page being converted, or the included page when the macro comes from an include
+   */
+  private async getCurrentPage(
+    pageSource: PageTreeSource,
+    context: MacroConversionContext
+  ): Promise<PageTreeNode | undefined> {
+    const includeChain = context.includeChain ?? []
+
+    if (context.pageId && includeChain.length <= 1) {
+      return pageSource.getPage(context.pageId)
+    }
+
+    const current = includeChain[includeChain.length - 1]
+    if (!current) {
+      return undefined
+    }
+
+    const separator = current.indexOf(':')
+    return pageSource.findPage(current.slice(0, separator), current.slice(separator + 1))
+  }
+
+  /**
+   * Links use the page ID form so LinkResolver can rewrite them to relative paths
+   */
+  private renderLink(page: PageTreeNode): string {
+    const title = encodeURIComponent(page.title).replace(/%20/g, '+')
+    const href = `/wiki/spaces/${encodeURIComponent(page.spaceKey)}/pages/${encodeURIComponent(page.id)}/${title}`
+
+    return `<a href="${href}" data-confluence-link="true">${this.escapeHtml(page.title)}</a>`
+  }
+
+  private parseSort(value: string | undefined): NavigationSort | undefined {
+    switch (value?.toLowerCase()) {
+      case 'title':
+        return 'title'
+      case 'creation':
+        return 'creation'
+      case 'modified':
+        return 'modified'
+      case 'natural':
+      case 'position':
+        return 'natural'
+      default:
+        return undefined
+    }
+  }
+
+  private parsePositive(value: string | undefined): number | undefined {
+    const number = Number(value)
+    return value && Number.isInteger(number) && number > 0 ? number : undefined
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
+
+export function createNavigationHandler(
+  macroParser: MacroParser,
+  macroName: NavigationMacroName
+): NavigationHandler {
+  return new NavigationHandler(macroParser, macroName)
+}
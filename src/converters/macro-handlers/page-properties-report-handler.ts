@@ -0,0 +1,77 @@
+import { MacroHandler, MacroConversionContext } from './base-macro-handler.js'
+import { ParsedMacro, MacroParser } from '../macro-parser.js'
+import type { PagePropertiesReportSpec } from '../page-properties-report.js'
+import { parseCqlLabelGroups, parseCqlSpaces, splitMacroList } from './cql-filters.js'
+
+/**
+ * Page Properties Report Handler
+ * Converts `detailssummary` macros to a report placeholder carrying the report settings
+ *
+ * The table is built after the export by PagePropertiesReportBuilder,
+ * once the labels and properties of all exported pages are known.
+ */
+export class PagePropertiesReportHandler implements MacroHandler {
+  private macroParser: MacroParser
+
+  constructor(macroParser: MacroParser) {
+    this.macroParser = macroParser
+  }
+
+  getMacroName(): string {
+    return 'detailssummary'
+  }
+
+  canHandle(macro: ParsedMacro): boolean {
+    return macro.name === 'detailssummary'
+  }
+
+  convert(macro: ParsedMacro, _context: MacroConversionContext): Promise<string | null> {
+    const cql = this.macroParser.getMacroParameter(macro, 'cql') ?? ''
+    const spec: PagePropertiesReportSpec = {
+      labels: this.getLabelGroups(macro, cql),
+      spaces: this.getSpaces(macro, cql),
+      headings: splitMacroList(this.macroParser.getMacroParameter(macro, 'headings')),
+      firstColumn: this.macroParser.getMacroParameter(macro, 'firstcolumn'),
+      sortBy: this.macroParser.getMacroParameter(macro, 'sortBy'),
+      reverseSort: this.macroParser.getMacroParameter(macro, 'reverseSort') === 'true',
+    }
+
+    const labels = spec.labels.map((group) => group.join(' or ')).join(', ')
+    const description = labels ? `Page properties report (${labels})` : 'Page properties report'
+
+    return Promise.resolve(
+      `<div data-page-properties-report="${this.escapeHtml(JSON.stringify(spec))}"><p>${this.escapeHtml(description)}</p></div>`
+    )
+  }
+
+  /**
+   * Labels from the `label` parameter (every label required) or the CQL query
+   */
+  private getLabelGroups(macro: ParsedMacro, cql: string): string[][] {
+    const labelParam = splitMacroList(this.macroParser.getMacroParameter(macro, 'label'))
+    return labelParam ? labelParam.map((label) => [label]) : parseCqlLabelGroups(cql)
+  }
+
+  /**
+   * Spaces from the `spaces` parameter or the CQL query, currentSpace() is the default
+   */
+  private getSpaces(macro: ParsedMacro, cql: string): string[] | undefined {
+    return (
+      splitMacroList(this.macroParser.getMacroParameter(macro, 'spaces')) ?? parseCqlSpaces(cql)
+    )
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
+
+export function createPagePropertiesReportHandler(
+  macroParser: MacroParser
+): PagePropertiesReportHandler {
+  return new PagePropertiesReportHandler(macroParser)
+}
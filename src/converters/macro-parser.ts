@@ -24,11 +24,15 @@ export interface ParsedImage {
 }
 
 export interface ParsedLink {
-  type: 'page' | 'external' | 'attachment'
+  type: 'page' | 'external' | 'attachment' | 'anchor'
   text: string
   href?: string
   pageTitle?: string
   spaceKey?: string
+  /**
+   * Target anchor (ac:anchor), on the linked page or the current one
+   */
+  anchor?: string
   attachmentFilename?: string
   rawXml: string
 }
@@ -49,7 +53,11 @@ export class MacroParser {
 
     try {
       // Use text/html for more lenient parsing of Confluence XHTML content
-      const dom = new JSDOM(storageContent, { contentType: 'text/html' })
+      // CDATA sections become escaped text, HTML mode would end them at the first '>'
+      const html = storageContent.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, text: string) =>
+        text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+      )
+      const dom = new JSDOM(html, { contentType: 'text/html' })
       const doc = dom.window.document
 
       // Find all structured macros using multiple selector strategies
@@ -86,15 +94,16 @@ export class MacroParser {
 
   /**
    * Parse a single macro element
+   * Only the macro's own parameters and body are read, not those of macros nested in its body
    */
-  private parseMacroElement(element: Element): ParsedMacro | null {
+  parseMacroElement(element: Element): ParsedMacro | null {
     const name = element.getAttribute('ac:name') || element.getAttribute('name')
     if (!name) {
       return null
     }
 
     const parameters: MacroParameter[] = []
-    const paramElements = element.querySelectorAll('ac\\:parameter, parameter')
+    const paramElements = element.querySelectorAll(':scope > ac\\:parameter, :scope > parameter')
 
     paramElements.forEach((param) => {
       const paramName = param.getAttribute('ac:name') || param.getAttribute('name')
@@ -113,13 +122,21 @@ export class MacroParser {
     let bodyType: 'plain' | 'rich' | undefined
 
     // Check for plain text body (e.g., Mermaid, code blocks)
-    const plainTextBody = element.querySelector('ac\\:plain-text-body, plain-text-body')
+    // CDATA bodies are parsed as comments in HTML mode
+    const plainTextBody = element.querySelector(
+      ':scope > ac\\:plain-text-body, :scope > plain-text-body'
+    )
     if (plainTextBody) {
-      body = plainTextBody.textContent || ''
+      body =
+        plainTextBody.textContent ||
+        plainTextBody.innerHTML.match(/\[CDATA\[([\s\S]*?)\]\]/)?.[1] ||
+        ''
       bodyType = 'plain'
     } else {
       // Check for rich text body (e.g., info panels, expand)
-      const richTextBody = element.querySelector('ac\\:rich-text-body, rich-text-body')
+      const richTextBody = element.querySelector(
+        ':scope > ac\\:rich-text-body, :scope > rich-text-body'
+      )
       if (richTextBody) {
         body = richTextBody.innerHTML || ''
         bodyType = 'rich'
@@ -175,7 +192,7 @@ export class MacroParser {
   /**
    * Parse a single image element
    */
-  private parseImageElement(element: Element): ParsedImage | null {
+  parseImageElement(element: Element): ParsedImage | null {
     // Find attachment reference
     const attachment = element.querySelector('ri\\:attachment, attachment')
     const filename = attachment?.getAttribute('ri:filename') || attachment?.getAttribute('filename')
@@ -243,12 +260,17 @@ export class MacroParser {
   /**
    * Parse a single link element
    */
-  private parseLinkElement(element: Element): ParsedLink | null {
+  parseLinkElement(element: Element): ParsedLink | null {
     // Get link text
     const linkBody =
       element.querySelector('ac\\:plain-text-link-body, plain-text-link-body') ||
       element.querySelector('ac\\:link-body, link-body')
-    const text = linkBody?.textContent?.trim() || ''
+    // CDATA bodies are parsed as comments in HTML mode
+    const text =
+      linkBody?.textContent?.trim() ||
+      linkBody?.innerHTML.match(/\[CDATA\[([\s\S]*?)\]\]/)?.[1].trim() ||
+      ''
+    const anchor = element.getAttribute('ac:anchor') || undefined
 
     // Check for page link
     const pageRef = element.querySelector('ri\\:page, page')
@@ -262,6 +284,7 @@ export class MacroParser {
         text,
         pageTitle: pageTitle || undefined,
         spaceKey: spaceKey || undefined,
+        anchor,
         rawXml: element.outerHTML,
       }
     }
@@ -291,6 +314,16 @@ export class MacroParser {
       }
     }
 
+    // Anchor on the current page
+    if (anchor) {
+      return {
+        type: 'anchor',
+        text,
+        anchor,
+        rawXml: element.outerHTML,
+      }
+    }
+
     return null
   }
 
@@ -302,6 +335,31 @@ export class MacroParser {
     return allMacros.filter((macro) => macro.name === macroName)
   }
 
+  /**
+   * Replace a parsed macro in storage content
+   * The serialized XML differs from the source when the macro has a CDATA body,
+   * the macro is then found by its ac:macro-id
+   */
+  replaceMacro(content: string, macro: ParsedMacro, replacement: string): string {
+    if (content.includes(macro.rawXml)) {
+      return content.replace(macro.rawXml, () => replacement)
+    }
+
+    const macroId = macro.rawXml.match(/ac:macro-id="([^"]+)"/)?.[1]
+    const idIndex = macroId ? content.indexOf(`ac:macro-id="${macroId}"`) : -1
+    const start = idIndex >= 0 ? content.lastIndexOf('<ac:structured-macro', idIndex) : -1
+    const end = start >= 0 ? findMacroEnd(content, start) : -1
+
+    if (end < 0) {
+      this.logger.warn(
+        `Macro XML not found in content: ${macro.name}${macroId ? ` (${macroId})` : ''}`,
+      )
+      return content
+    }
+
+    return content.slice(0, start) + replacement + content.slice(end)
+  }
+
   /**
    * Get macro parameter value by name
    */
@@ -324,6 +382,60 @@ export class MacroParser {
     return macro.bodyType === 'rich' && !!macro.body
   }
 
+  /**
+   * Parse page properties from the key/value tables of `details` macros
+   * Keys come from the first cell of each row, values are the text of the second cell
+   */
+  parsePageProperties(storageContent: string): Record<string, string> {
+    const properties: Record<string, string> = {}
+
+    for (const macro of this.findMacrosByName(storageContent, 'details')) {
+      if (!macro.body) {
+        continue
+      }
+
+      const dom = new JSDOM(macro.body, { contentType: 'text/html' })
+      for (const row of Array.from(dom.window.document.querySelectorAll('tr'))) {
+        const cells = Array.from(row.children).filter((cell) => /^T[HD]$/.test(cell.tagName))
+        const key = cells[0]?.textContent?.replace(/\s+/g, ' ').trim()
+
+        if (key && cells.length >= 2) {
+          properties[key] = cells[1].textContent?.replace(/\s+/g, ' ').trim() ?? ''
+        }
+      }
+    }
+
+    return properties
+  }
+
+  /**
+   * Get the page a macro references through <ri:page> (include, excerpt-include)
+   * The space key is missing when the page is in the same space
+   */
+  getMacroPageReference(macro: ParsedMacro): { title: string; spaceKey?: string } | undefined {
+    const pageTag = macro.rawXml.match(/<ri:page\b[^>]*>/i)?.[0]
+    if (!pageTag) {
+      return undefined
+    }
+
+    const getAttribute = (name: string): string | undefined => {
+      const value = pageTag.match(new RegExp(`${name}="([^"]*)"`, 'i'))?.[1]
+      return value === undefined ? undefined : this.decodeAttribute(value)
+    }
+
+    const title = getAttribute('ri:content-title')
+    return title ? { title, spaceKey: getAttribute('ri:space-key') } : undefined
+  }
+
+  private decodeAttribute(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+  }
+
   /**
    * Check if macro references an attachment
    * Returns attachment filename if found, undefined otherwise
@@ -530,3 +642,26 @@ export class MacroParser {
 export function createMacroParser(): MacroParser {
   return new MacroParser()
 }
+
+/**
+ * End of the macro element starting at start, macros nested in its body included
+ */
+function findMacroEnd(content: string, start: number): number {
+  const tags = /<ac:structured-macro\b[^>]*?(\/)?>|<\/ac:structured-macro>/g
+  tags.lastIndex = start
+  let depth = 0
+
+  for (let tag = tags.exec(content); tag; tag = tags.exec(content)) {
+    if (tag[0].startsWith('</')) {
+      depth--
+    } else if (!tag[1]) {
+      depth++
+    }
+
+    if (depth === 0) {
+      return tag.index + tag[0].length
+    }
+  }
+
+  return -1
+}
@@ -1,8 +1,17 @@
 import TurndownService from 'turndown'
 import { gfm } from 'turndown-plugin-gfm'
-import { BaseConverter, ConvertOptions, ConvertResult } from './base-converter.js'
-import { ConfluencePage } from '../types.js'
+import {
+  BaseConverter,
+  ConvertOptions,
+  ConvertResult,
+  ConvertSidecar,
+} from './base-converter.js'
+import { ConfluenceComment, ConfluencePage } from '../types.js'
+import type { ProcessedContent } from './html-processor.js'
 import type { MarkdownOptions } from '../config/config-schema.js'
+import type { SitePageSettings } from '../storage/static-site.js'
+import { formatReportMarker, type PagePropertiesReportSpec } from './page-properties-report.js'
+import { createMdxTransformer, type MdxIssue, type MdxTransformer } from './mdx-transformer.js'
 
 /**
  * Markdown Converter
@@ -13,9 +22,12 @@ import type { MarkdownOptions } from '../config/config-schema.js'
  * - Preserves macro source code (Mermaid, code blocks)
  * - Processes both storage and view formats
  * - Custom Turndown rules for Confluence elements
+ * - MDX output (flavor: mdx) for Docusaurus and other MDX tools
+ * - Obsidian output (flavor: obsidian): attachment embeds, callouts and tags
  */
 export class MarkdownConverter extends BaseConverter {
   private turndownService: TurndownService
+  private mdxTransformer?: MdxTransformer
   private options: MarkdownOptions
 
   constructor(options?: MarkdownOptions) {
@@ -25,10 +37,16 @@ export class MarkdownConverter extends BaseConverter {
       frontmatter: true,
       preserveHtml: false,
       gfm: true,
+      comments: 'section',
+      flavor: 'markdown',
       ...options,
     }
 
     this.turndownService = this.createTurndownService()
+
+    if (this.options.flavor === 'mdx') {
+      this.mdxTransformer = createMdxTransformer()
+    }
   }
 
   /**
@@ -48,6 +66,10 @@ export class MarkdownConverter extends BaseConverter {
       preformattedCode: true,
     })
 
+    // Page text that reads like an HTML tag (`&lt;b&gt;` in the page) stays text
+    const escape = service.escape.bind(service)
+    service.escape = (text: string): string => escape(text).replace(/<(?=[A-Za-z/!?])/g, '\\<')
+
     // Add GFM plugin for tables, strikethrough, etc.
     if (this.options.gfm) {
       service.use(gfm)
@@ -63,6 +85,8 @@ export class MarkdownConverter extends BaseConverter {
    * Add custom Turndown rules for Confluence elements
    */
   private addCustomRules(service: TurndownService): void {
+    const obsidian = this.options.flavor === 'obsidian'
+
     // Rule: Preserve HTML comments (needed for TOC placeholders)
     service.addRule('preserveComments', {
       filter: (node: any) => {
@@ -73,6 +97,16 @@ export class MarkdownConverter extends BaseConverter {
       },
     })
 
+    // Rule: Anchor macros (see ContentHandler.processAnchors) are link targets without text
+    service.addRule('anchorTargets', {
+      filter: (node) => {
+        return node.nodeName === 'A' && !node.hasAttribute('href') && node.hasAttribute('id')
+      },
+      replacement: (content, node) => {
+        return `<a id="${node.getAttribute('id')}"></a>${content}`
+      },
+    })
+
     // Rule: Preserve code blocks that are already in markdown format
     service.addRule('preserveCodeBlocks', {
       filter: (node: any) => {
@@ -120,6 +154,14 @@ export class MarkdownConverter extends BaseConverter {
           // If decoding fails, use the original filename
         }
 
+        const width = node.getAttribute('width')
+        const height = node.getAttribute('height')
+
+        // Obsidian finds attachments by name, the embed carries the display width
+        if (obsidian) {
+          return `![[${filename}${width ? `|${width}` : ''}]]`
+        }
+
         // Build relative path - use the decoded filename
         const relativePath = `./assets/${filename}`
 
@@ -128,8 +170,6 @@ export class MarkdownConverter extends BaseConverter {
         let markdown = `![${alt}](<${relativePath}>)`
 
         // Preserve dimensions if available
-        const width = node.getAttribute('width')
-        const height = node.getAttribute('height')
         if (width || height) {
           markdown += ` <!-- Size: ${width || 'auto'}x${height || 'auto'} -->`
         }
@@ -161,6 +201,38 @@ export class MarkdownConverter extends BaseConverter {
       },
     })
 
+    // Rule: Include macros exported as links keep a marker comment naming the include
+    service.addRule('confluenceIncludeLinks', {
+      filter: (node) => {
+        return node.nodeName === 'P' && node.hasAttribute('data-include-marker')
+      },
+      replacement: (content, node) => {
+        const marker = node.getAttribute('data-include-marker')
+        return `\n\n<!-- ${marker} -->\n${content}\n\n`
+      },
+    })
+
+    // Rule: Page properties reports become a marker, filled with a table after the export
+    service.addRule('pagePropertiesReports', {
+      filter: (node) => {
+        return node.nodeName === 'DIV' && node.hasAttribute('data-page-properties-report')
+      },
+      replacement: (_content, node) => {
+        const settings = node.getAttribute('data-page-properties-report') || '{}'
+        return `\n\n${formatReportMarker(JSON.parse(settings) as PagePropertiesReportSpec)}\n\n`
+      },
+    })
+
+    // Rule: Source of a rendered Mermaid diagram, collapsed below the image
+    service.addRule('mermaidSources', {
+      filter: (node) => {
+        return node.nodeName === 'DETAILS' && node.hasAttribute('data-mermaid-source')
+      },
+      replacement: (content) => {
+        return `\n\n<details>\n<summary>Mermaid source</summary>\n\n${content.trim()}\n\n</details>\n\n`
+      },
+    })
+
     // Rule: Handle Confluence attachment links (PDFs, DOCX, ZIP, etc.)
     service.addRule('confluenceAttachments', {
       filter: (node: any) => {
@@ -189,6 +261,10 @@ export class MarkdownConverter extends BaseConverter {
           // If decoding fails, use original
         }
 
+        if (obsidian) {
+          return content === filename ? `[[${filename}]]` : `[[${filename}|${content}]]`
+        }
+
         // Build relative path to assets folder
         const relativePath = `./assets/${filename}`
 
@@ -197,6 +273,68 @@ export class MarkdownConverter extends BaseConverter {
       },
     })
 
+    // Rule: Status macro badges, kept unescaped
+    service.addRule('statusBadges', {
+      filter: (node) => {
+        return node.nodeName === 'SPAN' && node.hasAttribute('data-status')
+      },
+      replacement: (_content, node) => {
+        const emoji = node.getAttribute('data-status-emoji') || '⚪'
+        const subtle = node.getAttribute('data-status-subtle') === 'true' ? ' *(subtle)*' : ''
+        return `${emoji} **[${node.getAttribute('data-status')}]**${subtle}`
+      },
+    })
+
+    // Rule: Task list items as GFM tasks (- [x] / - [ ])
+    service.addRule('taskListItems', {
+      filter: (node) => {
+        return node.nodeName === 'LI' && node.hasAttribute('data-task-status')
+      },
+      replacement: (content, node) => {
+        const checked = node.getAttribute('data-task-status') === 'complete'
+        const body = content.trim().replace(/\n/g, '\n  ')
+        return `- [${checked ? 'x' : ' '}] ${body}${node.nextSibling ? '\n' : ''}`
+      },
+    })
+
+    // Rule: The task status is in the list item marker, drop the checkbox
+    service.addRule('taskListCheckboxes', {
+      filter: (node) => {
+        return node.nodeName === 'INPUT' && !!node.parentElement?.hasAttribute('data-task-status')
+      },
+      replacement: () => '',
+    })
+
+    // Rules: Page layouts, flattened in reading order with rules between columns,
+    // or kept as column divs for static sites with preserveHtml
+    if (this.options.preserveHtml) {
+      service.addRule('layoutSections', {
+        filter: (node) => {
+          return node.nodeName === 'DIV' && node.hasAttribute('data-layout-section')
+        },
+        replacement: (content, node) => {
+          const type = node.getAttribute('data-layout-section') || 'single'
+          return `\n\n<div class="columns" data-layout="${type}">\n\n${content.trim()}\n\n</div>\n\n`
+        },
+      })
+
+      service.addRule('layoutCells', {
+        filter: (node) => {
+          return node.nodeName === 'DIV' && node.hasAttribute('data-layout-cell')
+        },
+        replacement: (content) => {
+          return `\n\n<div class="column">\n\n${content.trim()}\n\n</div>\n\n`
+        },
+      })
+
+      service.addRule('layoutSeparators', {
+        filter: (node) => {
+          return node.nodeName === 'HR' && node.hasAttribute('data-layout-separator')
+        },
+        replacement: () => '',
+      })
+    }
+
     // Rule: Handle blockquotes (already processed by content handler)
     service.addRule('blockquotes', {
       filter: 'blockquote',
@@ -219,6 +357,39 @@ export class MarkdownConverter extends BaseConverter {
       },
     })
 
+    // Rules: Panels as Obsidian callouts, from panel macros (see ContentHandler) and
+    // from view format information macros, added after the blockquote rule to take precedence
+    if (obsidian) {
+      service.addRule('obsidianCallouts', {
+        filter: (node) => getPanelType(node) !== undefined,
+        replacement: (content, node) => {
+          const title =
+            node.getAttribute('data-panel-title') ??
+            Array.from(node.children)
+              .find((child) => child.classList.contains('title'))
+              ?.textContent?.trim()
+          const body = content
+            .trim()
+            .split('\n')
+            .map((line) => (line ? `> ${line}` : '>'))
+
+          return `\n\n> [!${getPanelType(node)}]${title ? ` ${title}` : ''}\n${body.join('\n')}\n\n`
+        },
+      })
+
+      // The callout line carries type and title
+      service.addRule('obsidianCalloutHeadings', {
+        filter: (node) => {
+          return (
+            node.hasAttribute('data-panel-heading') ||
+            (node.classList.contains('title') &&
+              !!node.parentElement?.classList.contains('confluence-information-macro'))
+          )
+        },
+        replacement: () => '',
+      })
+    }
+
     // Rule: Handle Confluence tables with proper GFM format
     service.addRule('confluenceTables', {
       filter: 'table',
@@ -227,7 +398,9 @@ export class MarkdownConverter extends BaseConverter {
           // Extract table rows - use Array.from() to ensure iterable
           const rows: string[][] = []
           const tableRowNodes = node.querySelectorAll ? node.querySelectorAll('tr') : null
-          const tableRows: any[] = tableRowNodes ? Array.from(tableRowNodes) : []
+          const tableRows: Element[] = tableRowNodes
+            ? Array.from(tableRowNodes as NodeListOf<Element>)
+            : []
 
           if (tableRows.length === 0) {
             // Fallback: return original content if no rows found
@@ -237,11 +410,11 @@ export class MarkdownConverter extends BaseConverter {
           for (const tr of tableRows) {
             const cells: string[] = []
             const tableCellNodes = tr.querySelectorAll ? tr.querySelectorAll('th, td') : null
-            const tableCells: any[] = tableCellNodes ? Array.from(tableCellNodes) : []
+            const tableCells = tableCellNodes ? Array.from(tableCellNodes) : []
 
             for (const cell of tableCells) {
               // Clean cell content and remove excessive whitespace
-              let cellContent = cell.textContent || ''
+              let cellContent = getCellText(cell)
               cellContent = cellContent.trim().replace(/\s+/g, ' ')
               cells.push(cellContent)
             }
@@ -299,7 +472,7 @@ export class MarkdownConverter extends BaseConverter {
   /**
    * Convert Confluence page to Markdown
    */
-  async convert(page: ConfluencePage, _options?: ConvertOptions): Promise<ConvertResult> {
+  async convert(page: ConfluencePage, options?: ConvertOptions): Promise<ConvertResult> {
     this.validatePage(page)
 
     this.logger.info(`Converting page ${page.id} to Markdown...`)
@@ -307,8 +480,11 @@ export class MarkdownConverter extends BaseConverter {
     // Process content (storage + view)
     const processed = await this.processContent(page)
 
+    // Render Mermaid diagrams to images, keeping the source next to them
+    const mermaid = await this.renderMermaidDiagrams(page, processed.html, options?.assetsDir)
+
     // Convert HTML to Markdown
-    let markdown = this.turndownService.turndown(processed.html)
+    let markdown = this.turndownService.turndown(mermaid.html)
 
     // Replace mermaid placeholders with actual code blocks (CRITICAL: Must be done AFTER Turndown)
     markdown = this.htmlProcessor.replaceMermaidPlaceholders(markdown)
@@ -318,12 +494,56 @@ export class MarkdownConverter extends BaseConverter {
 
     // Add frontmatter if enabled
     if (this.options.frontmatter) {
-      const frontmatter = this.generateFrontmatter(page, processed)
+      const frontmatter = this.generateFrontmatter(page, processed, options?.site)
       markdown = `${frontmatter}\n${markdown}`
     }
 
+    // Append comments or move them to a sidecar file
+    const comments = page.comments ?? []
+    const sidecars: ConvertSidecar[] = []
+    if (comments.length > 0) {
+      const commentsMarkdown = this.htmlProcessor.replaceMermaidPlaceholders(
+        await this.renderComments(comments, page)
+      )
+
+      if (this.options.comments === 'sidecar') {
+        sidecars.push({
+          suffix: `.comments${this.getFileExtension()}`,
+          content: `# Comments: ${page.title}\n\n${commentsMarkdown}`,
+        })
+      } else {
+        markdown = `${markdown}\n\n## Comments\n\n${commentsMarkdown}`
+      }
+    }
+
+    // Point asset links at the shared assets folder for nested pages
+    if (options?.assetsPath) {
+      const assetsPath = options.assetsPath
+      markdown = this.rewriteAssetsPath(markdown, assetsPath)
+      for (const sidecar of sidecars) {
+        sidecar.content = this.rewriteAssetsPath(sidecar.content, assetsPath)
+      }
+    }
+
     // Clean up markdown
     markdown = this.cleanupMarkdown(markdown)
+    for (const sidecar of sidecars) {
+      sidecar.content = this.cleanupMarkdown(sidecar.content)
+    }
+
+    // Escape and rewrite what MDX reads as JavaScript, then report what would still break
+    let mdxIssues: MdxIssue[] | undefined
+    if (this.mdxTransformer) {
+      markdown = this.mdxTransformer.transform(markdown)
+      for (const sidecar of sidecars) {
+        sidecar.content = this.mdxTransformer.transform(sidecar.content)
+      }
+
+      mdxIssues = this.mdxTransformer.validate(markdown)
+      for (const issue of mdxIssues) {
+        this.logger.warn(`MDX issue in page ${page.id}, line ${issue.line}: ${issue.message}`)
+      }
+    }
 
     this.logger.info(`Converted page ${page.id}: ${markdown.length} chars`)
 
@@ -331,6 +551,7 @@ export class MarkdownConverter extends BaseConverter {
 
     return {
       content: markdown,
+      sidecars: sidecars.length > 0 ? sidecars : undefined,
       metadata: {
         format: 'markdown',
         pageId: baseMetadata.pageId,
@@ -340,15 +561,93 @@ export class MarkdownConverter extends BaseConverter {
         macros: processed.macros,
         imageCount: processed.images.length,
         linkCount: processed.links.length,
+        unresolvedMentions: processed.unresolvedMentions,
+        mermaidRender: mermaid.stats,
+        commentCount: this.countComments(comments),
+        properties: processed.properties,
+        mdxIssues,
       },
     }
   }
 
+  /**
+   * Render comment threads, footer comments first
+   * Threads are separated by rules, replies are nested as blockquotes
+   */
+  private async renderComments(
+    comments: ConfluenceComment[],
+    page: ConfluencePage
+  ): Promise<string> {
+    const ordered = [
+      ...comments.filter((comment) => comment.location === 'footer'),
+      ...comments.filter((comment) => comment.location === 'inline'),
+    ]
+
+    const threads: string[] = []
+    for (const comment of ordered) {
+      threads.push(await this.renderComment(comment, page))
+    }
+
+    return threads.join('\n\n---\n\n')
+  }
+
+  /**
+   * Render one comment with its replies
+   * Comment bodies are storage format, converted like the page's storage content
+   */
+  private async renderComment(comment: ConfluenceComment, page: ConfluencePage): Promise<string> {
+    const header = [`**${comment.author || 'Unknown user'}**`]
+    if (comment.createdAt) {
+      header.push(comment.createdAt.toISOString().slice(0, 10))
+    }
+    if (comment.location === 'inline') {
+      header.push(
+        comment.inlineText ? `on "${comment.inlineText.replace(/\s+/g, ' ').trim()}"` : 'inline'
+      )
+    }
+    if (comment.resolved) {
+      header.push('resolved')
+    }
+
+    const body = await this.htmlProcessor.processStorage(comment.body, page.spaceKey, page.id)
+    const parts = [header.join(' · '), this.turndownService.turndown(body).trim()]
+
+    for (const reply of comment.replies) {
+      const replyMarkdown = await this.renderComment(reply, page)
+      parts.push(
+        replyMarkdown
+          .split('\n')
+          .map((line) => (line ? `> ${line}` : '>'))
+          .join('\n')
+      )
+    }
+
+    return parts.filter(Boolean).join('\n\n')
+  }
+
+  /**
+   * Count comments including replies
+   */
+  private countComments(comments: ConfluenceComment[]): number {
+    return comments.reduce((count, comment) => count + 1 + this.countComments(comment.replies), 0)
+  }
+
+  /**
+   * Rewrite ./assets/ links (images, attachments, diagram sources) to a different relative path
+   */
+  private rewriteAssetsPath(markdown: string, assetsPath: string): string {
+    return markdown.replace(/\]\((<?)\.\/assets\//g, `]($1${assetsPath}/`)
+  }
+
   /**
    * Generate YAML frontmatter with FULL metadata
    * CRITICAL: This metadata is essential for bidirectional sync
    */
-  private generateFrontmatter(page: ConfluencePage, processed: any): string {
+  private generateFrontmatter(
+    page: ConfluencePage,
+    processed: ProcessedContent,
+    site?: SitePageSettings
+  ): string {
     const metadata = this.generateMetadata(page)
 
     const frontmatter = [
@@ -363,10 +662,29 @@ export class MarkdownConverter extends BaseConverter {
       `confluenceUpdatedAt: "${metadata.updatedAt || ''}"`,
     ]
 
+    if (page.type === 'blogpost') {
+      frontmatter.push('type: blogpost')
+      frontmatter.push(`date: "${page.metadata?.publishedAt?.toISOString() ?? ''}"`)
+    }
+
+    if (metadata.createdById) {
+      frontmatter.push(`confluenceCreatedById: "${metadata.createdById}"`)
+    }
+
     if (metadata.parentId) {
       frontmatter.push(`confluenceParentId: "${metadata.parentId}"`)
     }
 
+    // Static site generators order pages by sidebar_position (Docusaurus) or weight (Hugo)
+    if (site?.generator === 'docusaurus') {
+      frontmatter.push(`sidebar_position: ${site.position}`)
+    } else if (site?.generator === 'hugo') {
+      frontmatter.push(`weight: ${site.position}`)
+    }
+    if (site?.slug) {
+      frontmatter.push(`slug: "${this.escapeYaml(site.slug)}"`)
+    }
+
     if (metadata.labels && metadata.labels.length > 0) {
       frontmatter.push(`confluenceLabels:`)
       for (const label of metadata.labels) {
@@ -374,6 +692,28 @@ export class MarkdownConverter extends BaseConverter {
       }
     }
 
+    // Obsidian tags: letters, numbers, _, - and /, with at least one non-digit
+    const labels =
+      this.options.flavor === 'obsidian' ? (metadata.labels as string[] | undefined) : []
+    const tags = (labels ?? [])
+      .map((label) => label.replace(/[^\p{L}\p{N}_/-]+/gu, '-'))
+      .filter((tag) => /[^\d]/.test(tag))
+    if (tags.length > 0) {
+      frontmatter.push(`tags:`)
+      for (const tag of tags) {
+        frontmatter.push(`  - "${tag}"`)
+      }
+    }
+
+    // Page properties from details macros
+    const properties = Object.entries(processed.properties)
+    if (properties.length > 0) {
+      frontmatter.push(`confluenceProperties:`)
+      for (const [key, value] of properties) {
+        frontmatter.push(`  "${this.escapeYaml(key)}": "${this.escapeYaml(value)}"`)
+      }
+    }
+
     // Add macro statistics
     if (processed.macros) {
       frontmatter.push(`macros:`)
@@ -522,7 +862,7 @@ export class MarkdownConverter extends BaseConverter {
    * Get file extension
    */
   getFileExtension(): string {
-    return '.md'
+    return this.options.flavor === 'mdx' ? '.mdx' : '.md'
   }
 
   /**
@@ -533,6 +873,47 @@ export class MarkdownConverter extends BaseConverter {
   }
 }
 
+/**
+ * Text of a table cell, keeping links (e.g. Jira issue keys) as markdown links
+ * Attachment links stay plain text like before
+ */
+function getCellText(cell: Element): string {
+  const clone = cell.cloneNode(true) as Element
+  const anchors = Array.from(clone.querySelectorAll('a[href]'))
+
+  for (const anchor of anchors) {
+    const href = anchor.getAttribute('href') || ''
+    const text = (anchor.textContent || '').trim()
+    if (!text || href.includes('/download/') || href.includes('/attachments/')) {
+      continue
+    }
+    anchor.replaceWith(clone.ownerDocument.createTextNode(`[${text}](${href})`))
+  }
+
+  // Pipes would split the cell
+  return (clone.textContent || '').replace(/\|/g, '\\|')
+}
+
 export function createMarkdownConverter(options?: MarkdownOptions): MarkdownConverter {
   return new MarkdownConverter(options)
 }
+
+/**
+ * Obsidian callout type of a panel: panel macros and view format information macros
+ * (confluence-information-macro-information is an info panel)
+ */
+function getPanelType(node: HTMLElement): string | undefined {
+  if (node.nodeName === 'BLOCKQUOTE' && node.hasAttribute('data-panel')) {
+    const type = node.getAttribute('data-panel')
+    return type === 'panel' ? 'note' : (type ?? undefined)
+  }
+
+  if (node.nodeName === 'DIV' && node.classList.contains('confluence-information-macro')) {
+    const type = Array.from(node.classList)
+      .map((name) => name.match(/^confluence-information-macro-(\w+)$/)?.[1])
+      .find((name) => name && name !== 'icon' && name !== 'body')
+    return type === 'information' ? 'info' : (type ?? 'note')
+  }
+
+  return undefined
+}
@@ -0,0 +1,528 @@
+/**
+ * JavaScript string in an attribute expression
+ */
+const STRING_LITERAL = String.raw`"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'`
+
+/**
+ * JSX attribute expression, e.g. `{"say \"hi\""}` or `{{ color: "red" }}` (one nested level)
+ */
+const EXPRESSION_PATTERN = String.raw`\{(?:[^{}"']|${STRING_LITERAL}|\{(?:[^{}"']|${STRING_LITERAL})*\})*\}`
+
+/**
+ * Prose tokens the MDX transform understands, code spans and escapes are kept as they are
+ * Tags are only converted when they name an HTML element, `<` of anything else is escaped
+ */
+const TOKEN_PATTERNS = {
+  code: String.raw`(?<ticks>\x60+)(?:(?!\n[ \t]*\n)[\s\S])*?\k<ticks>(?!\x60)`,
+  comment: String.raw`<!--(?<commentBody>[\s\S]*?)-->`,
+  expressionComment: String.raw`\{\/\*[\s\S]*?\*\/\}`,
+  destination: String.raw`\]\(<[^<>\n]*>`,
+  autolink: String.raw`<(?<url>[A-Za-z][\w+.-]{1,31}:[^\s<>]*|[\w.+-]+@[\w-]+(?:\.[\w-]+)+)>`,
+  tag:
+    String.raw`<(?<closing>\/)?(?<name>[A-Za-z][\w-]*)` +
+    String.raw`(?<attributes>(?:\s+[^\s"'<>\/=]+` +
+    String.raw`(?:\s*=\s*(?:"[^"]*"|'[^']*'|${EXPRESSION_PATTERN}|[^\s"'=<>\x60]+))?)*)` +
+    String.raw`\s*(?<selfClosing>\/)?>`,
+  escape: String.raw`\\[\s\S]`,
+  special: String.raw`[{}<]`,
+}
+
+type TokenName = keyof typeof TOKEN_PATTERNS
+
+function tokenPattern(names: TokenName[]): RegExp {
+  return new RegExp(names.map((name) => `(?<${name}>${TOKEN_PATTERNS[name]})`).join('|'), 'g')
+}
+
+/**
+ * The transform reads markdown, `{/* *\/}` in the page text is literal there
+ */
+const TRANSFORM_PATTERN = tokenPattern([
+  'code',
+  'comment',
+  'destination',
+  'autolink',
+  'tag',
+  'escape',
+  'special',
+])
+
+const VALIDATE_PATTERN = tokenPattern([
+  'code',
+  'comment',
+  'expressionComment',
+  'destination',
+  'autolink',
+  'tag',
+  'escape',
+  'special',
+])
+
+const ATTRIBUTE_PATTERN = new RegExp(
+  String.raw`([^\s"'<>/=]+)(?:\s*=\s*("[^"]*"|'[^']*'|${EXPRESSION_PATTERN}|[^\s"'=<>\x60]+))?`,
+  'g'
+)
+
+/**
+ * MDX reads lines starting with `import` or `export` as JavaScript
+ */
+const ESM_PATTERN = /^(?:import|export)(?=[ \t])/gm
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+const HTML_ELEMENTS = new Set([
+  ...VOID_ELEMENTS,
+  'a',
+  'abbr',
+  'b',
+  'blockquote',
+  'caption',
+  'center',
+  'cite',
+  'code',
+  'colgroup',
+  'dd',
+  'del',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'figcaption',
+  'figure',
+  'font',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'i',
+  'iframe',
+  'ins',
+  'kbd',
+  'li',
+  'mark',
+  'ol',
+  'p',
+  'picture',
+  'pre',
+  's',
+  'samp',
+  'small',
+  'span',
+  'strike',
+  'strong',
+  'sub',
+  'summary',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'time',
+  'tr',
+  'u',
+  'ul',
+  'var',
+  'video',
+])
+
+/**
+ * HTML attributes with a different name in JSX (data-* and aria-* are the same)
+ */
+const JSX_ATTRIBUTES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  cellpadding: 'cellPadding',
+  cellspacing: 'cellSpacing',
+  frameborder: 'frameBorder',
+  allowfullscreen: 'allowFullScreen',
+  srcset: 'srcSet',
+  crossorigin: 'crossOrigin',
+  datetime: 'dateTime',
+  contenteditable: 'contentEditable',
+}
+
+/**
+ * Construct that would fail to compile as MDX
+ */
+export interface MdxIssue {
+  /**
+   * Line in the document, from 1
+   */
+  line: number
+  message: string
+}
+
+interface Segment {
+  lines: string[]
+  /**
+   * Markdown text, false for frontmatter and fenced code
+   */
+  prose: boolean
+  /**
+   * Line of the first segment line, from 1
+   */
+  line: number
+}
+
+interface Attribute {
+  name: string
+  value?: string
+  quoted: boolean
+  /**
+   * `{…}` value, already JSX
+   */
+  expression: boolean
+}
+
+/**
+ * MDX Transformer
+ * Rewrites markdown into MDX (Docusaurus 2+, MDX 2+), where `{`, `<` and HTML are JavaScript syntax
+ *
+ * Outside frontmatter and code:
+ * - `{`, `}` and `<` that do not start an HTML element are escaped
+ * - HTML comments become `{/* *\/}` expression comments
+ * - HTML elements become JSX: className, self-closed void elements, style objects
+ * - Autolinks become regular links, MDX has no `<url>` syntax
+ */
+export class MdxTransformer {
+  /**
+   * Transform markdown to MDX
+   */
+  transform(markdown: string): string {
+    const segments = this.splitSegments(markdown).map((segment) => ({
+      text: segment.lines.join('\n'),
+      prose: segment.prose,
+    }))
+    const unbalanced = this.findUnbalancedTags(segments)
+
+    return segments
+      .map(({ text, prose }, index) =>
+        prose ? this.transformProse(text, unbalanced.get(index)) : text
+      )
+      .join('\n')
+  }
+
+  /**
+   * Report what would still fail to compile: leftover HTML syntax, unescaped
+   * expression characters, invalid JSX attributes and unbalanced elements
+   */
+  validate(mdx: string): MdxIssue[] {
+    const issues: MdxIssue[] = []
+    const openElements: Array<{ name: string; line: number }> = []
+
+    for (const segment of this.splitSegments(mdx)) {
+      if (!segment.prose) {
+        continue
+      }
+
+      const text = segment.lines.join('\n')
+      const lineAt = (index: number): number =>
+        segment.line + (text.slice(0, index).match(/\n/g)?.length ?? 0)
+
+      for (const match of text.matchAll(ESM_PATTERN)) {
+        issues.push({
+          line: lineAt(match.index),
+          message: `Line starting with "${match[0]}" is parsed as JavaScript`,
+        })
+      }
+
+      for (const match of text.matchAll(VALIDATE_PATTERN)) {
+        const groups = match.groups ?? {}
+        const line = lineAt(match.index)
+
+        if (groups.comment) {
+          issues.push({ line, message: 'HTML comment, use {/* */}' })
+        } else if (groups.autolink) {
+          issues.push({ line, message: `Autolink <${groups.url}>, use a [text](url) link` })
+        } else if (groups.special) {
+          issues.push({ line, message: `Unescaped "${groups.special}"` })
+        } else if (groups.tag) {
+          issues.push(...this.validateTag(groups, line, openElements))
+        }
+      }
+    }
+
+    for (const element of openElements) {
+      issues.push({ line: element.line, message: `Unclosed <${element.name}>` })
+    }
+
+    return issues.sort((a, b) => a.line - b.line)
+  }
+
+  /**
+   * Offsets, per prose segment, of HTML tags without a matching opening or closing tag
+   * Elements may span fenced code blocks, so tags are paired over the whole document
+   */
+  private findUnbalancedTags(
+    segments: Array<{ text: string; prose: boolean }>
+  ): Map<number, Set<number>> {
+    const unbalanced = new Map<number, Set<number>>()
+    const openElements: Array<{ name: string; segment: number; offset: number }> = []
+    const mark = (segment: number, offset: number): void => {
+      unbalanced.set(segment, (unbalanced.get(segment) ?? new Set()).add(offset))
+    }
+
+    segments.forEach(({ text, prose }, segment) => {
+      if (!prose) {
+        return
+      }
+
+      for (const match of text.matchAll(TRANSFORM_PATTERN)) {
+        const groups = match.groups ?? {}
+        const name = groups.name ?? ''
+
+        if (!groups.tag || !this.isHtmlTag(groups)) {
+          continue
+        }
+        if (!groups.closing) {
+          if (!groups.selfClosing && !VOID_ELEMENTS.has(name)) {
+            openElements.push({ name, segment, offset: match.index })
+          }
+          continue
+        }
+
+        const open = openElements.map((element) => element.name).lastIndexOf(name)
+        if (open < 0) {
+          mark(segment, match.index)
+          continue
+        }
+        // Elements opened inside the matched one and never closed
+        for (const element of openElements.splice(open).slice(1)) {
+          mark(element.segment, element.offset)
+        }
+      }
+    })
+
+    for (const element of openElements) {
+      mark(element.segment, element.offset)
+    }
+
+    return unbalanced
+  }
+
+  /**
+   * Unbalanced tags (offsets in the text) are escaped, MDX fails on them
+   */
+  private transformProse(text: string, unbalanced = new Set<number>()): string {
+    return text
+      .replace(TRANSFORM_PATTERN, (match, ...args: unknown[]) => {
+        const groups = args[args.length - 1] as Record<string, string | undefined>
+        const offset = args[args.length - 3] as number
+
+        if (groups.tag && unbalanced.has(offset)) {
+          return `\\<${this.transformProse(match.slice(1))}`
+        }
+
+        if (groups.comment) {
+          return `{/*${(groups.commentBody ?? '').replace(/\*\//g, '*\\/')}*/}`
+        }
+        if (groups.autolink) {
+          const url = groups.url ?? ''
+          const href = url.includes(':') ? url : `mailto:${url}`
+          return `[${url.replace(/[[\]]/g, '\\$&')}](${href})`
+        }
+        if (groups.tag) {
+          return this.isHtmlTag(groups)
+            ? this.toJsx(groups)
+            : `\\<${this.transformProse(match.slice(1))}`
+        }
+        if (groups.special) {
+          return `\\${match}`
+        }
+
+        return match
+      })
+      .replace(ESM_PATTERN, (word) => `&#${word.charCodeAt(0)};${word.slice(1)}`)
+  }
+
+  private isHtmlTag(groups: Record<string, string | undefined>): boolean {
+    const name = groups.name ?? ''
+    return name === name.toLowerCase() && HTML_ELEMENTS.has(name)
+  }
+
+  private toJsx(groups: Record<string, string | undefined>): string {
+    const name = groups.name ?? ''
+
+    if (groups.closing) {
+      return `</${name}>`
+    }
+
+    const attributes = this.parseAttributes(groups.attributes ?? '')
+      // Event handlers are strings in HTML and functions in JSX
+      .filter((attribute) => !attribute.name.toLowerCase().startsWith('on'))
+      .map((attribute) => {
+        const lower = attribute.name.toLowerCase()
+        const jsxName = JSX_ATTRIBUTES[lower] ?? attribute.name
+
+        if (attribute.value === undefined) {
+          return ` ${jsxName}`
+        }
+        if (attribute.expression) {
+          return ` ${jsxName}=${attribute.value}`
+        }
+        if (lower === 'style') {
+          return ` style={${this.toStyleObject(attribute.value)}}`
+        }
+        return ` ${jsxName}=${this.quoteAttribute(attribute.value)}`
+      })
+      .join('')
+
+    const selfClosing = !!groups.selfClosing || VOID_ELEMENTS.has(name)
+    return `<${name}${attributes}${selfClosing ? ' />' : '>'}`
+  }
+
+  private validateTag(
+    groups: Record<string, string | undefined>,
+    line: number,
+    openElements: Array<{ name: string; line: number }>
+  ): MdxIssue[] {
+    const issues: MdxIssue[] = []
+    const name = groups.name ?? ''
+
+    if (groups.closing) {
+      const open = openElements.pop()
+      if (!open) {
+        issues.push({ line, message: `Closing </${name}> without an opening element` })
+      } else if (open.name !== name) {
+        issues.push({ line, message: `Closing </${name}> does not match <${open.name}>` })
+      }
+      return issues
+    }
+
+    for (const attribute of this.parseAttributes(groups.attributes ?? '')) {
+      const lower = attribute.name.toLowerCase()
+
+      if (JSX_ATTRIBUTES[lower] && attribute.name !== JSX_ATTRIBUTES[lower]) {
+        issues.push({
+          line,
+          message: `Attribute "${attribute.name}" of <${name}>, use "${JSX_ATTRIBUTES[lower]}"`,
+        })
+      } else if (lower === 'style' && attribute.quoted) {
+        issues.push({ line, message: `String style on <${name}>, use a style object` })
+      } else if (attribute.value !== undefined && !attribute.quoted && !attribute.expression) {
+        issues.push({ line, message: `Unquoted value of "${attribute.name}" on <${name}>` })
+      }
+    }
+
+    if (!groups.selfClosing) {
+      openElements.push({ name, line })
+    }
+
+    return issues
+  }
+
+  /**
+   * Split off frontmatter and fenced code blocks, which MDX reads as they are
+   */
+  private splitSegments(markdown: string): Segment[] {
+    const lines = markdown.split('\n')
+    const segments: Segment[] = []
+    let index = 0
+
+    const push = (end: number, prose: boolean): void => {
+      if (end > index) {
+        segments.push({ lines: lines.slice(index, end), prose, line: index + 1 })
+        index = end
+      }
+    }
+
+    if (lines[0] === '---') {
+      const end = lines.indexOf('---', 1)
+      if (end > 0) {
+        push(end + 1, false)
+      }
+    }
+
+    while (index < lines.length) {
+      let start = index
+      let fence: RegExpMatchArray | null = null
+
+      while (start < lines.length && !(fence = lines[start].match(/^\s*(`{3,}|~{3,})/))) {
+        start++
+      }
+      push(start, true)
+
+      if (!fence) {
+        break
+      }
+
+      // An unclosed fence runs to the end of the document
+      const closing = new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`)
+      let end = start + 1
+      while (end < lines.length && !closing.test(lines[end])) {
+        end++
+      }
+      push(Math.min(end + 1, lines.length), false)
+    }
+
+    return segments
+  }
+
+  private parseAttributes(source: string): Attribute[] {
+    return [...source.matchAll(ATTRIBUTE_PATTERN)].map(([, name, value]) => ({
+      name,
+      value: value?.replace(/^(["'])([\s\S]*)\1$/, '$2'),
+      quoted: /^["']/.test(value ?? ''),
+      expression: (value ?? '').startsWith('{'),
+    }))
+  }
+
+  /**
+   * JSX attribute strings have no escapes, values with both quote types become expressions
+   */
+  private quoteAttribute(value: string): string {
+    if (!value.includes('"')) {
+      return `"${value}"`
+    }
+    return value.includes("'") ? `{${JSON.stringify(value)}}` : `'${value}'`
+  }
+
+  /**
+   * `color: red; font-size: 12px` as `{ color: "red", fontSize: "12px" }`
+   */
+  private toStyleObject(style: string): string {
+    const properties = style
+      .split(';')
+      .map((declaration) => declaration.split(':'))
+      .filter(([property, ...value]) => property.trim() && value.join(':').trim())
+      .map(([property, ...value]) => {
+        const name = property.trim()
+        // Custom properties (--name) keep their name
+        const key = name.startsWith('--')
+          ? JSON.stringify(name)
+          : name
+              .toLowerCase()
+              .replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase())
+        return `${key}: ${JSON.stringify(value.join(':').trim())}`
+      })
+
+    return properties.length > 0 ? `{ ${properties.join(', ')} }` : '{}'
+  }
+}
+
+export function createMdxTransformer(): MdxTransformer {
+  return new MdxTransformer()
+}
@@ -0,0 +1,177 @@
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { createRequire } from 'module'
+import type { Browser } from 'puppeteer'
+import { getLogger } from '../cli/ui/logger.js'
+import { MermaidRenderError } from '../errors/index.js'
+import type { MermaidOptions } from '../config/config-schema.js'
+
+export type MermaidImageFormat = MermaidOptions['format']
+
+/**
+ * Turns Mermaid source into an image
+ */
+export interface MermaidDiagramRenderer {
+  readonly format: MermaidImageFormat
+  render(source: string): Promise<Buffer>
+}
+
+/**
+ * Globals of the rendering page once the Mermaid bundle is loaded
+ */
+interface MermaidWindow {
+  mermaid: {
+    initialize(config: Record<string, unknown>): void
+    render(id: string, source: string): Promise<{ svg: string }>
+  }
+  document: {
+    body: { innerHTML: string }
+  }
+}
+
+/**
+ * Mermaid Renderer
+ * Renders diagrams offline with headless Chromium and the Mermaid browser bundle
+ *
+ * The browser is started on the first diagram and reused until close() is called.
+ * Syntax errors are thrown as MermaidRenderError so callers can report them per diagram.
+ */
+export class MermaidRenderer implements MermaidDiagramRenderer {
+  readonly format: MermaidImageFormat
+  private logger = getLogger()
+  private scriptPath?: string
+  private script?: Promise<string>
+  private browser?: Promise<Browser>
+
+  constructor(options: Partial<MermaidOptions> = {}) {
+    this.format = options.format ?? 'svg'
+    this.scriptPath = options.scriptPath
+  }
+
+  /**
+   * Render one diagram to SVG markup or a PNG screenshot
+   */
+  async render(source: string): Promise<Buffer> {
+    const script = await this.loadScript()
+    const browser = await this.getBrowser()
+    const browserPage = await browser.newPage()
+
+    try {
+      // Offline rendering: only inline resources are allowed
+      await browserPage.setRequestInterception(true)
+      browserPage.on('request', (request) => {
+        const url = request.url()
+        if (url.startsWith('data:') || url.startsWith('about:')) {
+          void request.continue()
+        } else {
+          void request.abort()
+        }
+      })
+
+      await browserPage.setContent('<!DOCTYPE html><html><body></body></html>')
+      await browserPage.addScriptTag({ content: script })
+
+      const result = await browserPage.evaluate(async (code: string) => {
+        const { mermaid, document } = globalThis as unknown as MermaidWindow
+        try {
+          mermaid.initialize({ startOnLoad: false, securityLevel: 'strict' })
+          const { svg } = await mermaid.render('mermaid-diagram', code)
+          document.body.innerHTML = svg
+          return { svg }
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) }
+        }
+      }, source)
+
+      if ('error' in result) {
+        throw new MermaidRenderError(result.error)
+      }
+
+      if (this.format === 'svg') {
+        return Buffer.from(result.svg, 'utf-8')
+      }
+
+      const element = await browserPage.$('body > svg')
+      if (!element) {
+        throw new MermaidRenderError('Rendered diagram not found in page')
+      }
+
+      return Buffer.from(await element.screenshot({ omitBackground: false }))
+    } finally {
+      await browserPage.close()
+    }
+  }
+
+  /**
+   * Close the browser, if one was started
+   */
+  async close(): Promise<void> {
+    if (!this.browser) {
+      return
+    }
+
+    const browser = await this.browser
+    this.browser = undefined
+    await browser.close()
+  }
+
+  /**
+   * Puppeteer is loaded lazily so exports without diagrams never pay its startup cost
+   */
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = import('puppeteer').then(({ default: puppeteer }) => {
+        this.logger.debug('Starting headless browser for Mermaid rendering')
+        return puppeteer.launch({ headless: true })
+      })
+    }
+
+    return this.browser
+  }
+
+  /**
+   * Check that the Mermaid browser bundle exists, so a missing bundle fails the export
+   * before the first page instead of every diagram
+   */
+  assertBundleAvailable(): void {
+    const scriptPath = this.resolveScriptPath()
+
+    if (!existsSync(scriptPath)) {
+      throw new MermaidRenderError(
+        `Mermaid bundle not found at ${scriptPath}: check conversion.mermaid.scriptPath`
+      )
+    }
+  }
+
+  /**
+   * Read the Mermaid browser bundle once
+   */
+  private loadScript(): Promise<string> {
+    if (!this.script) {
+      this.script = readFile(this.resolveScriptPath(), 'utf-8')
+    }
+
+    return this.script
+  }
+
+  /**
+   * Bundle from scriptPath or the optional mermaid package
+   */
+  private resolveScriptPath(): string {
+    if (!this.scriptPath) {
+      try {
+        this.scriptPath = createRequire(import.meta.url).resolve('mermaid/dist/mermaid.min.js')
+      } catch {
+        throw new MermaidRenderError(
+          'Mermaid bundle not found: install the mermaid package or set conversion.mermaid.scriptPath'
+        )
+      }
+    }
+
+    return this.scriptPath
+  }
+}
+
+export function createMermaidRenderer(options?: Partial<MermaidOptions>): MermaidRenderer {
+  return new MermaidRenderer(options)
+}
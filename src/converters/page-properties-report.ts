@@ -0,0 +1,218 @@
+import { join, posix } from 'path'
+import { getLogger } from '../cli/ui/logger.js'
+import type { FileWriter } from '../storage/file-writer.js'
+import type { ManifestPage } from '../storage/manifest.js'
+
+/**
+ * Report region in exported markdown: the marker holds the report settings, the table follows
+ * MDX files carry the marker as expression comments
+ * Groups: comment opening, settings JSON, current table
+ */
+const REPORT_PATTERN =
+  /(<!--|\{\/\*) page-properties-report: (\{.*?\}) (?:-->|\*\/\})\n([\s\S]*?)(?:<!--|\{\/\*) \/page-properties-report (?:-->|\*\/\})/g
+
+/**
+ * Settings of a `detailssummary` (page properties report) macro
+ */
+export interface PagePropertiesReportSpec {
+  /**
+   * Label groups: a page matches when it has at least one label of every group
+   */
+  labels: string[][]
+  /**
+   * Spaces to report on (defaults to the space of the report page)
+   */
+  spaces?: string[]
+  /**
+   * Property columns (defaults to all properties of the matching pages)
+   */
+  headings?: string[]
+  /**
+   * Heading of the page title column
+   */
+  firstColumn?: string
+  /**
+   * Property to sort by (defaults to the page title)
+   */
+  sortBy?: string
+  reverseSort?: boolean
+}
+
+export interface PagePropertiesReportBuilderOptions {
+  /**
+   * Pages of the export (from the manifest), with labels and properties in their metadata
+   */
+  pages: ManifestPage[]
+}
+
+interface ReportedPage {
+  title: string
+  spaceKey: string
+  path: string
+  labels: string[]
+  properties: Record<string, string>
+}
+
+/**
+ * Marker written in place of a page properties report until the export is complete
+ * Dashes are escaped so the settings cannot close the HTML comment
+ */
+export function formatReportMarker(spec: PagePropertiesReportSpec): string {
+  const settings = JSON.stringify(spec).replace(/-/g, '\\u002d')
+  return `<!-- page-properties-report: ${settings} -->\n<!-- /page-properties-report -->`
+}
+
+/**
+ * Page Properties Report Builder
+ * Post-export pass filling `detailssummary` reports with a table of the exported pages
+ * that carry the report labels, one column per page property
+ *
+ * Reports keep their marker, so later runs (sync) rebuild the table in place.
+ */
+export class PagePropertiesReportBuilder {
+  private logger = getLogger()
+  private exportedPages: ManifestPage[]
+  private pages: ReportedPage[] = []
+
+  constructor(options: PagePropertiesReportBuilderOptions) {
+    this.exportedPages = options.pages
+
+    for (const page of options.pages) {
+      const labels = page.metadata?.labels
+      const properties = page.metadata?.properties as Record<string, string> | undefined
+
+      if (!properties || Object.keys(properties).length === 0) {
+        continue
+      }
+
+      this.pages.push({
+        title: page.title,
+        spaceKey: page.spaceKey,
+        path: page.path.split('\\').join('/'),
+        labels: Array.isArray(labels) ? labels.map((label) => String(label).toLowerCase()) : [],
+        properties,
+      })
+    }
+  }
+
+  /**
+   * Build the reports in one exported markdown document
+   * @param markdown - Markdown content
+   * @param page - Manifest entry of the page the markdown belongs to
+   */
+  build(markdown: string, page: ManifestPage): { markdown: string; reports: number } {
+    let reports = 0
+
+    const built = markdown.replace(REPORT_PATTERN, (match, opening: string, settings: string) => {
+      let spec: PagePropertiesReportSpec
+      try {
+        spec = JSON.parse(settings) as PagePropertiesReportSpec
+      } catch {
+        this.logger.warn(`Invalid page properties report in page ${page.id}`)
+        return match
+      }
+
+      reports++
+      const mdx = opening !== '<!--'
+      const table = this.renderTable(spec, page, mdx)
+      return mdx
+        ? `{/* page-properties-report: ${settings} */}\n${table}\n{/* /page-properties-report */}`
+        : `<!-- page-properties-report: ${settings} -->\n${table}\n<!-- /page-properties-report -->`
+    })
+
+    return { markdown: built, reports }
+  }
+
+  /**
+   * Build the reports in all exported markdown files listed in the manifest
+   * Returns the number of reports built
+   */
+  async buildFiles(rootDir: string, fileWriter: FileWriter): Promise<number> {
+    let total = 0
+
+    for (const page of this.exportedPages) {
+      if (!page.path.endsWith('.md') && !page.path.endsWith('.mdx')) {
+        continue
+      }
+
+      const filePath = join(rootDir, page.path)
+      const content = await fileWriter.readText(filePath)
+      if (!/(?:<!--|\{\/\*) page-properties-report: /.test(content)) {
+        continue
+      }
+
+      const { markdown, reports } = this.build(content, page)
+      if (markdown !== content) {
+        await fileWriter.writeText(filePath, markdown)
+      }
+      total += reports
+    }
+
+    if (total > 0) {
+      this.logger.info(`Built ${total} page properties reports`)
+    }
+
+    return total
+  }
+
+  private renderTable(
+    spec: PagePropertiesReportSpec,
+    reportPage: ManifestPage,
+    mdx: boolean
+  ): string {
+    const escapeCell = (text: string): string => this.escapeCell(text, mdx)
+
+    const spaces = spec.spaces?.length ? spec.spaces : [reportPage.spaceKey]
+    const matches = this.pages.filter(
+      (page) =>
+        spaces.includes(page.spaceKey) &&
+        spec.labels.every((group) =>
+          group.some((label) => page.labels.includes(label.toLowerCase()))
+        )
+    )
+
+    if (matches.length === 0) {
+      return '*No pages found for this report.*'
+    }
+
+    const headings = spec.headings?.length
+      ? spec.headings
+      : [...new Set(matches.flatMap((page) => Object.keys(page.properties)))]
+
+    const sortValue = (page: ReportedPage): string =>
+      spec.sortBy && spec.sortBy.toLowerCase() !== 'title'
+        ? (page.properties[spec.sortBy] ?? '')
+        : page.title
+    matches.sort((a, b) => sortValue(a).localeCompare(sortValue(b)))
+    if (spec.reverseSort) {
+      matches.reverse()
+    }
+
+    const fromDir = posix.dirname(reportPage.path.split('\\').join('/'))
+    const header = [spec.firstColumn || 'Title', ...headings]
+    const rows = matches.map((page) => [
+      `[${escapeCell(page.title)}](${posix.relative(fromDir, page.path)})`,
+      ...headings.map((heading) => escapeCell(page.properties[heading] ?? '')),
+    ])
+
+    return [
+      `| ${header.map((cell) => escapeCell(cell)).join(' | ')} |`,
+      `| ${header.map(() => '---').join(' | ')} |`,
+      ...rows.map((row) => `| ${row.join(' | ')} |`),
+    ].join('\n')
+  }
+
+  /**
+   * MDX cells also escape the characters MDX reads as JavaScript
+   */
+  private escapeCell(text: string, mdx: boolean): string {
+    const escaped = text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim()
+    return mdx ? escaped.replace(/[{}<]/g, '\\$&') : escaped
+  }
+}
+
+export function createPagePropertiesReportBuilder(
+  options: PagePropertiesReportBuilderOptions
+): PagePropertiesReportBuilder {
+  return new PagePropertiesReportBuilder(options)
+}
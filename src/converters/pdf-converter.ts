@@ -0,0 +1,230 @@
+import { JSDOM } from 'jsdom'
+import type { Browser } from 'puppeteer'
+import { BaseConverter, ConvertOptions, ConvertResult } from './base-converter.js'
+import { ConfluencePage } from '../types.js'
+import { PdfConversionError } from '../errors/index.js'
+import type { PdfOptions } from '../config/config-schema.js'
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 11pt; line-height: 1.5; color: #172b4d; }
+  h1, h2, h3, h4, h5, h6 { page-break-after: avoid; }
+  img { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th, td { border: 1px solid #c1c7d0; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f4f5f7; }
+  pre, code { font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', monospace; font-size: 9pt; }
+  pre { background: #f4f5f7; padding: 8px; white-space: pre-wrap; word-wrap: break-word; }
+  .confluence-information-macro, .panel { border: 1px solid #c1c7d0; border-left-width: 4px; padding: 8px 12px; margin: 1em 0; }
+  .confluence-information-macro-warning { border-left-color: #de350b; }
+  .confluence-information-macro-note { border-left-color: #ff991f; }
+  .confluence-information-macro-tip { border-left-color: #36b37e; }
+  .confluence-information-macro-information { border-left-color: #0065ff; }
+  .columnLayout { display: flex; gap: 16px; }
+  .columnLayout > .cell { flex: 1; min-width: 0; }
+  .columnLayout > .cell.aside, .columnLayout > .cell.sidebars { flex: 0 0 30%; }
+`
+
+/**
+ * PDF Converter
+ * Renders the Confluence export view to PDF with a bundled headless Chromium
+ *
+ * CRITICAL Features:
+ * - Runs fully offline: all network requests from the page are blocked
+ * - Embeds downloaded images from the assets folder as data URIs
+ * - Honors page size, margins and header/footer from PdfOptions
+ *
+ * The browser is started on the first page and reused until close() is called.
+ */
+export class PdfConverter extends BaseConverter {
+  private options: PdfOptions
+  private browser?: Promise<Browser>
+
+  constructor(options?: PdfOptions) {
+    super()
+
+    this.options = {
+      format: 'A4',
+      includeHeaderFooter: true,
+      ...options,
+      margin: {
+        top: '20mm',
+        bottom: '20mm',
+        left: '15mm',
+        right: '15mm',
+        ...options?.margin,
+      },
+    }
+  }
+
+  /**
+   * Convert Confluence page to PDF
+   * Pass `assetsDir` in options to embed previously downloaded images
+   */
+  async convert(page: ConfluencePage, options?: ConvertOptions): Promise<ConvertResult> {
+    this.validatePage(page)
+
+    this.logger.info(`Converting page ${page.id} to PDF...`)
+
+    const html = await this.buildDocument(page, options?.assetsDir)
+
+    let pdf: Buffer
+    try {
+      pdf = await this.renderPdf(html, page.title)
+    } catch (error) {
+      throw new PdfConversionError(`Failed to render PDF for page ${page.id}`, {
+        pageId: page.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    this.logger.info(`Converted page ${page.id}: ${pdf.length} bytes`)
+
+    const baseMetadata = this.generateMetadata(page)
+
+    return {
+      content: pdf,
+      metadata: {
+        format: 'pdf',
+        pageId: page.id,
+        pageTitle: page.title,
+        exportedAt: new Date(),
+        ...baseMetadata,
+        pageFormat: this.options.format,
+      },
+    }
+  }
+
+  /**
+   * Build a standalone HTML document from the export view
+   * Falls back to the view format when export_view was not fetched
+   */
+  private async buildDocument(page: ConfluencePage, assetsDir?: string): Promise<string> {
+    const body = this.htmlProcessor.sanitize(page.content.exportView || page.content.view)
+
+    const dom = new JSDOM(
+      `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body></body></html>`
+    )
+    const doc = dom.window.document
+
+    const title = doc.createElement('title')
+    title.textContent = page.title
+    doc.head.appendChild(title)
+
+    const style = doc.createElement('style')
+    style.textContent = PRINT_STYLES
+    doc.head.appendChild(style)
+
+    const heading = doc.createElement('h1')
+    heading.textContent = page.title
+    doc.body.appendChild(heading)
+
+    const content = doc.createElement('div')
+    content.innerHTML = body
+    doc.body.appendChild(content)
+
+    await this.embedLocalImages(doc, assetsDir)
+
+    return dom.serialize()
+  }
+
+  /**
+   * Close the browser, if one was started
+   */
+  async close(): Promise<void> {
+    if (!this.browser) {
+      return
+    }
+
+    const browser = this.browser
+    this.browser = undefined
+    await (await browser).close()
+  }
+
+  /**
+   * Puppeteer is loaded lazily so markdown-only exports never pay its startup cost
+   */
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = import('puppeteer').then(({ default: puppeteer }) => {
+        this.logger.debug('Starting headless browser for PDF rendering')
+        return puppeteer.launch({ headless: true })
+      })
+      // A failed launch is retried on the next page
+      void this.browser.catch(() => {
+        this.browser = undefined
+      })
+    }
+
+    return this.browser
+  }
+
+  /**
+   * Render HTML to PDF with headless Chromium
+   */
+  private async renderPdf(html: string, title: string): Promise<Buffer> {
+    const browser = await this.getBrowser()
+    const browserPage = await browser.newPage()
+
+    try {
+      // Offline rendering: only inline resources are allowed
+      await browserPage.setRequestInterception(true)
+      browserPage.on('request', (request) => {
+        const url = request.url()
+        if (url.startsWith('data:') || url.startsWith('about:')) {
+          void request.continue()
+        } else {
+          void request.abort()
+        }
+      })
+
+      await browserPage.setContent(html, { waitUntil: 'load' })
+
+      const pdf = await browserPage.pdf({
+        format: this.options.format,
+        margin: this.options.margin,
+        printBackground: true,
+        displayHeaderFooter: this.options.includeHeaderFooter,
+        headerTemplate: this.options.includeHeaderFooter
+          ? `<div style="font-size:8px;width:100%;padding:0 15mm;color:#6b778c;">${this.escapeHtml(title)}</div>`
+          : undefined,
+        footerTemplate: this.options.includeHeaderFooter
+          ? `<div style="font-size:8px;width:100%;padding:0 15mm;text-align:right;color:#6b778c;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>`
+          : undefined,
+      })
+
+      return Buffer.from(pdf)
+    } finally {
+      await browserPage.close()
+    }
+  }
+
+  /**
+   * Escape text for use in header/footer templates
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+
+  /**
+   * Get file extension
+   */
+  getFileExtension(): string {
+    return '.pdf'
+  }
+
+  /**
+   * Get format name
+   */
+  getFormatName(): string {
+    return 'pdf'
+  }
+}
+
+export function createPdfConverter(options?: PdfOptions): PdfConverter {
+  return new PdfConverter(options)
+}
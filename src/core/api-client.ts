@@ -11,6 +11,22 @@ import {
   ServerError,
   InvalidResponseError,
 } from '../errors/index.js'
+import {
+  resolveAuthType,
+  resolveDeployment,
+  detectDeployment,
+  getWebBaseUrl,
+  type AuthType,
+  type DeploymentOption,
+  type DeploymentType,
+} from './deployment.js'
+
+/**
+ * REST API generation
+ * - v1: /rest/api with offset pagination (Cloud and Data Center)
+ * - v2: /api/v2 with cursor pagination (Cloud only)
+ */
+export type ApiVersion = 'v1' | 'v2'
 
 export interface ApiClientConfig {
   baseUrl: string
@@ -18,12 +34,28 @@ export interface ApiClientConfig {
   token?: string
   timeout?: number
   retries?: number
+  /**
+   * Cloud or Data Center / Server
+   * (default: detected from the base URL, or from the first API response on custom domains)
+   */
+  deployment?: DeploymentOption
+  /**
+   * Basic (email/username + token) or Bearer (Personal Access Token)
+   */
+  authType?: AuthType
+  /**
+   * REST API used by content fetching (default: v1)
+   */
+  apiVersion?: ApiVersion
 }
 
 export class ConfluenceApiClient {
   private axiosInstance: AxiosInstance
   private config: ApiClientConfig
   private retryCount: Map<string, number> = new Map()
+  private deployment: DeploymentType
+  private webBaseUrl: string
+  private deploymentPending: boolean
 
   constructor(config: ApiClientConfig) {
     this.config = {
@@ -32,8 +64,21 @@ export class ConfluenceApiClient {
       ...config,
     }
 
+    // CRITICAL: Cloud serves the API under /wiki, Data Center under its own context path
+    this.deployment = resolveDeployment(this.config.baseUrl, this.config.deployment)
+    this.webBaseUrl = getWebBaseUrl(this.config.baseUrl, this.deployment)
+
+    // A custom domain can be either flavor: the first API response decides
+    this.deploymentPending =
+      (this.config.deployment ?? 'auto') === 'auto' &&
+      detectDeployment(this.config.baseUrl).type === 'unknown'
+
+    if (this.config.apiVersion === 'v2' && this.deployment !== 'cloud') {
+      throw new Error('REST API v2 is only available on Confluence Cloud')
+    }
+
     this.axiosInstance = axios.create({
-      baseURL: `${this.config.baseUrl}/wiki/rest/api`,
+      baseURL: `${this.webBaseUrl}/rest/api`,
       timeout: this.config.timeout,
       headers: {
         'Content-Type': 'application/json',
@@ -48,7 +93,11 @@ export class ConfluenceApiClient {
     // Request interceptor - Add authentication
     this.axiosInstance.interceptors.request.use(
       (config) => {
-        if (this.config.email && this.config.token) {
+        const authType = resolveAuthType(this.config.authType, this.config.email)
+
+        if (authType === 'bearer' && this.config.token) {
+          config.headers.Authorization = `Bearer ${this.config.token}`
+        } else if (this.config.email && this.config.token) {
           const auth = Buffer.from(`${this.config.email}:${this.config.token}`).toString(
             'base64',
           )
@@ -70,6 +119,8 @@ export class ConfluenceApiClient {
       (response) => {
         const logger = getLogger()
         logger.debug(`API Response: ${response.status} ${response.config.url}`)
+        // The API answered under the current base URL, only the flavor may change
+        this.detectFromResponse(response)
         return response
       },
       async (error: AxiosError) => {
@@ -82,6 +133,12 @@ export class ConfluenceApiClient {
     const logger = getLogger()
     const config = error.config as AxiosRequestConfig & { _retryCount?: number }
 
+    // A Cloud site on a custom domain serves the API under /wiki: retry there once detected
+    if (error.response && this.detectFromResponse(error.response)) {
+      logger.debug(`Detected Confluence Cloud, retrying under ${this.webBaseUrl}`)
+      return this.axiosInstance.request({ ...config, baseURL: `${this.webBaseUrl}/rest/api` })
+    }
+
     // Handle rate limiting with retry
     if (error.response?.status === 429) {
       const retryAfter = this.getRetryAfter(error.response)
@@ -162,6 +219,48 @@ export class ConfluenceApiClient {
     }
   }
 
+  /**
+   * Resolve an 'auto' deployment the hostname left open from the first API response
+   * Returns true when the web base URL changed (the request should be retried)
+   */
+  private detectFromResponse(response: AxiosResponse): boolean {
+    if (!this.deploymentPending) {
+      return false
+    }
+    this.deploymentPending = false
+
+    const detection = detectDeployment(this.config.baseUrl, this.normalizeHeaders(response))
+    if (detection.type !== 'cloud' || this.deployment === 'cloud') {
+      return false
+    }
+
+    getLogger().debug(`Deployment: cloud (${detection.reason})`)
+    this.deployment = 'cloud'
+
+    // Only a failed request moves the base URL: a successful one proves the API path
+    const webBaseUrl = getWebBaseUrl(this.config.baseUrl, 'cloud')
+    if (response.status < 400 || webBaseUrl === this.webBaseUrl) {
+      return false
+    }
+
+    this.webBaseUrl = webBaseUrl
+    this.axiosInstance.defaults.baseURL = `${webBaseUrl}/rest/api`
+    return true
+  }
+
+  /**
+   * Response headers as plain strings with lowercase names
+   */
+  private normalizeHeaders(response: AxiosResponse): Record<string, string> {
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (value !== undefined && value !== null) {
+        headers[name.toLowerCase()] = String(value)
+      }
+    }
+    return headers
+  }
+
   private getRetryAfter(response: AxiosResponse): number {
     const retryAfter = response.headers['retry-after']
     if (retryAfter) {
@@ -186,6 +285,21 @@ export class ConfluenceApiClient {
     return response.data
   }
 
+  /**
+   * Make a GET request and keep the response status and headers
+   */
+  async getResponse<T = unknown>(
+    url: string,
+    config?: AxiosRequestConfig,
+  ): Promise<{ data: T; status: number; headers: Record<string, string> }> {
+    const response = await this.axiosInstance.get<T>(url, config)
+    return {
+      data: response.data,
+      status: response.status,
+      headers: this.normalizeHeaders(response),
+    }
+  }
+
   /**
    * Make a POST request to Confluence API
    */
@@ -239,6 +353,39 @@ export class ConfluenceApiClient {
   getBaseUrl(): string {
     return this.config.baseUrl
   }
+
+  /**
+   * Get the web UI base URL (includes /wiki on Cloud, the context path on Data Center)
+   */
+  getWebBaseUrl(): string {
+    return this.webBaseUrl
+  }
+
+  /**
+   * Get the resolved deployment flavor
+   */
+  getDeployment(): DeploymentType {
+    return this.deployment
+  }
+
+  /**
+   * Get the REST API generation used for content fetching
+   */
+  getApiVersion(): ApiVersion {
+    return this.config.apiVersion ?? 'v1'
+  }
+
+  /**
+   * Build an absolute REST API v2 URL
+   * Accepts a path relative to /api/v2 or a root-relative `_links.next` cursor link
+   */
+  getApiV2Url(path: string): string {
+    if (path.includes('/api/v2/')) {
+      return new URL(path, this.webBaseUrl).toString()
+    }
+
+    return `${this.webBaseUrl}/api/v2${path}`
+  }
 }
 
 export function createApiClient(config: ApiClientConfig): ConfluenceApiClient {
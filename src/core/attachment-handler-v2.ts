@@ -0,0 +1,81 @@
+import { AttachmentHandler, type Attachment } from './attachment-handler.js'
+import type { CursorPaginatedResponse } from './pagination.js'
+import { getLogger } from '../cli/ui/logger.js'
+
+/**
+ * Maximum page size of REST API v2 listings
+ */
+const V2_PAGE_LIMIT = 250
+
+interface ConfluenceApiV2Attachment {
+  id: string
+  title: string
+  mediaType: string
+  mediaTypeDescription?: string
+  comment?: string
+  fileSize: number
+  downloadLink: string
+  webuiLink?: string
+  version?: {
+    number: number
+    createdAt: string
+  }
+}
+
+/**
+ * Attachment Handler backed by the Confluence Cloud REST API v2
+ * Only listing differs from v1, downloads use the same download links
+ */
+export class AttachmentHandlerV2 extends AttachmentHandler {
+  /**
+   * Fetch all attachments for a page via /pages/{id}/attachments
+   */
+  async fetchPageAttachments(pageId: string): Promise<Attachment[]> {
+    const logger = getLogger()
+    logger.info(`Fetching attachments for page ${pageId}...`)
+
+    const apiAttachments = await this.paginationHandler.fetchAllByCursor((nextLink) =>
+      this.rateLimiter.execute(() =>
+        this.apiClient.get<CursorPaginatedResponse<ConfluenceApiV2Attachment>>(
+          this.apiClient.getApiV2Url(nextLink ?? `/pages/${pageId}/attachments`),
+          { params: nextLink ? undefined : { limit: V2_PAGE_LIMIT } }
+        )
+      )
+    )
+
+    const attachments = apiAttachments.map((att) => this.transformV2Attachment(att))
+
+    logger.debug(`Found ${attachments.length} attachments for page ${pageId}`)
+
+    return attachments
+  }
+
+  /**
+   * Transform a REST API v2 attachment to our Attachment format
+   */
+  private transformV2Attachment(apiAttachment: ConfluenceApiV2Attachment): Attachment {
+    // downloadLink is relative to /wiki, like v1 _links.download
+    const downloadUrl = apiAttachment.downloadLink.startsWith('http')
+      ? apiAttachment.downloadLink
+      : `${this.apiClient.getWebBaseUrl()}${apiAttachment.downloadLink}`
+
+    return {
+      id: apiAttachment.id,
+      title: apiAttachment.title,
+      filename: apiAttachment.title,
+      mediaType: apiAttachment.mediaType,
+      fileSize: apiAttachment.fileSize,
+      downloadUrl,
+      version: apiAttachment.version
+        ? {
+            number: apiAttachment.version.number,
+            when: apiAttachment.version.createdAt,
+          }
+        : undefined,
+      metadata: {
+        comment: apiAttachment.comment,
+        mediaTypeDescription: apiAttachment.mediaTypeDescription,
+      },
+    }
+  }
+}
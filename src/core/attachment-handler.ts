@@ -21,6 +21,19 @@ export interface Attachment {
   }
 }
 
+/**
+ * draw.io diagram attachments: the editable source and the previews rendered by Confluence
+ */
+export interface DrawioDiagram {
+  /**
+   * Diagram name (the diagramName macro parameter)
+   */
+  name: string
+  source: Attachment
+  png?: Attachment
+  svg?: Attachment
+}
+
 export interface AttachmentHandlerOptions {
   apiClient: ConfluenceApiClient
   rateLimiter?: RateLimiter
@@ -53,9 +66,9 @@ interface ConfluenceApiAttachment {
 }
 
 export class AttachmentHandler {
-  private apiClient: ConfluenceApiClient
-  private rateLimiter: RateLimiter
-  private paginationHandler: PaginationHandler
+  protected apiClient: ConfluenceApiClient
+  protected rateLimiter: RateLimiter
+  protected paginationHandler: PaginationHandler
 
   constructor(options: AttachmentHandlerOptions) {
     this.apiClient = options.apiClient
@@ -236,21 +249,44 @@ export class AttachmentHandler {
     return mermaidContent
   }
 
+  /**
+   * Find draw.io diagrams in page attachments
+   * The source is stored without extension (or as .drawio) with the draw.io media type,
+   * previews are stored next to it as <name>.png and <name>.svg
+   */
+  async fetchDrawioDiagrams(pageId: string): Promise<DrawioDiagram[]> {
+    const attachments = await this.fetchPageAttachments(pageId)
+
+    return attachments
+      .filter(
+        (att) => att.mediaType === 'application/vnd.jgraph.mxfile' || att.filename.endsWith('.drawio')
+      )
+      .map((source) => {
+        const name = source.filename.replace(/\.drawio$/, '')
+        return {
+          name,
+          source,
+          png: attachments.find((att) => att.filename === `${name}.png`),
+          svg: attachments.find((att) => att.filename === `${name}.svg`),
+        }
+      })
+  }
+
   /**
    * Transform Confluence API attachment to our Attachment format
    */
   private transformAttachment(apiAttachment: ConfluenceApiAttachment): Attachment {
     const logger = getLogger()
-    const baseUrl = this.apiClient.getBaseUrl()
+    const webBaseUrl = this.apiClient.getWebBaseUrl()
 
     // The _links.download from Confluence API is a relative path
     // It looks like: /download/attachments/149323923/file.mmd?version=1&...
-    // We need to construct the full URL by prepending baseUrl + /wiki
+    // We need to construct the full URL by prepending the web base URL
     let downloadUrl = apiAttachment._links.download
 
     if (!downloadUrl.startsWith('http')) {
-      // Confluence Cloud download paths need /wiki prefix
-      downloadUrl = `${baseUrl}/wiki${downloadUrl}`
+      // Relative to /wiki on Cloud and to the context path on Data Center
+      downloadUrl = `${webBaseUrl}${downloadUrl}`
     }
 
     logger.debug(`Attachment: ${apiAttachment.title} (id: ${apiAttachment.id})`)
@@ -284,7 +320,3 @@ export class AttachmentHandler {
     return this.rateLimiter
   }
 }
-
-export function createAttachmentHandler(options: AttachmentHandlerOptions): AttachmentHandler {
-  return new AttachmentHandler(options)
-}
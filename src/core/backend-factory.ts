@@ -0,0 +1,23 @@
+import { ContentFetcher, type ContentFetcherOptions } from './content-fetcher.js'
+import { ContentFetcherV2 } from './content-fetcher-v2.js'
+import { AttachmentHandler, type AttachmentHandlerOptions } from './attachment-handler.js'
+import { AttachmentHandlerV2 } from './attachment-handler-v2.js'
+
+/**
+ * Create the content fetcher for the API version of the client
+ * Both return the same ConfluencePage shape, so converters are unaffected
+ */
+export function createContentFetcher(options: ContentFetcherOptions): ContentFetcher {
+  return options.apiClient.getApiVersion() === 'v2'
+    ? new ContentFetcherV2(options)
+    : new ContentFetcher(options)
+}
+
+/**
+ * Create the attachment handler for the API version of the client
+ */
+export function createAttachmentHandler(options: AttachmentHandlerOptions): AttachmentHandler {
+  return options.apiClient.getApiVersion() === 'v2'
+    ? new AttachmentHandlerV2(options)
+    : new AttachmentHandler(options)
+}
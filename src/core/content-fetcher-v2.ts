@@ -0,0 +1,480 @@
+import { ContentFetcher, isPublishedInRange } from './content-fetcher.js'
+import type { CursorPaginatedResponse } from './pagination.js'
+import type {
+  BlogPostDateRange,
+  ConfluencePage,
+  ConfluencePageSummary,
+  ConfluencePageVersion,
+  ConfluencePageVersionSummary,
+  PageVersionOptions,
+} from '../types.js'
+import { getLogger } from '../cli/ui/logger.js'
+import { NotFoundError } from '../errors/index.js'
+
+/**
+ * Maximum page size of REST API v2 listings
+ */
+const V2_PAGE_LIMIT = 250
+
+interface ConfluenceApiV2Space {
+  id: string
+  key: string
+  name: string
+}
+
+interface ConfluenceApiV2Page {
+  id: string
+  status: string
+  title: string
+  spaceId: string
+  parentId?: string | null
+  parentType?: string | null
+  position?: number | null
+  authorId?: string
+  createdAt?: string
+  version?: {
+    number: number
+    createdAt: string
+    authorId?: string
+  }
+  body?: {
+    storage?: { value: string; representation: string }
+    view?: { value: string; representation: string }
+    export_view?: { value: string; representation: string }
+  }
+  labels?: {
+    results: Array<{ name: string }>
+  }
+  properties?: {
+    results: Array<Record<string, unknown>>
+  }
+  _links?: {
+    webui?: string
+  }
+}
+
+interface ConfluenceApiV2Version {
+  number: number
+  createdAt: string
+  authorId?: string
+  message?: string
+  minorEdit?: boolean
+}
+
+type BodyFormat = 'storage' | 'view' | 'export_view'
+
+/**
+ * v2 collections with the page body shape
+ */
+type ContentCollection = 'pages' | 'blogposts'
+
+/**
+ * Content Fetcher backed by the Confluence Cloud REST API v2
+ *
+ * Returns the same ConfluencePage shape as the v1 fetcher.
+ * v2 only returns one body format per request, so a full page takes one request per format,
+ * while listings are much cheaper (250 pages per cursor page, no bodies).
+ * Space exports therefore fetch page bodies concurrently, up to the rate limiter's concurrency.
+ * CQL search has no v2 equivalent and stays on v1.
+ */
+export class ContentFetcherV2 extends ContentFetcher {
+  private spaceIdsByKey = new Map<string, string>()
+  private spaceKeysById = new Map<string, string>()
+  private titlesById = new Map<string, string>()
+
+  /**
+   * Fetch a single page by ID with full content (storage + view + export view)
+   */
+  async fetchPage(pageId: string): Promise<ConfluencePage> {
+    const logger = getLogger()
+    logger.info(`Fetching page ${pageId}...`)
+
+    return this.fetchContent(pageId, 'pages')
+  }
+
+  /**
+   * Fetch all pages in a space
+   * Lists the space first, then fetches the page bodies concurrently (bounded by the rate limiter)
+   * Ancestors come from the listing, so each page only needs its body requests
+   */
+  async fetchSpace(spaceKey: string): Promise<ConfluencePage[]> {
+    const logger = getLogger()
+    logger.info(`Fetching all pages from space ${spaceKey}...`)
+
+    const summaries = await this.listSpacePages(spaceKey)
+
+    const pages = await Promise.all(
+      summaries.map((summary) =>
+        this.fetchContent(summary.id, 'pages', undefined, summary.metadata?.ancestors)
+      )
+    )
+
+    logger.debug(`Fetched ${pages.length} pages from space ${spaceKey}`)
+
+    return pages
+  }
+
+  /**
+   * Fetch blog posts in a space, optionally limited to a publish date range
+   * The listing carries publish dates, so only posts in range are fetched
+   */
+  async fetchSpaceBlogPosts(
+    spaceKey: string,
+    range: BlogPostDateRange = {}
+  ): Promise<ConfluencePage[]> {
+    const logger = getLogger()
+    logger.info(`Fetching blog posts from space ${spaceKey}...`)
+
+    const spaceId = await this.getSpaceId(spaceKey)
+    const apiPosts = await this.fetchAllV2<ConfluenceApiV2Page>(`/spaces/${spaceId}/blogposts`, {
+      status: 'current',
+    })
+
+    const posts: ConfluencePage[] = []
+    for (const apiPost of apiPosts) {
+      const publishedAt = apiPost.createdAt ? new Date(apiPost.createdAt) : undefined
+      if (isPublishedInRange(publishedAt, range)) {
+        posts.push(await this.fetchContent(apiPost.id, 'blogposts'))
+      }
+    }
+
+    return posts
+  }
+
+  /**
+   * Fetch saved versions of a page with their storage body, oldest first
+   */
+  async fetchPageVersions(
+    pageId: string,
+    options: PageVersionOptions = {}
+  ): Promise<ConfluencePageVersion[]> {
+    const versions: ConfluencePageVersion[] = []
+    for (const version of await this.listPageVersions(pageId, options)) {
+      versions.push({ ...version, page: await this.fetchPageVersion(pageId, version.number) })
+    }
+
+    return versions
+  }
+
+  /**
+   * List saved versions of a page without their content, oldest first
+   * The version listing carries dates and messages, so no version content is fetched
+   */
+  async listPageVersions(
+    pageId: string,
+    options: PageVersionOptions = {}
+  ): Promise<ConfluencePageVersionSummary[]> {
+    const logger = getLogger()
+    logger.info(`Fetching version history of page ${pageId}...`)
+
+    const apiVersions = await this.fetchAllV2<ConfluenceApiV2Version>(`/pages/${pageId}/versions`)
+
+    const selected = apiVersions
+      .filter((version) => !options.afterVersion || version.number > options.afterVersion)
+      .filter((version) => !options.since || new Date(version.createdAt) >= options.since)
+      .sort((a, b) => b.number - a.number)
+      .slice(0, options.maxVersions || undefined)
+
+    logger.debug(`Found ${selected.length} versions of page ${pageId}`)
+
+    return selected.reverse().map((version) => ({
+      number: version.number,
+      createdAt: new Date(version.createdAt),
+      authorId: version.authorId,
+      message: version.message || undefined,
+      minorEdit: version.minorEdit,
+    }))
+  }
+
+  /**
+   * Fetch the content of a page as of one saved version
+   */
+  async fetchPageVersion(pageId: string, version: number): Promise<ConfluencePage> {
+    return this.fetchContent(pageId, 'pages', version)
+  }
+
+  /**
+   * List all pages in a space without their bodies
+   * Ancestors are rebuilt from the parent IDs of the listing
+   */
+  async listSpacePages(spaceKey: string): Promise<ConfluencePageSummary[]> {
+    const logger = getLogger()
+    logger.info(`Listing pages in space ${spaceKey}...`)
+
+    const spaceId = await this.getSpaceId(spaceKey)
+    const apiPages = await this.fetchAllV2<ConfluenceApiV2Page>(`/spaces/${spaceId}/pages`, {
+      status: 'current',
+    })
+
+    const pagesById = new Map(apiPages.map((page) => [page.id, page]))
+    for (const page of apiPages) {
+      this.titlesById.set(page.id, page.title)
+    }
+
+    return apiPages.map((page) => {
+      const ancestors = this.buildAncestors(page, pagesById)
+
+      return {
+        id: page.id,
+        title: page.title,
+        spaceKey,
+        version: page.version?.number,
+        metadata: {
+          updatedAt: page.version?.createdAt ? new Date(page.version.createdAt) : undefined,
+          parentId: ancestors[ancestors.length - 1]?.id,
+          ancestors,
+        },
+      }
+    })
+  }
+
+  /**
+   * Fetch child pages of a parent page
+   */
+  async fetchPageChildren(pageId: string): Promise<ConfluencePage[]> {
+    const logger = getLogger()
+    logger.info(`Fetching children of page ${pageId}...`)
+
+    const children = await this.fetchAllV2<{ id: string; title: string; type?: string }>(
+      `/pages/${pageId}/direct-children`
+    )
+
+    const pages: ConfluencePage[] = []
+    for (const child of children) {
+      if (child.type && child.type !== 'page') {
+        continue
+      }
+      pages.push(await this.fetchPage(child.id))
+    }
+
+    return pages
+  }
+
+  /**
+   * Find a page ID by space key and title
+   */
+  async findPageId(spaceKey: string, title: string): Promise<string> {
+    const spaceId = await this.getSpaceId(spaceKey)
+
+    const response = await this.rateLimiter.execute(() =>
+      this.apiClient.get<CursorPaginatedResponse<ConfluenceApiV2Page>>(
+        this.apiClient.getApiV2Url('/pages'),
+        { params: { 'space-id': spaceId, title, limit: 1 } }
+      )
+    )
+
+    const pageId = response.results[0]?.id
+    if (!pageId) {
+      throw new NotFoundError(`Page "${title}" not found in space ${spaceKey}`, {
+        spaceKey,
+        title,
+      })
+    }
+
+    return pageId
+  }
+
+  /**
+   * Fetch a page or blog post with all body formats
+   * Blog posts have no ancestors, their creation date is the publish date
+   * Historical versions (version set) are fetched without ancestors as well
+   * Pass ancestors already known from a space listing to skip the ancestors request
+   */
+  private async fetchContent(
+    contentId: string,
+    collection: ContentCollection,
+    version?: number,
+    knownAncestors?: Array<{ id: string; title: string }>
+  ): Promise<ConfluencePage> {
+    const isBlogPost = collection === 'blogposts'
+    const versionParams = version !== undefined ? { version } : {}
+    const skipAncestors = isBlogPost || version !== undefined || knownAncestors !== undefined
+
+    const [storagePage, view, exportView, ancestors] = await Promise.all([
+      this.fetchPageBody(
+        contentId,
+        'storage',
+        {
+          'include-labels': true,
+          'include-properties': true,
+          'include-version': true,
+          ...versionParams,
+        },
+        collection
+      ),
+      this.fetchPageBody(contentId, 'view', versionParams, collection),
+      this.fetchPageBody(contentId, 'export_view', versionParams, collection),
+      skipAncestors ? Promise.resolve([]) : this.fetchAncestorIds(contentId),
+    ])
+
+    const storage = storagePage.body?.storage?.value
+    const viewHtml = view.body?.view?.value
+
+    if (storage === undefined || viewHtml === undefined) {
+      throw new NotFoundError('Page body not found. Both storage and view formats are required.', {
+        pageId: contentId,
+        hasStorage: storage !== undefined,
+        hasView: viewHtml !== undefined,
+      })
+    }
+
+    const spaceKey = await this.getSpaceKey(storagePage.spaceId)
+    this.titlesById.set(storagePage.id, storagePage.title)
+
+    return {
+      id: storagePage.id,
+      title: storagePage.title,
+      type: isBlogPost ? 'blogpost' : 'page',
+      content: {
+        storage,
+        view: viewHtml,
+        exportView: exportView.body?.export_view?.value,
+      },
+      spaceKey,
+      version: storagePage.version?.number,
+      metadata: {
+        labels: storagePage.labels?.results.map((label) => label.name) || [],
+        createdById: storagePage.version?.authorId ?? storagePage.authorId,
+        createdAt: storagePage.createdAt ? new Date(storagePage.createdAt) : undefined,
+        updatedAt: storagePage.version?.createdAt
+          ? new Date(storagePage.version.createdAt)
+          : undefined,
+        url: this.getPageUrl(storagePage, spaceKey, collection),
+        parentId:
+          storagePage.parentType === 'page' ? (storagePage.parentId ?? undefined) : undefined,
+        // The v2 ancestors endpoint returns IDs only, titles come from earlier listings
+        ancestors:
+          knownAncestors ?? ancestors.map((id) => ({ id, title: this.titlesById.get(id) ?? '' })),
+        position: storagePage.position ?? undefined,
+        properties: storagePage.properties?.results || [],
+        publishedAt:
+          isBlogPost && storagePage.createdAt ? new Date(storagePage.createdAt) : undefined,
+      },
+      // Legacy fields for backward compatibility
+      createdAt: storagePage.createdAt ? new Date(storagePage.createdAt) : undefined,
+      updatedAt: storagePage.version?.createdAt
+        ? new Date(storagePage.version.createdAt)
+        : undefined,
+    }
+  }
+
+  /**
+   * Fetch a page or blog post with one body format
+   */
+  private async fetchPageBody(
+    pageId: string,
+    format: BodyFormat,
+    params: Record<string, unknown> = {},
+    collection: ContentCollection = 'pages'
+  ): Promise<ConfluenceApiV2Page> {
+    return this.rateLimiter.execute(() =>
+      this.apiClient.get<ConfluenceApiV2Page>(
+        this.apiClient.getApiV2Url(`/${collection}/${pageId}`),
+        { params: { 'body-format': format, ...params } }
+      )
+    )
+  }
+
+  /**
+   * Fetch ancestor IDs, from the space root down to the direct parent
+   */
+  private async fetchAncestorIds(pageId: string): Promise<string[]> {
+    const ancestors = await this.fetchAllV2<{ id: string; type?: string }>(
+      `/pages/${pageId}/ancestors`
+    )
+
+    return ancestors
+      .filter((ancestor) => !ancestor.type || ancestor.type === 'page')
+      .map((a) => a.id)
+  }
+
+  /**
+   * Fetch all results of a v2 listing, following cursor links
+   */
+  private async fetchAllV2<T>(path: string, params: Record<string, unknown> = {}): Promise<T[]> {
+    return this.paginationHandler.fetchAllByCursor((nextLink) =>
+      this.rateLimiter.execute(() =>
+        this.apiClient.get<CursorPaginatedResponse<T>>(
+          this.apiClient.getApiV2Url(nextLink ?? path),
+          {
+            // The next link already carries the query, including the cursor
+            params: nextLink ? undefined : { limit: V2_PAGE_LIMIT, ...params },
+          }
+        )
+      )
+    )
+  }
+
+  /**
+   * Rebuild the ancestor chain (root first) from parent IDs within a space listing
+   * Stops at parents outside the listing (folders, other content types)
+   */
+  private buildAncestors(
+    page: ConfluenceApiV2Page,
+    pagesById: Map<string, ConfluenceApiV2Page>
+  ): Array<{ id: string; title: string }> {
+    const ancestors: Array<{ id: string; title: string }> = []
+    const visited = new Set<string>([page.id])
+    let parent = page.parentId ? pagesById.get(page.parentId) : undefined
+
+    while (parent && !visited.has(parent.id)) {
+      visited.add(parent.id)
+      ancestors.unshift({ id: parent.id, title: parent.title })
+      parent = parent.parentId ? pagesById.get(parent.parentId) : undefined
+    }
+
+    return ancestors
+  }
+
+  private async getSpaceId(spaceKey: string): Promise<string> {
+    const cached = this.spaceIdsByKey.get(spaceKey)
+    if (cached) {
+      return cached
+    }
+
+    const response = await this.rateLimiter.execute(() =>
+      this.apiClient.get<CursorPaginatedResponse<ConfluenceApiV2Space>>(
+        this.apiClient.getApiV2Url('/spaces'),
+        { params: { keys: spaceKey } }
+      )
+    )
+
+    const space = response.results[0]
+    if (!space) {
+      throw new NotFoundError(`Space ${spaceKey} not found`, { spaceKey })
+    }
+
+    this.cacheSpace(space)
+    return space.id
+  }
+
+  private async getSpaceKey(spaceId: string): Promise<string> {
+    const cached = this.spaceKeysById.get(spaceId)
+    if (cached) {
+      return cached
+    }
+
+    const space = await this.rateLimiter.execute(() =>
+      this.apiClient.get<ConfluenceApiV2Space>(this.apiClient.getApiV2Url(`/spaces/${spaceId}`))
+    )
+
+    this.cacheSpace(space)
+    return space.key
+  }
+
+  private cacheSpace(space: ConfluenceApiV2Space): void {
+    this.spaceIdsByKey.set(space.key, space.id)
+    this.spaceKeysById.set(space.id, space.key)
+  }
+
+  private getPageUrl(
+    page: ConfluenceApiV2Page,
+    spaceKey: string,
+    collection: ContentCollection = 'pages'
+  ): string {
+    const webBaseUrl = this.apiClient.getWebBaseUrl()
+    return page._links?.webui
+      ? `${webBaseUrl}${page._links.webui}`
+      : `${webBaseUrl}/spaces/${spaceKey}/${collection === 'blogposts' ? 'blog' : 'pages'}/${page.id}`
+  }
+}
@@ -1,7 +1,15 @@
 import { ConfluenceApiClient } from './api-client.js'
 import { PaginationHandler, PaginatedResponse } from './pagination.js'
 import { RateLimiter } from './rate-limiter.js'
-import { ConfluencePage } from '../types.js'
+import {
+  BlogPostDateRange,
+  ConfluenceComment,
+  ConfluencePage,
+  ConfluencePageSummary,
+  ConfluencePageVersion,
+  ConfluencePageVersionSummary,
+  PageVersionOptions,
+} from '../types.js'
 import { getLogger } from '../cli/ui/logger.js'
 import { NotFoundError } from '../errors/index.js'
 
@@ -15,9 +23,39 @@ import { NotFoundError } from '../errors/index.js'
  * - metadata.properties: Custom properties
  * - space: Space information
  * - ancestors: Parent pages for hierarchy
+ * - history: Creation date (publish date of blog posts)
  */
 const DEFAULT_EXPAND =
-  'body.storage,body.view,body.export_view,version,metadata.labels,metadata.properties,space,ancestors'
+  'body.storage,body.view,body.export_view,version,metadata.labels,metadata.properties,space,ancestors,history'
+
+/**
+ * Expand parameters for historical versions, which only need the bodies and version details
+ */
+const VERSION_EXPAND = 'body.storage,body.view,version,space'
+
+/**
+ * Expand parameters for version details without bodies
+ */
+const VERSION_SUMMARY_EXPAND = 'version'
+
+/**
+ * Expand parameters for listings without bodies (sync change detection)
+ */
+const SUMMARY_EXPAND = 'version,space,ancestors'
+
+/**
+ * Expand parameters for page tree searches, which list pages without bodies
+ */
+const PAGE_TREE_EXPAND = `${SUMMARY_EXPAND},metadata.labels,history`
+
+/**
+ * Expand parameters for comments
+ * - ancestors: Parent comments, used to rebuild reply threads
+ * - extensions.inlineProperties: Text selection of inline comments
+ * - extensions.resolution: Resolved state of inline comments
+ */
+const COMMENT_EXPAND =
+  'body.storage,history,ancestors,extensions.inlineProperties,extensions.resolution'
 
 export interface ContentFetcherOptions {
   apiClient: ConfluenceApiClient
@@ -51,11 +89,17 @@ export interface ConfluenceApiPage {
   version?: {
     number: number
     when: string
+    message?: string
+    minorEdit?: boolean
     by: {
       email: string
       displayName: string
+      accountId?: string
     }
   }
+  history?: {
+    createdDate?: string
+  }
   metadata?: {
     labels?: {
       results: Array<{
@@ -76,10 +120,45 @@ export interface ConfluenceApiPage {
   }
 }
 
+export interface ConfluenceApiComment {
+  id: string
+  type: string
+  body?: {
+    storage?: {
+      value: string
+    }
+  }
+  history?: {
+    createdBy?: {
+      displayName?: string
+      publicName?: string
+      username?: string
+    }
+    createdDate?: string
+  }
+  ancestors?: Array<{
+    id: string
+    type?: string
+  }>
+  extensions?: {
+    location?: string
+    inlineProperties?: {
+      originalSelection?: string
+    }
+    resolution?: {
+      status?: string
+    }
+  }
+}
+
 export class ContentFetcher {
-  private apiClient: ConfluenceApiClient
-  private rateLimiter: RateLimiter
-  private paginationHandler: PaginationHandler
+  protected apiClient: ConfluenceApiClient
+  protected rateLimiter: RateLimiter
+  protected paginationHandler: PaginationHandler
+  /**
+   * Current version number of pages whose history was listed
+   */
+  private currentVersions = new Map<string, number>()
 
   constructor(options: ContentFetcherOptions) {
     this.apiClient = options.apiClient
@@ -105,6 +184,75 @@ export class ContentFetcher {
     return this.transformPage(response)
   }
 
+  /**
+   * Fetch saved versions of a page with their storage body, oldest first
+   */
+  async fetchPageVersions(
+    pageId: string,
+    options: PageVersionOptions = {},
+  ): Promise<ConfluencePageVersion[]> {
+    const apiPages = await this.walkApiVersions(pageId, options, VERSION_EXPAND)
+
+    return apiPages.map((apiPage) => ({
+      ...this.transformVersion(apiPage),
+      page: this.transformPage(apiPage),
+    }))
+  }
+
+  /**
+   * List saved versions of a page without their content, oldest first
+   * Use fetchPageVersion to load the content of one version when it is needed
+   */
+  async listPageVersions(
+    pageId: string,
+    options: PageVersionOptions = {},
+  ): Promise<ConfluencePageVersionSummary[]> {
+    const apiPages = await this.walkApiVersions(pageId, options, VERSION_SUMMARY_EXPAND)
+
+    return apiPages.map((apiPage) => this.transformVersion(apiPage))
+  }
+
+  /**
+   * Fetch the content of a page as of one saved version
+   */
+  async fetchPageVersion(pageId: string, version: number): Promise<ConfluencePage> {
+    // The current version is not returned as historical content
+    const current = this.currentVersions.get(pageId)
+    const apiPage = await this.fetchApiVersion(
+      pageId,
+      version === current ? undefined : version,
+    )
+
+    return this.transformPage(apiPage)
+  }
+
+  /**
+   * Find a page ID by space key and title
+   * Used for Data Center /display/KEY/Title URLs, which carry no ID
+   */
+  async findPageId(spaceKey: string, title: string): Promise<string> {
+    const response = await this.rateLimiter.execute(() =>
+      this.apiClient.get<{ results: Array<{ id: string }> }>('/content', {
+        params: {
+          spaceKey,
+          title,
+          type: 'page',
+          limit: 1,
+        },
+      }),
+    )
+
+    const pageId = response.results[0]?.id
+    if (!pageId) {
+      throw new NotFoundError(`Page "${title}" not found in space ${spaceKey}`, {
+        spaceKey,
+        title,
+      })
+    }
+
+    return pageId
+  }
+
   /**
    * Fetch all pages in a space
    */
@@ -134,6 +282,70 @@ export class ContentFetcher {
     return apiPages.map((page) => this.transformPage(page))
   }
 
+  /**
+   * Fetch blog posts in a space, optionally limited to a publish date range
+   */
+  async fetchSpaceBlogPosts(
+    spaceKey: string,
+    range: BlogPostDateRange = {},
+  ): Promise<ConfluencePage[]> {
+    const logger = getLogger()
+    logger.info(`Fetching blog posts from space ${spaceKey}...`)
+
+    const fetchPageFn = async (
+      start: number,
+      limit: number,
+    ): Promise<PaginatedResponse<ConfluenceApiPage>> => {
+      return this.rateLimiter.execute(() =>
+        this.apiClient.get<PaginatedResponse<ConfluenceApiPage>>(
+          `/space/${spaceKey}/content/blogpost`,
+          {
+            params: {
+              start,
+              limit,
+              expand: DEFAULT_EXPAND,
+            },
+          },
+        ),
+      )
+    }
+
+    const apiPosts = await this.paginationHandler.fetchAll(fetchPageFn)
+    return apiPosts
+      .map((post) => this.transformPage(post))
+      .filter((post) => isPublishedInRange(post.metadata?.publishedAt, range))
+  }
+
+  /**
+   * List all pages in a space without their bodies
+   * Much cheaper than fetchSpace, used to detect changed pages by version
+   */
+  async listSpacePages(spaceKey: string): Promise<ConfluencePageSummary[]> {
+    const logger = getLogger()
+    logger.info(`Listing pages in space ${spaceKey}...`)
+
+    const fetchPageFn = async (
+      start: number,
+      limit: number,
+    ): Promise<PaginatedResponse<ConfluenceApiPage>> => {
+      return this.rateLimiter.execute(() =>
+        this.apiClient.get<PaginatedResponse<ConfluenceApiPage>>(
+          `/space/${spaceKey}/content/page`,
+          {
+            params: {
+              start,
+              limit,
+              expand: SUMMARY_EXPAND,
+            },
+          },
+        ),
+      )
+    }
+
+    const apiPages = await this.paginationHandler.fetchAll(fetchPageFn)
+    return apiPages.map((page) => this.transformPageSummary(page))
+  }
+
   /**
    * Fetch child pages of a parent page
    */
@@ -220,6 +432,200 @@ export class ContentFetcher {
     const apiPages = await paginationHandler.fetchAll(fetchPageFn)
     return apiPages.map((page) => this.transformPage(page))
   }
+  /**
+   * Search pages with CQL without their bodies, for listings such as navigation macros
+   */
+  async searchPageSummaries(cql: string): Promise<ConfluencePageSummary[]> {
+    const logger = getLogger()
+    logger.debug(`Listing pages with CQL: ${cql}`)
+
+    const fetchPageFn = async (
+      start: number,
+      limit: number,
+    ): Promise<PaginatedResponse<ConfluenceApiPage>> => {
+      return this.rateLimiter.execute(() =>
+        this.apiClient.get<PaginatedResponse<ConfluenceApiPage>>('/content/search', {
+          params: {
+            cql,
+            start,
+            limit,
+            expand: PAGE_TREE_EXPAND,
+          },
+        }),
+      )
+    }
+
+    const apiPages = await this.paginationHandler.fetchAll(fetchPageFn)
+    return apiPages.map((page) => this.transformPageSummary(page))
+  }
+
+
+  /**
+   * Fetch footer and inline comments of a page, threaded by reply
+   */
+  async fetchPageComments(pageId: string): Promise<ConfluenceComment[]> {
+    const logger = getLogger()
+    logger.info(`Fetching comments for page ${pageId}...`)
+
+    const fetchPageFn = async (
+      start: number,
+      limit: number,
+    ): Promise<PaginatedResponse<ConfluenceApiComment>> => {
+      return this.rateLimiter.execute(() =>
+        this.apiClient.get<PaginatedResponse<ConfluenceApiComment>>(
+          `/content/${pageId}/child/comment`,
+          {
+            params: {
+              start,
+              limit,
+              // Replies are only returned with depth=all
+              depth: 'all',
+              expand: COMMENT_EXPAND,
+            },
+          },
+        ),
+      )
+    }
+
+    const apiComments = await this.paginationHandler.fetchAll(fetchPageFn)
+    const comments = this.buildCommentThreads(apiComments)
+
+    logger.debug(`Found ${apiComments.length} comments for page ${pageId}`)
+
+    return comments
+  }
+
+  /**
+   * Fetch saved versions of a page, oldest first
+   * Walks back from the current version, so --since and --max-versions stop early
+   */
+  private async walkApiVersions(
+    pageId: string,
+    options: PageVersionOptions,
+    expand: string,
+  ): Promise<ConfluenceApiPage[]> {
+    const logger = getLogger()
+    logger.info(`Fetching version history of page ${pageId}...`)
+
+    const current = await this.fetchApiVersion(pageId, undefined, expand)
+    const currentNumber = current.version?.number ?? 1
+    this.currentVersions.set(pageId, currentNumber)
+
+    const apiPages: ConfluenceApiPage[] = []
+
+    const oldest = (options.afterVersion ?? 0) + 1
+    for (let number = currentNumber; number >= oldest; number--) {
+      if (options.maxVersions && apiPages.length >= options.maxVersions) {
+        break
+      }
+
+      let apiPage: ConfluenceApiPage
+      try {
+        apiPage =
+          number === currentNumber ? current : await this.fetchApiVersion(pageId, number, expand)
+      } catch (error) {
+        // Versions removed from the page history are skipped
+        if (error instanceof NotFoundError) {
+          logger.debug(`Version ${number} of page ${pageId} not found, skipping`)
+          continue
+        }
+        throw error
+      }
+
+      const createdAt = apiPage.version?.when ? new Date(apiPage.version.when) : undefined
+      if (options.since && createdAt && createdAt < options.since) {
+        break
+      }
+
+      apiPages.push(apiPage)
+    }
+
+    logger.debug(`Found ${apiPages.length} versions of page ${pageId}`)
+
+    return apiPages.reverse()
+  }
+
+  /**
+   * Fetch the current version of a page, or a historical one by number
+   */
+  private async fetchApiVersion(
+    pageId: string,
+    version?: number,
+    expand: string = VERSION_EXPAND,
+  ): Promise<ConfluenceApiPage> {
+    return this.rateLimiter.execute(() =>
+      this.apiClient.get<ConfluenceApiPage>(`/content/${pageId}`, {
+        params: {
+          expand,
+          ...(version !== undefined && { status: 'historical', version }),
+        },
+      }),
+    )
+  }
+
+  /**
+   * Version details of a page version response
+   */
+  private transformVersion(apiPage: ConfluenceApiPage): ConfluencePageVersionSummary {
+    return {
+      number: apiPage.version?.number ?? 1,
+      createdAt: apiPage.version?.when ? new Date(apiPage.version.when) : undefined,
+      authorName: apiPage.version?.by?.displayName,
+      authorId: apiPage.version?.by?.accountId,
+      authorEmail: apiPage.version?.by?.email || undefined,
+      message: apiPage.version?.message || undefined,
+      minorEdit: apiPage.version?.minorEdit,
+    }
+  }
+
+  /**
+   * Nest replies under their parent comment (the last comment ancestor)
+   * Replies whose parent is missing from the listing are kept at the top level
+   */
+  private buildCommentThreads(apiComments: ConfluenceApiComment[]): ConfluenceComment[] {
+    const commentsById = new Map<string, ConfluenceComment>()
+    for (const apiComment of apiComments) {
+      commentsById.set(apiComment.id, this.transformComment(apiComment))
+    }
+
+    const threads: ConfluenceComment[] = []
+    for (const apiComment of apiComments) {
+      const comment = commentsById.get(apiComment.id)!
+      const parentId = apiComment.ancestors
+        ?.filter((ancestor) => !ancestor.type || ancestor.type === 'comment')
+        .pop()?.id
+      const parent = parentId ? commentsById.get(parentId) : undefined
+
+      if (parent) {
+        parent.replies.push(comment)
+      } else {
+        threads.push(comment)
+      }
+    }
+
+    return threads
+  }
+
+  /**
+   * Transform a Confluence API comment to our ConfluenceComment format
+   */
+  private transformComment(apiComment: ConfluenceApiComment): ConfluenceComment {
+    const createdBy = apiComment.history?.createdBy
+    const resolution = apiComment.extensions?.resolution?.status
+
+    return {
+      id: apiComment.id,
+      location: apiComment.extensions?.location === 'inline' ? 'inline' : 'footer',
+      body: apiComment.body?.storage?.value ?? '',
+      author: createdBy?.displayName ?? createdBy?.publicName ?? createdBy?.username,
+      createdAt: apiComment.history?.createdDate
+        ? new Date(apiComment.history.createdDate)
+        : undefined,
+      inlineText: apiComment.extensions?.inlineProperties?.originalSelection,
+      resolved: resolution ? resolution === 'resolved' : undefined,
+      replies: [],
+    }
+  }
 
   /**
    * Transform Confluence API response to our ConfluencePage format
@@ -237,14 +643,21 @@ export class ContentFetcher {
       )
     }
 
-    const baseUrl = this.apiClient.getBaseUrl()
+    // webui links are relative to /wiki on Cloud and to the context path on Data Center
+    const webBaseUrl = this.apiClient.getWebBaseUrl()
     const pageUrl = apiPage._links?.webui
-      ? `${baseUrl}/wiki${apiPage._links.webui}`
-      : `${baseUrl}/wiki/spaces/${apiPage.space.key}/pages/${apiPage.id}`
+      ? `${webBaseUrl}${apiPage._links.webui}`
+      : this.apiClient.getDeployment() === 'cloud'
+        ? `${webBaseUrl}/spaces/${apiPage.space.key}/pages/${apiPage.id}`
+        : `${webBaseUrl}/pages/viewpage.action?pageId=${apiPage.id}`
+
+    const isBlogPost = apiPage.type === 'blogpost'
+    const createdAt = apiPage.history?.createdDate ?? apiPage.version?.when
 
     return {
       id: apiPage.id,
       title: apiPage.title,
+      type: isBlogPost ? 'blogpost' : 'page',
       content: {
         storage: apiPage.body.storage.value,
         view: apiPage.body.view.value,
@@ -255,18 +668,45 @@ export class ContentFetcher {
       metadata: {
         labels: apiPage.metadata?.labels?.results?.map((label) => label.name) || [],
         createdBy: apiPage.version?.by?.email,
-        createdAt: apiPage.version?.when ? new Date(apiPage.version.when) : undefined,
+        createdAt: createdAt ? new Date(createdAt) : undefined,
         updatedAt: apiPage.version?.when ? new Date(apiPage.version.when) : undefined,
         url: pageUrl,
         parentId: apiPage.ancestors?.[apiPage.ancestors.length - 1]?.id,
+        ancestors: apiPage.ancestors?.map((ancestor) => ({
+          id: ancestor.id,
+          title: ancestor.title,
+        })),
         properties: apiPage.metadata?.properties?.results || [],
+        publishedAt: isBlogPost && createdAt ? new Date(createdAt) : undefined,
       },
       // Legacy fields for backward compatibility
-      createdAt: apiPage.version?.when ? new Date(apiPage.version.when) : undefined,
+      createdAt: createdAt ? new Date(createdAt) : undefined,
       updatedAt: apiPage.version?.when ? new Date(apiPage.version.when) : undefined,
     }
   }
 
+  /**
+   * Transform a body-less API response to a page summary
+   */
+  private transformPageSummary(apiPage: ConfluenceApiPage): ConfluencePageSummary {
+    return {
+      id: apiPage.id,
+      title: apiPage.title,
+      spaceKey: apiPage.space.key,
+      version: apiPage.version?.number,
+      metadata: {
+        labels: apiPage.metadata?.labels?.results?.map((label) => label.name),
+        createdAt: apiPage.history?.createdDate ? new Date(apiPage.history.createdDate) : undefined,
+        updatedAt: apiPage.version?.when ? new Date(apiPage.version.when) : undefined,
+        parentId: apiPage.ancestors?.[apiPage.ancestors.length - 1]?.id,
+        ancestors: apiPage.ancestors?.map((ancestor) => ({
+          id: ancestor.id,
+          title: ancestor.title,
+        })),
+      },
+    }
+  }
+
   /**
    * Get API client instance
    */
@@ -282,6 +722,19 @@ export class ContentFetcher {
   }
 }
 
-export function createContentFetcher(options: ContentFetcherOptions): ContentFetcher {
-  return new ContentFetcher(options)
+/**
+ * Whether a blog post publish date falls in an inclusive date range
+ * Posts without a publish date only match an open range
+ */
+export function isPublishedInRange(
+  publishedAt: Date | undefined,
+  range: BlogPostDateRange,
+): boolean {
+  if (!publishedAt) {
+    return !range.from && !range.to
+  }
+
+  return (
+    (!range.from || publishedAt >= range.from) && (!range.to || publishedAt <= range.to)
+  )
 }
@@ -0,0 +1,102 @@
+/**
+ * Confluence deployment flavor
+ */
+export type DeploymentType = 'cloud' | 'datacenter'
+
+/**
+ * Configured deployment ('auto' detects from the base URL)
+ */
+export type DeploymentOption = DeploymentType | 'auto'
+
+/**
+ * Authorization scheme
+ * - basic: email (Cloud) or username (Data Center) + API token / password
+ * - bearer: Personal Access Token (Data Center / Server)
+ */
+export type AuthType = 'basic' | 'bearer'
+
+export interface DeploymentDetection {
+  type: DeploymentType | 'unknown'
+  /**
+   * What the detection was based on
+   */
+  reason: string
+}
+
+/**
+ * Hostnames only used by Atlassian Cloud sites
+ */
+const CLOUD_HOST_SUFFIXES = ['.atlassian.net', '.jira.com', '.atlassian-us-gov-mod.net']
+
+/**
+ * Detect whether a site is Confluence Cloud or Data Center / Server
+ * The hostname decides when it is conclusive, response headers otherwise
+ * (Cloud responses carry an Atlassian trace ID, self-hosted ones do not)
+ *
+ * @param baseUrl - Confluence base URL
+ * @param headers - Response headers of any REST API call (lowercase names)
+ */
+export function detectDeployment(
+  baseUrl: string,
+  headers?: Record<string, string>
+): DeploymentDetection {
+  let hostname: string
+  try {
+    hostname = new URL(baseUrl).hostname.toLowerCase()
+  } catch {
+    return { type: 'unknown', reason: 'invalid base URL' }
+  }
+
+  if (CLOUD_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return { type: 'cloud', reason: `hostname ${hostname}` }
+  }
+
+  if (!headers) {
+    return { type: 'unknown', reason: 'custom domain, no API response' }
+  }
+
+  if (headers['atl-traceid']) {
+    return { type: 'cloud', reason: 'atl-traceid response header (custom domain)' }
+  }
+
+  return { type: 'datacenter', reason: 'self-hosted domain without Atlassian Cloud headers' }
+}
+
+/**
+ * Resolve the configured deployment to a concrete flavor
+ * 'auto' trusts the hostname and falls back to Data Center; the API client
+ * corrects this from the first API response on custom domains
+ */
+export function resolveDeployment(
+  baseUrl: string,
+  deployment: DeploymentOption = 'auto'
+): DeploymentType {
+  if (deployment !== 'auto') {
+    return deployment
+  }
+
+  return detectDeployment(baseUrl).type === 'cloud' ? 'cloud' : 'datacenter'
+}
+
+/**
+ * Base URL of the Confluence web UI (REST API lives under `<web base>/rest/api`)
+ * - Cloud: `https://site.atlassian.net/wiki`
+ * - Data Center: the base URL including its context path, e.g. `https://host/confluence`
+ */
+export function getWebBaseUrl(baseUrl: string, deployment: DeploymentType): string {
+  const base = baseUrl.replace(/\/+$/, '')
+
+  if (deployment === 'datacenter' || base.endsWith('/wiki')) {
+    return base
+  }
+
+  return `${base}/wiki`
+}
+
+/**
+ * Resolve the authorization scheme
+ * Without an explicit type, a token without email is treated as a Personal Access Token
+ */
+export function resolveAuthType(authType: AuthType | undefined, email?: string): AuthType {
+  return authType ?? (email ? 'basic' : 'bearer')
+}
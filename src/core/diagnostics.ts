@@ -0,0 +1,234 @@
+import { lookup as dnsLookup } from 'dns/promises'
+import type { ConfluenceApiClient } from './api-client.js'
+import { detectDeployment, type DeploymentDetection } from './deployment.js'
+import {
+  ApiError,
+  AuthenticationError,
+  AuthorizationError,
+  NetworkError,
+  TimeoutError,
+} from '../errors/index.js'
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip'
+
+export interface DiagnosticCheck {
+  name: string
+  status: CheckStatus
+  message: string
+}
+
+export interface DiagnosticsReport {
+  baseUrl: string
+  checks: DiagnosticCheck[]
+  deployment: DeploymentDetection
+  /**
+   * Rate-limit headers of the last API response
+   */
+  rateLimit: Record<string, string>
+  /**
+   * True when no check failed
+   */
+  success: boolean
+}
+
+export interface DiagnosticsOptions {
+  apiClient: Pick<ConfluenceApiClient, 'getResponse'>
+  baseUrl: string
+  /**
+   * DNS resolver (defaults to dns.promises.lookup)
+   */
+  lookup?: (hostname: string) => Promise<{ address: string }>
+}
+
+const CHECK_NAMES = [
+  'Base URL',
+  'DNS',
+  'Reachability',
+  'Authentication',
+  'Read content',
+  'Read body.storage',
+  'Read attachments',
+] as const
+
+type CheckName = (typeof CHECK_NAMES)[number]
+
+/**
+ * Run connection diagnostics against a Confluence site
+ *
+ * Checks run in order and later checks are skipped once one they depend on fails,
+ * so the first failing check is the one to act on
+ */
+export async function runDiagnostics(options: DiagnosticsOptions): Promise<DiagnosticsReport> {
+  const { apiClient, baseUrl } = options
+  const lookup = options.lookup ?? ((hostname: string) => dnsLookup(hostname))
+
+  const checks: DiagnosticCheck[] = []
+  let headers: Record<string, string> | undefined
+
+  const record = (name: CheckName, status: CheckStatus, message: string): void => {
+    checks.push({ name, status, message })
+  }
+
+  const finish = (): DiagnosticsReport => {
+    for (const name of CHECK_NAMES.slice(checks.length)) {
+      record(name, 'skip', 'Skipped after an earlier failure')
+    }
+
+    return {
+      baseUrl,
+      checks,
+      deployment: detectDeployment(baseUrl, headers),
+      rateLimit: extractRateLimitHeaders(headers),
+      success: checks.every((check) => check.status !== 'fail'),
+    }
+  }
+
+  // Base URL
+  let hostname: string
+  try {
+    const url = new URL(baseUrl)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      record('Base URL', 'fail', `Unsupported protocol ${url.protocol} (use https://)`)
+      return finish()
+    }
+    hostname = url.hostname
+    record('Base URL', url.protocol === 'https:' ? 'pass' : 'warn', url.origin)
+  } catch {
+    record('Base URL', 'fail', `Not a valid URL: ${baseUrl}`)
+    return finish()
+  }
+
+  // DNS
+  try {
+    const { address } = await lookup(hostname)
+    record('DNS', 'pass', `${hostname} resolves to ${address}`)
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code ?? 'lookup failed'
+    record('DNS', 'fail', `Cannot resolve ${hostname} (${code})`)
+    return finish()
+  }
+
+  // Reachability and authentication
+  try {
+    const response = await apiClient.getResponse<{
+      type?: string
+      displayName?: string
+      email?: string
+      username?: string
+    }>('/user/current')
+    headers = response.headers
+    record('Reachability', 'pass', `HTTP ${response.status}`)
+
+    if (response.data.type === 'anonymous') {
+      record('Authentication', 'fail', 'Request was treated as anonymous (credentials ignored)')
+      return finish()
+    }
+
+    const user = response.data.displayName ?? response.data.username ?? 'unknown user'
+    const email = response.data.email ? ` <${response.data.email}>` : ''
+    record('Authentication', 'pass', `Authenticated as ${user}${email}`)
+  } catch (error) {
+    if (error instanceof NetworkError || error instanceof TimeoutError) {
+      record('Reachability', 'fail', describeError(error))
+      return finish()
+    }
+
+    record('Reachability', 'pass', 'Server responded')
+    record('Authentication', 'fail', describeError(error))
+    return finish()
+  }
+
+  // Token scopes: content, body.storage, attachments
+  let pageId: string | undefined
+  try {
+    const response = await apiClient.getResponse<{ results: Array<{ id: string }> }>('/content', {
+      params: { type: 'page', limit: 1 },
+    })
+    headers = response.headers
+    pageId = response.data.results[0]?.id
+
+    if (!pageId) {
+      record('Read content', 'warn', 'No pages visible to this account')
+      record('Read body.storage', 'skip', 'No page to read')
+      record('Read attachments', 'skip', 'No page to read')
+      return finish()
+    }
+
+    record('Read content', 'pass', 'Pages can be listed')
+  } catch (error) {
+    record('Read content', 'fail', describeError(error))
+    return finish()
+  }
+
+  try {
+    const response = await apiClient.getResponse<{ body?: { storage?: { value?: string } } }>(
+      `/content/${pageId}`,
+      { params: { expand: 'body.storage' } }
+    )
+    headers = response.headers
+
+    if (typeof response.data.body?.storage?.value === 'string') {
+      record('Read body.storage', 'pass', `Storage format returned for page ${pageId}`)
+    } else {
+      record('Read body.storage', 'fail', `body.storage missing in response for page ${pageId}`)
+    }
+  } catch (error) {
+    record('Read body.storage', 'fail', describeError(error))
+  }
+
+  try {
+    const response = await apiClient.getResponse<{ size?: number }>(
+      `/content/${pageId}/child/attachment`,
+      { params: { limit: 1 } }
+    )
+    headers = response.headers
+    record('Read attachments', 'pass', `Attachments can be listed for page ${pageId}`)
+  } catch (error) {
+    record('Read attachments', 'fail', describeError(error))
+  }
+
+  return finish()
+}
+
+/**
+ * Rate-limit related headers (Cloud: x-ratelimit-*, retry-after)
+ */
+export function extractRateLimitHeaders(headers?: Record<string, string>): Record<string, string> {
+  const rateLimit: Record<string, string> = {}
+
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (name.startsWith('x-ratelimit') || name.endsWith('retry-after')) {
+      rateLimit[name] = value
+    }
+  }
+
+  return rateLimit
+}
+
+/**
+ * Turn an API error into an actionable message
+ */
+function describeError(error: unknown): string {
+  if (error instanceof AuthenticationError) {
+    return '401 Unauthorized: credentials rejected (check email and token, tokens can expire)'
+  }
+
+  if (error instanceof AuthorizationError) {
+    return '403 Forbidden: authenticated but not allowed (check site access and token scopes)'
+  }
+
+  if (error instanceof NetworkError) {
+    const details = error.details as { error?: string } | undefined
+    return `No response from server${details?.error ? ` (${details.error})` : ''}`
+  }
+
+  if (error instanceof TimeoutError) {
+    return 'Request timed out'
+  }
+
+  if (error instanceof ApiError) {
+    return error.statusCode ? `${error.statusCode}: ${error.message}` : error.message
+  }
+
+  return error instanceof Error ? error.message : String(error)
+}
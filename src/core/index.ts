@@ -1,20 +1,87 @@
-export { ConfluenceApiClient, createApiClient, type ApiClientConfig } from './api-client.js'
+export {
+  ConfluenceApiClient,
+  createApiClient,
+  type ApiClientConfig,
+  type ApiVersion,
+} from './api-client.js'
 export { RateLimiter, createRateLimiter, type RateLimiterOptions } from './rate-limiter.js'
 export {
   PaginationHandler,
   createPaginationHandler,
   type PaginatedResponse,
+  type CursorPaginatedResponse,
   type PaginationOptions,
 } from './pagination.js'
 export {
   ContentFetcher,
-  createContentFetcher,
   type ContentFetcherOptions,
   type ConfluenceApiPage,
 } from './content-fetcher.js'
 export {
   AttachmentHandler,
-  createAttachmentHandler,
   type Attachment,
   type AttachmentHandlerOptions,
 } from './attachment-handler.js'
+export { ContentFetcherV2 } from './content-fetcher-v2.js'
+export { AttachmentHandlerV2 } from './attachment-handler-v2.js'
+export { createContentFetcher, createAttachmentHandler } from './backend-factory.js'
+export { planSync, type SyncPlan, type PlannedPage } from './sync-planner.js'
+export {
+  detectDeployment,
+  resolveDeployment,
+  resolveAuthType,
+  getWebBaseUrl,
+  type DeploymentType,
+  type DeploymentOption,
+  type DeploymentDetection,
+  type AuthType,
+} from './deployment.js'
+export {
+  runDiagnostics,
+  extractRateLimitHeaders,
+  type DiagnosticCheck,
+  type DiagnosticsReport,
+  type DiagnosticsOptions,
+  type CheckStatus,
+} from './diagnostics.js'
+export {
+  JiraIssueCache,
+  createJiraIssueCache,
+  loadJiraIssueCache,
+  readJiraSnapshot,
+  type JiraIssue,
+  type JiraSnapshot,
+  type JiraIssueSource,
+  type JiraIssueCacheOptions,
+  type LoadJiraIssueCacheOptions,
+} from './jira-issues.js'
+export {
+  IncludedPageCache,
+  createIncludedPageCache,
+  type IncludedPage,
+  type PageIncludeSource,
+  type IncludedPageCacheOptions,
+} from './page-includes.js'
+export {
+  ExportedPageTree,
+  CqlPageTree,
+  createExportedPageTree,
+  createCqlPageTree,
+  type PageTreeNode,
+  type PageTreeSource,
+  type ExportedPageTreeOptions,
+  type CqlPageTreeOptions,
+} from './page-tree.js'
+export {
+  UserDirectory,
+  createUserDirectory,
+  loadUserDirectory,
+  readUserCache,
+  getUserCacheKey,
+  getVersionAuthorName,
+  type UserReference,
+  type UserCacheFile,
+  type UserSource,
+  type UserDirectoryOptions,
+  type LoadUserDirectoryOptions,
+} from './users.js'
@@ -0,0 +1,273 @@
+import { readFile } from 'fs/promises'
+import { ConfluenceApiClient } from './api-client.js'
+import { resolveDeployment } from './deployment.js'
+import { getLogger } from '../cli/ui/logger.js'
+
+/**
+ * Jira issue reduced to the values shown in exports
+ * Field values are keyed by Jira macro column name (summary, status, type, assignee, ...)
+ */
+export interface JiraIssue {
+  key: string
+  fields: Record<string, string>
+}
+
+/**
+ * Issue snapshot file, used to export Jira macros without a Jira connection
+ */
+export interface JiraSnapshot {
+  savedAt?: string
+  jiraBaseUrl?: string
+  issues: Record<string, JiraIssue>
+  /**
+   * Issue keys returned by each JQL query, in result order
+   */
+  queries: Record<string, string[]>
+}
+
+/**
+ * Issue lookups needed by the Jira macro handler
+ */
+export interface JiraIssueSource {
+  getIssue(key: string): Promise<JiraIssue | undefined>
+  searchIssues(jql: string, maxResults?: number): Promise<JiraIssue[] | undefined>
+  getIssueUrl(key: string): string | undefined
+  getSearchUrl(jql: string): string | undefined
+}
+
+export interface JiraIssueCacheOptions {
+  /**
+   * Jira site used for links (and live lookups when an API client is given)
+   */
+  jiraBaseUrl?: string
+  /**
+   * Enables live lookups, Confluence credentials are reused for Jira
+   */
+  apiClient?: ConfluenceApiClient
+  snapshot?: JiraSnapshot
+}
+
+interface JiraApiIssue {
+  key: string
+  fields: Record<string, unknown>
+}
+
+/**
+ * Object valued fields (status, issuetype, assignee, ...) carry a name or display name
+ */
+interface JiraApiNamedValue {
+  name?: string
+  displayName?: string
+}
+
+/**
+ * Jira macro column names mapped to Jira field IDs
+ */
+const COLUMN_FIELDS: Record<string, string> = {
+  summary: 'summary',
+  status: 'status',
+  type: 'issuetype',
+  priority: 'priority',
+  assignee: 'assignee',
+  reporter: 'reporter',
+  resolution: 'resolution',
+  created: 'created',
+  updated: 'updated',
+  due: 'duedate',
+}
+
+const DEFAULT_MAX_RESULTS = 20
+
+/**
+ * Jira Issue Cache
+ * Answers issue lookups from memory, the live Jira API or a snapshot file
+ *
+ * Live results are cached, so each issue and query is requested once per export,
+ * and can be saved as a snapshot for later offline exports.
+ */
+export class JiraIssueCache implements JiraIssueSource {
+  private logger = getLogger()
+  private jiraBaseUrl?: string
+  private apiClient?: ConfluenceApiClient
+  private issues: Map<string, JiraIssue>
+  private queries: Map<string, string[]>
+
+  constructor(options: JiraIssueCacheOptions = {}) {
+    this.jiraBaseUrl = (options.jiraBaseUrl ?? options.snapshot?.jiraBaseUrl)?.replace(/\/+$/, '')
+    this.apiClient = options.apiClient
+    this.issues = new Map(Object.entries(options.snapshot?.issues ?? {}))
+    this.queries = new Map(Object.entries(options.snapshot?.queries ?? {}))
+  }
+
+  /**
+   * Whether lookups go to the Jira API (otherwise snapshot only)
+   */
+  isLive(): boolean {
+    return Boolean(this.apiClient && this.jiraBaseUrl)
+  }
+
+  async getIssue(key: string): Promise<JiraIssue | undefined> {
+    const cached = this.issues.get(key)
+    if (cached || !this.isLive()) {
+      return cached
+    }
+
+    try {
+      const apiIssue = await this.apiClient!.get<JiraApiIssue>(
+        `${this.jiraBaseUrl}/rest/api/2/issue/${encodeURIComponent(key)}`,
+        { params: { fields: Object.values(COLUMN_FIELDS).join(',') } }
+      )
+      const issue = this.transformIssue(apiIssue)
+      this.issues.set(key, issue)
+      return issue
+    } catch (error) {
+      this.logger.warn(`Failed to fetch Jira issue ${key}: ${(error as Error).message}`)
+      return undefined
+    }
+  }
+
+  async searchIssues(
+    jql: string,
+    maxResults: number = DEFAULT_MAX_RESULTS
+  ): Promise<JiraIssue[] | undefined> {
+    const cachedKeys = this.queries.get(jql)
+    if (cachedKeys || !this.isLive()) {
+      return cachedKeys
+        ?.slice(0, maxResults)
+        .map((key) => this.issues.get(key) ?? { key, fields: {} })
+    }
+
+    try {
+      // Jira Cloud replaced /search with /search/jql
+      const searchPath =
+        resolveDeployment(this.jiraBaseUrl!) === 'cloud'
+          ? '/rest/api/2/search/jql'
+          : '/rest/api/2/search'
+      const response = await this.apiClient!.get<{ issues: JiraApiIssue[] }>(
+        `${this.jiraBaseUrl}${searchPath}`,
+        { params: { jql, maxResults, fields: Object.values(COLUMN_FIELDS).join(',') } }
+      )
+
+      const issues = response.issues.map((apiIssue) => this.transformIssue(apiIssue))
+      for (const issue of issues) {
+        this.issues.set(issue.key, issue)
+      }
+      this.queries.set(
+        jql,
+        issues.map((issue) => issue.key)
+      )
+      return issues
+    } catch (error) {
+      this.logger.warn(`Failed to search Jira issues (${jql}): ${(error as Error).message}`)
+      return undefined
+    }
+  }
+
+  getIssueUrl(key: string): string | undefined {
+    return this.jiraBaseUrl ? `${this.jiraBaseUrl}/browse/${encodeURIComponent(key)}` : undefined
+  }
+
+  getSearchUrl(jql: string): string | undefined {
+    return this.jiraBaseUrl
+      ? `${this.jiraBaseUrl}/issues/?jql=${encodeURIComponent(jql)}`
+      : undefined
+  }
+
+  /**
+   * Snapshot of all issues and queries seen so far
+   */
+  toSnapshot(): JiraSnapshot {
+    return {
+      savedAt: new Date().toISOString(),
+      jiraBaseUrl: this.jiraBaseUrl,
+      issues: Object.fromEntries(this.issues),
+      queries: Object.fromEntries(this.queries),
+    }
+  }
+
+  /**
+   * Flatten Jira API fields to display strings
+   */
+  private transformIssue(apiIssue: JiraApiIssue): JiraIssue {
+    const fields: Record<string, string> = {}
+
+    for (const [column, fieldId] of Object.entries(COLUMN_FIELDS)) {
+      const value = apiIssue.fields?.[fieldId]
+      if (value === null || value === undefined) {
+        continue
+      }
+
+      if (typeof value === 'string') {
+        // Dates are shortened to YYYY-MM-DD
+        fields[column] = /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value
+      } else if (typeof value === 'object') {
+        const named = value as JiraApiNamedValue
+        fields[column] = named.displayName ?? named.name ?? ''
+      }
+    }
+
+    return { key: apiIssue.key, fields }
+  }
+}
+
+/**
+ * Read an issue snapshot file
+ * Returns undefined when the file does not exist yet
+ */
+export async function readJiraSnapshot(filePath: string): Promise<JiraSnapshot | undefined> {
+  let content: string
+  try {
+    content = await readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+    throw error
+  }
+
+  const snapshot = JSON.parse(content) as JiraSnapshot
+  return {
+    ...snapshot,
+    issues: snapshot.issues ?? {},
+    queries: snapshot.queries ?? {},
+  }
+}
+
+export interface LoadJiraIssueCacheOptions {
+  apiClient: ConfluenceApiClient
+  /**
+   * Jira site, enables live lookups
+   */
+  baseUrl?: string
+  /**
+   * Snapshot file path
+   */
+  snapshot?: string
+}
+
+/**
+ * Create the issue cache for an export from the `jira` config options
+ * Lookups are live only when a Jira base URL is configured, otherwise they use the snapshot.
+ * Jira Cloud links default to the Confluence site.
+ */
+export async function loadJiraIssueCache(
+  options: LoadJiraIssueCacheOptions
+): Promise<JiraIssueCache> {
+  // Live exports refresh every issue, the snapshot is only read offline
+  const snapshot =
+    options.snapshot && !options.baseUrl ? await readJiraSnapshot(options.snapshot) : undefined
+  const siteUrl =
+    options.apiClient.getDeployment() === 'cloud'
+      ? new URL(options.apiClient.getBaseUrl()).origin
+      : undefined
+
+  return new JiraIssueCache({
+    jiraBaseUrl: options.baseUrl ?? snapshot?.jiraBaseUrl ?? siteUrl,
+    apiClient: options.baseUrl ? options.apiClient : undefined,
+    snapshot,
+  })
+}
+
+export function createJiraIssueCache(options?: JiraIssueCacheOptions): JiraIssueCache {
+  return new JiraIssueCache(options)
+}
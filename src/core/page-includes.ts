@@ -0,0 +1,80 @@
+import { ContentFetcher } from './content-fetcher.js'
+import { getLogger } from '../cli/ui/logger.js'
+import { NotFoundError } from '../errors/index.js'
+
+/**
+ * Page referenced by an include or excerpt-include macro
+ */
+export interface IncludedPage {
+  id: string
+  title: string
+  spaceKey: string
+  /**
+   * Storage format (XHTML) body
+   */
+  storage: string
+}
+
+/**
+ * Page lookups needed to resolve include macros
+ */
+export interface PageIncludeSource {
+  getPage(spaceKey: string, title: string): Promise<IncludedPage | undefined>
+}
+
+export interface IncludedPageCacheOptions {
+  contentFetcher: ContentFetcher
+}
+
+/**
+ * Included Page Cache
+ * Fetches pages referenced by include macros once per export
+ * (shared boilerplate is usually included by many pages)
+ */
+export class IncludedPageCache implements PageIncludeSource {
+  private logger = getLogger()
+  private contentFetcher: ContentFetcher
+  private pages = new Map<string, Promise<IncludedPage | undefined>>()
+
+  constructor(options: IncludedPageCacheOptions) {
+    this.contentFetcher = options.contentFetcher
+  }
+
+  getPage(spaceKey: string, title: string): Promise<IncludedPage | undefined> {
+    const cacheKey = `${spaceKey}:${title}`
+    let page = this.pages.get(cacheKey)
+
+    if (!page) {
+      page = this.fetchPage(spaceKey, title)
+      this.pages.set(cacheKey, page)
+      // Failed fetches are retried by the next page that includes the same page
+      page.catch(() => this.pages.delete(cacheKey))
+    }
+
+    return page
+  }
+
+  private async fetchPage(spaceKey: string, title: string): Promise<IncludedPage | undefined> {
+    try {
+      const pageId = await this.contentFetcher.findPageId(spaceKey, title)
+      const page = await this.contentFetcher.fetchPage(pageId)
+
+      return {
+        id: page.id,
+        title: page.title,
+        spaceKey: page.spaceKey,
+        storage: page.content.storage,
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        this.logger.warn(`Included page "${title}" not found in space ${spaceKey}`)
+        return undefined
+      }
+      throw error
+    }
+  }
+}
+
+export function createIncludedPageCache(options: IncludedPageCacheOptions): IncludedPageCache {
+  return new IncludedPageCache(options)
+}
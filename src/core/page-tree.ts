@@ -0,0 +1,191 @@
+import { ContentFetcher } from './content-fetcher.js'
+import { getLogger } from '../cli/ui/logger.js'
+import type { ConfluencePage } from '../types.js'
+
+/**
+ * Page listed by a navigation macro (children, pagetree, contentbylabel)
+ */
+export interface PageTreeNode {
+  id: string
+  title: string
+  spaceKey: string
+  parentId?: string
+  labels: string[]
+  /**
+   * Position among its siblings, when the API returns it (v2)
+   */
+  position?: number
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+/**
+ * Page lookups needed to render navigation macros
+ */
+export interface PageTreeSource {
+  getPage(pageId: string): Promise<PageTreeNode | undefined>
+  findPage(spaceKey: string, title: string): Promise<PageTreeNode | undefined>
+  getChildren(pageId: string): Promise<PageTreeNode[]>
+  /**
+   * Pages without a parent page
+   */
+  getTopLevelPages(spaceKey: string): Promise<PageTreeNode[]>
+  /**
+   * Pages and blog posts matching every label group, a group matches when the page has one of its labels
+   */
+  findByLabels(labelGroups: string[][], spaceKeys?: string[]): Promise<PageTreeNode[]>
+}
+
+type TreePage = Pick<ConfluencePage, 'id' | 'title' | 'spaceKey' | 'type' | 'metadata'>
+
+export interface ExportedPageTreeOptions {
+  pages: TreePage[]
+}
+
+/**
+ * Exported Page Tree
+ * Resolves navigation macros against the pages fetched by a space or hierarchy export,
+ * without any API calls
+ */
+export class ExportedPageTree implements PageTreeSource {
+  private pages: PageTreeNode[]
+  private pagesById: Map<string, PageTreeNode>
+  /**
+   * Blog posts only show up in label matches, never in the page tree
+   */
+  private treePages: PageTreeNode[]
+
+  constructor(options: ExportedPageTreeOptions) {
+    this.pages = options.pages.map((page) => toPageTreeNode(page))
+    this.pagesById = new Map(this.pages.map((page) => [page.id, page]))
+    this.treePages = this.pages.filter((_, index) => options.pages[index].type !== 'blogpost')
+  }
+
+  getPage(pageId: string): Promise<PageTreeNode | undefined> {
+    return Promise.resolve(this.pagesById.get(pageId))
+  }
+
+  findPage(spaceKey: string, title: string): Promise<PageTreeNode | undefined> {
+    return Promise.resolve(
+      this.treePages.find((page) => page.spaceKey === spaceKey && page.title === title)
+    )
+  }
+
+  getChildren(pageId: string): Promise<PageTreeNode[]> {
+    return Promise.resolve(this.treePages.filter((page) => page.parentId === pageId))
+  }
+
+  getTopLevelPages(spaceKey: string): Promise<PageTreeNode[]> {
+    // Pages whose parent was not exported count as top-level too
+    return Promise.resolve(
+      this.treePages.filter(
+        (page) =>
+          page.spaceKey === spaceKey && (!page.parentId || !this.pagesById.has(page.parentId))
+      )
+    )
+  }
+
+  findByLabels(labelGroups: string[][], spaceKeys?: string[]): Promise<PageTreeNode[]> {
+    return Promise.resolve(
+      this.pages.filter(
+        (page) =>
+          (!spaceKeys || spaceKeys.includes(page.spaceKey)) &&
+          labelGroups.every((group) => group.some((label) => page.labels.includes(label)))
+      )
+    )
+  }
+}
+
+export interface CqlPageTreeOptions {
+  contentFetcher: ContentFetcher
+}
+
+/**
+ * CQL Page Tree
+ * Resolves navigation macros with targeted CQL searches, for exports that do not fetch the whole tree
+ * Each query runs once per export
+ */
+export class CqlPageTree implements PageTreeSource {
+  private logger = getLogger()
+  private contentFetcher: ContentFetcher
+  private queries = new Map<string, Promise<PageTreeNode[]>>()
+
+  constructor(options: CqlPageTreeOptions) {
+    this.contentFetcher = options.contentFetcher
+  }
+
+  async getPage(pageId: string): Promise<PageTreeNode | undefined> {
+    return (await this.search(`id = ${quoteCql(pageId)}`))[0]
+  }
+
+  async findPage(spaceKey: string, title: string): Promise<PageTreeNode | undefined> {
+    const pages = await this.search(
+      `space = ${quoteCql(spaceKey)} and type = page and title = ${quoteCql(title)}`
+    )
+    return pages.find((page) => page.title === title)
+  }
+
+  getChildren(pageId: string): Promise<PageTreeNode[]> {
+    return this.search(`parent = ${quoteCql(pageId)} and type = page`)
+  }
+
+  async getTopLevelPages(spaceKey: string): Promise<PageTreeNode[]> {
+    // CQL cannot match pages without ancestors, so the space is filtered locally
+    const pages = await this.search(`space = ${quoteCql(spaceKey)} and type = page`)
+    return pages.filter((page) => !page.parentId)
+  }
+
+  findByLabels(labelGroups: string[][], spaceKeys?: string[]): Promise<PageTreeNode[]> {
+    const clauses = labelGroups.map(
+      (group) => `(${group.map((label) => `label = ${quoteCql(label)}`).join(' or ')})`
+    )
+    if (spaceKeys) {
+      clauses.push(`space in (${spaceKeys.map(quoteCql).join(', ')})`)
+    }
+    clauses.push('type in (page, blogpost)')
+
+    return this.search(clauses.join(' and '))
+  }
+
+  private search(cql: string): Promise<PageTreeNode[]> {
+    let pages = this.queries.get(cql)
+
+    if (!pages) {
+      this.logger.debug(`Page tree query: ${cql}`)
+      pages = this.contentFetcher
+        .searchPageSummaries(cql)
+        .then((results) => results.map((page) => toPageTreeNode(page)))
+      this.queries.set(cql, pages)
+    }
+
+    return pages
+  }
+}
+
+function toPageTreeNode(page: TreePage): PageTreeNode {
+  return {
+    id: page.id,
+    title: page.title,
+    spaceKey: page.spaceKey,
+    parentId: page.metadata?.parentId,
+    labels: page.metadata?.labels ?? [],
+    position: page.metadata?.position,
+    createdAt: page.metadata?.createdAt,
+    updatedAt: page.metadata?.updatedAt,
+  }
+}
+
+/**
+ * Quote a CQL string value
+ */
+function quoteCql(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+export function createExportedPageTree(options: ExportedPageTreeOptions): ExportedPageTree {
+  return new ExportedPageTree(options)
+}
+
+export function createCqlPageTree(options: CqlPageTreeOptions): CqlPageTree {
+  return new CqlPageTree(options)
+}
@@ -11,6 +11,18 @@ export interface PaginatedResponse<T> {
   }
 }
 
+/**
+ * Cursor paginated response (REST API v2)
+ * `_links.next` is a root-relative URL carrying the cursor, absent on the last page
+ */
+export interface CursorPaginatedResponse<T> {
+  results: T[]
+  _links?: {
+    next?: string
+    base?: string
+  }
+}
+
 export interface PaginationOptions {
   limit?: number
   maxResults?: number
@@ -105,6 +117,34 @@ export class PaginationHandler {
     logger.info(`Pagination complete: ${totalResults} total results processed`)
   }
 
+  /**
+   * Fetch all results of a cursor paginated endpoint by following `_links.next`
+   * @param fetchPage - Called without a link for the first page, then with each next link
+   */
+  async fetchAllByCursor<T>(
+    fetchPage: (nextLink?: string) => Promise<CursorPaginatedResponse<T>>,
+  ): Promise<T[]> {
+    const logger = getLogger()
+    const allResults: T[] = []
+    const maxResults = this.options.maxResults || Infinity
+    let nextLink: string | undefined
+
+    do {
+      logger.debug(`Fetching cursor page: total so far=${allResults.length}`)
+
+      const response = await fetchPage(nextLink)
+      allResults.push(...response.results)
+      nextLink = response._links?.next
+
+      logger.debug(
+        `Cursor page fetched: ${response.results.length} results, hasMore=${Boolean(nextLink)}`,
+      )
+    } while (nextLink && allResults.length < maxResults)
+
+    logger.info(`Pagination complete: ${allResults.length} total results fetched`)
+    return allResults.slice(0, maxResults)
+  }
+
   /**
    * Get default page limit
    */
@@ -0,0 +1,67 @@
+import { ConfluencePageSummary } from '../types.js'
+import { getManifestPageVersion, type ManifestPage } from '../storage/manifest.js'
+
+export interface PlannedPage {
+  page: ConfluencePageSummary
+  /**
+   * Target path relative to the output root
+   */
+  path: string
+  /**
+   * Manifest entry from the previous run (absent for added pages)
+   */
+  previous?: ManifestPage
+}
+
+export interface SyncPlan {
+  added: PlannedPage[]
+  updated: PlannedPage[]
+  moved: PlannedPage[]
+  deleted: ManifestPage[]
+  unchanged: ManifestPage[]
+}
+
+/**
+ * Compare the previous manifest with the current page listing
+ *
+ * - added: page not in the manifest
+ * - updated: version changed (the path may have changed too)
+ * - moved: same version, different path (renamed parent, new children, re-parented)
+ * - deleted: in the manifest but no longer in the space
+ * - unchanged: same version and path, nothing to fetch
+ */
+export function planSync(
+  previousPages: ManifestPage[],
+  currentPages: ConfluencePageSummary[],
+  resolvePath: (page: ConfluencePageSummary) => string
+): SyncPlan {
+  const plan: SyncPlan = { added: [], updated: [], moved: [], deleted: [], unchanged: [] }
+
+  const previousById = new Map(previousPages.map((page) => [page.id, page]))
+  const currentIds = new Set<string>()
+
+  for (const page of currentPages) {
+    currentIds.add(page.id)
+
+    const path = resolvePath(page)
+    const previous = previousById.get(page.id)
+
+    if (!previous) {
+      plan.added.push({ page, path })
+    } else if (getManifestPageVersion(previous) !== page.version) {
+      plan.updated.push({ page, path, previous })
+    } else if (previous.path !== path) {
+      plan.moved.push({ page, path, previous })
+    } else {
+      plan.unchanged.push(previous)
+    }
+  }
+
+  for (const previous of previousPages) {
+    if (!currentIds.has(previous.id)) {
+      plan.deleted.push(previous)
+    }
+  }
+
+  return plan
+}
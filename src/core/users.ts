@@ -0,0 +1,193 @@
+import { readFile } from 'fs/promises'
+import { ConfluenceApiClient } from './api-client.js'
+import { getLogger } from '../cli/ui/logger.js'
+import type { ConfluencePageVersionSummary } from '../types.js'
+
+/**
+ * User referenced by a mention (ri:user)
+ * Cloud uses account IDs, Data Center user keys or usernames
+ */
+export interface UserReference {
+  accountId?: string
+  userKey?: string
+  username?: string
+}
+
+/**
+ * Display name cache file, used to resolve mentions without a Confluence connection
+ */
+export interface UserCacheFile {
+  savedAt?: string
+  /**
+   * Display names keyed by account ID (Data Center: `key:<userKey>` or `username:<username>`)
+   */
+  users: Record<string, string>
+}
+
+/**
+ * User lookups needed by the mention handler
+ */
+export interface UserSource {
+  getDisplayName(user: UserReference): Promise<string | undefined>
+}
+
+export interface UserDirectoryOptions {
+  /**
+   * Enables live lookups through the Confluence user API
+   */
+  apiClient?: ConfluenceApiClient
+  cache?: UserCacheFile
+}
+
+interface ConfluenceApiUser {
+  displayName?: string
+  publicName?: string
+}
+
+/**
+ * User Directory
+ * Resolves mentioned users to display names from the cache file or the Confluence user API
+ *
+ * Each user is requested once per export; new names can be saved back to the cache file.
+ */
+export class UserDirectory implements UserSource {
+  private logger = getLogger()
+  private apiClient?: ConfluenceApiClient
+  private users: Map<string, string>
+  private lookups = new Map<string, Promise<string | undefined>>()
+  private changed = false
+
+  constructor(options: UserDirectoryOptions = {}) {
+    this.apiClient = options.apiClient
+    this.users = new Map(Object.entries(options.cache?.users ?? {}))
+  }
+
+  getDisplayName(user: UserReference): Promise<string | undefined> {
+    const cacheKey = getUserCacheKey(user)
+    if (!cacheKey) {
+      return Promise.resolve(undefined)
+    }
+
+    const cached = this.users.get(cacheKey)
+    if (cached || !this.apiClient) {
+      return Promise.resolve(cached)
+    }
+
+    let lookup = this.lookups.get(cacheKey)
+    if (!lookup) {
+      lookup = this.fetchDisplayName(cacheKey, user)
+      this.lookups.set(cacheKey, lookup)
+    }
+
+    return lookup
+  }
+
+  /**
+   * Whether live lookups added names since the cache was loaded
+   */
+  hasChanges(): boolean {
+    return this.changed
+  }
+
+  /**
+   * Cache file content with all names seen so far
+   */
+  toCacheFile(): UserCacheFile {
+    return {
+      savedAt: new Date().toISOString(),
+      users: Object.fromEntries(this.users),
+    }
+  }
+
+  private async fetchDisplayName(
+    cacheKey: string,
+    user: UserReference
+  ): Promise<string | undefined> {
+    const params = user.accountId
+      ? { accountId: user.accountId }
+      : user.userKey
+        ? { key: user.userKey }
+        : { username: user.username }
+
+    try {
+      const apiUser = await this.apiClient!.get<ConfluenceApiUser>('/user', { params })
+      const displayName = apiUser.displayName ?? apiUser.publicName
+      if (displayName) {
+        this.users.set(cacheKey, displayName)
+        this.changed = true
+      }
+      return displayName
+    } catch (error) {
+      this.logger.warn(`Failed to look up user ${cacheKey}: ${(error as Error).message}`)
+      return undefined
+    }
+  }
+}
+
+/**
+ * Cache key of a user: the account ID, or the Data Center user key or username
+ */
+export function getUserCacheKey(user: UserReference): string | undefined {
+  if (user.accountId) {
+    return user.accountId
+  }
+  if (user.userKey) {
+    return `key:${user.userKey}`
+  }
+  return user.username ? `username:${user.username}` : undefined
+}
+
+/**
+ * Display name of the editor of a page version
+ * v1 returns it with the version, v2 only the account ID, which is looked up in the user source
+ */
+export async function getVersionAuthorName(
+  version: ConfluencePageVersionSummary,
+  users: UserSource
+): Promise<string | undefined> {
+  if (version.authorName || !version.authorId) {
+    return version.authorName
+  }
+
+  return (await users.getDisplayName({ accountId: version.authorId })) ?? version.authorId
+}
+
+/**
+ * Read a display name cache file
+ * Returns undefined when the file does not exist yet
+ */
+export async function readUserCache(filePath: string): Promise<UserCacheFile | undefined> {
+  let content: string
+  try {
+    content = await readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+    throw error
+  }
+
+  const cache = JSON.parse(content) as UserCacheFile
+  return { ...cache, users: cache.users ?? {} }
+}
+
+export interface LoadUserDirectoryOptions {
+  apiClient: ConfluenceApiClient
+  /**
+   * Display name cache file path
+   */
+  cache?: string
+}
+
+/**
+ * Create the user directory for an export from the `userCache` config option
+ * Cached names are used first, unknown users are looked up live
+ */
+export async function loadUserDirectory(options: LoadUserDirectoryOptions): Promise<UserDirectory> {
+  const cache = options.cache ? await readUserCache(options.cache) : undefined
+  return new UserDirectory({ apiClient: options.apiClient, cache })
+}
+
+export function createUserDirectory(options?: UserDirectoryOptions): UserDirectory {
+  return new UserDirectory(options)
+}
@@ -48,6 +48,12 @@ export class HtmlProcessingError extends ConfluenceExporterError {
   }
 }
 
+export class MermaidRenderError extends ConfluenceExporterError {
+  constructor(message: string = 'Failed to render Mermaid diagram', details?: unknown) {
+    super(message, 'MERMAID_RENDER_ERROR', details)
+  }
+}
+
 export class AttachmentDownloadError extends ConfluenceExporterError {
   public readonly attachmentUrl: string
 
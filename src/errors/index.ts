@@ -18,6 +18,7 @@ export {
   PdfConversionError,
   DocxConversionError,
   HtmlProcessingError,
+  MermaidRenderError,
   AttachmentDownloadError,
   FileWriteError,
 } from './conversion-errors.js'
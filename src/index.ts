@@ -5,4 +5,11 @@
 
 export { ConfluenceExporter } from './exporter.js'
 export type { ExporterOptions, ConfluencePage, ExportResult } from './types.js'
-export { formatDate, sanitizeFilename, extractSpaceKey } from './utils.js'
+export { formatDate, parseDate, sanitizeFilename, extractSpaceKey } from './utils.js'
+export {
+  DOCUMENT_SCHEMA_ID,
+  DOCUMENT_SCHEMA_VERSION,
+  type ConfluenceDocument,
+  type BlockNode,
+  type InlineNode,
+} from './converters/document-model.js'
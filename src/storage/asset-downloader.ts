@@ -148,6 +148,46 @@ export class AssetDownloader {
     }
   }
 
+  /**
+   * Download draw.io diagrams for a page: the source as <name>.drawio next to
+   * the rendered PNG preview, plus the SVG export when Confluence has one
+   */
+  async downloadDrawioDiagrams(pageId: string, spaceKey: string): Promise<DownloadResult[]> {
+    try {
+      const diagrams = await this.attachmentHandler.fetchDrawioDiagrams(pageId)
+
+      if (diagrams.length === 0) {
+        this.logger.debug(`No draw.io diagrams found for page ${pageId}`)
+        return []
+      }
+
+      const assetsDir = await this.directoryManager.getAssetsDirectory(spaceKey)
+      const results: DownloadResult[] = []
+
+      for (const diagram of diagrams) {
+        results.push(
+          await this.downloadAsset(diagram.source, assetsDir, `${diagram.name}.drawio`),
+        )
+
+        for (const preview of [diagram.png, diagram.svg]) {
+          if (preview) {
+            results.push(await this.downloadAsset(preview, assetsDir))
+          }
+        }
+      }
+
+      const successCount = results.filter((r) => r.success).length
+      this.logger.info(
+        `Downloaded ${successCount}/${results.length} draw.io files for page ${pageId}`,
+      )
+
+      return results
+    } catch (error) {
+      this.logger.error(`Failed to download draw.io diagrams for page ${pageId}:`, error)
+      return []
+    }
+  }
+
   /**
    * Download a single image with full metadata
    */
@@ -197,8 +237,13 @@ export class AssetDownloader {
 
   /**
    * Download a single asset
+   * @param filename - File name on disk (default: the attachment filename)
    */
-  async downloadAsset(attachment: Attachment, targetDir: string): Promise<DownloadResult> {
+  async downloadAsset(
+    attachment: Attachment,
+    targetDir: string,
+    filename: string = attachment.filename,
+  ): Promise<DownloadResult> {
     this.logger.debug(`Downloading: ${attachment.filename}`)
 
     try {
@@ -206,11 +251,11 @@ export class AssetDownloader {
       const buffer = await this.attachmentHandler.downloadAttachment(attachment)
 
       // Write to file
-      const filePath = join(targetDir, attachment.filename)
+      const filePath = join(targetDir, filename)
       const writeResult = await this.fileWriter.writeBinary(filePath, buffer)
 
       return {
-        filename: attachment.filename,
+        filename,
         path: writeResult.path,
         size: writeResult.size,
         success: true,
@@ -219,7 +264,7 @@ export class AssetDownloader {
       this.logger.error(`Failed to download ${attachment.filename}:`, error)
 
       return {
-        filename: attachment.filename,
+        filename,
         path: '',
         size: 0,
         success: false,
@@ -1,6 +1,25 @@
-import { mkdir, access, constants } from 'fs/promises'
-import { dirname, join } from 'path'
+import { mkdir, access, constants, readdir, rmdir } from 'fs/promises'
+import { dirname, join, sep } from 'path'
 import { getLogger } from '../cli/ui/logger.js'
+import type { PageLocation } from './page-hierarchy.js'
+import type { HistoryLayout } from './version-history.js'
+
+export interface DirectoryManagerOptions {
+  /**
+   * Directory below the root that holds the space directories (static sites: docs, content)
+   */
+  contentDir?: string
+  /**
+   * Directory below the root served as-is at the site root (static sites)
+   * Assets then go to <staticDir>/assets/<SPACE-KEY> and are linked with absolute paths
+   */
+  staticDir?: string
+  /**
+   * Keep page titles as file names (case and spaces), only replacing characters that are
+   * invalid in file names or wikilinks (Obsidian vaults)
+   */
+  titleFileNames?: boolean
+}
 
 export interface DirectoryStructure {
   root: string
@@ -16,6 +35,12 @@ export interface DirectoryStructure {
  * output/
  * ├── SPACE-KEY/
  * │   ├── page-title.md
+ * │   ├── blog/
+ * │   │   └── 2024/05/post-slug.md
+ * │   ├── history/
+ * │   │   └── page-title/
+ * │   │       ├── page-title@v1.md
+ * │   │       └── CHANGELOG.md
  * │   ├── child-page/
  * │   │   ├── index.md
  * │   │   └── grandchild.md
@@ -30,10 +55,16 @@ export interface DirectoryStructure {
 export class DirectoryManager {
   private logger = getLogger()
   private rootDir: string
+  private contentRoot: string
+  private staticDir?: string
+  private titleFileNames: boolean
   private structure: DirectoryStructure
 
-  constructor(rootDir: string) {
+  constructor(rootDir: string, options: DirectoryManagerOptions = {}) {
     this.rootDir = rootDir
+    this.contentRoot = options.contentDir ? join(rootDir, options.contentDir) : rootDir
+    this.staticDir = options.staticDir
+    this.titleFileNames = options.titleFileNames ?? false
     this.structure = {
       root: rootDir,
       spaces: new Map(),
@@ -60,7 +91,7 @@ export class DirectoryManager {
       return this.structure.spaces.get(spaceKey)!
     }
 
-    const spaceDir = join(this.rootDir, spaceKey)
+    const spaceDir = join(this.contentRoot, spaceKey)
     await this.ensureDirectoryExists(spaceDir)
 
     this.structure.spaces.set(spaceKey, spaceDir)
@@ -82,12 +113,13 @@ export class DirectoryManager {
       return this.structure.assets.get(cacheKey)!
     }
 
-    const spaceDir = await this.getSpaceDirectory(spaceKey)
     // Use flat structure by default: {spaceKey}/assets/
     // Or nested structure if flat=false: {spaceKey}/assets/{pageId}/
-    const assetsDir = flat
-      ? join(spaceDir, 'assets')
-      : join(spaceDir, 'assets', pageId || 'unknown')
+    // Static sites keep assets outside the pages: {staticDir}/assets/{spaceKey}/
+    const baseDir = this.staticDir
+      ? join(this.rootDir, this.staticDir, 'assets', spaceKey)
+      : join(await this.getSpaceDirectory(spaceKey), 'assets')
+    const assetsDir = flat ? baseDir : join(baseDir, pageId || 'unknown')
 
     await this.ensureDirectoryExists(assetsDir)
 
@@ -100,9 +132,21 @@ export class DirectoryManager {
   /**
    * Get relative path from page file to assets directory
    * Used for generating correct markdown image paths
+   * @param depth - Number of hierarchy directories between the space folder and the page file
+   */
+  getRelativeAssetsPath(depth: number = 0): string {
+    return depth > 0 ? `${'../'.repeat(depth)}assets` : './assets'
+  }
+
+  /**
+   * Get the path page files link assets with
+   * Static sites serve assets from the site root, other exports use a relative path
+   * @param depth - Number of hierarchy directories between the space folder and the page file
    */
-  getRelativeAssetsPath(): string {
-    return './assets'
+  getAssetsLinkPath(spaceKey: string, depth: number = 0): string {
+    return this.staticDir
+      ? `/assets/${encodeURIComponent(spaceKey)}`
+      : this.getRelativeAssetsPath(depth)
   }
 
   /**
@@ -114,28 +158,94 @@ export class DirectoryManager {
     fileExtension: string,
     hierarchyPath?: string[],
   ): Promise<string> {
-    const spaceDir = await this.getSpaceDirectory(spaceKey)
-    const sanitizedTitle = this.sanitizeFilename(pageTitle)
+    await this.getSpaceDirectory(spaceKey)
+    const filePath = this.resolvePageFilePath(spaceKey, pageTitle, fileExtension, hierarchyPath)
 
-    let filePath: string
+    // Ensure parent directory exists
+    await this.ensureDirectoryExists(dirname(filePath))
+
+    return filePath
+  }
+
+  /**
+   * Resolve page file path without touching the filesystem
+   * Used by sync to compare planned paths with the previous manifest
+   */
+  resolvePageFilePath(
+    spaceKey: string,
+    pageTitle: string,
+    fileExtension: string,
+    hierarchyPath?: string[],
+  ): string {
+    const spaceDir = join(this.contentRoot, spaceKey)
+    const sanitizedTitle = this.sanitizeFilename(pageTitle)
 
     if (hierarchyPath && hierarchyPath.length > 0) {
-      // Hierarchical structure: create subdirectories for parent pages
+      // Hierarchical structure: subdirectories for parent pages
       const hierarchyDir = join(spaceDir, ...hierarchyPath.map((p) => this.sanitizeFilename(p)))
-      await this.ensureDirectoryExists(hierarchyDir)
-
-      // Use index.md for parent pages to allow child subdirectories
-      filePath = join(hierarchyDir, `${sanitizedTitle}${fileExtension}`)
-    } else {
-      // Flat structure: all files in space directory
-      filePath = join(spaceDir, `${sanitizedTitle}${fileExtension}`)
+      return join(hierarchyDir, `${sanitizedTitle}${fileExtension}`)
     }
 
-    // Ensure parent directory exists
-    const parentDir = dirname(filePath)
-    await this.ensureDirectoryExists(parentDir)
+    // Flat structure: all files in space directory
+    return join(spaceDir, `${sanitizedTitle}${fileExtension}`)
+  }
 
-    return filePath
+  /**
+   * Get the location of a blog post: blog/YYYY/MM/slug below the space directory
+   * Posts without a publish date go directly into blog/
+   */
+  getBlogPostLocation(title: string, publishedAt?: Date): PageLocation {
+    const hierarchyPath = publishedAt
+      ? [
+          'blog',
+          String(publishedAt.getUTCFullYear()),
+          String(publishedAt.getUTCMonth() + 1).padStart(2, '0'),
+        ]
+      : ['blog']
+
+    return { hierarchyPath, fileName: this.sanitizeFilename(title) }
+  }
+
+  /**
+   * Get the location of one version in a page history export, below history/<slug>/
+   */
+  getPageVersionLocation(title: string, version: number, layout: HistoryLayout): PageLocation {
+    const slug = this.sanitizeFilename(title)
+
+    return layout === 'snapshots'
+      ? { hierarchyPath: ['history', slug, `v${version}`], fileName: slug }
+      : { hierarchyPath: ['history', slug], fileName: `${slug}@v${version}` }
+  }
+
+  /**
+   * Get or create the history directory of a page (holds CHANGELOG.md)
+   */
+  async getPageHistoryDirectory(spaceKey: string, title: string): Promise<string> {
+    const spaceDir = await this.getSpaceDirectory(spaceKey)
+    const historyDir = join(spaceDir, 'history', this.sanitizeFilename(title))
+    await this.ensureDirectoryExists(historyDir)
+
+    return historyDir
+  }
+
+  /**
+   * Remove directories left empty after deleting a page file
+   * Walks up from the file's directory and stops at the space directory
+   */
+  async removeEmptyDirectories(filePath: string, spaceKey: string): Promise<void> {
+    const spaceDir = join(this.contentRoot, spaceKey)
+    let dir = dirname(filePath)
+
+    while (dir.startsWith(spaceDir + sep)) {
+      const entries = await readdir(dir).catch(() => null)
+      if (!entries || entries.length > 0) {
+        return
+      }
+
+      await rmdir(dir)
+      this.logger.debug(`Removed empty directory: ${dir}`)
+      dir = dirname(dir)
+    }
   }
 
   /**
@@ -185,8 +295,16 @@ export class DirectoryManager {
 
   /**
    * Sanitize filename for filesystem
+   * Public so page hierarchy segments can be checked for collisions before writing
    */
-  private sanitizeFilename(filename: string): string {
+  sanitizeFilename(filename: string): string {
+    if (this.titleFileNames) {
+      return filename
+        .replace(/[<>:"/\\|?*#^[\]]/g, '-')
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.]+|[\s.]+$/g, '')
+    }
+
     return filename
       .replace(/[<>:"/\\|?*]/g, '-')
       .replace(/\s+/g, '-')
@@ -218,6 +336,9 @@ export class DirectoryManager {
   }
 }
 
-export function createDirectoryManager(rootDir: string): DirectoryManager {
-  return new DirectoryManager(rootDir)
+export function createDirectoryManager(
+  rootDir: string,
+  options?: DirectoryManagerOptions,
+): DirectoryManager {
+  return new DirectoryManager(rootDir, options)
 }
@@ -1,6 +1,8 @@
-import { writeFile, readFile } from 'fs/promises'
+import { writeFile, readFile, rename, rm } from 'fs/promises'
+import { extname } from 'path'
 import { getLogger } from '../cli/ui/logger.js'
 import { FileWriteError } from '../errors/index.js'
+import type { ConvertResult } from '../converters/base-converter.js'
 
 export interface WriteResult {
   path: string
@@ -63,10 +65,39 @@ export class FileWriter {
     }
   }
 
+  /**
+   * Write converted content to file (text or binary depending on the format)
+   */
+  async writeContent(filePath: string, content: string | Buffer): Promise<WriteResult> {
+    return typeof content === 'string'
+      ? this.writeText(filePath, content)
+      : this.writeBinary(filePath, content)
+  }
+
+  /**
+   * Write a converted page and its sidecar files
+   * @returns Paths of the written sidecar files
+   */
+  async writeConverted(
+    filePath: string,
+    result: Pick<ConvertResult, 'content' | 'sidecars'>,
+  ): Promise<string[]> {
+    await this.writeContent(filePath, result.content)
+
+    const sidecarPaths: string[] = []
+    for (const sidecar of result.sidecars ?? []) {
+      const sidecarPath = getSidecarPath(filePath, sidecar.suffix)
+      await this.writeText(sidecarPath, sidecar.content)
+      sidecarPaths.push(sidecarPath)
+    }
+
+    return sidecarPaths
+  }
+
   /**
    * Write JSON to file
    */
-  async writeJson(filePath: string, data: any, pretty: boolean = true): Promise<WriteResult> {
+  async writeJson(filePath: string, data: unknown, pretty: boolean = true): Promise<WriteResult> {
     this.logger.debug(`Writing JSON file: ${filePath}`)
 
     try {
@@ -79,6 +110,44 @@ export class FileWriter {
     }
   }
 
+  /**
+   * Write JSON atomically (temp file + rename)
+   * CRITICAL: An interrupted run never leaves a truncated manifest behind
+   */
+  async writeJsonAtomic(filePath: string, data: unknown): Promise<WriteResult> {
+    const tempPath = `${filePath}.${process.pid}.tmp`
+
+    try {
+      const result = await this.writeText(tempPath, JSON.stringify(data, null, 2))
+      await rename(tempPath, filePath)
+
+      return { ...result, path: filePath }
+    } catch (error) {
+      await rm(tempPath, { force: true })
+      this.logger.error(`Failed to write JSON file atomically: ${filePath}`, error)
+      throw new FileWriteError(`Failed to write JSON file: ${filePath}`, filePath, error)
+    }
+  }
+
+  /**
+   * Delete a file (missing files are ignored)
+   */
+  async deleteFile(filePath: string): Promise<boolean> {
+    this.logger.debug(`Deleting file: ${filePath}`)
+
+    try {
+      await rm(filePath)
+      this.logger.info(`Deleted file: ${filePath}`)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      this.logger.error(`Failed to delete file: ${filePath}`, error)
+      throw new FileWriteError(`Failed to delete file: ${filePath}`, filePath, error)
+    }
+  }
+
   /**
    * Read text file
    */
@@ -98,12 +167,12 @@ export class FileWriter {
   /**
    * Read JSON file
    */
-  async readJson<T = any>(filePath: string): Promise<T> {
+  async readJson<T = unknown>(filePath: string): Promise<T> {
     this.logger.debug(`Reading JSON file: ${filePath}`)
 
     try {
       const content = await this.readText(filePath)
-      return JSON.parse(content)
+      return JSON.parse(content) as T
     } catch (error) {
       this.logger.error(`Failed to read JSON file: ${filePath}`, error)
       throw new Error(`Failed to read JSON file: ${filePath}`)
@@ -167,6 +236,13 @@ export class FileWriter {
   }
 }
 
+/**
+ * Path of a sidecar file: the page path with its extension replaced by the suffix
+ */
+export function getSidecarPath(filePath: string, suffix: string): string {
+  return filePath.slice(0, filePath.length - extname(filePath).length) + suffix
+}
+
 export function createFileWriter(): FileWriter {
   return new FileWriter()
 }
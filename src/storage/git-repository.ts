@@ -0,0 +1,210 @@
+import fs from 'fs'
+import { access } from 'fs/promises'
+import { join } from 'path'
+import git from 'isomorphic-git'
+import { getLogger } from '../cli/ui/logger.js'
+
+/**
+ * Commit trailers identifying the page version a commit replays
+ */
+const PAGE_ID_TRAILER = 'Confluence-Page-Id'
+const VERSION_TRAILER = 'Confluence-Version'
+const PATH_TRAILER = 'Confluence-Path'
+
+export interface GitAuthor {
+  name: string
+  email: string
+  /**
+   * Author and commit date, defaults to now
+   */
+  date?: Date
+}
+
+/**
+ * Latest page version committed to the repository
+ */
+export interface CommittedPageVersion {
+  pageId: string
+  version: number
+  /**
+   * File path relative to the repository root, with forward slashes
+   */
+  path: string
+}
+
+export interface PageVersionCommit extends CommittedPageVersion {
+  /**
+   * Commit subject and body, the trailers are appended
+   */
+  message: string
+  author: GitAuthor
+  /**
+   * Previous path of the page file, removed when the page moved
+   */
+  previousPath?: string
+}
+
+export interface GitRepositoryOptions {
+  dir: string
+}
+
+/**
+ * Git Repository
+ * Replays page versions as commits in a local repository (no remote), using isomorphic-git
+ *
+ * Each commit carries Confluence-Page-Id, Confluence-Version and Confluence-Path trailers,
+ * so a later run can find the versions already committed without any extra state file.
+ */
+export class GitRepository {
+  private logger = getLogger()
+  private dir: string
+
+  constructor(options: GitRepositoryOptions) {
+    this.dir = options.dir
+  }
+
+  /**
+   * Create the repository unless it already exists
+   */
+  async initialize(): Promise<void> {
+    try {
+      await access(join(this.dir, '.git'))
+    } catch {
+      this.logger.info(`Initializing git repository: ${this.dir}`)
+      await git.init({ fs, dir: this.dir, defaultBranch: 'main' })
+    }
+  }
+
+  /**
+   * Read the latest committed version of each page from the commit trailers
+   */
+  async readCommittedVersions(): Promise<Map<string, CommittedPageVersion>> {
+    const committed = new Map<string, CommittedPageVersion>()
+
+    let commits: Awaited<ReturnType<typeof git.log>>
+    try {
+      commits = await git.log({ fs, dir: this.dir })
+    } catch (error) {
+      // A new repository has no HEAD yet
+      if (error instanceof git.Errors.NotFoundError) {
+        return committed
+      }
+      throw error
+    }
+
+    for (const { commit } of commits) {
+      const trailers = parseTrailers(commit.message)
+      const pageId = trailers.get(PAGE_ID_TRAILER)
+      const version = Number(trailers.get(VERSION_TRAILER))
+      const path = trailers.get(PATH_TRAILER)
+
+      if (!pageId || !path || !Number.isInteger(version)) {
+        continue
+      }
+
+      const previous = committed.get(pageId)
+      if (!previous || version > previous.version) {
+        committed.set(pageId, { pageId, version, path })
+      }
+    }
+
+    return committed
+  }
+
+  /**
+   * Commit one page version whose file is already written to the working tree
+   */
+  async commitPageVersion(commit: PageVersionCommit): Promise<string> {
+    if (commit.previousPath && commit.previousPath !== commit.path) {
+      await git.remove({ fs, dir: this.dir, filepath: commit.previousPath })
+      await fs.promises.rm(join(this.dir, commit.previousPath), { force: true })
+    }
+
+    await git.add({ fs, dir: this.dir, filepath: commit.path })
+
+    const trailers = [
+      `${PAGE_ID_TRAILER}: ${commit.pageId}`,
+      `${VERSION_TRAILER}: ${commit.version}`,
+      `${PATH_TRAILER}: ${commit.path}`,
+    ].join('\n')
+
+    return git.commit({
+      fs,
+      dir: this.dir,
+      message: `${commit.message.trim()}\n\n${trailers}\n`,
+      author: toGitAuthor(commit.author),
+    })
+  }
+
+  /**
+   * Commit working tree changes below the given paths, if there are any
+   * @returns The commit ID, or undefined when nothing changed
+   */
+  async commitFiles(
+    filepaths: string[],
+    message: string,
+    author: GitAuthor
+  ): Promise<string | undefined> {
+    const matrix = await git.statusMatrix({ fs, dir: this.dir, filepaths })
+
+    // [filepath, HEAD, workdir, stage]: 1 1 1 means unchanged
+    const changed = matrix.filter(
+      ([, head, workdir, stage]) => !(head === 1 && workdir === 1 && stage === 1)
+    )
+    if (changed.length === 0) {
+      return undefined
+    }
+
+    for (const [filepath, , workdir] of changed) {
+      if (workdir === 0) {
+        await git.remove({ fs, dir: this.dir, filepath })
+      } else {
+        await git.add({ fs, dir: this.dir, filepath })
+      }
+    }
+
+    return git.commit({ fs, dir: this.dir, message, author: toGitAuthor(author) })
+  }
+
+  getDirectory(): string {
+    return this.dir
+  }
+}
+
+/**
+ * Read `Key: value` trailers from the last paragraph of a commit message
+ */
+function parseTrailers(message: string): Map<string, string> {
+  const paragraphs = message.trim().split(/\n\s*\n/)
+  const trailers = new Map<string, string>()
+
+  for (const line of paragraphs[paragraphs.length - 1].split('\n')) {
+    const match = line.match(/^([\w-]+):\s*(.+)$/)
+    if (match) {
+      trailers.set(match[1], match[2].trim())
+    }
+  }
+
+  return trailers
+}
+
+/**
+ * Git stores dates as epoch seconds plus a timezone offset, Confluence dates are kept in UTC
+ */
+function toGitAuthor(author: GitAuthor): {
+  name: string
+  email: string
+  timestamp: number
+  timezoneOffset: number
+} {
+  return {
+    name: author.name,
+    email: author.email,
+    timestamp: Math.floor((author.date ?? new Date()).getTime() / 1000),
+    timezoneOffset: 0,
+  }
+}
+
+export function createGitRepository(options: GitRepositoryOptions): GitRepository {
+  return new GitRepository(options)
+}
@@ -2,8 +2,14 @@ export {
   DirectoryManager,
   createDirectoryManager,
   type DirectoryStructure,
+  type DirectoryManagerOptions,
 } from './directory-manager.js'
-export { FileWriter, createFileWriter, type WriteResult } from './file-writer.js'
+export {
+  FileWriter,
+  createFileWriter,
+  getSidecarPath,
+  type WriteResult,
+} from './file-writer.js'
 export {
   AssetDownloader,
   createAssetDownloader,
@@ -11,3 +17,46 @@ export {
   type ImageDownloadResult,
   type AssetDownloaderOptions,
 } from './asset-downloader.js'
+export {
+  PageHierarchy,
+  createPageHierarchy,
+  type PageLocation,
+  type PageHierarchyOptions,
+} from './page-hierarchy.js'
+export {
+  readManifest,
+  getManifestPageVersion,
+  type ExportManifest,
+  type ManifestPage,
+} from './manifest.js'
+export {
+  buildChangelog,
+  HISTORY_LAYOUTS,
+  type HistoryLayout,
+  type ChangelogEntry,
+} from './version-history.js'
+export {
+  GitRepository,
+  createGitRepository,
+  type GitAuthor,
+  type CommittedPageVersion,
+  type PageVersionCommit,
+  type GitRepositoryOptions,
+} from './git-repository.js'
+export {
+  StaticSite,
+  createStaticSite,
+  getSiteLayout,
+  SITE_GENERATORS,
+  type SiteGenerator,
+  type SiteLayout,
+  type SitePage,
+  type SitePageSettings,
+  type SiteFile,
+  type StaticSiteOptions,
+} from './static-site.js'
+export {
+  buildObsidianAppSettings,
+  writeObsidianSettings,
+  type ObsidianVaultOptions,
+} from './obsidian-vault.js'
@@ -0,0 +1,122 @@
+import { readFile } from 'fs/promises'
+import { getLogger } from '../cli/ui/logger.js'
+import type { LinkResolutionReport } from '../converters/link-resolver.js'
+import type { MarkdownOptions } from '../config/config-schema.js'
+import type { SiteGenerator } from './static-site.js'
+
+/**
+ * Page entry in manifest.json
+ */
+export interface ManifestPage {
+  id: string
+  title: string
+  spaceKey: string
+  /**
+   * Path relative to the output root
+   */
+  path: string
+  /**
+   * Confluence version at export time (drives incremental sync)
+   */
+  version?: number
+  parentId?: string
+  /**
+   * Only set for blog posts, entries without a type are pages
+   */
+  type?: 'blogpost'
+  /**
+   * Publish date of blog posts (ISO 8601)
+   */
+  publishedAt?: string
+  metadata?: Record<string, unknown>
+  attachments: number
+  /**
+   * Files written next to the page (e.g. comments), relative to the output root
+   */
+  sidecars?: string[]
+}
+
+/**
+ * manifest.json written by space export and sync
+ */
+export interface ExportManifest {
+  exportedAt: string
+  tool: string
+  version: string
+  format: string
+  space: {
+    key: string
+    pageCount: number
+    blogPostCount?: number
+  }
+  options: {
+    includeAttachments: boolean
+    includeChildren: boolean
+    flat: boolean
+    includeComments?: boolean
+    includeBlogs?: boolean
+    /**
+     * Static site generator the export is laid out for
+     */
+    site?: SiteGenerator
+    /**
+     * Markdown dialect of the page files (markdown exports only)
+     */
+    flavor?: MarkdownOptions['flavor']
+  }
+  pages: ManifestPage[]
+  summary: {
+    total: number
+    successful: number
+    failed: number
+  }
+  /**
+   * Internal link rewriting (markdown exports only)
+   */
+  links?: LinkResolutionReport
+  /**
+   * Changes applied by the last `conflu sync` run
+   */
+  sync?: {
+    added: number
+    updated: number
+    moved: number
+    deleted: number
+    unchanged: number
+  }
+}
+
+/**
+ * Read a previous manifest
+ * Returns undefined when no manifest exists yet
+ */
+export async function readManifest(filePath: string): Promise<ExportManifest | undefined> {
+  const logger = getLogger()
+
+  let content: string
+  try {
+    content = await readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug(`No manifest found at ${filePath}`)
+      return undefined
+    }
+    throw error
+  }
+
+  const manifest = JSON.parse(content) as ExportManifest
+
+  if (!Array.isArray(manifest.pages)) {
+    throw new Error(`Invalid manifest: ${filePath} has no pages list`)
+  }
+
+  return manifest
+}
+
+/**
+ * Get the exported version of a manifest page
+ * Older manifests only carry the version inside metadata
+ */
+export function getManifestPageVersion(page: ManifestPage): number | undefined {
+  return page.version ?? (page.metadata?.version as number | undefined)
+}
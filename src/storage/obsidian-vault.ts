@@ -0,0 +1,58 @@
+import { access, mkdir } from 'fs/promises'
+import { join, posix } from 'path'
+import type { FileWriter } from './file-writer.js'
+
+/**
+ * Vault settings of an Obsidian export, relative to the vault root
+ */
+export interface ObsidianVaultOptions {
+  /**
+   * Vault root, the export output directory
+   */
+  rootDir: string
+  /**
+   * Space whose assets folder new attachments go to
+   */
+  spaceKey: string
+}
+
+/**
+ * Obsidian app settings set by the export, merged into `.obsidian/app.json`
+ * New attachments land in the space's assets folder, new links are wikilinks like the exported ones
+ */
+export function buildObsidianAppSettings(
+  spaceKey: string,
+  existing: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    ...existing,
+    attachmentFolderPath: posix.join(spaceKey, 'assets'),
+    useMarkdownLinks: false,
+    newLinkFormat: 'shortest',
+  }
+}
+
+/**
+ * Write the vault settings, keeping other settings of an existing vault
+ * @returns Path of the settings file
+ */
+export async function writeObsidianSettings(
+  options: ObsidianVaultOptions,
+  fileWriter: FileWriter
+): Promise<string> {
+  const configDir = join(options.rootDir, '.obsidian')
+  const settingsPath = join(configDir, 'app.json')
+  await mkdir(configDir, { recursive: true })
+
+  const exists = await access(settingsPath).then(
+    () => true,
+    () => false
+  )
+  const existing = exists
+    ? await fileWriter.readJson<Record<string, unknown>>(settingsPath)
+    : undefined
+
+  await fileWriter.writeJson(settingsPath, buildObsidianAppSettings(options.spaceKey, existing))
+
+  return settingsPath
+}
@@ -0,0 +1,198 @@
+import { ConfluencePageSummary } from '../types.js'
+import { getLogger } from '../cli/ui/logger.js'
+
+const DEFAULT_INDEX_FILE_NAME = 'index'
+
+export interface PageLocation {
+  /**
+   * Directory segments below the space directory (already sanitized)
+   */
+  hierarchyPath: string[]
+
+  /**
+   * File name without extension: the page segment, or the index file name for parents with children
+   */
+  fileName: string
+}
+
+export interface PageHierarchyOptions {
+  pages: ConfluencePageSummary[]
+  sanitizeFilename: (name: string) => string
+  /**
+   * File name of parents with children, defaults to index (Hugo sections use _index)
+   */
+  indexFileName?: string
+  /**
+   * Name parents with children after their directory (`parent/parent.md`, Obsidian folder notes)
+   * instead of using the index file name
+   */
+  folderNotes?: boolean
+}
+
+/**
+ * Page Hierarchy
+ * Mirrors the Confluence page tree as nested directories
+ *
+ * Rules:
+ * - A page's parent is its nearest ancestor that is part of the export
+ * - Parents with children become `parent/index.md` (or `parent/parent.md` with folder notes),
+ *   children sit beside it
+ * - Sibling title collisions are resolved deterministically: the oldest page
+ *   (lowest ID) keeps the name, the others get a `-<pageId>` suffix
+ */
+export class PageHierarchy {
+  private logger = getLogger()
+  private pages = new Map<string, ConfluencePageSummary>()
+  private parents = new Map<string, string | undefined>()
+  private children = new Map<string | undefined, string[]>()
+  private segments = new Map<string, string>()
+  private sanitizeFilename: (name: string) => string
+  private indexFileName: string
+  private folderNotes: boolean
+
+  constructor(options: PageHierarchyOptions) {
+    this.sanitizeFilename = options.sanitizeFilename
+    this.indexFileName = options.indexFileName ?? DEFAULT_INDEX_FILE_NAME
+    this.folderNotes = options.folderNotes ?? false
+
+    for (const page of options.pages) {
+      this.pages.set(page.id, page)
+    }
+
+    this.buildTree()
+    this.assignSegments()
+  }
+
+  /**
+   * Get the output location of a page
+   */
+  getLocation(pageId: string): PageLocation {
+    const segment = this.segments.get(pageId)
+    if (!segment) {
+      throw new Error(`Page ${pageId} is not part of the hierarchy`)
+    }
+
+    const ancestorSegments: string[] = []
+    let parentId = this.parents.get(pageId)
+    while (parentId) {
+      ancestorSegments.unshift(this.segments.get(parentId)!)
+      parentId = this.parents.get(parentId)
+    }
+
+    if (this.hasChildren(pageId)) {
+      return {
+        hierarchyPath: [...ancestorSegments, segment],
+        fileName: this.folderNotes ? segment : this.indexFileName,
+      }
+    }
+
+    return { hierarchyPath: ancestorSegments, fileName: segment }
+  }
+
+  /**
+   * Get the exported parent of a page (undefined for top-level pages)
+   */
+  getParentId(pageId: string): string | undefined {
+    return this.parents.get(pageId)
+  }
+
+  /**
+   * Check whether a page has exported children
+   */
+  hasChildren(pageId: string): boolean {
+    return (this.children.get(pageId)?.length ?? 0) > 0
+  }
+
+  /**
+   * Link every page to its nearest exported ancestor
+   */
+  private buildTree(): void {
+    for (const page of this.pages.values()) {
+      const parentId = this.findExportedParent(page)
+
+      this.parents.set(page.id, parentId)
+
+      const siblings = this.children.get(parentId) || []
+      siblings.push(page.id)
+      this.children.set(parentId, siblings)
+    }
+  }
+
+  /**
+   * Find the nearest ancestor included in the export
+   * Falls back to parentId when the ancestor chain was not fetched
+   */
+  private findExportedParent(page: ConfluencePageSummary): string | undefined {
+    const ancestors = page.metadata?.ancestors
+
+    if (ancestors && ancestors.length > 0) {
+      for (let i = ancestors.length - 1; i >= 0; i--) {
+        if (this.pages.has(ancestors[i].id)) {
+          return ancestors[i].id
+        }
+      }
+      return undefined
+    }
+
+    const parentId = page.metadata?.parentId
+    return parentId && this.pages.has(parentId) ? parentId : undefined
+  }
+
+  /**
+   * Assign a unique path segment to every page among its siblings
+   * Parents are named before their children, whose names may be taken by the parent's file
+   */
+  private assignSegments(): void {
+    const parentIds: (string | undefined)[] = [undefined]
+
+    for (const parentId of parentIds) {
+      const siblingIds = this.children.get(parentId) ?? []
+      parentIds.push(...siblingIds)
+
+      // The parent's own file sits inside its directory
+      const parentFileName =
+        parentId === undefined
+          ? undefined
+          : this.folderNotes
+            ? this.segments.get(parentId)
+            : this.indexFileName
+
+      // Names differing only in case collide on case-insensitive file systems
+      const byName = new Map<string, string[]>()
+
+      for (const id of siblingIds) {
+        const name = this.sanitizeFilename(this.pages.get(id)!.title) || id
+        const group = byName.get(name.toLowerCase()) || []
+        group.push(id)
+        byName.set(name.toLowerCase(), group)
+      }
+
+      for (const ids of byName.values()) {
+        ids.sort(compareIds)
+
+        ids.forEach((id, index) => {
+          const name = this.sanitizeFilename(this.pages.get(id)!.title) || id
+          const reserved = name.toLowerCase() === parentFileName?.toLowerCase()
+          const segment = index === 0 && !reserved ? name : `${name}-${id}`
+
+          if (segment !== name) {
+            this.logger.debug(`Title collision for "${name}", using "${segment}" for page ${id}`)
+          }
+
+          this.segments.set(id, segment)
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Compare Confluence page IDs numerically (older pages have lower IDs)
+ */
+function compareIds(a: string, b: string): number {
+  return a.length - b.length || a.localeCompare(b)
+}
+
+export function createPageHierarchy(options: PageHierarchyOptions): PageHierarchy {
+  return new PageHierarchy(options)
+}
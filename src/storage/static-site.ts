@@ -0,0 +1,459 @@
+import { posix } from 'path'
+import type { ManifestPage } from './manifest.js'
+
+/**
+ * Static site generators an exported space can be laid out for
+ */
+export type SiteGenerator = 'mkdocs' | 'docusaurus' | 'hugo'
+
+export const SITE_GENERATORS: readonly SiteGenerator[] = ['mkdocs', 'docusaurus', 'hugo']
+
+/**
+ * Where a generator expects pages and assets, relative to the output directory
+ */
+export interface SiteLayout {
+  /**
+   * Directory holding the space directories
+   */
+  contentDir: string
+  /**
+   * Directory served as-is at the site root, assets go to <staticDir>/assets/<SPACE-KEY>
+   * Unset keeps assets next to the pages
+   */
+  staticDir?: string
+  /**
+   * File name of pages with children (Hugo sections need _index)
+   */
+  indexFileName: string
+}
+
+const SITE_LAYOUTS: Record<SiteGenerator, SiteLayout> = {
+  mkdocs: { contentDir: 'docs', indexFileName: 'index' },
+  docusaurus: { contentDir: 'docs', staticDir: 'static', indexFileName: 'index' },
+  hugo: { contentDir: 'content', staticDir: 'static', indexFileName: '_index' },
+}
+
+export function getSiteLayout(generator: SiteGenerator): SiteLayout {
+  return SITE_LAYOUTS[generator]
+}
+
+/**
+ * Frontmatter settings of one page (sidebar_position/slug, weight/slug)
+ */
+export interface SitePageSettings {
+  generator: SiteGenerator
+  /**
+   * Position among its siblings, from 1
+   */
+  position: number
+  /**
+   * Docusaurus: absolute URL path, Hugo: last URL segment (not set for sections)
+   */
+  slug?: string
+}
+
+export type SitePage = Pick<
+  ManifestPage,
+  'id' | 'title' | 'path' | 'parentId' | 'type' | 'publishedAt'
+> & {
+  /**
+   * Confluence position among its siblings, when the API returns it (v2)
+   */
+  position?: number
+}
+
+/**
+ * Generated file, path relative to the output directory
+ */
+export interface SiteFile {
+  path: string
+  content: string
+  /**
+   * Starter files (Hugo layouts) are only written when missing, so they can be customised
+   */
+  keepExisting?: boolean
+}
+
+export interface StaticSiteOptions {
+  generator: SiteGenerator
+  title: string
+  /**
+   * Pages and blog posts, with paths relative to the output directory
+   */
+  pages: SitePage[]
+}
+
+interface SiteNode {
+  page: SitePage
+  /**
+   * Path relative to the content directory, with forward slashes
+   */
+  contentPath: string
+  children: SiteNode[]
+}
+
+/**
+ * Static Site
+ * Generates the navigation and configuration of a static site from the exported page tree
+ *
+ * Siblings are ordered by Confluence position, then title. Blog posts are listed
+ * newest first in a separate Blog section. Pages missing from the export are left out
+ * of the navigation and their children move up a level.
+ */
+export class StaticSite {
+  private generator: SiteGenerator
+  private title: string
+  private layout: SiteLayout
+  private pages: SitePage[]
+  private settings = new Map<string, SitePageSettings>()
+
+  constructor(options: StaticSiteOptions) {
+    this.generator = options.generator
+    this.title = options.title
+    this.layout = getSiteLayout(options.generator)
+    this.pages = options.pages
+
+    this.assignSettings(this.buildTree(), this.buildBlog())
+  }
+
+  /**
+   * Frontmatter settings of a page
+   */
+  getPageSettings(pageId: string): SitePageSettings | undefined {
+    return this.settings.get(pageId)
+  }
+
+  /**
+   * Navigation and configuration files of the generator
+   * @param exportedIds - Pages actually written, defaults to every page
+   */
+  buildFiles(exportedIds?: Set<string>): SiteFile[] {
+    const isExported = (node: SiteNode): boolean => !exportedIds || exportedIds.has(node.page.id)
+    const prune = (nodes: SiteNode[]): SiteNode[] =>
+      nodes.flatMap((node) =>
+        isExported(node) ? [{ ...node, children: prune(node.children) }] : prune(node.children)
+      )
+
+    const tree = prune(this.buildTree())
+    const blog = this.buildBlog().filter(isExported)
+
+    switch (this.generator) {
+      case 'mkdocs':
+        return [{ path: 'mkdocs.yml', content: this.buildMkDocsConfig(tree, blog) }]
+      case 'docusaurus':
+        return this.buildDocusaurusFiles(tree, blog)
+      case 'hugo':
+        return this.buildHugoFiles(tree)
+    }
+  }
+
+  private buildMkDocsConfig(tree: SiteNode[], blog: SiteNode[]): string {
+    const navItems = (nodes: SiteNode[], indent: string): string[] =>
+      nodes.flatMap((node) =>
+        node.children.length > 0
+          ? [
+              `${indent}- ${quote(node.page.title)}:`,
+              `${indent}    - ${quote(node.contentPath)}`,
+              ...navItems(node.children, `${indent}    `),
+            ]
+          : [`${indent}- ${quote(node.page.title)}: ${quote(node.contentPath)}`]
+      )
+
+    const nav = navItems(tree, '  ')
+    if (blog.length > 0) {
+      nav.push('  - "Blog":', ...navItems(blog, '      '))
+    }
+
+    return [
+      `site_name: ${quote(this.title)}`,
+      `docs_dir: ${this.layout.contentDir}`,
+      'use_directory_urls: true',
+      'markdown_extensions:',
+      '  - tables',
+      '  - fenced_code',
+      '  - toc:',
+      '      permalink: true',
+      '  - admonition',
+      '  - attr_list',
+      '  - md_in_html',
+      'nav:',
+      ...nav,
+      '',
+    ].join('\n')
+  }
+
+  private buildDocusaurusFiles(tree: SiteNode[], blog: SiteNode[]): SiteFile[] {
+    const docId = (node: SiteNode): string => node.contentPath.replace(/\.mdx?$/, '')
+    const sidebarItems = (nodes: SiteNode[]): unknown[] =>
+      nodes.map((node) =>
+        node.children.length > 0
+          ? {
+              type: 'category',
+              label: node.page.title,
+              link: { type: 'doc', id: docId(node) },
+              items: sidebarItems(node.children),
+            }
+          : { type: 'doc', id: docId(node), label: node.page.title }
+      )
+
+    const items = sidebarItems(tree)
+    if (blog.length > 0) {
+      items.push({ type: 'category', label: 'Blog', items: sidebarItems(blog) })
+    }
+
+    const config = {
+      title: this.title,
+      url: 'https://example.com',
+      baseUrl: '/',
+      onBrokenLinks: 'warn',
+      onBrokenMarkdownLinks: 'warn',
+      // Plain .md files are CommonMark, so comments and raw HTML need no MDX escaping
+      markdown: { format: 'detect' },
+      presets: [
+        [
+          'classic',
+          {
+            docs: {
+              path: this.layout.contentDir,
+              routeBasePath: '/',
+              sidebarPath: './sidebars.js',
+              // Titles like "2024 Roadmap" would otherwise lose their number prefix
+              numberPrefixParser: false,
+            },
+            blog: false,
+          },
+        ],
+      ],
+    }
+
+    const packageJson = {
+      name: `${slugify(this.title)}-docs`,
+      private: true,
+      scripts: { build: 'docusaurus build', start: 'docusaurus start' },
+      dependencies: {
+        '@docusaurus/core': '^3.5.0',
+        '@docusaurus/preset-classic': '^3.5.0',
+        react: '^18.3.1',
+        'react-dom': '^18.3.1',
+      },
+    }
+
+    return [
+      {
+        path: 'sidebars.js',
+        content:
+          "/** @type {import('@docusaurus/plugin-content-docs').SidebarsConfig} */\n" +
+          `module.exports = ${JSON.stringify({ docs: items }, null, 2)}\n`,
+      },
+      {
+        path: 'docusaurus.config.js',
+        content:
+          "/** @type {import('@docusaurus/types').Config} */\n" +
+          `module.exports = ${JSON.stringify(config, null, 2)}\n`,
+      },
+      { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+      {
+        path: posix.join(this.layout.contentDir, 'index.md'),
+        content: this.buildDocusaurusIndex(tree, blog),
+      },
+    ]
+  }
+
+  /**
+   * Home page of the site: docs are served from the root, which no exported page takes
+   */
+  private buildDocusaurusIndex(tree: SiteNode[], blog: SiteNode[]): string {
+    const links = (nodes: SiteNode[]): string[] =>
+      nodes.map(
+        (node) => `- [${node.page.title.replace(/[[\]\\]/g, '\\$&')}](<${node.contentPath}>)`
+      )
+
+    const lines = ['---', `title: ${quote(this.title)}`, 'slug: /', '---', '', `# ${this.title}`]
+    if (tree.length > 0) {
+      lines.push('', ...links(tree))
+    }
+    if (blog.length > 0) {
+      lines.push('', '## Blog', '', ...links(blog))
+    }
+
+    return [...lines, ''].join('\n')
+  }
+
+  /**
+   * Hugo orders pages by their weight frontmatter, the menu lists the top-level pages
+   * Without a theme the starter layouts render each page with its child pages
+   */
+  private buildHugoFiles(tree: SiteNode[]): SiteFile[] {
+    const menu = tree.flatMap((node, index) => [
+      '',
+      '[[menus.main]]',
+      `  name = ${quote(node.page.title)}`,
+      `  pageRef = ${quote(`/${this.getUrlPath(node.contentPath)}`)}`,
+      `  weight = ${index + 1}`,
+    ])
+
+    const config = [
+      'baseURL = "/"',
+      `title = ${quote(this.title)}`,
+      'disableKinds = ["taxonomy", "term"]',
+      '',
+      '[markup.goldmark.renderer]',
+      '  unsafe = true',
+      '',
+      '# Resolve links to .md files and page-relative images',
+      '[markup.goldmark.renderHooks.link]',
+      '  useEmbedded = "always"',
+      '',
+      '[markup.goldmark.renderHooks.image]',
+      '  useEmbedded = "always"',
+      ...menu,
+      '',
+    ].join('\n')
+
+    return [
+      { path: 'hugo.toml', content: config },
+      { path: 'layouts/_default/baseof.html', content: HUGO_BASEOF, keepExisting: true },
+      {
+        path: 'layouts/_default/single.html',
+        content: '{{ define "main" }}\n<article>{{ .Content }}</article>\n{{ end }}\n',
+        keepExisting: true,
+      },
+      { path: 'layouts/_default/list.html', content: HUGO_LIST, keepExisting: true },
+    ]
+  }
+
+  /**
+   * Page tree, pages whose parent is not part of the site are top-level
+   */
+  private buildTree(): SiteNode[] {
+    const pages = this.pages.filter((page) => page.type !== 'blogpost')
+    const ids = new Set(pages.map((page) => page.id))
+    const nodes = new Map(pages.map((page) => [page.id, this.createNode(page)]))
+    const roots: SiteNode[] = []
+
+    for (const page of pages) {
+      const node = nodes.get(page.id)!
+      const parent = page.parentId && ids.has(page.parentId) ? nodes.get(page.parentId) : undefined
+      ;(parent ? parent.children : roots).push(node)
+    }
+
+    const sortTree = (siblings: SiteNode[]): SiteNode[] => {
+      siblings.sort(
+        (a, b) =>
+          (a.page.position ?? Infinity) - (b.page.position ?? Infinity) ||
+          a.page.title.localeCompare(b.page.title)
+      )
+      for (const node of siblings) {
+        sortTree(node.children)
+      }
+      return siblings
+    }
+
+    return sortTree(roots)
+  }
+
+  /**
+   * Blog posts, newest first
+   */
+  private buildBlog(): SiteNode[] {
+    return this.pages
+      .filter((page) => page.type === 'blogpost')
+      .sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''))
+      .map((page) => this.createNode(page))
+  }
+
+  private createNode(page: SitePage): SiteNode {
+    return {
+      page,
+      contentPath: posix.relative(this.layout.contentDir, page.path),
+      children: [],
+    }
+  }
+
+  private assignSettings(tree: SiteNode[], blog: SiteNode[]): void {
+    const assign = (siblings: SiteNode[]): void => {
+      siblings.forEach((node, index) => {
+        this.settings.set(node.page.id, {
+          generator: this.generator,
+          position: index + 1,
+          slug: this.getSlug(node.contentPath),
+        })
+        assign(node.children)
+      })
+    }
+
+    assign(tree)
+    assign(blog)
+  }
+
+  private getSlug(contentPath: string): string | undefined {
+    const urlPath = this.getUrlPath(contentPath)
+
+    if (this.generator === 'docusaurus') {
+      return `/${urlPath}`
+    }
+
+    // Hugo sections take their URL from the directory
+    const fileName = posix.basename(contentPath, posix.extname(contentPath))
+    return this.generator === 'hugo' && fileName !== this.layout.indexFileName
+      ? posix.basename(urlPath)
+      : undefined
+  }
+
+  /**
+   * URL path of a page without the leading slash, index pages take their directory's path
+   */
+  private getUrlPath(contentPath: string): string {
+    const withoutExtension = contentPath.replace(/\.mdx?$/, '')
+    const fileName = posix.basename(withoutExtension)
+
+    return fileName === this.layout.indexFileName
+      ? posix.dirname(withoutExtension)
+      : withoutExtension
+  }
+}
+
+const HUGO_BASEOF = `<!DOCTYPE html>
+<html lang="{{ site.LanguageCode | default "en" }}">
+<head>
+  <meta charset="utf-8">
+  <title>{{ if not .IsHome }}{{ .Title }} | {{ end }}{{ site.Title }}</title>
+</head>
+<body>
+  <nav>
+    <ul>
+      {{ range site.Menus.main }}<li><a href="{{ .URL }}">{{ .Name }}</a></li>{{ end }}
+    </ul>
+  </nav>
+  <main>{{ block "main" . }}{{ end }}</main>
+</body>
+</html>
+`
+
+const HUGO_LIST = `{{ define "main" }}
+<article>{{ .Content }}</article>
+<ul>
+  {{ range .Pages.ByWeight }}<li><a href="{{ .RelPermalink }}">{{ .Title }}</a></li>{{ end }}
+</ul>
+{{ end }}
+`
+
+/**
+ * Double-quoted string, valid in YAML and TOML
+ */
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'confluence'
+  )
+}
+
+export function createStaticSite(options: StaticSiteOptions): StaticSite {
+  return new StaticSite(options)
+}
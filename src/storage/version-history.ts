@@ -0,0 +1,50 @@
+/**
+ * How a history export lays out page versions below history/<page>/
+ * - files: one file per version, `<page>@v1.md`, `<page>@v2.md`, ...
+ * - snapshots: one directory per version, `v1/<page>.md`, `v2/<page>.md`, ...
+ */
+export type HistoryLayout = 'files' | 'snapshots'
+
+export const HISTORY_LAYOUTS: readonly HistoryLayout[] = ['files', 'snapshots']
+
+/**
+ * One version listed in CHANGELOG.md
+ */
+export interface ChangelogEntry {
+  version: number
+  author?: string
+  date?: Date
+  message?: string
+  minorEdit?: boolean
+  /**
+   * Path of the version file, relative to the changelog
+   */
+  path: string
+}
+
+/**
+ * Build the CHANGELOG.md of a page history export, newest version first
+ */
+export function buildChangelog(title: string, entries: ChangelogEntry[]): string {
+  const sections = [...entries]
+    .sort((a, b) => b.version - a.version)
+    .map((entry) => {
+      const heading = `## Version ${entry.version}${entry.minorEdit ? ' (minor edit)' : ''}`
+      const lines = [
+        `- Author: ${entry.author ?? 'Unknown'}`,
+        `- Date: ${entry.date ? formatChangelogDate(entry.date) : 'Unknown'}`,
+        `- Message: ${entry.message?.trim() || '_No version message_'}`,
+        `- File: [${entry.path}](${encodeURI(entry.path)})`,
+      ]
+      return `${heading}\n\n${lines.join('\n')}`
+    })
+
+  return `# Changelog: ${title}\n\n${sections.join('\n\n')}\n`
+}
+
+/**
+ * UTC timestamp without seconds, e.g. 2024-05-01 14:03 UTC
+ */
+function formatChangelogDate(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
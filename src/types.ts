@@ -31,6 +31,11 @@ export interface ConfluencePage {
   id: string
   title: string
 
+  /**
+   * Content type, pages when unset
+   */
+  type?: 'page' | 'blogpost'
+
   /**
    * Content in different formats
    * CRITICAL: Both storage and view formats are required for proper macro extraction
@@ -64,14 +69,31 @@ export interface ConfluencePage {
   metadata?: {
     labels?: string[]
     createdBy?: string
+    /**
+     * Cloud account ID of the author (v2 returns no names or emails)
+     */
+    createdById?: string
     createdAt?: Date
     updatedAt?: Date
     url?: string
     parentId?: string
+    /**
+     * Ancestor chain from the space root down to the direct parent
+     */
+    ancestors?: Array<{ id: string; title: string }>
     position?: number
     properties?: Record<string, any>
+    /**
+     * Publish date of blog posts
+     */
+    publishedAt?: Date
   }
 
+  /**
+   * Footer and inline comments, threaded (only fetched when includeComments is enabled)
+   */
+  comments?: ConfluenceComment[]
+
   /**
    * Legacy fields for backward compatibility
    * @deprecated Use content.view instead
@@ -83,6 +105,91 @@ export interface ConfluencePage {
   updatedAt?: Date
 }
 
+/**
+ * Page comment with its replies
+ */
+export interface ConfluenceComment {
+  id: string
+  /**
+   * Footer comments sit below the page, inline comments are anchored to a text selection
+   */
+  location: 'footer' | 'inline'
+  /**
+   * Storage format (XHTML) body
+   */
+  body: string
+  author?: string
+  createdAt?: Date
+  /**
+   * Text the inline comment is anchored to
+   */
+  inlineText?: string
+  resolved?: boolean
+  replies: ConfluenceComment[]
+}
+
+/**
+ * Page listing without bodies, used for cheap change detection
+ */
+export type ConfluencePageSummary = Pick<
+  ConfluencePage,
+  'id' | 'title' | 'spaceKey' | 'version' | 'metadata'
+>
+
+/**
+ * Inclusive publish date range for blog post exports, open-ended when a bound is unset
+ */
+export interface BlogPostDateRange {
+  from?: Date
+  to?: Date
+}
+
+/**
+ * One saved version of a page, with the page content as of that version
+ */
+export interface ConfluencePageVersion {
+  number: number
+  createdAt?: Date
+  /**
+   * Display name of the editor, when the API returns it (v1)
+   */
+  authorName?: string
+  /**
+   * Cloud account ID of the editor
+   */
+  authorId?: string
+  /**
+   * Email of the editor, when the API returns it (v1, hidden by most Cloud privacy settings)
+   */
+  authorEmail?: string
+  message?: string
+  minorEdit?: boolean
+  page: ConfluencePage
+}
+
+/**
+ * Version details without the page content, as listed by the version history
+ */
+export type ConfluencePageVersionSummary = Omit<ConfluencePageVersion, 'page'>
+
+/**
+ * Which versions to fetch for a history export, newest first
+ */
+export interface PageVersionOptions {
+  /**
+   * Skip versions saved before this date
+   */
+  since?: Date
+  /**
+   * Keep only the most recent N versions
+   */
+  maxVersions?: number
+  /**
+   * Skip this version and older ones (already exported)
+   */
+  afterVersion?: number
+}
+
 export interface ExportResult {
   success: boolean
   pages: ConfluencePage[]
@@ -11,6 +11,21 @@ export function formatDate(date: Date): string {
   return date.toISOString()
 }
 
+/**
+ * Parse a YYYY-MM-DD date as UTC
+ * @param value - Date string
+ * @param endOfDay - Return the last millisecond of the day, for inclusive upper bounds
+ * @returns Date or undefined if the value is not a valid date
+ */
+export function parseDate(value: string, endOfDay: boolean = false): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined
+  }
+
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+  return isNaN(date.getTime()) || !date.toISOString().startsWith(value) ? undefined : date
+}
+
 /**
  * Sanitize a filename by removing invalid characters
  * @param filename - Filename to sanitize
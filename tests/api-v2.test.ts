@@ -0,0 +1,303 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createApiClient,
+  createContentFetcher,
+  createAttachmentHandler,
+  ContentFetcher,
+  ContentFetcherV2,
+  AttachmentHandlerV2,
+  PaginationHandler,
+} from '../src/core/index.js'
+
+const SITE = 'https://company.atlassian.net'
+
+/**
+ * API client whose GET requests are answered from a URL map
+ */
+function mockV2Client(responses: Record<string, unknown>) {
+  const apiClient = createApiClient({ baseUrl: SITE, token: 'token', apiVersion: 'v2' })
+  vi.spyOn(apiClient, 'get').mockImplementation(async (url: string, config?: any) => {
+    const query = new URLSearchParams(config?.params ?? {}).toString()
+    const key = query ? `${url}?${query}` : url
+    if (!(key in responses)) {
+      throw new Error(`Unexpected request: ${key}`)
+    }
+    return responses[key] as any
+  })
+  return { apiClient }
+}
+
+describe('PaginationHandler.fetchAllByCursor', () => {
+  it('should follow next links until the last page', async () => {
+    const handler = new PaginationHandler()
+    const fetchPage = vi.fn(async (nextLink?: string) =>
+      nextLink
+        ? { results: [3], _links: {} }
+        : { results: [1, 2], _links: { next: '/wiki/api/v2/spaces/1/pages?cursor=abc' } }
+    )
+
+    expect(await handler.fetchAllByCursor(fetchPage)).toEqual([1, 2, 3])
+    expect(fetchPage).toHaveBeenLastCalledWith('/wiki/api/v2/spaces/1/pages?cursor=abc')
+  })
+})
+
+describe('REST API v2 backend', () => {
+  it('should be selected from the client API version', () => {
+    const v1 = createApiClient({ baseUrl: SITE, token: 'token' })
+    const { apiClient: v2 } = mockV2Client({})
+
+    expect(createContentFetcher({ apiClient: v1 })).toBeInstanceOf(ContentFetcher)
+    expect(createContentFetcher({ apiClient: v1 })).not.toBeInstanceOf(ContentFetcherV2)
+    expect(createContentFetcher({ apiClient: v2 })).toBeInstanceOf(ContentFetcherV2)
+    expect(createAttachmentHandler({ apiClient: v2 })).toBeInstanceOf(AttachmentHandlerV2)
+  })
+
+  it('should reject v2 on Data Center', () => {
+    expect(() =>
+      createApiClient({ baseUrl: 'https://company.com/confluence', apiVersion: 'v2' })
+    ).toThrow('only available on Confluence Cloud')
+  })
+
+  it('should list space pages with cursor pagination and rebuild ancestors', async () => {
+    const { apiClient } = mockV2Client({
+      [`${SITE}/wiki/api/v2/spaces?keys=TEAM`]: {
+        results: [{ id: '9', key: 'TEAM', name: 'Team' }],
+      },
+      [`${SITE}/wiki/api/v2/spaces/9/pages?limit=250&status=current`]: {
+        results: [
+          { id: '1', title: 'Home', spaceId: '9', version: { number: 3, createdAt: '2024-01-01' } },
+          {
+            id: '2',
+            title: 'Guide',
+            spaceId: '9',
+            parentId: '1',
+            version: { number: 1, createdAt: '2024-01-02' },
+          },
+        ],
+        _links: { next: '/wiki/api/v2/spaces/9/pages?cursor=next' },
+      },
+      [`${SITE}/wiki/api/v2/spaces/9/pages?cursor=next`]: {
+        results: [
+          {
+            id: '3',
+            title: 'Setup',
+            spaceId: '9',
+            parentId: '2',
+            version: { number: 2, createdAt: '2024-01-03' },
+          },
+        ],
+        _links: {},
+      },
+    })
+
+    const pages = await createContentFetcher({ apiClient }).listSpacePages('TEAM')
+
+    expect(pages.map((page) => [page.id, page.version])).toEqual([
+      ['1', 3],
+      ['2', 1],
+      ['3', 2],
+    ])
+    expect(pages[2].spaceKey).toBe('TEAM')
+    expect(pages[2].metadata?.parentId).toBe('2')
+    expect(pages[2].metadata?.ancestors).toEqual([
+      { id: '1', title: 'Home' },
+      { id: '2', title: 'Guide' },
+    ])
+  })
+
+  it('should fetch a page with the same shape as v1', async () => {
+    const page = {
+      id: '2',
+      title: 'Guide',
+      spaceId: '9',
+      parentId: '1',
+      parentType: 'page',
+      createdAt: '2024-01-01T00:00:00Z',
+      version: { number: 4, createdAt: '2024-02-01T00:00:00Z', authorId: 'acc-1' },
+      labels: { results: [{ name: 'howto' }] },
+      _links: { webui: '/spaces/TEAM/pages/2/Guide' },
+    }
+    const { apiClient } = mockV2Client({
+      [`${SITE}/wiki/api/v2/pages/2?body-format=storage&include-labels=true&include-properties=true&include-version=true`]:
+        { ...page, body: { storage: { value: '<p>storage</p>', representation: 'storage' } } },
+      [`${SITE}/wiki/api/v2/pages/2?body-format=view`]: {
+        ...page,
+        body: { view: { value: '<p>view</p>', representation: 'view' } },
+      },
+      [`${SITE}/wiki/api/v2/pages/2?body-format=export_view`]: { ...page, body: {} },
+      [`${SITE}/wiki/api/v2/pages/2/ancestors?limit=250`]: { results: [{ id: '1', type: 'page' }] },
+      [`${SITE}/wiki/api/v2/spaces/9`]: { id: '9', key: 'TEAM', name: 'Team' },
+    })
+
+    const result = await createContentFetcher({ apiClient }).fetchPage('2')
+
+    expect(result.content).toEqual({
+      storage: '<p>storage</p>',
+      view: '<p>view</p>',
+      exportView: undefined,
+    })
+    expect(result.spaceKey).toBe('TEAM')
+    expect(result.version).toBe(4)
+    expect(result.metadata?.labels).toEqual(['howto'])
+    expect(result.metadata?.parentId).toBe('1')
+    expect(result.metadata?.createdBy).toBeUndefined()
+    expect(result.metadata?.createdById).toBe('acc-1')
+    expect(result.metadata?.url).toBe(`${SITE}/wiki/spaces/TEAM/pages/2/Guide`)
+  })
+
+  it('should fetch space pages with the ancestors of the listing', async () => {
+    const pages = [
+      { id: '1', title: 'Home', spaceId: '9', version: { number: 1, createdAt: '2024-01-01' } },
+      { id: '2', title: 'Guide', spaceId: '9', parentId: '1', parentType: 'page' },
+    ]
+    const responses: Record<string, unknown> = {
+      [`${SITE}/wiki/api/v2/spaces?keys=TEAM`]: {
+        results: [{ id: '9', key: 'TEAM', name: 'Team' }],
+      },
+      [`${SITE}/wiki/api/v2/spaces/9/pages?limit=250&status=current`]: { results: pages },
+    }
+    for (const page of pages) {
+      const url = `${SITE}/wiki/api/v2/pages/${page.id}`
+      responses[
+        `${url}?body-format=storage&include-labels=true&include-properties=true&include-version=true`
+      ] = { ...page, body: { storage: { value: `<p>${page.title}</p>` } } }
+      responses[`${url}?body-format=view`] = { ...page, body: { view: { value: '<p>view</p>' } } }
+      responses[`${url}?body-format=export_view`] = { ...page, body: {} }
+    }
+    const { apiClient } = mockV2Client(responses)
+
+    const result = await createContentFetcher({ apiClient }).fetchSpace('TEAM')
+
+    expect(result.map((page) => page.content.storage)).toEqual(['<p>Home</p>', '<p>Guide</p>'])
+    expect(result[1].metadata?.ancestors).toEqual([{ id: '1', title: 'Home' }])
+    expect(vi.mocked(apiClient.get).mock.calls.map(([url]) => url)).not.toContainEqual(
+      expect.stringContaining('/ancestors')
+    )
+  })
+
+  it('should fetch blog posts published within the date range', async () => {
+    const post = {
+      id: '5',
+      title: 'Launch',
+      spaceId: '9',
+      createdAt: '2024-03-15T09:00:00Z',
+      version: { number: 1, createdAt: '2024-03-16T00:00:00Z' },
+    }
+    const { apiClient } = mockV2Client({
+      [`${SITE}/wiki/api/v2/spaces?keys=TEAM`]: {
+        results: [{ id: '9', key: 'TEAM', name: 'Team' }],
+      },
+      [`${SITE}/wiki/api/v2/spaces/9/blogposts?limit=250&status=current`]: {
+        results: [post, { ...post, id: '6', title: 'Old news', createdAt: '2023-12-01T00:00:00Z' }],
+      },
+      [`${SITE}/wiki/api/v2/blogposts/5?body-format=storage&include-labels=true&include-properties=true&include-version=true`]:
+        { ...post, body: { storage: { value: '<p>storage</p>', representation: 'storage' } } },
+      [`${SITE}/wiki/api/v2/blogposts/5?body-format=view`]: {
+        ...post,
+        body: { view: { value: '<p>view</p>', representation: 'view' } },
+      },
+      [`${SITE}/wiki/api/v2/blogposts/5?body-format=export_view`]: { ...post, body: {} },
+      [`${SITE}/wiki/api/v2/spaces/9`]: { id: '9', key: 'TEAM', name: 'Team' },
+    })
+
+    const posts = await createContentFetcher({ apiClient }).fetchSpaceBlogPosts('TEAM', {
+      from: new Date('2024-01-01T00:00:00Z'),
+    })
+
+    expect(posts.map((p) => p.id)).toEqual(['5'])
+    expect(posts[0].type).toBe('blogpost')
+    expect(posts[0].metadata?.publishedAt).toEqual(new Date('2024-03-15T09:00:00Z'))
+    expect(posts[0].metadata?.ancestors).toEqual([])
+    expect(posts[0].metadata?.url).toBe(`${SITE}/wiki/spaces/TEAM/blog/5`)
+  })
+
+  it('should fetch only the selected page versions, oldest first', async () => {
+    const page = { id: '2', title: 'Policy', spaceId: '9' }
+    const body = (number: number, format: string) => ({
+      ...page,
+      version: { number, createdAt: `2024-0${number}-01T00:00:00Z`, authorId: 'acc-1' },
+      body: { [format]: { value: `<p>v${number}</p>`, representation: format } },
+    })
+    const versionResponses = (number: number) => ({
+      [`${SITE}/wiki/api/v2/pages/2?body-format=storage&include-labels=true&include-properties=true&include-version=true&version=${number}`]:
+        body(number, 'storage'),
+      [`${SITE}/wiki/api/v2/pages/2?body-format=view&version=${number}`]: body(number, 'view'),
+      [`${SITE}/wiki/api/v2/pages/2?body-format=export_view&version=${number}`]: body(
+        number,
+        'export_view'
+      ),
+    })
+    const { apiClient } = mockV2Client({
+      [`${SITE}/wiki/api/v2/pages/2/versions?limit=250`]: {
+        results: [1, 2, 3, 4].map((number) => ({
+          number,
+          createdAt: `2024-0${number}-01T00:00:00Z`,
+          authorId: 'acc-1',
+          message: number === 4 ? 'Yearly review' : '',
+          minorEdit: number === 3,
+        })),
+      },
+      ...versionResponses(3),
+      ...versionResponses(4),
+      [`${SITE}/wiki/api/v2/spaces/9`]: { id: '9', key: 'TEAM', name: 'Team' },
+    })
+
+    const versions = await createContentFetcher({ apiClient }).fetchPageVersions('2', {
+      since: new Date('2024-02-01T00:00:00Z'),
+      maxVersions: 2,
+    })
+
+    expect(versions.map((version) => [version.number, version.page.content.storage])).toEqual([
+      [3, '<p>v3</p>'],
+      [4, '<p>v4</p>'],
+    ])
+    expect(versions[0]).toMatchObject({ authorId: 'acc-1', minorEdit: true, message: undefined })
+    expect(versions[1].message).toBe('Yearly review')
+    expect(versions[1].page.version).toBe(4)
+  })
+
+  it('should list page versions without fetching their content', async () => {
+    const { apiClient } = mockV2Client({
+      [`${SITE}/wiki/api/v2/pages/2/versions?limit=250`]: {
+        results: [2, 1, 3].map((number) => ({
+          number,
+          createdAt: `2024-0${number}-01T00:00:00Z`,
+          authorId: 'acc-1',
+        })),
+      },
+    })
+
+    const versions = await createContentFetcher({ apiClient }).listPageVersions('2', {
+      afterVersion: 1,
+    })
+
+    expect(versions).toEqual([
+      { number: 2, createdAt: new Date('2024-02-01T00:00:00Z'), authorId: 'acc-1' },
+      { number: 3, createdAt: new Date('2024-03-01T00:00:00Z'), authorId: 'acc-1' },
+    ])
+  })
+
+  it('should list attachments with download URLs under /wiki', async () => {
+    const { apiClient } = mockV2Client({
+      [`${SITE}/wiki/api/v2/pages/2/attachments?limit=250`]: {
+        results: [
+          {
+            id: 'att1',
+            title: 'diagram.png',
+            mediaType: 'image/png',
+            fileSize: 10,
+            downloadLink: '/download/attachments/2/diagram.png?version=1',
+          },
+        ],
+      },
+    })
+
+    const attachments = await createAttachmentHandler({ apiClient }).fetchPageAttachments('2')
+
+    expect(attachments[0]).toMatchObject({
+      filename: 'diagram.png',
+      mediaType: 'image/png',
+      downloadUrl: `${SITE}/wiki/download/attachments/2/diagram.png?version=1`,
+    })
+  })
+})
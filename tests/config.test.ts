@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ConfigLoader, flattenConfig } from '../src/config/index.js'
+import type { PdfOptions } from '../src/config/config-schema.js'
+import { maskSecret } from '../src/cli/commands/config-show.js'
+
+describe('ConfigLoader.inspect', () => {
+  const savedEnv = { ...process.env }
+
+  beforeEach(() => {
+    delete process.env.CONFLUENCE_BASE_URL
+    delete process.env.CONFLUENCE_EMAIL
+    delete process.env.CONFLUENCE_TOKEN
+    delete process.env.CONFLUENCE_FORMAT
+    delete process.env.CONFLUENCE_OUTPUT
+    delete process.env.CONFLUENCE_DEPLOYMENT
+    delete process.env.CONFLUENCE_AUTH_TYPE
+    delete process.env.CONFLUENCE_JIRA_URL
+    delete process.env.CONFLUENCE_JIRA_SNAPSHOT
+  })
+
+  afterEach(() => {
+    process.env = { ...savedEnv }
+  })
+
+  it('should attribute each key to the layer it came from', async () => {
+    process.env.CONFLUENCE_EMAIL = 'env@example.com'
+    process.env.CONFLUENCE_TOKEN = 'env-token'
+
+    const inspection = await ConfigLoader.getInstance().inspect({
+      baseUrl: 'https://example.atlassian.net',
+      token: 'cli-token',
+    })
+
+    expect(inspection.issues).toEqual([])
+    expect(inspection.config.token).toBe('cli-token')
+    expect(inspection.sources.baseUrl).toBe('cli')
+    expect(inspection.sources.token).toBe('cli')
+    expect(inspection.sources.email).toBe('env')
+    expect(inspection.sources.format).toBe('default')
+    expect(inspection.sources['api.timeout']).toBe('default')
+  })
+
+  it('should merge nested sections key by key across layers', async () => {
+    process.env.CONFLUENCE_JIRA_SNAPSHOT = './jira.json'
+
+    const inspection = await ConfigLoader.getInstance().inspect({
+      baseUrl: 'https://example.atlassian.net',
+      jira: { baseUrl: 'https://jira.example.com' },
+      conversion: { pdf: { format: 'Letter' } as PdfOptions },
+    })
+
+    expect(inspection.config.jira).toEqual({
+      snapshot: './jira.json',
+      baseUrl: 'https://jira.example.com',
+    })
+    expect(inspection.config.conversion?.pdf?.format).toBe('Letter')
+    expect(inspection.config.conversion?.pdf?.margin.top).toBe('20mm')
+    expect(inspection.config.conversion?.markdown?.flavor).toBe('markdown')
+    expect(inspection.sources['conversion.pdf.format']).toBe('cli')
+    expect(inspection.sources['jira.snapshot']).toBe('env')
+  })
+
+  it('should read every export format from the environment', async () => {
+    process.env.CONFLUENCE_FORMAT = 'JSON'
+
+    const inspection = await ConfigLoader.getInstance().inspect({
+      baseUrl: 'https://example.atlassian.net',
+    })
+
+    expect(inspection.config.format).toBe('json')
+    expect(inspection.sources.format).toBe('env')
+  })
+
+  it('should report schema errors instead of throwing', async () => {
+    const inspection = await ConfigLoader.getInstance().inspect({
+      baseUrl: 'not a url',
+      deployment: 'cloud',
+      email: 'not-an-email',
+      token: 'token',
+    })
+
+    const paths = inspection.issues.map((issue) => issue.path)
+    expect(paths).toContain('baseUrl')
+    expect(paths).toContain('email')
+    expect(inspection.config.baseUrl).toBe('not a url')
+  })
+})
+
+describe('flattenConfig', () => {
+  it('should flatten nested keys to sorted dotted paths', () => {
+    expect(
+      flattenConfig({ output: './out', api: { timeout: 1, retries: 2 }, skip: undefined })
+    ).toEqual([
+      ['api.retries', 2],
+      ['api.timeout', 1],
+      ['output', './out'],
+    ])
+  })
+})
+
+describe('maskSecret', () => {
+  it('should keep only the last characters of long secrets', () => {
+    expect(maskSecret('ATATT3xFfGF0abcdefgh1234')).toBe('********1234')
+    expect(maskSecret('short')).toBe('********')
+    expect(maskSecret(undefined)).toBe('')
+  })
+})
@@ -0,0 +1,1644 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import JSZip from 'jszip'
+import { compile } from '@mdx-js/mdx'
+import { createPdfConverter } from '../src/converters/pdf-converter.js'
+import { createDocxConverter } from '../src/converters/docx-converter.js'
+import { createMarkdownConverter } from '../src/converters/markdown-converter.js'
+import { createJsonConverter } from '../src/converters/json-converter.js'
+import { createLinkResolver } from '../src/converters/link-resolver.js'
+import { createPagePropertiesReportBuilder } from '../src/converters/page-properties-report.js'
+import { createMdxTransformer } from '../src/converters/mdx-transformer.js'
+import { HtmlProcessor } from '../src/converters/html-processor.js'
+import { createMermaidRenderer } from '../src/converters/mermaid-renderer.js'
+import { MermaidRenderError, PdfConversionError } from '../src/errors/index.js'
+import {
+  createApiClient,
+  ContentFetcher,
+  createJiraIssueCache,
+  createUserDirectory,
+  createExportedPageTree,
+  createCqlPageTree,
+  createIncludedPageCache,
+} from '../src/core/index.js'
+import { createFileWriter, getSidecarPath } from '../src/storage/index.js'
+import type { ConfluenceComment, ConfluencePage } from '../src/types.js'
+import type { ManifestPage } from '../src/storage/manifest.js'
+
+const mockBrowserPage = {
+  setRequestInterception: vi.fn(),
+  on: vi.fn(),
+  setContent: vi.fn(),
+  pdf: vi.fn(),
+  close: vi.fn(),
+}
+
+const mockBrowser = {
+  newPage: vi.fn(async () => mockBrowserPage),
+  close: vi.fn(),
+}
+
+vi.mock('puppeteer', () => ({
+  default: {
+    launch: vi.fn(async () => mockBrowser),
+  },
+}))
+
+function createPage(overrides: Partial<ConfluencePage> = {}): ConfluencePage {
+  return {
+    id: '123',
+    title: 'Test Page',
+    spaceKey: 'TEST',
+    version: 2,
+    content: {
+      storage: '<p>Hello</p>',
+      view: '<p>Hello</p>',
+      exportView:
+        '<p>Hello</p><img src="/wiki/download/attachments/123/diagram%201.png?version=1" />',
+    },
+    ...overrides,
+  }
+}
+
+describe('PdfConverter', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `conflu-test-${Date.now()}`)
+    await mkdir(testDir, { recursive: true })
+    vi.clearAllMocks()
+    mockBrowserPage.pdf.mockResolvedValue(new Uint8Array([37, 80, 68, 70]))
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should render PDF with configured page setup', async () => {
+    const converter = createPdfConverter({
+      format: 'Letter',
+      includeHeaderFooter: true,
+      margin: { top: '10mm', bottom: '10mm', left: '5mm', right: '5mm' },
+    })
+
+    const result = await converter.convert(createPage())
+
+    expect(Buffer.isBuffer(result.content)).toBe(true)
+    expect(result.metadata.format).toBe('pdf')
+    expect(mockBrowserPage.pdf).toHaveBeenCalledWith(
+      expect.objectContaining({
+        format: 'Letter',
+        displayHeaderFooter: true,
+        margin: { top: '10mm', bottom: '10mm', left: '5mm', right: '5mm' },
+      })
+    )
+    expect(mockBrowserPage.close).toHaveBeenCalled()
+  })
+
+  it('should reuse one browser until the converter is closed', async () => {
+    const { default: puppeteer } = await import('puppeteer')
+    const converter = createPdfConverter()
+
+    await converter.convert(createPage())
+    await converter.convert(createPage({ id: '124' }))
+
+    expect(puppeteer.launch).toHaveBeenCalledTimes(1)
+    expect(mockBrowser.newPage).toHaveBeenCalledTimes(2)
+    expect(mockBrowser.close).not.toHaveBeenCalled()
+
+    await converter.close()
+
+    expect(mockBrowser.close).toHaveBeenCalledTimes(1)
+  })
+
+  it('should embed downloaded images as data URIs', async () => {
+    await writeFile(join(testDir, 'diagram 1.png'), Buffer.from('fake-image-data'))
+
+    const converter = createPdfConverter()
+    await converter.convert(createPage(), { assetsDir: testDir })
+
+    const html = mockBrowserPage.setContent.mock.calls[0][0] as string
+    expect(html).toContain(
+      `data:image/png;base64,${Buffer.from('fake-image-data').toString('base64')}`
+    )
+    expect(html).toContain('<h1>Test Page</h1>')
+  })
+
+  it('should throw PdfConversionError when rendering fails', async () => {
+    mockBrowserPage.pdf.mockRejectedValue(new Error('Chromium crashed'))
+
+    const converter = createPdfConverter()
+
+    await expect(converter.convert(createPage())).rejects.toBeInstanceOf(PdfConversionError)
+    expect(mockBrowserPage.close).toHaveBeenCalled()
+  })
+})
+
+describe('DocxConverter', () => {
+  const storage =
+    '<h2>Overview</h2>' +
+    '<table><tbody><tr><th>Key</th><th>Value</th></tr><tr><td>a</td><td>b</td></tr></tbody></table>' +
+    '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">ts</ac:parameter>' +
+    '<ac:plain-text-body>const x = 1 &lt; 2</ac:plain-text-body></ac:structured-macro>'
+
+  async function readDocx(content: string | Buffer): Promise<JSZip> {
+    expect(Buffer.isBuffer(content)).toBe(true)
+    return JSZip.loadAsync(content as Buffer)
+  }
+
+  it('should produce a DOCX package with the page content', async () => {
+    const converter = createDocxConverter()
+
+    const result = await converter.convert(
+      createPage({ content: { storage, view: '<h2>Overview</h2>' } })
+    )
+
+    expect(result.metadata.format).toBe('docx')
+    expect(converter.getFileExtension()).toBe('.docx')
+
+    const zip = await readDocx(result.content)
+    expect(zip.file('word/document.xml')).not.toBeNull()
+  })
+
+  it('should write page metadata to core properties', async () => {
+    const converter = createDocxConverter({ includeMetadata: true })
+
+    const result = await converter.convert(
+      createPage({
+        version: 7,
+        metadata: { labels: ['legal', 'policy'], createdBy: 'Jane Doe' },
+      })
+    )
+
+    const zip = await readDocx(result.content)
+    const core = await zip.file('docProps/core.xml')!.async('string')
+    const contentTypes = await zip.file('[Content_Types].xml')!.async('string')
+
+    expect(core).toContain('<dc:title>Test Page</dc:title>')
+    expect(core).toContain('<dc:creator>Jane Doe</dc:creator>')
+    expect(core).toContain('<cp:keywords>legal, policy</cp:keywords>')
+    expect(core).toContain('<cp:revision>7</cp:revision>')
+    expect(contentTypes).toContain('/docProps/core.xml')
+  })
+
+  it('should skip core properties when includeMetadata is off', async () => {
+    const converter = createDocxConverter({ includeMetadata: false })
+
+    const result = await converter.convert(createPage())
+
+    const zip = await readDocx(result.content)
+    expect(zip.file('docProps/core.xml')).toBeNull()
+  })
+})
+
+describe('LinkResolver', () => {
+  const pages: ManifestPage[] = [
+    { id: '1', title: 'Home', spaceKey: 'TEAM', path: 'TEAM/home/index.md', attachments: 0 },
+    {
+      id: '2',
+      title: 'Other Page',
+      spaceKey: 'TEAM',
+      path: 'TEAM/home/other-page.md',
+      attachments: 0,
+    },
+    { id: '3', title: 'Deep', spaceKey: 'TEAM', path: 'TEAM/home/guide/deep.md', attachments: 0 },
+  ]
+  const resolver = createLinkResolver({ pages, baseUrl: 'https://example.atlassian.net/wiki' })
+
+  it('should rewrite view links by page ID to relative paths', () => {
+    const { markdown, report } = resolver.resolve(
+      '[Other](/wiki/spaces/TEAM/pages/2/Other+Page#OtherPage-Installation) <!-- Confluence Page ID: 2 -->',
+      '3'
+    )
+
+    expect(markdown).toBe('[Other](../other-page.md#installation) <!-- Confluence Page ID: 2 -->')
+    expect(report.resolved).toBe(1)
+  })
+
+  it('should rewrite storage page links by space and title', () => {
+    const { markdown } = resolver.resolve('[Deep](/wiki/display/TEAM/Deep)', '1')
+
+    expect(markdown).toBe('[Deep](guide/deep.md) <!-- Confluence Page ID: 3 -->')
+  })
+
+  it('should keep unresolved targets absolute and report them', () => {
+    const { markdown, report } = resolver.resolve(
+      '[Elsewhere](/wiki/spaces/OPS/pages/99/Runbook) <!-- Confluence Page ID: 99 -->',
+      '1'
+    )
+
+    expect(markdown).toContain('(https://example.atlassian.net/wiki/spaces/OPS/pages/99/Runbook)')
+    expect(report.unresolved).toEqual([
+      { pageId: '1', target: 'https://example.atlassian.net/wiki/spaces/OPS/pages/99/Runbook' },
+    ])
+  })
+
+  it('should keep links in fenced code and code spans as written', () => {
+    const input = [
+      'See `[Deep](/wiki/display/TEAM/Deep)` and [Deep](/wiki/display/TEAM/Deep)',
+      '',
+      '```markdown',
+      '[Deep](/wiki/display/TEAM/Deep)',
+      '```',
+    ].join('\n')
+
+    const { markdown, report } = resolver.resolve(input, '1')
+
+    expect(markdown).toBe(
+      [
+        'See `[Deep](/wiki/display/TEAM/Deep)` and [Deep](guide/deep.md) <!-- Confluence Page ID: 3 -->',
+        '',
+        '```markdown',
+        '[Deep](/wiki/display/TEAM/Deep)',
+        '```',
+      ].join('\n')
+    )
+    expect(report).toEqual({ resolved: 1, unresolved: [] })
+  })
+
+  it('should re-resolve previously rewritten links after a move', () => {
+    const moved = createLinkResolver({
+      pages: [pages[0], { ...pages[1], path: 'TEAM/home/archive/other-page.md' }],
+      baseUrl: 'https://example.atlassian.net',
+    })
+
+    const { markdown } = moved.resolve('[Other](other-page.md) <!-- Confluence Page ID: 2 -->', '1')
+
+    expect(markdown).toBe('[Other](archive/other-page.md) <!-- Confluence Page ID: 2 -->')
+  })
+
+  it('should leave images and external links untouched', () => {
+    const input = '![diagram](<./assets/a.png>) [site](https://example.com)'
+
+    expect(resolver.resolve(input, '1').markdown).toBe(input)
+  })
+
+  it('should only treat links into the Confluence site as page links', () => {
+    const input =
+      '[repo](https://github.com/org/repo/pages/2) [wiki](https://other.example.com/viewpage.action?pageId=2)'
+    const { markdown, report } = resolver.resolve(
+      `${input} [abs](https://example.atlassian.net/wiki/pages/viewpage.action?pageId=2)`,
+      '1'
+    )
+
+    expect(markdown).toBe(`${input} [abs](other-page.md) <!-- Confluence Page ID: 2 -->`)
+    expect(report.unresolved).toEqual([])
+  })
+
+  it('should write file paths with parentheses as <> destinations', () => {
+    const withParens = createLinkResolver({
+      pages: [pages[0], { ...pages[1], path: 'TEAM/home/other-(draft).md' }],
+      baseUrl: 'https://example.atlassian.net/wiki',
+    })
+
+    const first = withParens.resolve('[Other](/wiki/spaces/TEAM/pages/2/Other)', '1').markdown
+    const second = withParens.resolve(first, '1')
+
+    expect(first).toBe('[Other](<other-(draft).md>) <!-- Confluence Page ID: 2 -->')
+    expect(second.markdown).toBe(first)
+    expect(second.report.resolved).toBe(1)
+  })
+})
+
+describe('HtmlProcessor page links', () => {
+  it('should turn ri:page links into display links for the resolver', async () => {
+    const processor = new HtmlProcessor()
+    const storage =
+      '<ac:structured-macro ac:name="code"><ac:plain-text-body>x</ac:plain-text-body></ac:structured-macro>' +
+      '<p><ac:link ac:anchor="Setup"><ri:page ri:content-title="Other Page"/>' +
+      '<ac:plain-text-link-body><![CDATA[see setup]]></ac:plain-text-link-body></ac:link></p>'
+
+    const processed = await processor.process(storage, '<p>view</p>', 'TEAM')
+
+    expect(processed.html).toContain(
+      '<a href="/wiki/display/TEAM/Other+Page#Setup" data-confluence-link="true">see setup</a>'
+    )
+    expect(processed.links[0]).toMatchObject({ type: 'page', anchor: 'Setup' })
+  })
+})
+
+describe('Page comments', () => {
+  const comments: ConfluenceComment[] = [
+    {
+      id: 'c2',
+      location: 'inline',
+      body: '<p>Typo here</p>',
+      author: 'Bob',
+      inlineText: 'teh  setup',
+      resolved: true,
+      replies: [],
+    },
+    {
+      id: 'c1',
+      location: 'footer',
+      body: '<p>Looks <strong>good</strong></p>',
+      author: 'Alice',
+      createdAt: new Date('2024-03-01T10:00:00Z'),
+      replies: [
+        {
+          id: 'c3',
+          location: 'footer',
+          body: '<p>Thanks!</p>',
+          author: 'Carol',
+          replies: [],
+        },
+      ],
+    },
+  ]
+
+  it('should thread replies under their parent comment', async () => {
+    const apiClient = createApiClient({ baseUrl: 'https://example.atlassian.net', token: 't' })
+    vi.spyOn(apiClient, 'get').mockResolvedValue({
+      results: [
+        {
+          id: 'c1',
+          type: 'comment',
+          body: { storage: { value: '<p>Top</p>' } },
+          history: { createdBy: { displayName: 'Alice' }, createdDate: '2024-03-01T10:00:00Z' },
+          extensions: { location: 'footer' },
+        },
+        {
+          id: 'c3',
+          type: 'comment',
+          body: { storage: { value: '<p>Reply</p>' } },
+          ancestors: [{ id: 'c1', type: 'comment' }],
+          extensions: { location: 'footer' },
+        },
+        {
+          id: 'c2',
+          type: 'comment',
+          body: { storage: { value: '<p>Inline</p>' } },
+          extensions: {
+            location: 'inline',
+            inlineProperties: { originalSelection: 'setup' },
+            resolution: { status: 'resolved' },
+          },
+        },
+      ],
+      start: 0,
+      limit: 50,
+      size: 3,
+    })
+
+    const threads = await new ContentFetcher({ apiClient }).fetchPageComments('123')
+
+    expect(apiClient.get).toHaveBeenCalledWith('/content/123/child/comment', {
+      params: expect.objectContaining({ depth: 'all' }),
+    })
+    expect(threads.map((comment) => comment.id)).toEqual(['c1', 'c2'])
+    expect(threads[0]).toMatchObject({ author: 'Alice', location: 'footer' })
+    expect(threads[0].replies.map((reply) => reply.id)).toEqual(['c3'])
+    expect(threads[1]).toMatchObject({ location: 'inline', inlineText: 'setup', resolved: true })
+  })
+
+  it('should render comments as a section at the end of the page', async () => {
+    const result = await createMarkdownConverter().convert(createPage({ comments }))
+    const content = result.content as string
+
+    expect(result.sidecars).toBeUndefined()
+    expect(result.metadata.commentCount).toBe(3)
+    expect(content).toContain('## Comments')
+    expect(content).toContain('**Alice** · 2024-03-01\n\nLooks **good**\n\n> **Carol**\n>\n> Thanks!')
+    expect(content).toContain('**Bob** · on "teh setup" · resolved')
+    // Footer comments come before inline comments
+    expect(content.indexOf('**Alice**')).toBeLessThan(content.indexOf('**Bob**'))
+  })
+
+  it('should convert storage elements in comment bodies', async () => {
+    const converter = createMarkdownConverter()
+    converter.setUserSource(createUserDirectory({ cache: { users: { 'acc-1': 'Ada' } } }))
+    const result = await converter.convert(
+      createPage({
+        comments: [
+          {
+            id: 'c1',
+            location: 'footer',
+            author: 'Alice',
+            body:
+              '<p><ac:link><ri:user ri:account-id="acc-1" /></ac:link> see ' +
+              '<ac:link><ri:page ri:content-title="Setup" /></ac:link> ' +
+              '<ac:emoticon ac:name="smile" /></p>',
+            replies: [],
+          },
+        ],
+      })
+    )
+
+    expect(result.content).toContain('@Ada see [Setup](/wiki/display/TEST/Setup) 🙂')
+  })
+
+  it('should write comments to a sidecar file when configured', async () => {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'sidecar',
+    })
+    const result = await converter.convert(createPage({ comments }))
+
+    expect(result.content).not.toContain('## Comments')
+    expect(result.sidecars).toHaveLength(1)
+    expect(result.sidecars![0].suffix).toBe('.comments.md')
+    expect(result.sidecars![0].content).toMatch(/^# Comments: Test Page\n\n\*\*Alice\*\*/)
+    expect(getSidecarPath('/out/TEST/Test Page.md', '.comments.md')).toBe(
+      '/out/TEST/Test Page.comments.md'
+    )
+  })
+})
+
+describe('Jira macros', () => {
+  const jiraMacro = (params: Record<string, string>) =>
+    '<ac:structured-macro ac:name="jira" ac:schema-version="1">' +
+    Object.entries(params)
+      .map(([name, value]) => `<ac:parameter ac:name="${name}">${value}</ac:parameter>`)
+      .join('') +
+    '</ac:structured-macro>'
+
+  const snapshot = {
+    issues: {
+      'PROJ-1': { key: 'PROJ-1', fields: { summary: 'Fix login', status: 'In Progress' } },
+      'PROJ-2': { key: 'PROJ-2', fields: { summary: 'Add | pipes', status: 'Done' } },
+    },
+    queries: { 'project = PROJ': ['PROJ-1', 'PROJ-2'] },
+  }
+
+  async function convertStorage(storage: string, withSnapshot = true) {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    converter.setJiraIssueSource(
+      createJiraIssueCache({
+        jiraBaseUrl: 'https://example.atlassian.net',
+        snapshot: withSnapshot ? snapshot : undefined,
+      })
+    )
+    const result = await converter.convert(
+      createPage({ content: { storage, view: '<p>rendered</p>' } })
+    )
+    return result.content as string
+  }
+
+  it('should turn single issues into links with summary and status', async () => {
+    const content = await convertStorage(`<p>See ${jiraMacro({ key: 'PROJ-1' })}</p>`)
+
+    expect(content).toContain(
+      'See [PROJ-1](https://example.atlassian.net/browse/PROJ-1): Fix login (In Progress)'
+    )
+  })
+
+  it('should keep a plain link when the issue is not in the snapshot', async () => {
+    const content = await convertStorage(`<p>${jiraMacro({ key: 'OTHER-9' })}</p>`)
+
+    expect(content).toBe('[OTHER-9](https://example.atlassian.net/browse/OTHER-9)\n')
+  })
+
+  it('should render JQL macros as GFM tables with issue links', async () => {
+    const content = await convertStorage(
+      jiraMacro({ jqlQuery: 'project = PROJ', columns: 'key,summary,status' })
+    )
+
+    expect(content).toContain('| Key | Summary | Status |')
+    expect(content).toContain(
+      '| [PROJ-1](https://example.atlassian.net/browse/PROJ-1) | Fix login | In Progress |'
+    )
+    expect(content).toContain('| Add \\| pipes | Done |')
+  })
+
+  it('should link to the search when a query is not available offline', async () => {
+    const content = await convertStorage(jiraMacro({ jqlQuery: 'project = PROJ' }), false)
+
+    expect(content).toContain(
+      '[Jira issues: project = PROJ](https://example.atlassian.net/issues/?jql=project%20%3D%20PROJ)'
+    )
+  })
+
+  it('should cache live lookups and export them as a snapshot', async () => {
+    const apiClient = createApiClient({ baseUrl: 'https://example.atlassian.net', token: 't' })
+    vi.spyOn(apiClient, 'get').mockResolvedValue({
+      key: 'PROJ-3',
+      fields: {
+        summary: 'Live issue',
+        status: { name: 'To Do' },
+        assignee: { displayName: 'Alice' },
+        created: '2024-05-01T08:00:00.000+0000',
+      },
+    })
+    const cache = createJiraIssueCache({ jiraBaseUrl: 'https://example.atlassian.net', apiClient })
+
+    await cache.getIssue('PROJ-3')
+    const issue = await cache.getIssue('PROJ-3')
+
+    expect(apiClient.get).toHaveBeenCalledTimes(1)
+    expect(issue?.fields).toEqual({
+      summary: 'Live issue',
+      status: 'To Do',
+      assignee: 'Alice',
+      created: '2024-05-01',
+    })
+    expect(cache.toSnapshot().issues['PROJ-3']).toEqual(issue)
+  })
+})
+
+describe('Include macros', () => {
+  const includeMacro = (title: string, name = 'include') =>
+    `<ac:structured-macro ac:name="${name}" ac:schema-version="1" ac:macro-id="${name}-${title}">` +
+    `<ac:parameter ac:name=""><ac:link><ri:page ri:content-title="${title}" /></ac:link></ac:parameter>` +
+    '</ac:structured-macro>'
+
+  const pages: Record<string, string> = {
+    Shared: '<p>Shared <strong>notice</strong></p>',
+    Outer: `<p>Outer</p>${includeMacro('Inner')}`,
+    Inner: `<p>Inner</p>${includeMacro('Outer')}`,
+    Level1: `<p>Level 1</p>${includeMacro('Level2')}`,
+    Level2: `<p>Level 2</p>${includeMacro('Level3')}`,
+    Level3: '<p>Level 3</p>',
+    Summary:
+      '<p>Intro</p><ac:structured-macro ac:name="excerpt"><ac:rich-text-body><p>The excerpt</p></ac:rich-text-body></ac:structured-macro>',
+  }
+
+  const pageSource = {
+    getPage: vi.fn(async (spaceKey: string, title: string) =>
+      pages[title] ? { id: title, title, spaceKey, storage: pages[title] } : undefined
+    ),
+  }
+
+  async function convertStorage(
+    storage: string,
+    options?: { mode?: 'inline' | 'link'; maxDepth?: number }
+  ) {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    converter.setPageIncludeSource(pageSource, options)
+    const result = await converter.convert(
+      createPage({ title: 'Home', content: { storage, view: '<p>rendered</p>' } })
+    )
+    return result.content as string
+  }
+
+  it('should inline the converted content of included pages', async () => {
+    const content = await convertStorage(`<p>Before</p>${includeMacro('Shared')}`)
+
+    expect(content).toContain('Before')
+    expect(content).toContain('Shared **notice**')
+  })
+
+  it('should include only the excerpt for excerpt-include macros', async () => {
+    const content = await convertStorage(includeMacro('Summary', 'excerpt-include'))
+
+    expect(content).toContain('The excerpt')
+    expect(content).not.toContain('Intro')
+  })
+
+  it('should stop include cycles with a link to the page', async () => {
+    const content = await convertStorage(includeMacro('Outer'))
+
+    expect(content).toContain('Outer')
+    expect(content).toContain('Inner')
+    expect(content).toContain('<!-- confluence-include: TEST/Outer (include cycle) -->')
+    expect(content).toContain('[Outer](/wiki/display/TEST/Outer)')
+  })
+
+  it('should cap the include depth', async () => {
+    const content = await convertStorage(includeMacro('Level1'), { maxDepth: 2 })
+
+    expect(content).toContain('Level 2')
+    expect(content).not.toContain('Level 3')
+    expect(content).toContain('<!-- confluence-include: TEST/Level3 (maximum include depth) -->')
+  })
+
+  it('should emit a link and marker comment in link mode', async () => {
+    const content = await convertStorage(includeMacro('Shared'), { mode: 'link' })
+
+    expect(content).toContain('<!-- confluence-include: TEST/Shared -->')
+    expect(content).toContain('[Shared](/wiki/display/TEST/Shared)')
+    expect(content).not.toContain('notice')
+  })
+
+  it('should link to pages whose fetch fails and keep converting the others', async () => {
+    pageSource.getPage.mockRejectedValueOnce(new Error('socket hang up'))
+
+    const content = await convertStorage(`${includeMacro('Level3')}${includeMacro('Shared')}`)
+
+    expect(content).toContain('<!-- confluence-include: TEST/Level3 (include failed) -->')
+    expect(content).toContain('[Level3](/wiki/display/TEST/Level3)')
+    expect(content).toContain('Shared **notice**')
+  })
+
+  it('should fetch a page again after a failed include', async () => {
+    const contentFetcher = {
+      findPageId: vi.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValue('42'),
+      fetchPage: vi
+        .fn()
+        .mockResolvedValue(
+          createPage({ id: '42', title: 'Shared', content: { storage: '<p>ok</p>', view: '' } })
+        ),
+    }
+    const cache = createIncludedPageCache({
+      contentFetcher: contentFetcher as unknown as ContentFetcher,
+    })
+
+    await expect(cache.getPage('TEST', 'Shared')).rejects.toThrow('timeout')
+    await expect(cache.getPage('TEST', 'Shared')).resolves.toMatchObject({ storage: '<p>ok</p>' })
+    expect(contentFetcher.findPageId).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('Page properties', () => {
+  const detailsMacro = (rows: Record<string, string>) =>
+    '<ac:structured-macro ac:name="details" ac:macro-id="details-1"><ac:rich-text-body><table><tbody>' +
+    Object.entries(rows)
+      .map(([key, value]) => `<tr><th><p>${key}</p></th><td><p>${value}</p></td></tr>`)
+      .join('') +
+    '</tbody></table></ac:rich-text-body></ac:structured-macro>'
+
+  const reportMacro =
+    '<ac:structured-macro ac:name="detailssummary" ac:macro-id="report-1">' +
+    '<ac:parameter ac:name="headings">Status,Owner</ac:parameter>' +
+    '<ac:parameter ac:name="cql">label = "adr" and space = currentSpace()</ac:parameter>' +
+    '</ac:structured-macro>'
+
+  function createConverter() {
+    return createMarkdownConverter({
+      frontmatter: true,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+  }
+
+  it('should expose details tables in the frontmatter and metadata', async () => {
+    const result = await createConverter().convert(
+      createPage({
+        content: {
+          storage: detailsMacro({ Status: 'Accepted', 'Decision "date"': '2024-05-01' }),
+          view: '<p>rendered</p>',
+        },
+      })
+    )
+
+    expect(result.content).toContain(
+      'confluenceProperties:\n  "Status": "Accepted"\n  "Decision \\"date\\"": "2024-05-01"'
+    )
+    expect(result.metadata.properties).toEqual({
+      Status: 'Accepted',
+      'Decision "date"': '2024-05-01',
+    })
+  })
+
+  it('should mark blog posts with their type and publish date', async () => {
+    const result = await createConverter().convert(
+      createPage({
+        type: 'blogpost',
+        metadata: { publishedAt: new Date('2024-03-15T09:00:00Z') },
+      })
+    )
+
+    expect(result.content).toContain('type: blogpost\ndate: "2024-03-15T09:00:00.000Z"')
+  })
+
+  it('should add static site ordering and slugs to the frontmatter', async () => {
+    const converter = createConverter()
+
+    const docusaurus = await converter.convert(createPage(), {
+      site: { generator: 'docusaurus', position: 3, slug: '/TEST/guide' },
+    })
+    expect(docusaurus.content).toContain('sidebar_position: 3\nslug: "/TEST/guide"')
+
+    const hugo = await converter.convert(createPage(), { site: { generator: 'hugo', position: 2 } })
+    expect(hugo.content).toContain('weight: 2')
+    expect(hugo.content).not.toContain('slug:')
+  })
+
+  it('should build report tables from exported pages with matching labels', async () => {
+    const result = await createConverter().convert(
+      createPage({ content: { storage: `<p>Decisions</p>${reportMacro}`, view: '<p>x</p>' } })
+    )
+    const reportPage: ManifestPage = {
+      id: '1',
+      title: 'Decisions',
+      spaceKey: 'TEST',
+      path: 'TEST/decisions/index.md',
+      attachments: 0,
+    }
+    const adr = (id: string, title: string, labels: string[], status: string): ManifestPage => ({
+      id,
+      title,
+      spaceKey: 'TEST',
+      path: `TEST/decisions/${id}.md`,
+      attachments: 0,
+      metadata: { labels, properties: { Status: status, Owner: 'Team | Core' } },
+    })
+    const builder = createPagePropertiesReportBuilder({
+      pages: [
+        reportPage,
+        adr('b', 'Use Postgres', ['adr'], 'Accepted'),
+        adr('a', 'Adopt Kafka', ['ADR', 'infra'], 'Proposed'),
+        adr('c', 'Team Lunch', ['misc'], 'Done'),
+      ],
+    })
+
+    const { markdown, reports } = builder.build(result.content as string, reportPage)
+
+    expect(reports).toBe(1)
+    expect(markdown).toContain('<!-- page-properties-report: {"labels":[["adr"]]')
+    expect(markdown).toContain(
+      [
+        '| Title | Status | Owner |',
+        '| --- | --- | --- |',
+        '| [Adopt Kafka](a.md) | Proposed | Team \\| Core |',
+        '| [Use Postgres](b.md) | Accepted | Team \\| Core |',
+        '<!-- /page-properties-report -->',
+      ].join('\n')
+    )
+    expect(markdown).not.toContain('Team Lunch')
+
+    // Rebuilding replaces the previous table
+    expect(builder.build(markdown, reportPage).markdown).toBe(markdown)
+  })
+})
+
+describe('Inline storage elements', () => {
+  const task = (status: string, body: string) =>
+    `<ac:task><ac:task-id>1</ac:task-id><ac:task-status>${status}</ac:task-status><ac:task-body>${body}</ac:task-body></ac:task>`
+  const mention = (attributes: string) => `<ac:link><ri:user ${attributes} /></ac:link>`
+
+  async function convertStorage(storage: string) {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    converter.setUserSource(
+      createUserDirectory({ cache: { users: { 'acc-1': 'Ada Lovelace' } } })
+    )
+    return converter.convert(createPage({ content: { storage, view: '<p>rendered</p>' } }))
+  }
+
+  it('should convert task lists to GFM tasks, including nested lists', async () => {
+    const result = await convertStorage(
+      `<ac:task-list>${task('complete', 'Write docs')}${task(
+        'incomplete',
+        `Review<ac:task-list>${task('incomplete', 'Check links')}</ac:task-list>`
+      )}</ac:task-list>`
+    )
+
+    expect(result.content).toBe('- [x] Write docs\n- [ ] Review\n  - [ ] Check links\n')
+  })
+
+  it('should resolve mentions and count the unresolved ones', async () => {
+    const result = await convertStorage(
+      `<p>Ping ${mention('ri:account-id="acc-1"')} and ${mention('ri:account-id="acc-2"')}</p>`
+    )
+
+    expect(result.content).toBe('Ping @Ada Lovelace and @acc-2\n')
+    expect(result.metadata.unresolvedMentions).toBe(1)
+  })
+
+  it('should convert dates and emoticons', async () => {
+    const result = await convertStorage(
+      '<p>Due <time datetime="2024-05-01" /> ' +
+        '<ac:emoticon ac:name="tick" /> <ac:emoticon ac:name="blue-star" ac:emoji-id="1f680" ac:emoji-fallback=":rocket:" /></p>'
+    )
+
+    expect(result.content).toBe('Due 2024-05-01 ✅ 🚀\n')
+  })
+
+  it('should keep status badges unescaped next to storage elements', async () => {
+    const result = await convertStorage(
+      '<p><ac:structured-macro ac:name="status"><ac:parameter ac:name="title">Done</ac:parameter>' +
+        '<ac:parameter ac:name="colour">Green</ac:parameter></ac:structured-macro> ' +
+        '<ac:emoticon ac:name="tick" /></p>'
+    )
+
+    expect(result.content).toBe('🟢 **[DONE]** ✅\n')
+  })
+
+  it('should keep CDATA code macros on pages with inline elements', async () => {
+    const result = await convertStorage(
+      '<p>Done <ac:emoticon ac:name="tick" /></p>' +
+        '<ac:structured-macro ac:name="code" ac:schema-version="1" ac:macro-id="c1">' +
+        '<ac:parameter ac:name="language">ts</ac:parameter>' +
+        '<ac:plain-text-body><![CDATA[const total = price * 2]]></ac:plain-text-body>' +
+        '</ac:structured-macro>'
+    )
+
+    expect(result.content).toBe('Done ✅\n\n```ts\nconst total = price * 2\n```\n')
+  })
+
+  it('should look up each user once and keep new names for the cache file', async () => {
+    const apiClient = createApiClient({ baseUrl: 'https://example.atlassian.net', token: 't' })
+    vi.spyOn(apiClient, 'get').mockResolvedValue({ displayName: 'Grace Hopper' })
+    const users = createUserDirectory({ apiClient })
+
+    await users.getDisplayName({ accountId: 'acc-3' })
+    const name = await users.getDisplayName({ accountId: 'acc-3' })
+
+    expect(name).toBe('Grace Hopper')
+    expect(apiClient.get).toHaveBeenCalledWith('/user', { params: { accountId: 'acc-3' } })
+    expect(apiClient.get).toHaveBeenCalledTimes(1)
+    expect(users.hasChanges()).toBe(true)
+    expect(users.toCacheFile().users).toEqual({ 'acc-3': 'Grace Hopper' })
+  })
+})
+
+describe('Page layouts', () => {
+  const layout =
+    '<ac:layout>' +
+    '<ac:layout-section ac:type="single"><ac:layout-cell><h1>Overview</h1></ac:layout-cell></ac:layout-section>' +
+    '<ac:layout-section ac:type="two_equal">' +
+    '<ac:layout-cell><p>Left column</p></ac:layout-cell>' +
+    '<ac:layout-cell><p>Right column</p></ac:layout-cell>' +
+    '</ac:layout-section>' +
+    '<ac:layout-section ac:type="single"><ac:layout-cell><p>&nbsp;</p></ac:layout-cell></ac:layout-section>' +
+    '</ac:layout>'
+
+  async function convertLayout(preserveHtml: boolean) {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml,
+      gfm: true,
+      comments: 'section',
+    })
+    const result = await converter.convert(
+      createPage({ content: { storage: layout, view: '<p>Left column Right column</p>' } })
+    )
+    return result.content as string
+  }
+
+  it('should emit cells in reading order with separators between columns', async () => {
+    expect(await convertLayout(false)).toBe(
+      '# Overview\n\n---\n\nLeft column\n\n---\n\nRight column\n'
+    )
+  })
+
+  it('should keep column wrappers with preserveHtml', async () => {
+    expect(await convertLayout(true)).toBe(
+      [
+        '<div class="columns" data-layout="single">',
+        '',
+        '<div class="column">',
+        '',
+        '# Overview',
+        '',
+        '</div>',
+        '',
+        '</div>',
+        '',
+        '<div class="columns" data-layout="two_equal">',
+        '',
+        '<div class="column">',
+        '',
+        'Left column',
+        '',
+        '</div>',
+        '',
+        '<div class="column">',
+        '',
+        'Right column',
+        '',
+        '</div>',
+        '',
+        '</div>',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('should keep CDATA code macros inside layout cells', async () => {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    const storage =
+      '<ac:layout><ac:layout-section ac:type="two_equal">' +
+      '<ac:layout-cell><p>Install</p></ac:layout-cell>' +
+      '<ac:layout-cell><ac:structured-macro ac:name="code" ac:schema-version="1" ac:macro-id="c1">' +
+      '<ac:parameter ac:name="language">bash</ac:parameter>' +
+      '<ac:plain-text-body><![CDATA[npm install && echo "<done>"]]></ac:plain-text-body>' +
+      '</ac:structured-macro></ac:layout-cell>' +
+      '</ac:layout-section></ac:layout>'
+
+    const result = await converter.convert(
+      createPage({ content: { storage, view: '<p>Install</p><pre>npm install</pre>' } })
+    )
+
+    expect(result.content).toContain('```bash\nnpm install && echo "<done>"\n```')
+  })
+})
+
+describe('draw.io diagrams', () => {
+  it('should reference the PNG preview and link the .drawio source', async () => {
+    const storage =
+      '<p>Architecture</p>' +
+      '<ac:structured-macro ac:name="drawio" ac:schema-version="1" ac:macro-id="d1">' +
+      '<ac:parameter ac:name="diagramName">Payment flow</ac:parameter>' +
+      '<ac:parameter ac:name="pageId">123</ac:parameter>' +
+      '<ac:parameter ac:name="width">600</ac:parameter>' +
+      '</ac:structured-macro>'
+
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    const result = await converter.convert(
+      createPage({ content: { storage, view: '<p>Architecture</p>' } })
+    )
+
+    expect(result.content).toBe(
+      [
+        'Architecture',
+        '',
+        '![Payment flow](<./assets/Payment flow.png>) <!-- Size: 600xauto -->',
+        '',
+        '[Payment flow.drawio](<./assets/Payment flow.drawio>)',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('should use the current page for diagrams without a pageId parameter', async () => {
+    const processor = new HtmlProcessor()
+    const storage =
+      '<ac:structured-macro ac:name="drawio" ac:schema-version="1" ac:macro-id="d1">' +
+      '<ac:parameter ac:name="diagramName">Payment flow</ac:parameter>' +
+      '</ac:structured-macro>'
+
+    const processed = await processor.process(storage, '', 'TEAM', 'Architecture', '42')
+
+    expect(processed.html).toContain('src="/download/attachments/42/Payment%20flow.png"')
+    expect(processed.html).toContain('href="/download/attachments/42/Payment%20flow.drawio"')
+  })
+})
+
+describe('Mermaid rendering', () => {
+  let assetsDir: string
+
+  beforeEach(async () => {
+    assetsDir = join(tmpdir(), `conflu-mermaid-${Date.now()}`)
+  })
+
+  afterEach(async () => {
+    await rm(assetsDir, { recursive: true, force: true })
+  })
+
+  const mermaidMacro = (id: string, source: string) =>
+    `<ac:structured-macro ac:name="mermaid" ac:schema-version="1" ac:macro-id="${id}">` +
+    `<ac:plain-text-body>${source}</ac:plain-text-body>` +
+    '</ac:structured-macro>'
+
+  it('should reference rendered images and report diagrams that fail', async () => {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    converter.setMermaidRenderer({
+      format: 'svg',
+      render: async (source) => {
+        if (source.startsWith('graph')) {
+          return Buffer.from('<svg></svg>')
+        }
+        throw new Error('Parse error on line 1')
+      },
+    })
+
+    const storage =
+      mermaidMacro('m1', 'graph TD\n  A --&gt; B') + mermaidMacro('m2', 'not a diagram')
+    const result = await converter.convert(
+      createPage({ content: { storage, view: '<p>Diagrams</p>' } }),
+      { assetsDir }
+    )
+
+    expect(result.content).toBe(
+      [
+        '![Mermaid diagram 1](<./assets/123-mermaid-1.svg>)',
+        '',
+        '<details>',
+        '<summary>Mermaid source</summary>',
+        '',
+        '```mermaid',
+        'graph TD',
+        '  A --> B',
+        '```',
+        '',
+        '</details>',
+        '',
+        '```mermaid',
+        'not a diagram',
+        '```',
+        '',
+      ].join('\n')
+    )
+    expect(result.metadata.mermaidRender).toEqual({
+      rendered: 1,
+      failed: [{ diagram: 2, error: 'Parse error on line 1' }],
+    })
+    await expect(readFile(join(assetsDir, '123-mermaid-1.svg'), 'utf-8')).resolves.toBe(
+      '<svg></svg>'
+    )
+  })
+
+  it('should report a missing Mermaid bundle before rendering', () => {
+    const renderer = createMermaidRenderer({ scriptPath: join(assetsDir, 'missing.js') })
+
+    expect(() => renderer.assertBundleAvailable()).toThrow(MermaidRenderError)
+  })
+})
+
+describe('Navigation macros', () => {
+  const treePage = (
+    id: string,
+    title: string,
+    metadata: ConfluencePage['metadata'] = {}
+  ): ConfluencePage => createPage({ id, title, content: { storage: '', view: '' }, metadata })
+
+  const pages = [
+    treePage('123', 'Home'),
+    treePage('201', 'Guides', { parentId: '123', position: 2 }),
+    treePage('202', 'API', { parentId: '123', position: 1 }),
+    treePage('301', 'Setup', { parentId: '201', labels: ['howto'] }),
+    treePage('302', 'Deploy', { parentId: '201', labels: ['howto', 'ops'] }),
+    treePage('401', 'Rollback', { parentId: '302', labels: ['ops'] }),
+  ]
+
+  const macro = (name: string, parameters: Record<string, string> = {}) =>
+    `<ac:structured-macro ac:name="${name}" ac:macro-id="${name}-1">` +
+    Object.entries(parameters)
+      .map(([key, value]) => `<ac:parameter ac:name="${key}">${value}</ac:parameter>`)
+      .join('') +
+    '</ac:structured-macro>'
+
+  async function convertStorage(storage: string, pageSource = createExportedPageTree({ pages })) {
+    const converter = createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: false,
+      gfm: true,
+      comments: 'section',
+    })
+    converter.setPageTreeSource(pageSource)
+    const result = await converter.convert(
+      createPage({ title: 'Home', content: { storage, view: '<p>rendered</p>' } })
+    )
+    return result.content as string
+  }
+
+  const lines = (content: string) =>
+    content
+      .replace(/ <!--.*?-->/g, '')
+      .trim()
+      .split('\n')
+
+  it('should list child pages in tree order down to the requested depth', async () => {
+    const content = await convertStorage(macro('children', { depth: '2' }))
+
+    expect(lines(content)).toEqual([
+      '-   [API](/wiki/spaces/TEST/pages/202/API)',
+      '-   [Guides](/wiki/spaces/TEST/pages/201/Guides)',
+      '    -   [Deploy](/wiki/spaces/TEST/pages/302/Deploy)',
+      '    -   [Setup](/wiki/spaces/TEST/pages/301/Setup)',
+    ])
+  })
+
+  it('should apply sort, reverse and max to the top level', async () => {
+    const content = await convertStorage(
+      macro('children', { sort: 'title', reverse: 'true', first: '1', all: 'true' })
+    )
+
+    expect(lines(content)).toEqual([
+      '-   [Guides](/wiki/spaces/TEST/pages/201/Guides)',
+      '    -   [Setup](/wiki/spaces/TEST/pages/301/Setup)',
+      '    -   [Deploy](/wiki/spaces/TEST/pages/302/Deploy)',
+      '        -   [Rollback](/wiki/spaces/TEST/pages/401/Rollback)',
+    ])
+  })
+
+  it('should render the page tree below a root page', async () => {
+    const content = await convertStorage(
+      '<ac:structured-macro ac:name="pagetree" ac:macro-id="tree-1">' +
+        '<ac:parameter ac:name="root"><ac:link><ri:page ri:content-title="Guides" /></ac:link></ac:parameter>' +
+        '<ac:parameter ac:name="sort">title</ac:parameter>' +
+        '</ac:structured-macro>'
+    )
+
+    expect(lines(content)).toEqual([
+      '-   [Deploy](/wiki/spaces/TEST/pages/302/Deploy)',
+      '    -   [Rollback](/wiki/spaces/TEST/pages/401/Rollback)',
+      '-   [Setup](/wiki/spaces/TEST/pages/301/Setup)',
+    ])
+  })
+
+  it('should list pages matching the labels of contentbylabel macros', async () => {
+    const all = await convertStorage(
+      macro('contentbylabel', { cql: 'label in ("howto", "ops") and space = currentSpace()' })
+    )
+    const both = await convertStorage(
+      macro('contentbylabel', { labels: 'howto,ops', operator: 'AND', sort: 'title' })
+    )
+
+    expect(lines(all)).toHaveLength(3)
+    expect(lines(both)).toEqual(['-   [Deploy](/wiki/spaces/TEST/pages/302/Deploy)'])
+  })
+
+  it('should fall back to CQL searches outside a full export', async () => {
+    const contentFetcher = {
+      searchPageSummaries: vi.fn(async (cql: string) =>
+        cql.startsWith('id = ') ? pages.slice(0, 1) : pages.slice(1, 3)
+      ),
+    } as unknown as ContentFetcher
+
+    const content = await convertStorage(macro('children'), createCqlPageTree({ contentFetcher }))
+
+    expect(contentFetcher.searchPageSummaries).toHaveBeenCalledWith('id = "123"')
+    expect(contentFetcher.searchPageSummaries).toHaveBeenCalledWith(
+      'parent = "123" and type = page'
+    )
+    expect(lines(content)).toEqual([
+      '-   [API](/wiki/spaces/TEST/pages/202/API)',
+      '-   [Guides](/wiki/spaces/TEST/pages/201/Guides)',
+    ])
+  })
+
+  it('should sort CQL results by creation date without fetching page bodies', async () => {
+    const apiClient = createApiClient({ baseUrl: 'https://example.atlassian.net', token: 't' })
+    const apiPage = (id: string, title: string, createdDate: string) => ({
+      id,
+      title,
+      space: { key: 'TEST' },
+      version: { number: 3, when: '2024-06-01T00:00:00Z' },
+      history: { createdDate },
+      ancestors: id === '123' ? [] : [{ id: '123', title: 'Home' }],
+    })
+    vi.spyOn(apiClient, 'get').mockImplementation(async (_url: string, config?: any) => ({
+      results: config.params.cql.startsWith('id = ')
+        ? [apiPage('123', 'Home', '2023-01-01T00:00:00Z')]
+        : [
+            apiPage('201', 'Guides', '2024-02-01T00:00:00Z'),
+            apiPage('202', 'API', '2024-03-01T00:00:00Z'),
+          ],
+    }))
+
+    const content = await convertStorage(
+      macro('children', { sort: 'creation' }),
+      createCqlPageTree({ contentFetcher: new ContentFetcher({ apiClient }) })
+    )
+
+    expect(apiClient.get).toHaveBeenCalledWith('/content/search', {
+      params: expect.objectContaining({
+        expand: 'version,space,ancestors,metadata.labels,history',
+      }),
+    })
+    expect(lines(content)).toEqual([
+      '-   [Guides](/wiki/spaces/TEST/pages/201/Guides)',
+      '-   [API](/wiki/spaces/TEST/pages/202/API)',
+    ])
+  })
+})
+
+describe('MDX output', () => {
+  function createConverter() {
+    return createMarkdownConverter({
+      frontmatter: false,
+      preserveHtml: true,
+      gfm: true,
+      comments: 'section',
+      flavor: 'mdx',
+    })
+  }
+
+  const transformer = createMdxTransformer()
+
+  it('should escape expression characters and convert comments, anchors and HTML', async () => {
+    const converter = createConverter()
+    const result = await converter.convert(
+      createPage({
+        content: {
+          storage:
+            '<p><ac:structured-macro ac:name="anchor"><ac:parameter ac:name="">setup</ac:parameter></ac:structured-macro>' +
+            'Use {braces} when a &lt; b and List&lt;String&gt;, not <code>{code}</code></p>' +
+            '<p>export the data monthly</p>' +
+            '<ac:layout><ac:layout-section ac:type="two_equal"><ac:layout-cell><p>Left</p></ac:layout-cell>' +
+            '<ac:layout-cell><p>Right</p></ac:layout-cell></ac:layout-section></ac:layout>',
+          view: '<p>rendered</p>',
+        },
+      })
+    )
+
+    expect(converter.getFileExtension()).toBe('.mdx')
+    expect(result.content).toMatch(/<a id="[\w-]+"><\/a>Use \\\{braces\\\}/)
+    expect(result.content).toContain('when a \\< b and List\\<String>, not `{code}`')
+    expect(result.content).toContain('&#101;xport the data monthly')
+    expect(result.content).toContain('<div className="columns" data-layout="two_equal">')
+    expect(result.content).not.toContain('<!--')
+    expect(result.metadata.mdxIssues).toEqual([])
+  })
+
+  it('should keep frontmatter and code blocks as they are', () => {
+    const markdown = [
+      '---',
+      'title: "{Draft}"',
+      '---',
+      'Text <!-- Size: 200xauto -->',
+      '```js',
+      'const a = { b: 1 } < 2 // <!-- x -->',
+      '```',
+      'See <https://example.com> and <br> <span style="color: red; font-size: 12px">red</span>',
+    ].join('\n')
+
+    expect(transformer.transform(markdown)).toBe(
+      [
+        '---',
+        'title: "{Draft}"',
+        '---',
+        'Text {/* Size: 200xauto */}',
+        '```js',
+        'const a = { b: 1 } < 2 // <!-- x -->',
+        '```',
+        'See [https://example.com](https://example.com) and <br /> ' +
+          '<span style={{ color: "red", fontSize: "12px" }}>red</span>',
+      ].join('\n')
+    )
+  })
+
+  it('should report what would not compile', () => {
+    const issues = transformer.validate(
+      ['<!-- note -->', '<div class="note">', '', 'Use {braces}', '', '```', '{ok}', '```'].join(
+        '\n'
+      )
+    )
+
+    expect(issues).toEqual([
+      { line: 1, message: 'HTML comment, use {/* */}' },
+      { line: 2, message: 'Attribute "class" of <div>, use "className"' },
+      { line: 2, message: 'Unclosed <div>' },
+      { line: 4, message: 'Unescaped "{"' },
+      { line: 4, message: 'Unescaped "}"' },
+    ])
+    expect(
+      transformer.validate(transformer.transform('<!-- note -->\n<div class="note">\n\n</div>'))
+    ).toEqual([])
+  })
+
+  it('should accept attribute expressions of its own output', () => {
+    const mdx = transformer.transform(
+      '<div class="x" style="color: red; font-size: 12px">\n\n' +
+        '<span title=\'a "b" {c}\'>text</span>\n\n</div>'
+    )
+
+    expect(mdx).toContain('<div className="x" style={{ color: "red", fontSize: "12px" }}>')
+    expect(transformer.validate(mdx)).toEqual([])
+    expect(transformer.transform(mdx)).toBe(mdx)
+    expect(transformer.validate('<abbr title={"say \\"hi\\" \'now\'"}>x</abbr>')).toEqual([])
+  })
+
+  it('should keep tags from the page text and unbalanced tags as text', async () => {
+    const result = await createConverter().convert(
+      createPage({
+        content: {
+          storage: '<p>Wrap it in &lt;b&gt;bold&lt;/b&gt;</p>',
+          view: '<p>Wrap it in &lt;b&gt;bold&lt;/b&gt; or <code>&lt;i&gt;</code></p>',
+        },
+      })
+    )
+    const mdx = transformer.transform('<details>\n\nOpen\n\n</span> <b>bold</b>')
+
+    expect(result.content).toContain('Wrap it in \\<b>bold\\</b> or `<i>`')
+    expect(mdx).toBe('\\<details>\n\nOpen\n\n\\</span> <b>bold</b>')
+    await expect(compile(result.content as string)).resolves.toBeDefined()
+    await expect(compile(mdx)).resolves.toBeDefined()
+  })
+
+  it('should resolve links and build reports with expression comment markers', () => {
+    const pages: ManifestPage[] = [
+      { id: '1', title: 'Home', spaceKey: 'TEAM', path: 'TEAM/home/index.mdx', attachments: 0 },
+      {
+        id: '2',
+        title: 'Guide',
+        spaceKey: 'TEAM',
+        path: 'TEAM/home/guide.mdx',
+        attachments: 0,
+        metadata: { labels: ['adr'], properties: { Status: '{Draft}' } },
+      },
+    ]
+
+    const { markdown } = createLinkResolver({ pages, baseUrl: 'https://example.com' }).resolve(
+      '[Guide](/wiki/spaces/TEAM/pages/2/Guide) {/* Confluence Page ID: 2 */}',
+      '1'
+    )
+    expect(markdown).toBe('[Guide](guide.mdx) {/* Confluence Page ID: 2 */}')
+
+    const report = createPagePropertiesReportBuilder({ pages }).build(
+      transformer.transform(
+        '<!-- page-properties-report: {"labels":[["adr"]]} -->\n<!-- /page-properties-report -->'
+      ),
+      pages[0]
+    )
+    expect(report.reports).toBe(1)
+    expect(report.markdown).toContain(
+      '| [Guide](guide.mdx) | \\{Draft\\} |\n{/* /page-properties-report */}'
+    )
+  })
+})
+
+describe('Obsidian output', () => {
+  function createConverter() {
+    return createMarkdownConverter({
+      frontmatter: true,
+      preserveHtml: true,
+      gfm: true,
+      comments: 'section',
+      flavor: 'obsidian',
+    })
+  }
+
+  it('should convert panels to callouts', async () => {
+    const converter = createConverter()
+    const result = await converter.convert(
+      createPage({
+        content: {
+          storage:
+            '<ac:structured-macro ac:name="warning"><ac:parameter ac:name="title">Careful</ac:parameter>' +
+            '<ac:rich-text-body><p>Do not <strong>delete</strong>.</p><p>Second</p></ac:rich-text-body></ac:structured-macro>' +
+            '<ac:structured-macro ac:name="info"><ac:rich-text-body><p>Plain</p></ac:rich-text-body></ac:structured-macro>' +
+            '<ac:layout><ac:layout-section ac:type="single"><ac:layout-cell><p>Cell</p></ac:layout-cell></ac:layout-section></ac:layout>',
+          view: '<p>rendered</p>',
+        },
+      })
+    )
+
+    expect(result.content).toContain('> [!warning] Careful\n> Do not **delete**.\n>\n> Second')
+    expect(result.content).toContain('> [!info]\n> Plain')
+    expect(result.content).not.toContain('INFO')
+
+    const view = await converter.convert(
+      createPage({
+        content: {
+          storage: '<p>Hello</p>',
+          view:
+            '<div class="confluence-information-macro confluence-information-macro-information">' +
+            '<p class="title">Heads up</p><span class="aui-icon confluence-information-macro-icon"></span>' +
+            '<div class="confluence-information-macro-body"><p>Rendered</p></div></div>',
+        },
+      })
+    )
+
+    expect(view.content).toContain('> [!info] Heads up\n> Rendered')
+  })
+
+  it('should embed attachments and turn labels into tags', async () => {
+    const converter = createConverter()
+    const result = await converter.convert(
+      createPage({
+        metadata: { labels: ['how-to', 'team:ops', '2024'] },
+        content: {
+          storage: '<p>Hello</p>',
+          view:
+            '<p><img src="/wiki/download/attachments/123/diagram%201.png?version=1" width="300" /> ' +
+            '<a href="/wiki/download/attachments/123/spec.pdf">the spec</a> ' +
+            '<a href="/wiki/download/attachments/123/spec.pdf">spec.pdf</a></p>',
+        },
+      })
+    )
+
+    expect(result.content).toContain('![[diagram 1.png|300]] [[spec.pdf|the spec]] [[spec.pdf]]')
+    expect(result.content).toContain('tags:\n  - "how-to"\n  - "team-ops"\nmacros:')
+    expect(result.content).not.toContain('./assets/')
+  })
+
+  it('should resolve page links to wikilinks with heading text', async () => {
+    const pages: ManifestPage[] = [
+      { id: '1', title: 'Home', spaceKey: 'TEAM', path: 'TEAM/Home/Home.md', attachments: 0 },
+      { id: '2', title: 'Setup', spaceKey: 'TEAM', path: 'TEAM/Home/Setup.md', attachments: 0 },
+      { id: '3', title: 'Notes', spaceKey: 'TEAM', path: 'TEAM/Home/Notes.md', attachments: 0 },
+      { id: '4', title: 'Notes', spaceKey: 'OPS', path: 'OPS/Notes.md', attachments: 0 },
+    ]
+    const resolver = createLinkResolver({
+      pages,
+      baseUrl: 'https://example.atlassian.net/wiki',
+      wikilinks: true,
+    })
+    const rootDir = join(tmpdir(), `conflu-wikilinks-${Date.now()}`)
+    const files: Record<string, string> = {
+      'TEAM/Home/Home.md': [
+        '[Setup](/wiki/display/TEAM/Setup)',
+        '[the install steps](/wiki/display/TEAM/Setup#Installthetools)',
+        '[Notes](/wiki/spaces/TEAM/pages/3/Notes#Notes-Step1:Agenda) <!-- Confluence Page ID: 3 -->',
+        '[old heading](/wiki/display/TEAM/Setup#Removed)',
+        '| Page | Link |',
+        '| --- | --- |',
+        '| Setup | [setup \\| \\[beta\\]](/wiki/display/TEAM/Setup) |',
+        '[Runbook](/wiki/spaces/OPS/pages/99/Runbook) <!-- Confluence Page ID: 99 -->',
+      ].join('\n'),
+      'TEAM/Home/Setup.md': '# Setup\n\n```\n## Not a heading\n```\n\n## Install the tools\n',
+      'TEAM/Home/Notes.md': '## Step 1: Agenda\n',
+      'OPS/Notes.md': '',
+    }
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(join(rootDir, path, '..'), { recursive: true })
+      await writeFile(join(rootDir, path), content)
+    }
+
+    try {
+      const report = await resolver.resolveFiles(rootDir, createFileWriter())
+      const markdown = await readFile(join(rootDir, 'TEAM/Home/Home.md'), 'utf-8')
+
+      expect(markdown.split('\n')).toEqual([
+        '[[Setup]]',
+        '[[Setup#Install the tools|the install steps]]',
+        '[[TEAM/Home/Notes#Step 1 Agenda|Notes]]',
+        '[[Setup|old heading]]',
+        '| Page | Link |',
+        '| --- | --- |',
+        '| Setup | [[Setup\\|setup \\| [beta\\]]] |',
+        '[Runbook](https://example.atlassian.net/wiki/spaces/OPS/pages/99/Runbook) <!-- Confluence Page ID: 99 -->',
+      ])
+      expect(report.resolved).toBe(5)
+    } finally {
+      await rm(rootDir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('JSON output', () => {
+  type SchemaNode = { type?: string; [key: string]: unknown }
+
+  function collectNodes(value: unknown, nodes: SchemaNode[] = []): SchemaNode[] {
+    if (Array.isArray(value)) {
+      value.forEach((item) => collectNodes(item, nodes))
+    } else if (value && typeof value === 'object') {
+      const node = value as SchemaNode
+      if (typeof node.type === 'string' && node.type !== 'page' && node.type !== 'blogpost') {
+        nodes.push(node)
+      }
+      Object.values(node).forEach((child) => collectNodes(child, nodes))
+    }
+    return nodes
+  }
+
+  it('should export the storage body as a typed document tree', async () => {
+    const converter = createJsonConverter()
+    const result = await converter.convert(
+      createPage({
+        metadata: { labels: ['api'] },
+        content: {
+          storage:
+            '<h2>Intro</h2><p>See <strong>this</strong> ' +
+            '<ac:link><ri:page ri:space-key="OPS" ri:content-title="Runbook" /></ac:link> by ' +
+            '<ac:link><ri:user ri:account-id="abc" /></ac:link></p>' +
+            '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">ts</ac:parameter>' +
+            '<ac:plain-text-body><![CDATA[const a = 1 < 2]]></ac:plain-text-body></ac:structured-macro>' +
+            '<ac:structured-macro ac:name="info"><ac:rich-text-body><p>Note</p></ac:rich-text-body></ac:structured-macro>' +
+            '<table><tbody><tr><th colspan="2">Head</th></tr></tbody></table>' +
+            '<p><ac:image><ri:attachment ri:filename="chart.png" /></ac:image></p>',
+          view: '<p>rendered</p>',
+        },
+      }),
+      { assetsPath: '../assets' }
+    )
+
+    const document = JSON.parse(result.content as string)
+
+    expect(converter.getFileExtension()).toBe('.json')
+    expect(document.schema).toBe('urn:conflu-exporter:confluence-document:v1')
+    expect(document.page).toMatchObject({ id: '123', title: 'Test Page', labels: ['api'] })
+    expect(document.body).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', value: 'Intro' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', value: 'See ' },
+          { type: 'text', value: 'this', marks: ['strong'] },
+          { type: 'text', value: ' ' },
+          {
+            type: 'link',
+            page: { title: 'Runbook', spaceKey: 'OPS' },
+            children: [{ type: 'text', value: 'Runbook' }],
+          },
+          { type: 'text', value: ' by ' },
+          { type: 'mention', accountId: 'abc' },
+        ],
+      },
+      { type: 'code', language: 'ts', value: 'const a = 1 < 2' },
+      {
+        type: 'macro',
+        name: 'info',
+        parameters: {},
+        children: [{ type: 'paragraph', children: [{ type: 'text', value: 'Note' }] }],
+      },
+      {
+        type: 'table',
+        rows: [
+          {
+            type: 'tableRow',
+            cells: [
+              {
+                type: 'tableCell',
+                header: true,
+                colspan: 2,
+                children: [{ type: 'paragraph', children: [{ type: 'text', value: 'Head' }] }],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'paragraph',
+        children: [{ type: 'image', filename: 'chart.png', path: '../assets/chart.png' }],
+      },
+    ])
+    expect(result.metadata.schemaVersion).toBe(1)
+  })
+
+  it('should include comments and honour the json options', async () => {
+    const converter = createJsonConverter({ pretty: false, includeHtml: true })
+    const result = await converter.convert(
+      createPage({
+        comments: [
+          {
+            id: 'c1',
+            location: 'footer',
+            body: '<p>Looks good</p>',
+            author: 'Ada',
+            replies: [{ id: 'c2', location: 'footer', body: '<p>Thanks</p>', replies: [] }],
+          },
+        ],
+      })
+    )
+
+    const content = result.content as string
+    const document = JSON.parse(content)
+
+    expect(content).not.toContain('\n')
+    expect(document.html).toContain('Hello')
+    expect(document.comments).toEqual([
+      {
+        id: 'c1',
+        location: 'footer',
+        author: 'Ada',
+        body: [{ type: 'paragraph', children: [{ type: 'text', value: 'Looks good' }] }],
+        replies: [
+          {
+            id: 'c2',
+            location: 'footer',
+            body: [{ type: 'paragraph', children: [{ type: 'text', value: 'Thanks' }] }],
+            replies: [],
+          },
+        ],
+      },
+    ])
+  })
+
+  it('should only emit nodes described by the published schema', async () => {
+    const schema = JSON.parse(
+      await readFile(new URL('../schemas/confluence-document.v1.json', import.meta.url), 'utf-8')
+    ) as { $defs: Record<string, { required: string[]; properties: Record<string, unknown> }> }
+    const result = await createJsonConverter().convert(
+      createPage({
+        content: {
+          storage:
+            '<ul><li><p>One<br/>Two</p></li></ul><ac:task-list><ac:task><ac:task-status>complete</ac:task-status>' +
+            '<ac:task-body>Done</ac:task-body></ac:task></ac:task-list><blockquote><p><em>Quote</em></p></blockquote><hr/>' +
+            '<p><a href="https://example.com">site</a> <ac:structured-macro ac:name="status">' +
+            '<ac:parameter ac:name="title">OK</ac:parameter></ac:structured-macro></p>',
+          view: '<p>rendered</p>',
+        },
+      })
+    )
+
+    const nodes = collectNodes(JSON.parse(result.content as string).body)
+
+    expect(new Set(nodes.map((node) => node.type))).toEqual(
+      new Set([
+        'list',
+        'listItem',
+        'paragraph',
+        'text',
+        'break',
+        'blockquote',
+        'thematicBreak',
+        'link',
+        'macro',
+      ])
+    )
+    for (const node of nodes) {
+      const definition = schema.$defs[node.type as string]
+      expect(definition, node.type).toBeDefined()
+      expect(Object.keys(node).filter((key) => !(key in definition.properties))).toEqual([])
+      expect(definition.required.filter((key) => !(key in node))).toEqual([])
+    }
+  })
+})
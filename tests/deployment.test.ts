@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest'
+import { AxiosError, type AxiosAdapter } from 'axios'
+import {
+  detectDeployment,
+  resolveDeployment,
+  resolveAuthType,
+  getWebBaseUrl,
+} from '../src/core/deployment.js'
+import { createApiClient } from '../src/core/api-client.js'
+import { getMissingCredentials, ConfigSchema } from '../src/config/index.js'
+import { parseConfluenceUrl } from '../src/cli/commands/export-url.js'
+
+describe('detectDeployment', () => {
+  it('should detect Cloud from hostname or trace header', () => {
+    expect(detectDeployment('https://company.atlassian.net').type).toBe('cloud')
+    expect(detectDeployment('https://wiki.company.com', { 'atl-traceid': 'x' }).type).toBe('cloud')
+    expect(detectDeployment('https://wiki.company.com', {}).type).toBe('datacenter')
+    expect(detectDeployment('https://wiki.company.com').type).toBe('unknown')
+  })
+})
+
+describe('resolveDeployment', () => {
+  it('should auto-detect from the hostname unless configured', () => {
+    expect(resolveDeployment('https://company.atlassian.net')).toBe('cloud')
+    expect(resolveDeployment('https://company.com/confluence')).toBe('datacenter')
+    expect(resolveDeployment('https://docs.company.com', 'cloud')).toBe('cloud')
+  })
+})
+
+describe('getWebBaseUrl', () => {
+  it('should add /wiki on Cloud and keep the context path on Data Center', () => {
+    expect(getWebBaseUrl('https://company.atlassian.net', 'cloud')).toBe(
+      'https://company.atlassian.net/wiki'
+    )
+    expect(getWebBaseUrl('https://company.atlassian.net/wiki/', 'cloud')).toBe(
+      'https://company.atlassian.net/wiki'
+    )
+    expect(getWebBaseUrl('https://company.com/confluence/', 'datacenter')).toBe(
+      'https://company.com/confluence'
+    )
+  })
+
+  it('should be used by the API client', () => {
+    const client = createApiClient({ baseUrl: 'https://company.com/confluence', token: 'pat' })
+
+    expect(client.getDeployment()).toBe('datacenter')
+    expect(client.getWebBaseUrl()).toBe('https://company.com/confluence')
+  })
+
+  it('should detect Cloud on a custom domain from the first API response', async () => {
+    const client = createApiClient({
+      baseUrl: 'https://docs.company.com',
+      email: 'a@b.c',
+      token: 't',
+    })
+    const requested: string[] = []
+    const adapter: AxiosAdapter = async (config) => {
+      requested.push(`${config.baseURL}${config.url}`)
+      const status = config.baseURL?.endsWith('/wiki/rest/api') ? 200 : 404
+      const response = { data: {}, status, statusText: '', headers: { 'atl-traceid': 'x' }, config }
+      if (status === 404) {
+        throw new AxiosError('Not Found', 'ERR_BAD_REQUEST', config, null, response)
+      }
+      return response
+    }
+    client['axiosInstance'].defaults.adapter = adapter
+
+    expect(client.getDeployment()).toBe('datacenter')
+    await client.get('/space')
+
+    expect(requested).toEqual([
+      'https://docs.company.com/rest/api/space',
+      'https://docs.company.com/wiki/rest/api/space',
+    ])
+    expect(client.getDeployment()).toBe('cloud')
+    expect(client.getWebBaseUrl()).toBe('https://docs.company.com/wiki')
+  })
+
+  it('should keep Data Center when the first response has no Cloud headers', async () => {
+    const client = createApiClient({ baseUrl: 'https://company.com/confluence', token: 'pat' })
+    const adapter: AxiosAdapter = async (config) => ({
+      data: {},
+      status: 200,
+      statusText: '',
+      headers: {},
+      config,
+    })
+    client['axiosInstance'].defaults.adapter = adapter
+
+    await client.get('/space')
+
+    expect(client.getDeployment()).toBe('datacenter')
+    expect(client.getWebBaseUrl()).toBe('https://company.com/confluence')
+  })
+})
+
+describe('credentials', () => {
+  it('should treat a token without email as a Personal Access Token', () => {
+    expect(resolveAuthType(undefined, undefined)).toBe('bearer')
+    expect(resolveAuthType(undefined, 'me@company.com')).toBe('basic')
+    expect(resolveAuthType('basic', undefined)).toBe('basic')
+  })
+
+  it('should only require an email for basic auth', () => {
+    const bearer = ConfigSchema.parse({ baseUrl: 'https://company.com/confluence', token: 'pat' })
+    const basic = ConfigSchema.parse({
+      baseUrl: 'https://company.com/confluence',
+      authType: 'basic',
+      token: 'password',
+    })
+
+    expect(getMissingCredentials(bearer)).toEqual([])
+    expect(getMissingCredentials(basic)).toEqual(['email'])
+  })
+
+  it('should accept usernames on Data Center but require emails on Cloud', () => {
+    expect(
+      ConfigSchema.safeParse({ baseUrl: 'https://company.com/confluence', email: 'jdoe' }).success
+    ).toBe(true)
+    expect(
+      ConfigSchema.safeParse({ baseUrl: 'https://company.atlassian.net', email: 'jdoe' }).success
+    ).toBe(false)
+  })
+
+  it('should only reject API v2 once the deployment is known to be Data Center', () => {
+    const v2 = { api: { version: 'v2' } }
+
+    expect(ConfigSchema.safeParse(v2).success).toBe(true)
+    expect(
+      ConfigSchema.safeParse({ ...v2, baseUrl: 'https://company.atlassian.net' }).success
+    ).toBe(true)
+    expect(
+      ConfigSchema.safeParse({ ...v2, baseUrl: 'https://company.com/confluence' }).success
+    ).toBe(false)
+    expect(ConfigSchema.safeParse({ ...v2, deployment: 'datacenter' }).success).toBe(false)
+  })
+})
+
+describe('parseConfluenceUrl', () => {
+  it('should parse Cloud URLs', () => {
+    expect(
+      parseConfluenceUrl('https://company.atlassian.net/wiki/spaces/TEAM/pages/123/Page+Title')
+    ).toEqual({
+      type: 'page',
+      baseUrl: 'https://company.atlassian.net/wiki',
+      pageId: '123',
+      spaceKey: 'TEAM',
+    })
+    expect(parseConfluenceUrl('https://company.atlassian.net/wiki/spaces/TEAM/overview')).toEqual({
+      type: 'space',
+      baseUrl: 'https://company.atlassian.net/wiki',
+      spaceKey: 'TEAM',
+    })
+  })
+
+  it('should parse Data Center URLs with context paths', () => {
+    expect(parseConfluenceUrl('https://wiki.company.com/display/TEAM/Release+Notes%3A+2024')).toEqual(
+      {
+        type: 'page',
+        baseUrl: 'https://wiki.company.com',
+        spaceKey: 'TEAM',
+        title: 'Release Notes: 2024',
+      }
+    )
+    expect(parseConfluenceUrl('https://company.com/confluence/display/TEAM')).toEqual({
+      type: 'space',
+      baseUrl: 'https://company.com/confluence',
+      spaceKey: 'TEAM',
+    })
+    expect(
+      parseConfluenceUrl('https://company.com/confluence/pages/viewpage.action?pageId=456')
+    ).toEqual({ type: 'page', baseUrl: 'https://company.com/confluence', pageId: '456' })
+    expect(
+      parseConfluenceUrl('https://company.com/confluence/spaces/viewspace.action?key=OPS')
+    ).toEqual({ type: 'space', baseUrl: 'https://company.com/confluence', spaceKey: 'OPS' })
+  })
+
+  it('should reject URLs without a Confluence route', () => {
+    expect(() => parseConfluenceUrl('https://company.com/about')).toThrow('URL must be in format')
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { runDiagnostics, extractRateLimitHeaders } from '../src/core/diagnostics.js'
+import { AuthenticationError, AuthorizationError, NetworkError } from '../src/errors/index.js'
+
+type Responses = Record<string, unknown>
+
+function mockClient(responses: Responses, headers: Record<string, string> = {}) {
+  return {
+    getResponse: async (url: string) => {
+      const response = responses[url]
+      if (response instanceof Error) {
+        throw response
+      }
+      if (response === undefined) {
+        throw new Error(`Unexpected request: ${url}`)
+      }
+      return { data: response as any, status: 200, headers }
+    },
+  }
+}
+
+const resolve = async () => ({ address: '203.0.113.10' })
+
+describe('runDiagnostics', () => {
+  it('should pass all checks for a working token', async () => {
+    const report = await runDiagnostics({
+      baseUrl: 'https://company.atlassian.net',
+      lookup: resolve,
+      apiClient: mockClient(
+        {
+          '/user/current': { type: 'known', displayName: 'Jane Doe' },
+          '/content': { results: [{ id: '42' }] },
+          '/content/42': { body: { storage: { value: '<p>Hi</p>' } } },
+          '/content/42/child/attachment': { size: 0 },
+        },
+        { 'x-ratelimit-remaining': '98', 'atl-traceid': 'abc' }
+      ),
+    })
+
+    expect(report.success).toBe(true)
+    expect(report.checks.map((check) => check.status)).toEqual([
+      'pass',
+      'pass',
+      'pass',
+      'pass',
+      'pass',
+      'pass',
+      'pass',
+    ])
+    expect(report.deployment.type).toBe('cloud')
+    expect(report.rateLimit).toEqual({ 'x-ratelimit-remaining': '98' })
+  })
+
+  it('should distinguish rejected credentials from missing permissions', async () => {
+    const unauthorized = await runDiagnostics({
+      baseUrl: 'https://company.atlassian.net',
+      lookup: resolve,
+      apiClient: mockClient({ '/user/current': new AuthenticationError() }),
+    })
+    const forbidden = await runDiagnostics({
+      baseUrl: 'https://company.atlassian.net',
+      lookup: resolve,
+      apiClient: mockClient({ '/user/current': new AuthorizationError() }),
+    })
+
+    const auth = (report: typeof unauthorized) =>
+      report.checks.find((check) => check.name === 'Authentication')!
+
+    expect(unauthorized.success).toBe(false)
+    expect(auth(unauthorized).message).toContain('401')
+    expect(auth(forbidden).message).toContain('403')
+    expect(unauthorized.checks.find((check) => check.name === 'Read content')!.status).toBe('skip')
+  })
+
+  it('should stop at DNS and network failures', async () => {
+    const dns = await runDiagnostics({
+      baseUrl: 'https://missing.example.com',
+      lookup: async () => {
+        throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' })
+      },
+      apiClient: mockClient({}),
+    })
+    expect(dns.checks[1]).toMatchObject({ name: 'DNS', status: 'fail' })
+    expect(dns.checks.slice(2).every((check) => check.status === 'skip')).toBe(true)
+
+    const network = await runDiagnostics({
+      baseUrl: 'https://wiki.example.com',
+      lookup: resolve,
+      apiClient: mockClient({ '/user/current': new NetworkError() }),
+    })
+    expect(network.checks[2]).toMatchObject({ name: 'Reachability', status: 'fail' })
+  })
+
+  it('should fail when body.storage is not returned', async () => {
+    const report = await runDiagnostics({
+      baseUrl: 'https://wiki.example.com',
+      lookup: resolve,
+      apiClient: mockClient({
+        '/user/current': { type: 'known', displayName: 'Jane Doe' },
+        '/content': { results: [{ id: '42' }] },
+        '/content/42': {},
+        '/content/42/child/attachment': { size: 0 },
+      }),
+    })
+
+    expect(report.success).toBe(false)
+    expect(report.checks.find((check) => check.name === 'Read body.storage')!.status).toBe('fail')
+    expect(report.deployment.type).toBe('datacenter')
+  })
+})
+
+describe('extractRateLimitHeaders', () => {
+  it('should keep only rate-limit headers', () => {
+    expect(
+      extractRateLimitHeaders({
+        'x-ratelimit-limit': '100',
+        'retry-after': '5',
+        'content-type': 'application/json',
+      })
+    ).toEqual({ 'x-ratelimit-limit': '100', 'retry-after': '5' })
+  })
+})
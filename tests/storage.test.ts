@@ -1,15 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { mkdir, rm, access } from 'fs/promises'
+import fs from 'fs'
+import { mkdir, rm, access, writeFile } from 'fs/promises'
 import { join } from 'path'
 import { tmpdir } from 'os'
+import git from 'isomorphic-git'
 import {
   DirectoryManager,
   createDirectoryManager,
   AssetDownloader,
   createAssetDownloader,
   createFileWriter,
+  createPageHierarchy,
+  buildChangelog,
+  createGitRepository,
+  createStaticSite,
+  buildObsidianAppSettings,
 } from '../src/storage/index.js'
 import type { AttachmentHandler, Attachment } from '../src/core/attachment-handler.js'
+import type { ConfluencePage } from '../src/types.js'
 
 describe('DirectoryManager', () => {
   let testDir: string
@@ -82,6 +90,35 @@ describe('DirectoryManager', () => {
     })
   })
 
+  describe('static site layout', () => {
+    it('should place pages under the content directory and assets under the static directory', async () => {
+      const siteManager = createDirectoryManager(testDir, {
+        contentDir: 'docs',
+        staticDir: 'static',
+      })
+
+      expect(await siteManager.getSpaceDirectory('MSN')).toBe(join(testDir, 'docs', 'MSN'))
+      expect(await siteManager.getAssetsDirectory('MSN')).toBe(
+        join(testDir, 'static', 'assets', 'MSN')
+      )
+      expect(siteManager.getAssetsLinkPath('MSN', 2)).toBe('/assets/MSN')
+      expect(directoryManager.getAssetsLinkPath('MSN', 2)).toBe('../../assets')
+    })
+  })
+
+  describe('title file names', () => {
+    it('should keep titles and replace characters invalid in file names or wikilinks', async () => {
+      const vaultManager = createDirectoryManager(testDir, { titleFileNames: true })
+      const name = vaultManager.sanitizeFilename(' Q3 Plan: [Draft] #2  ')
+
+      expect(name).toBe('Q3 Plan- -Draft- -2')
+      expect(vaultManager.sanitizeFilename(name)).toBe(name)
+      expect(await vaultManager.getPageFilePath('MSN', 'Release Notes 2.1', '.md')).toBe(
+        join(testDir, 'MSN', 'Release Notes 2.1.md')
+      )
+    })
+  })
+
   describe('getPageFilePath', () => {
     it('should create page file path in space directory', async () => {
       const filePath = await directoryManager.getPageFilePath('MSN', 'My Page Title', '.md')
@@ -96,6 +133,79 @@ describe('DirectoryManager', () => {
       expect(filePath).toBe(join(testDir, 'MSN', '2.1.1-pay-by-facepay.md'))
     })
   })
+
+  describe('getBlogPostLocation', () => {
+    it('should file blog posts by UTC publish year and month', async () => {
+      const location = directoryManager.getBlogPostLocation(
+        'Release Notes: May',
+        new Date('2024-05-31T23:30:00Z')
+      )
+
+      expect(location).toEqual({
+        hierarchyPath: ['blog', '2024', '05'],
+        fileName: 'release-notes-may',
+      })
+
+      const filePath = await directoryManager.getPageFilePath(
+        'MSN',
+        location.fileName,
+        '.md',
+        location.hierarchyPath
+      )
+      expect(filePath).toBe(join(testDir, 'MSN', 'blog', '2024', '05', 'release-notes-may.md'))
+      expect(directoryManager.getRelativeAssetsPath(location.hierarchyPath.length)).toBe(
+        '../../../assets'
+      )
+    })
+  })
+  describe('getPageVersionLocation', () => {
+    it('should place versions below history/<page>/ in both layouts', () => {
+      expect(directoryManager.getPageVersionLocation('Security Policy', 3, 'files')).toEqual({
+        hierarchyPath: ['history', 'security-policy'],
+        fileName: 'security-policy@v3',
+      })
+      expect(directoryManager.getPageVersionLocation('Security Policy', 3, 'snapshots')).toEqual({
+        hierarchyPath: ['history', 'security-policy', 'v3'],
+        fileName: 'security-policy',
+      })
+    })
+  })
+})
+
+describe('buildChangelog', () => {
+  it('should list versions newest first with author, date and message', () => {
+    const changelog = buildChangelog('Security Policy', [
+      {
+        version: 1,
+        author: 'Jane Doe',
+        date: new Date('2024-01-10T08:15:42Z'),
+        message: 'Initial draft',
+        path: 'security-policy@v1.md',
+      },
+      { version: 2, minorEdit: true, path: 'v2/security policy.md' },
+    ])
+
+    expect(changelog).toBe(
+      [
+        '# Changelog: Security Policy',
+        '',
+        '## Version 2 (minor edit)',
+        '',
+        '- Author: Unknown',
+        '- Date: Unknown',
+        '- Message: _No version message_',
+        '- File: [v2/security policy.md](v2/security%20policy.md)',
+        '',
+        '## Version 1',
+        '',
+        '- Author: Jane Doe',
+        '- Date: 2024-01-10 08:15 UTC',
+        '- Message: Initial draft',
+        '- File: [security-policy@v1.md](security-policy@v1.md)',
+        '',
+      ].join('\n')
+    )
+  })
 })
 
 describe('AssetDownloader', () => {
@@ -113,6 +223,7 @@ describe('AssetDownloader', () => {
     mockAttachmentHandler = {
       fetchPageAttachments: vi.fn(),
       fetchPageImages: vi.fn(),
+      fetchDrawioDiagrams: vi.fn(),
       downloadAttachment: vi.fn(),
       downloadAttachmentByFilename: vi.fn(),
       downloadMermaidAttachments: vi.fn(),
@@ -247,4 +358,342 @@ describe('AssetDownloader', () => {
       expect(results[0].path).toContain(join('MSN', 'assets', 'document.pdf'))
     })
   })
+
+  describe('downloadDrawioDiagrams', () => {
+    it('should save the source as .drawio next to its previews', async () => {
+      const attachment = (filename: string, mediaType: string): Attachment => ({
+        id: filename,
+        title: filename,
+        filename,
+        mediaType,
+        fileSize: 512,
+        downloadUrl: `https://example.com/download/${encodeURIComponent(filename)}`,
+      })
+
+      vi.mocked(mockAttachmentHandler.fetchDrawioDiagrams).mockResolvedValue([
+        {
+          name: 'Payment flow',
+          source: attachment('Payment flow', 'application/vnd.jgraph.mxfile'),
+          png: attachment('Payment flow.png', 'image/png'),
+          svg: attachment('Payment flow.svg', 'image/svg+xml'),
+        },
+      ])
+      vi.mocked(mockAttachmentHandler.downloadAttachment).mockResolvedValue(
+        Buffer.from('<mxfile/>'),
+      )
+
+      const results = await assetDownloader.downloadDrawioDiagrams('123', 'MSN')
+
+      expect(results.map((r) => r.filename)).toEqual([
+        'Payment flow.drawio',
+        'Payment flow.png',
+        'Payment flow.svg',
+      ])
+      expect(results.every((r) => r.success)).toBe(true)
+      expect(results[0].path).toContain(join('MSN', 'assets', 'Payment flow.drawio'))
+    })
+  })
+})
+
+describe('PageHierarchy', () => {
+  const directoryManager = createDirectoryManager(tmpdir())
+
+  function page(id: string, title: string, ancestors: Array<{ id: string; title: string }> = []) {
+    return {
+      id,
+      title,
+      spaceKey: 'MSN',
+      content: { storage: '', view: '' },
+      metadata: { ancestors, parentId: ancestors[ancestors.length - 1]?.id },
+    } as ConfluencePage
+  }
+
+  function createHierarchy(pages: ConfluencePage[]) {
+    return createPageHierarchy({
+      pages,
+      sanitizeFilename: (name) => directoryManager.sanitizeFilename(name),
+    })
+  }
+
+  const home = { id: '1', title: 'Home' }
+  const guide = { id: '10', title: 'Guide' }
+
+  it('should place parents with children in index files', () => {
+    const hierarchy = createHierarchy([
+      page('1', 'Home'),
+      page('10', 'Guide', [home]),
+      page('11', 'Setup', [home, guide]),
+    ])
+
+    expect(hierarchy.getLocation('1')).toEqual({ hierarchyPath: ['home'], fileName: 'index' })
+    expect(hierarchy.getLocation('10')).toEqual({
+      hierarchyPath: ['home', 'guide'],
+      fileName: 'index',
+    })
+    expect(hierarchy.getLocation('11')).toEqual({
+      hierarchyPath: ['home', 'guide'],
+      fileName: 'setup',
+    })
+    expect(hierarchy.getParentId('11')).toBe('10')
+  })
+
+  it('should attach pages to the nearest exported ancestor', () => {
+    const hierarchy = createHierarchy([page('1', 'Home'), page('11', 'Setup', [home, guide])])
+
+    expect(hierarchy.getLocation('11')).toEqual({ hierarchyPath: ['home'], fileName: 'setup' })
+  })
+
+  it('should disambiguate sibling title collisions deterministically', () => {
+    const pages = [
+      page('1', 'Home'),
+      page('200', 'Meeting Notes', [home]),
+      page('30', 'meeting notes', [home]),
+      page('40', 'Index', [home]),
+    ]
+
+    const forward = createHierarchy(pages)
+    const reversed = createHierarchy([...pages].reverse())
+
+    for (const hierarchy of [forward, reversed]) {
+      expect(hierarchy.getLocation('30').fileName).toBe('meeting-notes')
+      expect(hierarchy.getLocation('200').fileName).toBe('meeting-notes-200')
+      expect(hierarchy.getLocation('40').fileName).toBe('index-40')
+    }
+  })
+
+  it('should use the configured index file name', () => {
+    const hierarchy = createPageHierarchy({
+      pages: [page('1', 'Home'), page('10', 'Guide', [home]), page('40', '_index', [home])],
+      sanitizeFilename: (name) => directoryManager.sanitizeFilename(name),
+      indexFileName: '_index',
+    })
+
+    expect(hierarchy.getLocation('1')).toEqual({ hierarchyPath: ['home'], fileName: '_index' })
+    expect(hierarchy.getLocation('40').fileName).not.toBe('_index')
+  })
+
+  it('should name parents after their directory with folder notes', () => {
+    const vaultManager = createDirectoryManager(tmpdir(), { titleFileNames: true })
+    const hierarchy = createPageHierarchy({
+      pages: [
+        page('1', 'Home'),
+        page('10', 'Guide', [home]),
+        page('11', 'guide', [home, guide]),
+        page('12', 'Setup', [home, guide]),
+        page('20', 'home', [home]),
+      ],
+      sanitizeFilename: (name) => vaultManager.sanitizeFilename(name),
+      folderNotes: true,
+    })
+
+    expect(hierarchy.getLocation('1')).toEqual({ hierarchyPath: ['Home'], fileName: 'Home' })
+    expect(hierarchy.getLocation('10')).toEqual({
+      hierarchyPath: ['Home', 'Guide'],
+      fileName: 'Guide',
+    })
+    expect(hierarchy.getLocation('12').fileName).toBe('Setup')
+    // The parent's file takes its name inside its directory, regardless of case
+    expect(hierarchy.getLocation('11').fileName).toBe('guide-11')
+    expect(hierarchy.getLocation('20').fileName).toBe('home-20')
+  })
+})
+
+describe('StaticSite', () => {
+  const pages = [
+    { id: '1', title: 'Home', path: 'docs/MSN/home/index.md', type: 'page' as const },
+    {
+      id: '10',
+      title: 'Setup',
+      path: 'docs/MSN/home/setup.md',
+      parentId: '1',
+      type: 'page' as const,
+      position: 2,
+    },
+    {
+      id: '11',
+      title: 'Install',
+      path: 'docs/MSN/home/install.md',
+      parentId: '1',
+      type: 'page' as const,
+      position: 1,
+    },
+    {
+      id: '20',
+      title: 'Release',
+      path: 'docs/MSN/blog/2024/05/release.md',
+      type: 'blogpost' as const,
+      publishedAt: '2024-05-02T10:00:00Z',
+    },
+  ]
+
+  it('should number siblings by Confluence position and set docusaurus slugs', () => {
+    const site = createStaticSite({ generator: 'docusaurus', title: 'Docs', pages })
+
+    expect(site.getPageSettings('1')).toEqual({
+      generator: 'docusaurus',
+      position: 1,
+      slug: '/MSN/home',
+    })
+    expect(site.getPageSettings('11')?.position).toBe(1)
+    expect(site.getPageSettings('10')).toEqual({
+      generator: 'docusaurus',
+      position: 2,
+      slug: '/MSN/home/setup',
+    })
+  })
+
+  it('should generate a docusaurus home page for the root route', () => {
+    const site = createStaticSite({ generator: 'docusaurus', title: 'Docs', pages })
+    const files = site.buildFiles()
+
+    expect(files.map((file) => file.path)).toEqual([
+      'sidebars.js',
+      'docusaurus.config.js',
+      'package.json',
+      'docs/index.md',
+    ])
+    expect(files[1].content).toContain('"routeBasePath": "/"')
+    expect(files[3].content).toBe(
+      [
+        '---',
+        'title: "Docs"',
+        'slug: /',
+        '---',
+        '',
+        '# Docs',
+        '',
+        '- [Home](<MSN/home/index.md>)',
+        '',
+        '## Blog',
+        '',
+        '- [Release](<MSN/blog/2024/05/release.md>)',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('should generate mkdocs navigation without pages missing from the export', () => {
+    const site = createStaticSite({ generator: 'mkdocs', title: 'Docs', pages })
+    const [config] = site.buildFiles(new Set(['10', '11', '20']))
+
+    expect(config.path).toBe('mkdocs.yml')
+    expect(config.content).toContain('docs_dir: docs')
+    expect(config.content).toContain(
+      [
+        'nav:',
+        '  - "Install": "MSN/home/install.md"',
+        '  - "Setup": "MSN/home/setup.md"',
+        '  - "Blog":',
+        '      - "Release": "MSN/blog/2024/05/release.md"',
+      ].join('\n')
+    )
+    expect(config.content).not.toContain('"Home"')
+  })
+
+  it('should generate hugo menus and starter layouts', () => {
+    const hugoPages = pages.map((page) => ({
+      ...page,
+      path: page.path.replace(/^docs\//, 'content/').replace(/\/index\.md$/, '/_index.md'),
+    }))
+    const site = createStaticSite({ generator: 'hugo', title: 'Docs', pages: hugoPages })
+    const files = site.buildFiles()
+
+    expect(files.map((file) => file.path)).toEqual([
+      'hugo.toml',
+      'layouts/_default/baseof.html',
+      'layouts/_default/single.html',
+      'layouts/_default/list.html',
+    ])
+    expect(files[0].content).toContain('pageRef = "/MSN/home"')
+    expect(files.filter((file) => file.keepExisting)).toHaveLength(3)
+    expect(site.getPageSettings('1')?.slug).toBeUndefined()
+    expect(site.getPageSettings('10')).toEqual({ generator: 'hugo', position: 2, slug: 'setup' })
+  })
+})
+
+describe('buildObsidianAppSettings', () => {
+  it('should point attachments at the space assets and keep other vault settings', () => {
+    expect(buildObsidianAppSettings('MSN', { theme: 'obsidian', useMarkdownLinks: true })).toEqual({
+      theme: 'obsidian',
+      attachmentFolderPath: 'MSN/assets',
+      useMarkdownLinks: false,
+      newLinkFormat: 'shortest',
+    })
+  })
+})
+
+describe('GitRepository', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `conflu-git-${Date.now()}`)
+    await mkdir(join(testDir, 'TEAM', 'guides'), { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should commit page versions with their author and date and read them back', async () => {
+    const repository = createGitRepository({ dir: testDir })
+    await repository.initialize()
+
+    expect(await repository.readCommittedVersions()).toEqual(new Map())
+
+    await writeFile(join(testDir, 'TEAM', 'guide.md'), '# Guide v1')
+    await repository.commitPageVersion({
+      pageId: '42',
+      version: 1,
+      path: 'TEAM/guide.md',
+      message: 'Create Guide',
+      author: {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        date: new Date('2024-01-10T08:00:00Z'),
+      },
+    })
+
+    // The page moved below a parent with its second version
+    await writeFile(join(testDir, 'TEAM', 'guides', 'guide.md'), '# Guide v2')
+    await repository.commitPageVersion({
+      pageId: '42',
+      version: 2,
+      path: 'TEAM/guides/guide.md',
+      previousPath: 'TEAM/guide.md',
+      message: 'Update Guide\n\nFix typos',
+      author: {
+        name: 'John Roe',
+        email: 'john@example.com',
+        date: new Date('2024-02-01T12:30:00Z'),
+      },
+    })
+
+    const log = await git.log({ fs, dir: testDir })
+    expect(log.map(({ commit }) => [commit.author.name, commit.author.timestamp])).toEqual([
+      ['John Roe', Date.parse('2024-02-01T12:30:00Z') / 1000],
+      ['Jane Doe', Date.parse('2024-01-10T08:00:00Z') / 1000],
+    ])
+    expect(log[0].commit.message).toContain(
+      'Fix typos\n\nConfluence-Page-Id: 42\nConfluence-Version: 2'
+    )
+
+    expect(await git.listFiles({ fs, dir: testDir })).toEqual(['TEAM/guides/guide.md'])
+    await expect(access(join(testDir, 'TEAM', 'guide.md'))).rejects.toThrow()
+
+    expect(await repository.readCommittedVersions()).toEqual(
+      new Map([['42', { pageId: '42', version: 2, path: 'TEAM/guides/guide.md' }]])
+    )
+  })
+
+  it('should only commit files that changed', async () => {
+    const repository = createGitRepository({ dir: testDir })
+    await repository.initialize()
+    const author = { name: 'conflu-exporter', email: 'bot@example.com' }
+
+    await mkdir(join(testDir, 'TEAM', 'assets'))
+    await writeFile(join(testDir, 'TEAM', 'assets', 'diagram.png'), 'png')
+
+    expect(await repository.commitFiles(['TEAM/assets'], 'Update attachments', author)).toBeDefined()
+    expect(await repository.commitFiles(['TEAM/assets'], 'Update attachments', author)).toBeUndefined()
+  })
 })
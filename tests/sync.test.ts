@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { planSync } from '../src/core/sync-planner.js'
+import type { ManifestPage } from '../src/storage/manifest.js'
+import type { ConfluencePageSummary } from '../src/types.js'
+
+function entry(id: string, version: number, path: string): ManifestPage {
+  return { id, title: `Page ${id}`, spaceKey: 'TEAM', path, version, attachments: 0 }
+}
+
+function summary(id: string, version: number): ConfluencePageSummary {
+  return { id, title: `Page ${id}`, spaceKey: 'TEAM', version }
+}
+
+describe('planSync', () => {
+  const paths: Record<string, string> = {
+    '1': 'TEAM/page-1.md',
+    '2': 'TEAM/page-2.md',
+    '3': 'TEAM/parent/page-3.md',
+    '5': 'TEAM/page-5.md',
+  }
+  const resolvePath = (page: ConfluencePageSummary) => paths[page.id]
+
+  it('should classify pages by version and path', () => {
+    const previous = [
+      entry('1', 1, 'TEAM/page-1.md'),
+      entry('2', 3, 'TEAM/page-2.md'),
+      entry('3', 2, 'TEAM/page-3.md'),
+      entry('4', 1, 'TEAM/page-4.md'),
+    ]
+    const current = [summary('1', 1), summary('2', 4), summary('3', 2), summary('5', 1)]
+
+    const plan = planSync(previous, current, resolvePath)
+
+    expect(plan.unchanged.map((p) => p.id)).toEqual(['1'])
+    expect(plan.updated.map((p) => p.page.id)).toEqual(['2'])
+    expect(plan.moved.map((p) => [p.previous?.path, p.path])).toEqual([
+      ['TEAM/page-3.md', 'TEAM/parent/page-3.md'],
+    ])
+    expect(plan.added.map((p) => p.page.id)).toEqual(['5'])
+    expect(plan.deleted.map((p) => p.id)).toEqual(['4'])
+  })
+
+  it('should read versions from metadata in older manifests', () => {
+    const previous: ManifestPage[] = [
+      { ...entry('1', 1, 'TEAM/page-1.md'), version: undefined, metadata: { version: 1 } },
+    ]
+
+    const plan = planSync(previous, [summary('1', 1)], resolvePath)
+
+    expect(plan.unchanged).toHaveLength(1)
+  })
+
+  it('should treat every page as added without a previous manifest', () => {
+    const plan = planSync([], [summary('1', 1), summary('2', 1)], resolvePath)
+
+    expect(plan.added).toHaveLength(2)
+    expect(plan.deleted).toHaveLength(0)
+  })
+})
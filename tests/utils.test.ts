@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { formatDate, sanitizeFilename, extractSpaceKey } from '../src/utils.js'
+import { formatDate, parseDate, sanitizeFilename, extractSpaceKey } from '../src/utils.js'
 
 describe('utils', () => {
   describe('formatDate', () => {
@@ -11,6 +11,19 @@ describe('utils', () => {
     })
   })
 
+  describe('parseDate', () => {
+    it('should parse YYYY-MM-DD as UTC midnight or end of day', () => {
+      expect(parseDate('2024-02-29')?.toISOString()).toBe('2024-02-29T00:00:00.000Z')
+      expect(parseDate('2024-02-29', true)?.toISOString()).toBe('2024-02-29T23:59:59.999Z')
+    })
+
+    it('should reject other formats and impossible dates', () => {
+      expect(parseDate('2024-2-1')).toBeUndefined()
+      expect(parseDate('2023-02-29')).toBeUndefined()
+      expect(parseDate('yesterday')).toBeUndefined()
+    })
+  })
+
   describe('sanitizeFilename', () => {
     it('should remove invalid characters from filename', () => {
       const result = sanitizeFilename('My File: Name (2024)!')